@@ -0,0 +1,61 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  HttpException,
+  Injectable,
+  NestInterceptor,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { Observable, tap } from 'rxjs';
+import { Counter, Histogram, MetricsService } from './metrics.service';
+
+const SECOND_MS = 1000;
+
+/**
+ * Global interceptor timing every HTTP handler by method, route pattern and status. The route
+ * pattern (e.g. /lists/:listId) keeps ids out of the labels. Requests rejected
+ * by guards never reach interceptors, so 401/403s from auth are not counted here.
+ */
+@Injectable()
+export class MetricsInterceptor implements NestInterceptor {
+  private readonly duration: Histogram;
+  private readonly requests: Counter;
+
+  constructor(metrics: MetricsService) {
+    this.duration = metrics.histogram(
+      'http_request_duration_seconds',
+      'HTTP request latency by method, route and status',
+    );
+    this.requests = metrics.counter(
+      'http_requests_total',
+      'HTTP requests by method, route and status',
+    );
+  }
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    if (context.getType() !== 'http') return next.handle();
+
+    const http = context.switchToHttp();
+    const request = http.getRequest<Request>();
+    const startedAt = Date.now();
+
+    const record = (status: number) => {
+      const labels = {
+        method: request.method,
+        route:
+          (request.route as { path?: string } | undefined)?.path ?? 'unmatched',
+        status,
+      };
+      this.duration.observe(labels, (Date.now() - startedAt) / SECOND_MS);
+      this.requests.inc(labels);
+    };
+
+    return next.handle().pipe(
+      tap({
+        next: () => record(http.getResponse<Response>().statusCode),
+        error: (error) =>
+          record(error instanceof HttpException ? error.getStatus() : 500),
+      }),
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { Logger } from '@nestjs/common';
+import { Gauge, MetricsService } from './metrics.service';
+
+describe('MetricsService', () => {
+  let service: MetricsService;
+
+  beforeEach(() => {
+    service = new MetricsService();
+  });
+
+  it('should render counters in the Prometheus text format', async () => {
+    const counter = service.counter('http_requests_total', 'HTTP requests');
+    counter.inc({ method: 'GET', route: '/metrics', status: 200 });
+    counter.inc({ status: 200, route: '/metrics', method: 'GET' }, 2);
+    counter.inc({ method: 'GET', route: 'say "hi"\n', status: 500 });
+
+    await expect(service.render()).resolves.toBe(
+      [
+        '# HELP http_requests_total HTTP requests',
+        '# TYPE http_requests_total counter',
+        'http_requests_total{method="GET",route="/metrics",status="200"} 3',
+        'http_requests_total{method="GET",route="say \\"hi\\"\\n",status="500"} 1',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('should render cumulative histogram buckets with sum and count', async () => {
+    const histogram = service.histogram(
+      'sync_seconds',
+      'Sync duration',
+      [1, 5],
+    );
+    histogram.observe({ provider: 'strava' }, 0.5);
+    histogram.observe({ provider: 'strava' }, 3);
+    histogram.observe({ provider: 'strava' }, 10);
+
+    const output = await service.render();
+
+    expect(output).toContain('sync_seconds_bucket{provider="strava",le="1"} 1');
+    expect(output).toContain('sync_seconds_bucket{provider="strava",le="5"} 2');
+    expect(output).toContain(
+      'sync_seconds_bucket{provider="strava",le="+Inf"} 3',
+    );
+    expect(output).toContain('sync_seconds_sum{provider="strava"} 13.5');
+    expect(output).toContain('sync_seconds_count{provider="strava"} 3');
+  });
+
+  it('should collect gauges on render and keep the last values when collection fails', async () => {
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+    const collect = jest
+      .fn()
+      .mockImplementationOnce((gauge: Gauge) =>
+        gauge.set({ status: 'PENDING' }, 4),
+      )
+      .mockRejectedValueOnce(new Error('db down'));
+    service.gauge('queue_depth', 'Queued jobs', collect);
+
+    await expect(service.render()).resolves.toContain(
+      'queue_depth{status="PENDING"} 4',
+    );
+    await expect(service.render()).resolves.toContain(
+      'queue_depth{status="PENDING"} 4',
+    );
+    expect(collect).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return the existing metric when a name is registered twice', () => {
+    expect(service.counter('jobs_total', 'Jobs')).toBe(
+      service.counter('jobs_total', 'Jobs'),
+    );
+  });
+});
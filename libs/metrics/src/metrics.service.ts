@@ -0,0 +1,194 @@
+import { Injectable, Logger } from '@nestjs/common';
+
+export type MetricLabels = Record<string, string | number>;
+
+type Series = { labels: MetricLabels; value: number };
+
+type HistogramSeries = {
+  labels: MetricLabels;
+  counts: number[];
+  sum: number;
+  count: number;
+};
+
+// Seconds; suits HTTP handlers as well as provider syncs
+export const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 300,
+];
+
+function escapeLabelValue(value: string | number): string {
+  return String(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+// Labels sorted by name so { a, b } and { b, a } land in the same series
+function seriesKey(labels: MetricLabels): string {
+  return JSON.stringify(
+    Object.keys(labels)
+      .sort()
+      .map((key) => [key, String(labels[key])]),
+  );
+}
+
+abstract class Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: 'counter' | 'gauge' | 'histogram',
+  ) {}
+
+  abstract lines(): string[];
+
+  render(): string {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.lines(),
+    ].join('\n');
+  }
+}
+
+export class Counter extends Metric {
+  private readonly series = new Map<string, Series>();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: MetricLabels = {}, value = 1) {
+    const key = seriesKey(labels);
+    const series = this.series.get(key) ?? { labels, value: 0 };
+    series.value += value;
+    this.series.set(key, series);
+  }
+
+  lines(): string[] {
+    return [...this.series.values()].map(
+      (series) => `${this.name}${formatLabels(series.labels)} ${series.value}`,
+    );
+  }
+}
+
+export class Gauge extends Metric {
+  private readonly series = new Map<string, Series>();
+
+  constructor(
+    name: string,
+    help: string,
+    // Called before every render to refresh the values, e.g. from the database
+    readonly collect?: (gauge: Gauge) => Promise<void> | void,
+  ) {
+    super(name, help, 'gauge');
+  }
+
+  set(labels: MetricLabels, value: number) {
+    this.series.set(seriesKey(labels), { labels, value });
+  }
+
+  lines(): string[] {
+    return [...this.series.values()].map(
+      (series) => `${this.name}${formatLabels(series.labels)} ${series.value}`,
+    );
+  }
+}
+
+export class Histogram extends Metric {
+  private readonly series = new Map<string, HistogramSeries>();
+
+  constructor(
+    name: string,
+    help: string,
+    readonly buckets: number[] = DEFAULT_BUCKETS,
+  ) {
+    super(name, help, 'histogram');
+  }
+
+  observe(labels: MetricLabels, value: number) {
+    const key = seriesKey(labels);
+    const series = this.series.get(key) ?? {
+      labels,
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) series.counts[index]++;
+    });
+    series.sum += value;
+    series.count++;
+    this.series.set(key, series);
+  }
+
+  lines(): string[] {
+    return [...this.series.values()].flatMap((series) => [
+      ...this.buckets.map(
+        (bound, index) =>
+          `${this.name}_bucket${formatLabels({ ...series.labels, le: bound })} ${series.counts[index]}`,
+      ),
+      `${this.name}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`,
+      `${this.name}_sum${formatLabels(series.labels)} ${series.sum}`,
+      `${this.name}_count${formatLabels(series.labels)} ${series.count}`,
+    ]);
+  }
+}
+
+/**
+ * In-process metrics registry, rendered in the Prometheus text exposition format by GET /metrics.
+ *
+ * Registering a name twice returns the existing metric, so modules can declare the metrics they
+ * use without coordinating. Values live in memory and reset when the process restarts, which
+ * Prometheus handles for counters and histograms.
+ */
+@Injectable()
+export class MetricsService {
+  private readonly logger = new Logger(MetricsService.name);
+  private readonly metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string): Counter {
+    return this.register(name, () => new Counter(name, help));
+  }
+
+  gauge(
+    name: string,
+    help: string,
+    collect?: (gauge: Gauge) => Promise<void> | void,
+  ): Gauge {
+    return this.register(name, () => new Gauge(name, help, collect));
+  }
+
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.register(name, () => new Histogram(name, help, buckets));
+  }
+
+  async render(): Promise<string> {
+    const metrics = [...this.metrics.values()];
+    for (const metric of metrics) {
+      if (!(metric instanceof Gauge) || !metric.collect) continue;
+      try {
+        await metric.collect(metric);
+      } catch (error) {
+        // Serve the last collected values rather than failing the whole scrape
+        this.logger.warn(
+          `Failed to collect ${metric.name}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    }
+    return metrics.map((metric) => metric.render()).join('\n') + '\n';
+  }
+
+  private register<T extends Metric>(name: string, create: () => T): T {
+    const existing = this.metrics.get(name);
+    if (existing) return existing as T;
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
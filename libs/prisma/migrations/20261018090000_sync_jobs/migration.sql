@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "public"."SyncJobs" (
+    "syncJobId" VARCHAR(36) NOT NULL,
+    "recSeq" INTEGER NOT NULL DEFAULT 0,
+    "recStatus" TEXT NOT NULL DEFAULT 'A',
+    "userId" VARCHAR(36) NOT NULL,
+    "userRecSeq" INTEGER NOT NULL DEFAULT 0,
+    "provider" VARCHAR(50) NOT NULL,
+    "status" VARCHAR(20) NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "maxAttempts" INTEGER NOT NULL DEFAULT 5,
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "lockedBy" VARCHAR(100),
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "lastErrorCode" VARCHAR(50),
+    "result" JSON,
+    "dataStatus" VARCHAR(1) NOT NULL DEFAULT 'A',
+    "createdBy" TEXT NOT NULL DEFAULT 'System',
+    "createdOn" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "modifiedOn" TIMESTAMP(3) NOT NULL,
+    "modifiedBy" VARCHAR(50),
+
+    CONSTRAINT "SyncJobs_pkey" PRIMARY KEY ("syncJobId","recSeq")
+);
+
+-- CreateIndex
+CREATE INDEX "SyncJobs_status_runAt_idx" ON "public"."SyncJobs"("status", "runAt");
+
+-- CreateIndex
+CREATE INDEX "SyncJobs_userId_provider_status_idx" ON "public"."SyncJobs"("userId", "provider", "status");
+
+-- AddForeignKey
+ALTER TABLE "public"."SyncJobs" ADD CONSTRAINT "SyncJobs_userId_userRecSeq_fkey" FOREIGN KEY ("userId", "userRecSeq") REFERENCES "public"."Users"("userId", "recSeq") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "public"."SyncRuns" (
+    "syncRunId" VARCHAR(36) NOT NULL,
+    "recSeq" INTEGER NOT NULL DEFAULT 0,
+    "recStatus" TEXT NOT NULL DEFAULT 'A',
+    "userId" VARCHAR(36) NOT NULL,
+    "userRecSeq" INTEGER NOT NULL DEFAULT 0,
+    "provider" VARCHAR(50) NOT NULL,
+    "status" VARCHAR(20) NOT NULL,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "finishedAt" TIMESTAMP(3) NOT NULL,
+    "durationMs" INTEGER NOT NULL,
+    "itemsCreated" INTEGER NOT NULL DEFAULT 0,
+    "itemsUpdated" INTEGER NOT NULL DEFAULT 0,
+    "itemsSkipped" INTEGER NOT NULL DEFAULT 0,
+    "errorClass" VARCHAR(100),
+    "errorMessage" TEXT,
+    "details" JSON,
+    "dataStatus" VARCHAR(1) NOT NULL DEFAULT 'A',
+    "createdBy" TEXT NOT NULL DEFAULT 'System',
+    "createdOn" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "modifiedOn" TIMESTAMP(3) NOT NULL,
+    "modifiedBy" VARCHAR(50),
+
+    CONSTRAINT "SyncRuns_pkey" PRIMARY KEY ("syncRunId","recSeq")
+);
+
+-- CreateIndex
+CREATE INDEX "SyncRuns_userId_provider_startedAt_idx" ON "public"."SyncRuns"("userId", "provider", "startedAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."SyncRuns" ADD CONSTRAINT "SyncRuns_userId_userRecSeq_fkey" FOREIGN KEY ("userId", "userRecSeq") REFERENCES "public"."Users"("userId", "recSeq") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "public"."SyncCursors" (
+    "syncCursorId" VARCHAR(36) NOT NULL,
+    "recSeq" INTEGER NOT NULL DEFAULT 0,
+    "recStatus" TEXT NOT NULL DEFAULT 'A',
+    "userId" VARCHAR(36) NOT NULL,
+    "userRecSeq" INTEGER NOT NULL DEFAULT 0,
+    "provider" VARCHAR(50) NOT NULL,
+    "name" VARCHAR(50) NOT NULL,
+    "cursor" TEXT NOT NULL,
+    "dataStatus" VARCHAR(1) NOT NULL DEFAULT 'A',
+    "createdBy" TEXT NOT NULL DEFAULT 'System',
+    "createdOn" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "modifiedOn" TIMESTAMP(3) NOT NULL,
+    "modifiedBy" VARCHAR(50),
+
+    CONSTRAINT "SyncCursors_pkey" PRIMARY KEY ("syncCursorId","recSeq")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SyncCursors_userId_userRecSeq_provider_name_key" ON "public"."SyncCursors"("userId", "userRecSeq", "provider", "name");
+
+-- AddForeignKey
+ALTER TABLE "public"."SyncCursors" ADD CONSTRAINT "SyncCursors_userId_userRecSeq_fkey" FOREIGN KEY ("userId", "userRecSeq") REFERENCES "public"."Users"("userId", "recSeq") ON DELETE CASCADE ON UPDATE CASCADE;
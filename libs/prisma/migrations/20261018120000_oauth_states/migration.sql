@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."OAuthStates" (
+    "oauthStateId" VARCHAR(36) NOT NULL,
+    "recSeq" INTEGER NOT NULL DEFAULT 0,
+    "recStatus" TEXT NOT NULL DEFAULT 'A',
+    "userId" VARCHAR(36) NOT NULL,
+    "userRecSeq" INTEGER NOT NULL DEFAULT 0,
+    "provider" VARCHAR(50) NOT NULL,
+    "codeVerifier" VARCHAR(128),
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "consumedAt" TIMESTAMP(3),
+    "dataStatus" VARCHAR(1) NOT NULL DEFAULT 'A',
+    "createdBy" TEXT NOT NULL DEFAULT 'System',
+    "createdOn" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "modifiedOn" TIMESTAMP(3) NOT NULL,
+    "modifiedBy" VARCHAR(50),
+
+    CONSTRAINT "OAuthStates_pkey" PRIMARY KEY ("oauthStateId","recSeq")
+);
+
+-- CreateIndex
+CREATE INDEX "OAuthStates_expiresAt_idx" ON "public"."OAuthStates"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."OAuthStates" ADD CONSTRAINT "OAuthStates_userId_userRecSeq_fkey" FOREIGN KEY ("userId", "userRecSeq") REFERENCES "public"."Users"("userId", "recSeq") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "public"."WebhookEvents" (
+    "webhookEventId" VARCHAR(36) NOT NULL,
+    "recSeq" INTEGER NOT NULL DEFAULT 0,
+    "recStatus" TEXT NOT NULL DEFAULT 'A',
+    "provider" VARCHAR(50) NOT NULL,
+    "eventType" VARCHAR(100) NOT NULL,
+    "userId" VARCHAR(36),
+    "payload" JSONB NOT NULL,
+    "headers" JSONB,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'RECEIVED',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processedAt" TIMESTAMP(3),
+    "dataStatus" VARCHAR(1) NOT NULL DEFAULT 'A',
+    "createdBy" TEXT NOT NULL DEFAULT 'System',
+    "createdOn" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "modifiedOn" TIMESTAMP(3) NOT NULL,
+    "modifiedBy" VARCHAR(50),
+
+    CONSTRAINT "WebhookEvents_pkey" PRIMARY KEY ("webhookEventId","recSeq")
+);
+
+-- CreateIndex
+CREATE INDEX "WebhookEvents_provider_receivedAt_idx" ON "public"."WebhookEvents"("provider", "receivedAt");
+
+-- CreateIndex
+CREATE INDEX "WebhookEvents_userId_idx" ON "public"."WebhookEvents"("userId");
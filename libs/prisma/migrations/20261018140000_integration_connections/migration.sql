@@ -0,0 +1,109 @@
+-- AlterTable
+ALTER TABLE "public"."UserIntegrations" ADD COLUMN "label" VARCHAR(100);
+
+-- AlterTable
+ALTER TABLE "public"."OAuthCredentials" ADD COLUMN "userIntegrationId" VARCHAR(36),
+ADD COLUMN "userIntegrationRecSeq" INTEGER DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."ListItems" ADD COLUMN "userIntegrationId" VARCHAR(36),
+ADD COLUMN "userIntegrationRecSeq" INTEGER DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."SyncJobs" ADD COLUMN "userIntegrationId" VARCHAR(36);
+
+-- AlterTable
+ALTER TABLE "public"."SyncRuns" ADD COLUMN "userIntegrationId" VARCHAR(36);
+
+-- AlterTable
+ALTER TABLE "public"."SyncCursors" ADD COLUMN "userIntegrationId" VARCHAR(36) NOT NULL DEFAULT '';
+
+-- Backfill: until now a user had at most one link per integration, so it owns the existing rows
+UPDATE "public"."OAuthCredentials" c
+SET "userIntegrationId" = ui."userIntegrationId", "userIntegrationRecSeq" = ui."recSeq"
+FROM "public"."UserIntegrations" ui
+WHERE ui."userId" = c."userId"
+  AND ui."userRecSeq" = c."userRecSeq"
+  AND ui."integrationId" = c."integrationId"
+  AND ui."integrationRecSeq" = c."integrationRecSeq"
+  AND ui."recSeq" = 0;
+
+-- SyncCursors.provider and attributes.external.provider hold the provider name, which differs from
+-- Integrations.name for some providers (PROVIDER_BY_INTEGRATION_NAME and EXTERNAL_PROVIDER_NAMES in
+-- user-service/src/integrations/types.ts). Rows not listed here use the integration name.
+CREATE TEMPORARY TABLE "_IntegrationProviderNames" ("integrationName", "provider", "itemProvider") AS
+VALUES
+  ('web_scrapping_goodreads', 'goodreads', 'goodreads'),
+  ('email_scraper', 'email_scraper', 'gmail');
+
+UPDATE "public"."SyncCursors" sc
+SET "userIntegrationId" = ui."userIntegrationId"
+FROM "public"."UserIntegrations" ui
+JOIN "public"."Integrations" i ON i."integrationId" = ui."integrationId" AND i."recSeq" = ui."integrationRecSeq"
+LEFT JOIN "_IntegrationProviderNames" n ON n."integrationName" = i."name"
+WHERE ui."userId" = sc."userId"
+  AND ui."userRecSeq" = sc."userRecSeq"
+  AND COALESCE(n."provider", i."name") = sc."provider"
+  AND ui."recSeq" = 0;
+
+UPDATE "public"."ListItems" li
+SET "userIntegrationId" = ui."userIntegrationId", "userIntegrationRecSeq" = ui."recSeq"
+FROM "public"."UserLists" ul, "public"."UserIntegrations" ui
+JOIN "public"."Integrations" i ON i."integrationId" = ui."integrationId" AND i."recSeq" = ui."integrationRecSeq"
+LEFT JOIN "_IntegrationProviderNames" n ON n."integrationName" = i."name"
+WHERE ul."userListId" = li."userListId"
+  AND ul."recSeq" = li."userListRecSeq"
+  AND ui."userId" = ul."userId"
+  AND ui."userRecSeq" = ul."userRecSeq"
+  AND ui."recSeq" = 0
+  AND li."attributes"->'external'->>'provider' IN (COALESCE(n."provider", i."name"), n."itemProvider");
+
+-- A user with a single link owns all of their cursors; any left over means a provider name is missing above
+DO $$
+DECLARE
+  unassigned INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO unassigned
+  FROM "public"."SyncCursors" sc
+  WHERE sc."userIntegrationId" = ''
+    AND (
+      SELECT COUNT(*)
+      FROM "public"."UserIntegrations" ui
+      WHERE ui."userId" = sc."userId"
+        AND ui."userRecSeq" = sc."userRecSeq"
+        AND ui."recSeq" = 0
+    ) = 1;
+
+  IF unassigned > 0 THEN
+    RAISE EXCEPTION '% sync cursor(s) of single-link users were not assigned to a connection', unassigned;
+  END IF;
+END $$;
+
+DROP TABLE "_IntegrationProviderNames";
+
+-- DropIndex
+DROP INDEX "public"."OAuthCredentials_userId_userRecSeq_integrationId_integratio_key";
+
+-- DropIndex
+DROP INDEX "public"."SyncCursors_userId_userRecSeq_provider_name_key";
+
+-- CreateIndex
+CREATE INDEX "UserIntegrations_userId_integrationId_idx" ON "public"."UserIntegrations"("userId", "integrationId");
+
+-- CreateIndex
+CREATE INDEX "ListItems_userIntegrationId_idx" ON "public"."ListItems"("userIntegrationId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OAuthCredentials_userIntegrationId_userIntegrationRecSeq_key" ON "public"."OAuthCredentials"("userIntegrationId", "userIntegrationRecSeq");
+
+-- CreateIndex
+CREATE INDEX "OAuthCredentials_userId_userRecSeq_integrationId_integratio_idx" ON "public"."OAuthCredentials"("userId", "userRecSeq", "integrationId", "integrationRecSeq");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SyncCursors_userId_userRecSeq_provider_userIntegrationId_na_key" ON "public"."SyncCursors"("userId", "userRecSeq", "provider", "userIntegrationId", "name");
+
+-- AddForeignKey
+ALTER TABLE "public"."ListItems" ADD CONSTRAINT "ListItems_userIntegrationId_userIntegrationRecSeq_fkey" FOREIGN KEY ("userIntegrationId", "userIntegrationRecSeq") REFERENCES "public"."UserIntegrations"("userIntegrationId", "recSeq") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."OAuthCredentials" ADD CONSTRAINT "OAuthCredentials_userIntegrationId_userIntegrationRecSeq_fkey" FOREIGN KEY ("userIntegrationId", "userIntegrationRecSeq") REFERENCES "public"."UserIntegrations"("userIntegrationId", "recSeq") ON DELETE CASCADE ON UPDATE CASCADE;
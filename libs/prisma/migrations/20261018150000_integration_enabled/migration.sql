@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Integrations" ADD COLUMN "enabled" BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "SyncRuns_provider_startedAt_idx" ON "public"."SyncRuns"("provider", "startedAt");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."ListItems" ADD COLUMN     "fieldSources" JSON,
+ADD COLUMN     "syncConflicts" JSON;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."ListItems" ADD COLUMN     "primaryItemId" VARCHAR(36);
+
+-- CreateIndex
+CREATE INDEX "ListItems_primaryItemId_idx" ON "public"."ListItems"("primaryItemId");
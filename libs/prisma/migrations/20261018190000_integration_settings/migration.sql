@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "public"."IntegrationSettings" (
+    "integrationSettingId" VARCHAR(36) NOT NULL,
+    "recSeq" INTEGER NOT NULL DEFAULT 0,
+    "recStatus" TEXT NOT NULL DEFAULT 'A',
+    "userId" VARCHAR(36) NOT NULL,
+    "userRecSeq" INTEGER NOT NULL DEFAULT 0,
+    "provider" VARCHAR(50) NOT NULL,
+    "backfillDays" INTEGER,
+    "categories" TEXT[],
+    "targetList" VARCHAR(50),
+    "customName" VARCHAR(50),
+    "autoSync" BOOLEAN NOT NULL DEFAULT true,
+    "dataStatus" VARCHAR(1) NOT NULL DEFAULT 'A',
+    "createdBy" TEXT NOT NULL DEFAULT 'System',
+    "createdOn" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "modifiedOn" TIMESTAMP(3) NOT NULL,
+    "modifiedBy" VARCHAR(50),
+
+    CONSTRAINT "IntegrationSettings_pkey" PRIMARY KEY ("integrationSettingId","recSeq")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IntegrationSettings_userId_userRecSeq_provider_key" ON "public"."IntegrationSettings"("userId", "userRecSeq", "provider");
+
+-- AddForeignKey
+ALTER TABLE "public"."IntegrationSettings" ADD CONSTRAINT "IntegrationSettings_userId_userRecSeq_fkey" FOREIGN KEY ("userId", "userRecSeq") REFERENCES "public"."Users"("userId", "recSeq") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,19 @@
+-- Default mapping from Plaid personal_finance_category codes to 'List | Category'; tune it through the master data service
+INSERT INTO "public"."MasterData" ("masterDataId", "keyCode", "value", "parentId", "createdBy", "createdOn", "modifiedOn") VALUES ('a80ed015-eef2-469f-9579-0069687ac5e8', 'INCOME', 'Financial | Income', 'PLAID_PFC', 'System', NOW(), NOW());
+INSERT INTO "public"."MasterData" ("masterDataId", "keyCode", "value", "parentId", "createdBy", "createdOn", "modifiedOn") VALUES ('9ef87646-5686-4d75-8940-14c09e545b85', 'TRANSFER_IN', 'Financial | Transfers', 'PLAID_PFC', 'System', NOW(), NOW());
+INSERT INTO "public"."MasterData" ("masterDataId", "keyCode", "value", "parentId", "createdBy", "createdOn", "modifiedOn") VALUES ('d9d8bdce-bfd5-46e3-960b-7ca08cb36995', 'TRANSFER_OUT', 'Financial | Transfers', 'PLAID_PFC', 'System', NOW(), NOW());
+INSERT INTO "public"."MasterData" ("masterDataId", "keyCode", "value", "parentId", "createdBy", "createdOn", "modifiedOn") VALUES ('b460d3fb-4100-436b-8cf4-62c35b31e013', 'LOAN_PAYMENTS', 'Financial | Debt Payments', 'PLAID_PFC', 'System', NOW(), NOW());
+INSERT INTO "public"."MasterData" ("masterDataId", "keyCode", "value", "parentId", "createdBy", "createdOn", "modifiedOn") VALUES ('57bac2e6-0433-46b2-9cdf-c25eefd21b3a', 'BANK_FEES', 'Financial | Fees', 'PLAID_PFC', 'System', NOW(), NOW());
+INSERT INTO "public"."MasterData" ("masterDataId", "keyCode", "value", "parentId", "createdBy", "createdOn", "modifiedOn") VALUES ('3f83720a-52db-4867-b12a-45145707d463', 'RENT_AND_UTILITIES', 'Financial | Bills', 'PLAID_PFC', 'System', NOW(), NOW());
+INSERT INTO "public"."MasterData" ("masterDataId", "keyCode", "value", "parentId", "createdBy", "createdOn", "modifiedOn") VALUES ('5dcec593-f322-4106-9d33-b48f095e012b', 'ENTERTAINMENT', 'Places | Entertainment', 'PLAID_PFC', 'System', NOW(), NOW());
+INSERT INTO "public"."MasterData" ("masterDataId", "keyCode", "value", "parentId", "createdBy", "createdOn", "modifiedOn") VALUES ('43fe14d4-b74e-4de5-a7a8-7d6b074134e0', 'PERSONAL_CARE_GYMS_AND_FITNESS_CENTERS', 'Places | Entertainment', 'PLAID_PFC', 'System', NOW(), NOW());
+INSERT INTO "public"."MasterData" ("masterDataId", "keyCode", "value", "parentId", "createdBy", "createdOn", "modifiedOn") VALUES ('a98d55d6-03c9-4ce5-a320-065409e3bbe1', 'FOOD_AND_DRINK', 'Food | Dining', 'PLAID_PFC', 'System', NOW(), NOW());
+INSERT INTO "public"."MasterData" ("masterDataId", "keyCode", "value", "parentId", "createdBy", "createdOn", "modifiedOn") VALUES ('ea389197-52d4-44b1-a4d2-51b40a8fe9fe', 'FOOD_AND_DRINK_GROCERIES', 'Food | Groceries', 'PLAID_PFC', 'System', NOW(), NOW());
+INSERT INTO "public"."MasterData" ("masterDataId", "keyCode", "value", "parentId", "createdBy", "createdOn", "modifiedOn") VALUES ('c5c7cf09-9060-41a5-9992-ffe162a9645e', 'GENERAL_MERCHANDISE', 'Places | Shopping', 'PLAID_PFC', 'System', NOW(), NOW());
+INSERT INTO "public"."MasterData" ("masterDataId", "keyCode", "value", "parentId", "createdBy", "createdOn", "modifiedOn") VALUES ('aa8a2311-335c-4a38-97ec-3e6017db59f2', 'HOME_IMPROVEMENT', 'Places | Shopping', 'PLAID_PFC', 'System', NOW(), NOW());
+INSERT INTO "public"."MasterData" ("masterDataId", "keyCode", "value", "parentId", "createdBy", "createdOn", "modifiedOn") VALUES ('7fca17a7-a7f9-4d8c-849a-f3afb7014c7b', 'TRANSPORTATION', 'Transport | Transportation', 'PLAID_PFC', 'System', NOW(), NOW());
+INSERT INTO "public"."MasterData" ("masterDataId", "keyCode", "value", "parentId", "createdBy", "createdOn", "modifiedOn") VALUES ('dab2e263-ac94-46a1-885d-cde95f595c0e', 'TRAVEL', 'Travel | Travel Expenses', 'PLAID_PFC', 'System', NOW(), NOW());
+INSERT INTO "public"."MasterData" ("masterDataId", "keyCode", "value", "parentId", "createdBy", "createdOn", "modifiedOn") VALUES ('e00e3ae1-4bc7-4332-b8d4-7208668b3a45', 'MEDICAL', 'Places | General Expenses', 'PLAID_PFC', 'System', NOW(), NOW());
+INSERT INTO "public"."MasterData" ("masterDataId", "keyCode", "value", "parentId", "createdBy", "createdOn", "modifiedOn") VALUES ('8af4a83d-b642-4a2e-86e4-c7e55632f9ed', 'PERSONAL_CARE', 'Places | General Expenses', 'PLAID_PFC', 'System', NOW(), NOW());
+INSERT INTO "public"."MasterData" ("masterDataId", "keyCode", "value", "parentId", "createdBy", "createdOn", "modifiedOn") VALUES ('48c65aa6-ffba-4254-a31f-9acce0550fa6', 'GENERAL_SERVICES', 'Places | General Expenses', 'PLAID_PFC', 'System', NOW(), NOW());
+INSERT INTO "public"."MasterData" ("masterDataId", "keyCode", "value", "parentId", "createdBy", "createdOn", "modifiedOn") VALUES ('8be2ec90-c4f3-4f36-9899-a45a44903d2d', 'GOVERNMENT_AND_NON_PROFIT', 'Places | General Expenses', 'PLAID_PFC', 'System', NOW(), NOW());
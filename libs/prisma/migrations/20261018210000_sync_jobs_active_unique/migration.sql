@@ -0,0 +1,16 @@
+-- Keep the oldest active job of each connection; later duplicates are soft-deleted
+UPDATE "public"."SyncJobs"
+SET "recStatus" = 'I', "modifiedOn" = CURRENT_TIMESTAMP
+WHERE "status" IN ('PENDING', 'RUNNING')
+  AND "recSeq" = 0 AND "recStatus" = 'A' AND "dataStatus" = 'A'
+  AND "syncJobId" NOT IN (
+    SELECT DISTINCT ON ("userId", "provider", COALESCE("userIntegrationId", '')) "syncJobId"
+    FROM "public"."SyncJobs"
+    WHERE "status" IN ('PENDING', 'RUNNING')
+      AND "recSeq" = 0 AND "recStatus" = 'A' AND "dataStatus" = 'A'
+    ORDER BY "userId", "provider", COALESCE("userIntegrationId", ''), "createdOn"
+  );
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SyncJobs_active_connection_key" ON "public"."SyncJobs"("userId", "provider", COALESCE("userIntegrationId", ''))
+WHERE "status" IN ('PENDING', 'RUNNING') AND "recSeq" = 0 AND "recStatus" = 'A' AND "dataStatus" = 'A';
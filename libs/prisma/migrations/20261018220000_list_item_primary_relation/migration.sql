@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "public"."ListItems" ADD COLUMN     "primaryItemRecSeq" INTEGER DEFAULT 0;
+
+-- Drop links to primaries that no longer exist so the foreign key can be added
+UPDATE "public"."ListItems" AS duplicate SET "primaryItemId" = NULL
+WHERE duplicate."primaryItemId" IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM "public"."ListItems" AS primary_item
+    WHERE primary_item."listItemId" = duplicate."primaryItemId" AND primary_item."recSeq" = 0
+  );
+
+-- AddForeignKey
+ALTER TABLE "public"."ListItems" ADD CONSTRAINT "ListItems_primaryItemId_primaryItemRecSeq_fkey" FOREIGN KEY ("primaryItemId", "primaryItemRecSeq") REFERENCES "public"."ListItems"("listItemId", "recSeq") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."UserIntegrations" ADD COLUMN     "statusDetail" VARCHAR(50);
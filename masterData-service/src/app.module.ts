@@ -9,6 +9,7 @@ import { MasterDataModule } from './master-data/master-data.module';
 import { ListsModule } from './lists/lists.module';
 import { ListIntegrationMappingModule } from './listintegrationmapping/listintegrationmapping.module';
 import { ItemCategoriesModule } from './item-categories/item-categories.module';
+import { MetricsModule } from '@traeta/metrics';
 
 @Module({
   imports: [
@@ -17,6 +18,7 @@ import { ItemCategoriesModule } from './item-categories/item-categories.module';
       envFilePath: ['.env', '../.env'],
     }),
     PrismaModule,
+    MetricsModule,
     UtilityModule,
     MasterDataModule,
     IntegrationsModule,
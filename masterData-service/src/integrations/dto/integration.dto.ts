@@ -1,5 +1,6 @@
 import { ApiProperty, ApiPropertyOptional, PartialType } from '@nestjs/swagger';
 import {
+  IsBoolean,
   IsNotEmpty,
   IsNumber,
   IsOptional,
@@ -26,6 +27,16 @@ export class CreateIntegrationDto {
   @IsOptional()
   @IsNumber()
   popularity?: number;
+
+  @ApiPropertyOptional({
+    example: true,
+    description:
+      'Whether users can connect this integration in this environment',
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
 }
 
 export class UpdateIntegrationDto extends PartialType(CreateIntegrationDto) {}
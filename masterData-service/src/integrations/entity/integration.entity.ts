@@ -1,5 +1,5 @@
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
-import { IsInt, IsOptional, IsString } from 'class-validator';
+import { IsBoolean, IsInt, IsOptional, IsString } from 'class-validator';
 import { Metadata } from '../../../constants';
 
 export class IntegrationEntity {
@@ -24,6 +24,13 @@ export class IntegrationEntity {
   @IsInt()
   popularity?: number | null;
 
+  @ApiProperty({
+    example: true,
+    description: 'Whether users can connect this integration',
+  })
+  @IsBoolean()
+  enabled: boolean;
+
   @ApiProperty({ example: 'A', description: 'Data status' })
   @IsString()
   dataStatus: string;
@@ -124,6 +124,27 @@ const STATUS = {
     PENDING: 'PENDING',
     CONNECTED: 'CONNECTED',
     DISCONNECTED: 'DISCONNECTED',
+    // Tokens were revoked or can no longer be refreshed; the user has to connect again
+    REAUTH_REQUIRED: 'REAUTH_REQUIRED',
+}
+
+const STATUS_DETAIL = {
+    // Still syncing, but the provider will cut access soon unless the user re-authorizes
+    EXPIRING: 'EXPIRING',
+}
+
+const SYNC_JOB_STATUS = {
+    PENDING: 'PENDING',
+    RUNNING: 'RUNNING',
+    COMPLETED: 'COMPLETED',
+    DEAD_LETTER: 'DEAD_LETTER',
+}
+
+const WEBHOOK_EVENT_STATUS = {
+    RECEIVED: 'RECEIVED',
+    PROCESSED: 'PROCESSED',
+    IGNORED: 'IGNORED',
+    FAILED: 'FAILED',
 }
 
 const DATA_TYPE = {
@@ -135,4 +156,4 @@ const DATA_TYPE = {
     STRING_ARRAY: 'string[]',
 }
 
-export { CURRENT_DATE, EXPIRES_IN, DATA_STATUS, REC_STATUS, REC_SEQ, ACTIVE_CONDITION, ADMIN, RESPONSE_STATUS, DB_NAME, TABLE_NAMES, MethodNames, LogType, Response, Metadata, Gender, ActionStatus, STATUS, DATA_TYPE };
+export { CURRENT_DATE, EXPIRES_IN, DATA_STATUS, REC_STATUS, REC_SEQ, ACTIVE_CONDITION, ADMIN, RESPONSE_STATUS, DB_NAME, TABLE_NAMES, MethodNames, LogType, Response, Metadata, Gender, ActionStatus, STATUS, STATUS_DETAIL, SYNC_JOB_STATUS, WEBHOOK_EVENT_STATUS, DATA_TYPE };
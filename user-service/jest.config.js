@@ -21,6 +21,10 @@ module.exports = {
   collectCoverageFrom: ['**/*.(t|j)s'],
   coverageDirectory: '../coverage',
   testEnvironment: 'node',
+  // Matches tsconfig baseUrl, which lets sources import 'src/...'
+  moduleNameMapper: {
+    '^src/(.*)$': '<rootDir>/$1',
+  },
   testTimeout: 30000,
   maxWorkers: 1,
   bail: true,
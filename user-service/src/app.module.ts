@@ -10,6 +10,7 @@ import { UserListsModule } from './user-lists/user-lists.module';
 
 import { UsersModule } from './users/users.module';
 import { IntegrationsModule } from './integrations/integrations.module';
+import { MetricsModule } from '@traeta/metrics';
 @Module({
   imports: [
     ConfigModule.forRoot({
@@ -18,6 +19,7 @@ import { IntegrationsModule } from './integrations/integrations.module';
     }),
     UtilityModule,
     PrismaModule,
+    MetricsModule,
     AuthModule,
     UsersModule,
     IntegrationsModule,
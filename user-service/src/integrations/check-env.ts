@@ -10,55 +10,20 @@
 import { config } from 'dotenv';
 import * as fs from 'fs';
 import * as path from 'path';
+import {
+    ConfigGetter,
+    ENV_DEFAULTS,
+    INTEGRATION_CONFIGS,
+    IntegrationConfigSpec,
+    checkIntegrationConfig,
+    maskValue,
+} from './config-checks';
 
 // Load environment variables
 config();
 
-interface IntegrationConfig {
-    name: string;
-    required: string[];
-    optional: string[];
-    description: string;
-}
-
-const INTEGRATIONS: IntegrationConfig[] = [
-    {
-        name: 'Plaid',
-        required: ['PLAID_CLIENT_ID', 'PLAID_SECRET'],
-        optional: ['PLAID_ENV'],
-        description: 'Banking and financial data integration'
-    },
-    {
-        name: 'Strava',
-        required: ['STRAVA_CLIENT_ID', 'STRAVA_CLIENT_SECRET'],
-        optional: ['STRAVA_REDIRECT_URI', 'STRAVA_DEFAULT_DAYS'],
-        description: 'Fitness activities and workout data'
-    },
-    {
-        name: 'Spotify',
-        required: ['SPOTIFY_CLIENT_ID', 'SPOTIFY_CLIENT_SECRET'],
-        optional: ['SPOTIFY_REDIRECT_URI', 'SPOTIFY_DEFAULT_DAYS'],
-        description: 'Music streaming and listening history'
-    },
-    {
-        name: 'Apple Health',
-        required: [],
-        optional: ['APPLE_HEALTH_DEFAULT_DAYS', 'APPLE_HEALTH_UPLOAD_ENDPOINT'],
-        description: 'iOS health and fitness data (device-based)'
-    },
-    {
-        name: 'Apple Music',
-        required: ['APPLE_MUSIC_TEAM_ID', 'APPLE_MUSIC_KEY_ID', 'APPLE_MUSIC_PRIVATE_KEY'],
-        optional: ['APPLE_MUSIC_DEFAULT_DAYS'],
-        description: 'Apple Music library and listening data'
-    },
-    {
-        name: 'Email Scraper',
-        required: ['GMAIL_CLIENT_ID', 'GMAIL_CLIENT_SECRET'],
-        optional: ['GMAIL_REDIRECT_URI', 'GMAIL_DEFAULT_DAYS', 'EMAIL_SCRAPER_ENABLED'],
-        description: 'Gmail integration for email data extraction'
-    }
-];
+const INTEGRATIONS: IntegrationConfigSpec[] = Object.values(INTEGRATION_CONFIGS);
+const getEnv: ConfigGetter = key => process.env[key];
 
 function checkEnvVar(varName: string): { exists: boolean; value?: string; masked?: string } {
     const value = process.env[varName];
@@ -67,11 +32,7 @@ function checkEnvVar(varName: string): { exists: boolean; value?: string; masked
     }
 
     // Mask sensitive values for display
-    const masked = value.length > 8
-        ? `${value.substring(0, 4)}...${value.substring(value.length - 4)}`
-        : '***';
-
-    return { exists: true, value, masked };
+    return { exists: true, value, masked: maskValue(value) };
 }
 
 function printHeader(title: string) {
@@ -80,7 +41,7 @@ function printHeader(title: string) {
     console.log('='.repeat(60));
 }
 
-function printIntegrationStatus(integration: IntegrationConfig) {
+function printIntegrationStatus(integration: IntegrationConfigSpec) {
     console.log(`\n📱 ${integration.name}`);
     console.log(`   ${integration.description}`);
     console.log('   ' + '-'.repeat(50));
@@ -114,9 +75,18 @@ function printIntegrationStatus(integration: IntegrationConfig) {
         }
     }
 
+    // Credentials that are set but unusable (unparseable key, unknown environment, ...)
+    const { problems } = checkIntegrationConfig(integration, getEnv);
+    for (const problem of problems) {
+        console.log(`   ❌ ${problem}`);
+    }
+
     // Overall status
     if (integration.required.length === 0) {
         console.log('   🟡 No API keys required (device-based integration)');
+    } else if (allRequiredPresent && problems.length > 0) {
+        console.log('   🔴 Invalid credentials');
+        return false;
     } else if (allRequiredPresent) {
         console.log('   🟢 Ready for testing');
     } else {
@@ -147,21 +117,7 @@ function generateEnvTemplate() {
 }
 
 function getDefaultValue(varName: string): string {
-    const defaults: Record<string, string> = {
-        'PLAID_ENV': 'sandbox',
-        'STRAVA_REDIRECT_URI': 'http://localhost:3000/integrations/strava/callback',
-        'STRAVA_DEFAULT_DAYS': '90',
-        'SPOTIFY_REDIRECT_URI': 'http://localhost:3000/integrations/spotify/callback',
-        'SPOTIFY_DEFAULT_DAYS': '30',
-        'APPLE_HEALTH_DEFAULT_DAYS': '30',
-        'APPLE_HEALTH_UPLOAD_ENDPOINT': '/integrations/apple_health/upload',
-        'APPLE_MUSIC_DEFAULT_DAYS': '30',
-        'GMAIL_REDIRECT_URI': 'http://localhost:3000/integrations/email_scraper/callback',
-        'GMAIL_DEFAULT_DAYS': '90',
-        'EMAIL_SCRAPER_ENABLED': 'true'
-    };
-
-    return defaults[varName] || 'your_value_here';
+    return ENV_DEFAULTS[varName] || 'your_value_here';
 }
 
 function checkEnvFile() {
@@ -251,6 +207,7 @@ Usage:
 
 The script will:
 - Check for required API keys and secrets
+- Check that credentials parse (e.g. the Apple Music private key)
 - Show which integrations are properly configured  
 - Generate an environment template if needed
 - Provide next steps for testing
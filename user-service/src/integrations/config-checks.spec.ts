@@ -0,0 +1,75 @@
+import { generateKeyPairSync } from 'crypto';
+import { INTEGRATION_CONFIGS, checkIntegrationConfig, maskValue } from './config-checks';
+import { IntegrationProviderName } from './types';
+
+describe('Integration config checks', () => {
+    const getter = (env: Record<string, string>) => (key: string) => env[key];
+
+    it('should list missing required variables without running the credentials check', () => {
+        const spec = { ...INTEGRATION_CONFIGS[IntegrationProviderName.APPLE_MUSIC], validate: jest.fn() };
+
+        const result = checkIntegrationConfig(spec, getter({ APPLE_MUSIC_TEAM_ID: 'TEAM' }));
+
+        expect(result).toEqual({
+            configured: false,
+            missing: ['APPLE_MUSIC_KEY_ID', 'APPLE_MUSIC_PRIVATE_KEY'],
+            problems: [],
+        });
+        expect(spec.validate).not.toHaveBeenCalled();
+    });
+
+    it('should accept an Apple Music key that signs a developer token', () => {
+        const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+        const env = {
+            APPLE_MUSIC_TEAM_ID: 'TEAM123',
+            APPLE_MUSIC_KEY_ID: 'KEY123',
+            APPLE_MUSIC_PRIVATE_KEY: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+        };
+
+        const result = checkIntegrationConfig(INTEGRATION_CONFIGS[IntegrationProviderName.APPLE_MUSIC], getter(env));
+
+        expect(result).toEqual({ configured: true, missing: [], problems: [] });
+    });
+
+    it('should report an Apple Music key that does not parse', () => {
+        const env = { APPLE_MUSIC_TEAM_ID: 'TEAM123', APPLE_MUSIC_KEY_ID: 'KEY123', APPLE_MUSIC_PRIVATE_KEY: 'not-a-key' };
+
+        const result = checkIntegrationConfig(INTEGRATION_CONFIGS[IntegrationProviderName.APPLE_MUSIC], getter(env));
+
+        expect(result.configured).toBe(false);
+        expect(result.problems[0]).toContain('APPLE_MUSIC_PRIVATE_KEY could not be parsed');
+    });
+
+    it('should report an Apple Music key that is not an EC key', () => {
+        const { privateKey } = generateKeyPairSync('rsa', { modulusLength: 1024 });
+        const env = {
+            APPLE_MUSIC_TEAM_ID: 'TEAM123',
+            APPLE_MUSIC_KEY_ID: 'KEY123',
+            APPLE_MUSIC_PRIVATE_KEY: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+        };
+
+        const result = checkIntegrationConfig(INTEGRATION_CONFIGS[IntegrationProviderName.APPLE_MUSIC], getter(env));
+
+        expect(result.problems).toEqual(['APPLE_MUSIC_PRIVATE_KEY must be an EC (P-256) key, got rsa']);
+    });
+
+    it('should reject an unknown Plaid environment', () => {
+        const env = { PLAID_CLIENT_ID: 'client', PLAID_SECRET: 'secret', PLAID_ENV: 'staging' };
+
+        const result = checkIntegrationConfig(INTEGRATION_CONFIGS[IntegrationProviderName.PLAID], getter(env));
+
+        expect(result.configured).toBe(false);
+        expect(result.problems).toEqual(["PLAID_ENV must be one of sandbox, development, production (got 'staging')"]);
+    });
+
+    it('should treat providers without required variables as configured', () => {
+        const result = checkIntegrationConfig(INTEGRATION_CONFIGS[IntegrationProviderName.GOODREADS], getter({}));
+
+        expect(result.configured).toBe(true);
+    });
+
+    it('should mask values for display', () => {
+        expect(maskValue('abcdefghijkl')).toBe('abcd...ijkl');
+        expect(maskValue('short')).toBe('***');
+    });
+});
@@ -0,0 +1,151 @@
+/**
+ * Integration configuration checks
+ *
+ * The environment each provider needs, plus checks that the configured credentials are usable
+ * (e.g. the Apple Music private key can sign a developer token). Shared by the check-env script
+ * and GET /integrations/health.
+ */
+
+import { createPrivateKey } from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import { IntegrationProviderName } from './types';
+
+export type ConfigGetter = (key: string) => string | undefined;
+
+export interface IntegrationConfigSpec {
+    name: string;
+    required: string[];
+    optional: string[];
+    description: string;
+    // Parse/sign with the configured credentials; returns the problems found. Only runs once every required variable is set.
+    validate?: (get: ConfigGetter) => string[];
+}
+
+export type IntegrationConfigCheck = {
+    // Every required variable is set and the credentials check passed
+    configured: boolean;
+    missing: string[];
+    problems: string[];
+};
+
+const PLAID_ENVIRONMENTS = ['sandbox', 'development', 'production'];
+
+function validatePlaid(get: ConfigGetter): string[] {
+    const env = get('PLAID_ENV');
+    if (env && !PLAID_ENVIRONMENTS.includes(env)) {
+        return [`PLAID_ENV must be one of ${PLAID_ENVIRONMENTS.join(', ')} (got '${env}')`];
+    }
+    return [];
+}
+
+function validateAppleMusic(get: ConfigGetter): string[] {
+    const privateKey = get('APPLE_MUSIC_PRIVATE_KEY') ?? '';
+    try {
+        const key = createPrivateKey(privateKey);
+        if (key.asymmetricKeyType !== 'ec') {
+            return [`APPLE_MUSIC_PRIVATE_KEY must be an EC (P-256) key, got ${key.asymmetricKeyType}`];
+        }
+    } catch (error) {
+        return [`APPLE_MUSIC_PRIVATE_KEY could not be parsed: ${error.message}`];
+    }
+
+    // Same claims as AppleMusicProvider's developer token, valid for a minute
+    try {
+        const now = Math.floor(Date.now() / 1000);
+        jwt.sign(
+            { iss: get('APPLE_MUSIC_TEAM_ID'), iat: now, exp: now + 60, aud: 'appstoreconnect-v1' },
+            privateKey,
+            { algorithm: 'ES256', header: { alg: 'ES256', kid: get('APPLE_MUSIC_KEY_ID') } },
+        );
+    } catch (error) {
+        return [`Apple Music developer token could not be generated: ${error.message}`];
+    }
+    return [];
+}
+
+export const INTEGRATION_CONFIGS: Record<IntegrationProviderName, IntegrationConfigSpec> = {
+    [IntegrationProviderName.PLAID]: {
+        name: 'Plaid',
+        required: ['PLAID_CLIENT_ID', 'PLAID_SECRET'],
+        optional: ['PLAID_ENV', 'PLAID_WEBHOOK_URL'],
+        description: 'Banking and financial data integration',
+        validate: validatePlaid,
+    },
+    [IntegrationProviderName.STRAVA]: {
+        name: 'Strava',
+        required: ['STRAVA_CLIENT_ID', 'STRAVA_CLIENT_SECRET'],
+        optional: ['STRAVA_REDIRECT_URI', 'STRAVA_DEFAULT_DAYS', 'STRAVA_WEBHOOK_VERIFY_TOKEN', 'STRAVA_WEBHOOK_SUBSCRIPTION_ID'],
+        description: 'Fitness activities and workout data',
+    },
+    [IntegrationProviderName.SPOTIFY]: {
+        name: 'Spotify',
+        required: ['SPOTIFY_CLIENT_ID', 'SPOTIFY_CLIENT_SECRET'],
+        optional: ['SPOTIFY_REDIRECT_URI', 'SPOTIFY_DEFAULT_DAYS'],
+        description: 'Music streaming and listening history',
+    },
+    [IntegrationProviderName.APPLE_HEALTH]: {
+        name: 'Apple Health',
+        required: [],
+        optional: ['APPLE_HEALTH_DEFAULT_DAYS', 'APPLE_HEALTH_UPLOAD_ENDPOINT'],
+        description: 'iOS health and fitness data (device-based)',
+    },
+    [IntegrationProviderName.APPLE_MUSIC]: {
+        name: 'Apple Music',
+        required: ['APPLE_MUSIC_TEAM_ID', 'APPLE_MUSIC_KEY_ID', 'APPLE_MUSIC_PRIVATE_KEY'],
+        optional: ['APPLE_MUSIC_DEFAULT_DAYS'],
+        description: 'Apple Music library and listening data',
+        validate: validateAppleMusic,
+    },
+    [IntegrationProviderName.EMAIL_SCRAPER]: {
+        name: 'Email Scraper',
+        required: ['GMAIL_CLIENT_ID', 'GMAIL_CLIENT_SECRET'],
+        optional: ['GMAIL_REDIRECT_URI', 'GMAIL_DEFAULT_DAYS', 'EMAIL_SCRAPER_ENABLED'],
+        description: 'Gmail integration for email data extraction',
+    },
+    [IntegrationProviderName.CONTACT_LIST]: {
+        name: 'Contact List',
+        required: ['GOOGLE_CLIENT_ID', 'GOOGLE_CLIENT_SECRET'],
+        optional: ['GOOGLE_REDIRECT_URI'],
+        description: 'Google Contacts import',
+    },
+    [IntegrationProviderName.LOCATION_SERVICES]: {
+        name: 'Location Services',
+        required: ['GOOGLE_MAPS_API_KEY'],
+        optional: [],
+        description: 'Device location history with place lookups',
+    },
+    [IntegrationProviderName.GOODREADS]: {
+        name: 'Goodreads',
+        required: [],
+        optional: [],
+        description: 'Reading history from Goodreads RSS feeds or CSV exports',
+    },
+};
+
+export const ENV_DEFAULTS: Record<string, string> = {
+    'PLAID_ENV': 'sandbox',
+    'STRAVA_REDIRECT_URI': 'http://localhost:3000/integrations/strava/callback',
+    'STRAVA_DEFAULT_DAYS': '90',
+    'SPOTIFY_REDIRECT_URI': 'http://localhost:3000/integrations/spotify/callback',
+    'SPOTIFY_DEFAULT_DAYS': '30',
+    'APPLE_HEALTH_DEFAULT_DAYS': '30',
+    'APPLE_HEALTH_UPLOAD_ENDPOINT': '/integrations/apple_health/upload',
+    'APPLE_MUSIC_DEFAULT_DAYS': '30',
+    'GMAIL_REDIRECT_URI': 'http://localhost:3000/integrations/email_scraper/callback',
+    'GMAIL_DEFAULT_DAYS': '90',
+    'EMAIL_SCRAPER_ENABLED': 'true',
+    'GOOGLE_REDIRECT_URI': 'http://localhost:3000/integrations/contacts/callback',
+};
+
+// Mask a secret for display, keeping only the first and last 4 characters of longer values
+export function maskValue(value: string): string {
+    return value.length > 8
+        ? `${value.substring(0, 4)}...${value.substring(value.length - 4)}`
+        : '***';
+}
+
+export function checkIntegrationConfig(spec: IntegrationConfigSpec, get: ConfigGetter): IntegrationConfigCheck {
+    const missing = spec.required.filter(key => !get(key));
+    const problems = missing.length === 0 && spec.validate ? spec.validate(get) : [];
+    return { configured: missing.length === 0 && problems.length === 0, missing, problems };
+}
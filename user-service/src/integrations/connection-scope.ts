@@ -0,0 +1,26 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// Connection (UserIntegrations row) that the code running in the current async context acts for
+const currentConnection = new AsyncLocalStorage<string>();
+
+/**
+ * Run provider code on behalf of one connection. Token, cursor and persistence helpers called
+ * from `run` read and write that connection's rows, so providers keep their (userId) signatures.
+ * Without a connection id, `run` is called as is and the helpers fall back to the user's
+ * oldest link for the provider.
+ */
+export function runInConnection<T>(connectionId: string | null | undefined, run: () => Promise<T>): Promise<T> {
+    return connectionId ? currentConnection.run(connectionId, run) : run();
+}
+
+export function getConnectionId(): string | undefined {
+    return currentConnection.getStore();
+}
+
+/**
+ * Prisma filter on userIntegrationId for the current connection; empty outside of one.
+ */
+export function connectionWhere(): { userIntegrationId?: string } {
+    const connectionId = getConnectionId();
+    return connectionId ? { userIntegrationId: connectionId } : {};
+}
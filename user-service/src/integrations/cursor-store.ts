@@ -0,0 +1,77 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '@traeta/prisma';
+import { ACTIVE_CONDITION, REC_SEQ } from '../../constants';
+import { connectionWhere, getConnectionId } from './connection-scope';
+
+/**
+ * Provider-native incremental sync cursors, keyed by user, provider, connection (see
+ * runInConnection) and cursor name (a provider may keep more than one, e.g. one per endpoint).
+ * Values are opaque strings.
+ */
+export abstract class CursorStore {
+    abstract get(userId: string, provider: string, name: string): Promise<string | null>;
+    abstract set(userId: string, provider: string, name: string, cursor: string): Promise<void>;
+    // Drop every cursor for the provider (or the current connection) so the next sync starts from scratch
+    abstract delete(userId: string, provider: string): Promise<void>;
+}
+
+// NOTE: In-memory only for development and tests.
+@Injectable()
+export class InMemoryCursorStore extends CursorStore {
+    private store = new Map<string, string>();
+
+    private key(userId: string, provider: string, name: string) {
+        return `${this.prefix(userId, provider)}${name}`;
+    }
+
+    private prefix(userId: string, provider: string) {
+        return `${provider}:${userId}:${getConnectionId() ?? ''}:`;
+    }
+
+    async get(userId: string, provider: string, name: string): Promise<string | null> {
+        return this.store.get(this.key(userId, provider, name)) ?? null;
+    }
+
+    async set(userId: string, provider: string, name: string, cursor: string): Promise<void> {
+        this.store.set(this.key(userId, provider, name), cursor);
+    }
+
+    async delete(userId: string, provider: string): Promise<void> {
+        const prefix = this.prefix(userId, provider);
+        for (const key of [...this.store.keys()]) {
+            if (key.startsWith(prefix)) this.store.delete(key);
+        }
+    }
+}
+
+// Prisma-backed cursor store
+@Injectable()
+export class PrismaCursorStore extends CursorStore {
+    constructor(private readonly prisma: PrismaService) {
+        super();
+    }
+
+    async get(userId: string, provider: string, name: string): Promise<string | null> {
+        const row = await this.prisma.syncCursors.findFirst({
+            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, provider, userIntegrationId: getConnectionId() ?? '', name, ...ACTIVE_CONDITION },
+        });
+        return row?.cursor ?? null;
+    }
+
+    async set(userId: string, provider: string, name: string, cursor: string): Promise<void> {
+        const userIntegrationId = getConnectionId() ?? '';
+        await this.prisma.syncCursors.upsert({
+            where: {
+                userId_userRecSeq_provider_userIntegrationId_name: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, provider, userIntegrationId, name },
+            },
+            update: { cursor, ...ACTIVE_CONDITION },
+            create: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, provider, userIntegrationId, name, cursor, ...ACTIVE_CONDITION },
+        });
+    }
+
+    async delete(userId: string, provider: string): Promise<void> {
+        await this.prisma.syncCursors.deleteMany({
+            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, provider, ...connectionWhere() },
+        });
+    }
+}
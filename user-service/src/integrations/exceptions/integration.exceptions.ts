@@ -38,6 +38,20 @@ export class ProviderNotFoundException extends IntegrationException {
     }
 }
 
+/**
+ * Thrown when a provider is registered but disabled through its Integrations row
+ */
+export class ProviderDisabledException extends IntegrationException {
+    constructor(provider: string) {
+        super(
+            `Integration provider '${provider}' is disabled`,
+            HttpStatus.NOT_FOUND,
+            provider,
+            'PROVIDER_DISABLED',
+        );
+    }
+}
+
 /**
  * Thrown when a user is not connected to a provider
  */
@@ -148,7 +162,7 @@ export class InvalidCallbackException extends IntegrationException {
  * Thrown when rate limit is exceeded
  */
 export class RateLimitException extends IntegrationException {
-    constructor(provider: string, retryAfter?: number) {
+    constructor(provider: string, public readonly retryAfter?: number) {
         const message = retryAfter
             ? `Rate limit exceeded for ${provider}. Retry after ${retryAfter} seconds.`
             : `Rate limit exceeded for ${provider}. Please try again later.`;
@@ -210,4 +224,88 @@ export class DataValidationException extends IntegrationException {
             'DATA_VALIDATION_FAILED',
         );
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Thrown when a sync job does not exist or belongs to another user
+ */
+export class SyncJobNotFoundException extends IntegrationException {
+    constructor(jobId: string) {
+        super(
+            `Sync job '${jobId}' not found`,
+            HttpStatus.NOT_FOUND,
+            undefined,
+            'SYNC_JOB_NOT_FOUND',
+        );
+    }
+}
+
+/**
+ * Thrown when a connection id does not name one of the user's links for the provider
+ */
+export class ConnectionNotFoundException extends IntegrationException {
+    constructor(provider: string, connectionId: string) {
+        super(
+            `Connection '${connectionId}' not found for ${provider}`,
+            HttpStatus.NOT_FOUND,
+            provider,
+            'CONNECTION_NOT_FOUND',
+        );
+    }
+}
+
+/**
+ * Thrown when a webhook fails signature, JWT or verify-token checks
+ */
+export class WebhookVerificationException extends IntegrationException {
+    constructor(provider: string, reason: string) {
+        super(
+            `Webhook verification failed for ${provider}: ${reason}`,
+            HttpStatus.UNAUTHORIZED,
+            provider,
+            'WEBHOOK_VERIFICATION_FAILED',
+        );
+    }
+}
+
+/**
+ * Thrown when a provider does not accept webhooks
+ */
+export class WebhookNotSupportedException extends IntegrationException {
+    constructor(provider: string) {
+        super(
+            `Provider '${provider}' does not support webhooks`,
+            HttpStatus.NOT_FOUND,
+            provider,
+            'WEBHOOK_NOT_SUPPORTED',
+        );
+    }
+}
+
+/**
+ * Thrown when a stored webhook event does not exist
+ */
+export class WebhookEventNotFoundException extends IntegrationException {
+    constructor(eventId: string) {
+        super(
+            `Webhook event '${eventId}' not found`,
+            HttpStatus.NOT_FOUND,
+            undefined,
+            'WEBHOOK_EVENT_NOT_FOUND',
+        );
+    }
+}
+
+/**
+ * Thrown in sandbox replay mode when no recorded exchange matches a provider request
+ */
+export class SandboxFixtureNotFoundException extends IntegrationException {
+    constructor(provider: string, request: string) {
+        super(
+            `No sandbox fixture for ${provider} request ${request}`,
+            HttpStatus.NOT_IMPLEMENTED,
+            provider,
+            'SANDBOX_FIXTURE_NOT_FOUND',
+        );
+    }
+}
@@ -0,0 +1,86 @@
+import { applyUserEdit, mergeProviderUpdate, providerFieldSources, USER_SOURCE } from './field-provenance';
+
+describe('field provenance', () => {
+    const synced = new Date('2026-10-01T00:00:00.000Z');
+    const resynced = new Date('2026-10-02T00:00:00.000Z');
+    const edited = new Date('2026-10-01T12:00:00.000Z');
+    const external = { provider: 'strava', id: '42' };
+
+    const stravaItem = () => {
+        const attributes = { distance: 5000, type: 'Run', external };
+        return {
+            title: 'Morning Run',
+            attributes,
+            fieldSources: providerFieldSources('strava', 'Morning Run', attributes, synced),
+            syncConflicts: null,
+        };
+    };
+
+    it('should mark every field except external as provider-owned on create', () => {
+        expect(providerFieldSources('strava', 'Morning Run', { distance: 5000, external }, synced)).toEqual({
+            title: { source: 'strava', updatedAt: synced.toISOString() },
+            'attributes.distance': { source: 'strava', updatedAt: synced.toISOString() },
+        });
+    });
+
+    it('should apply provider changes to provider-owned fields', () => {
+        const merge = mergeProviderUpdate(stravaItem(), { title: 'Morning Run', attributes: { distance: 5200, external } }, 'strava', resynced);
+
+        expect(merge.changed).toBe(true);
+        expect(merge.attributes).toEqual({ distance: 5200, external });
+        expect(merge.fieldSources['attributes.distance'].updatedAt).toBe(resynced.toISOString());
+        // Dropped by the provider, so removed
+        expect(merge.fieldSources['attributes.type']).toBeUndefined();
+        expect(merge.syncConflicts).toEqual([]);
+    });
+
+    it('should report no change when the provider sends the same data', () => {
+        const item = stravaItem();
+        const merge = mergeProviderUpdate(item, { title: item.title, attributes: item.attributes }, 'strava', resynced);
+
+        expect(merge.changed).toBe(false);
+        expect(merge.fieldSources).toEqual(item.fieldSources);
+    });
+
+    it('should keep user edits and record a conflict when the provider changes the field', () => {
+        const item = stravaItem();
+        const edit = applyUserEdit(item, { title: 'Sunday long run', attributes: { ...item.attributes, mood: 'great' } }, edited);
+        const userEdited = { ...item, title: 'Sunday long run', attributes: { ...item.attributes, mood: 'great' }, ...edit };
+
+        expect(edit.fieldSources.title).toEqual({ source: USER_SOURCE, updatedAt: edited.toISOString() });
+        expect(edit.fieldSources['attributes.mood'].source).toBe(USER_SOURCE);
+        expect(edit.fieldSources['attributes.distance'].source).toBe('strava');
+
+        const merge = mergeProviderUpdate(userEdited, { title: 'Afternoon Run', attributes: { distance: 5000, type: 'Run', external } }, 'strava', resynced);
+
+        expect(merge.changed).toBe(true);
+        expect(merge.title).toBe('Sunday long run');
+        expect(merge.attributes).toEqual({ distance: 5000, type: 'Run', mood: 'great', external });
+        expect(merge.syncConflicts).toEqual([
+            { field: 'title', provider: 'strava', userValue: 'Sunday long run', providerValue: 'Afternoon Run', detectedAt: resynced.toISOString() },
+        ]);
+
+        // The same provider value on the next sync leaves the conflict untouched
+        const again = mergeProviderUpdate({ ...userEdited, ...merge }, { title: 'Afternoon Run', attributes: { distance: 5000, type: 'Run', external } }, 'strava');
+        expect(again.changed).toBe(false);
+    });
+
+    it('should hand a field back to the provider when the user accepts its value', () => {
+        const item = {
+            ...stravaItem(),
+            title: 'Sunday long run',
+            fieldSources: { title: { source: USER_SOURCE, updatedAt: edited.toISOString() } },
+            syncConflicts: [{ field: 'title', provider: 'strava', userValue: 'Sunday long run', providerValue: 'Afternoon Run', detectedAt: resynced.toISOString() }],
+        };
+
+        const edit = applyUserEdit(item, { title: 'Afternoon Run' }, resynced);
+
+        expect(edit.fieldSources.title.source).toBe('strava');
+        expect(edit.syncConflicts).toEqual([]);
+    });
+
+    it('should leave items no provider synced and unchanged fields alone', () => {
+        expect(applyUserEdit({ title: 'Milk', attributes: { qty: 2 } }, { title: 'Oat milk' })).toBeUndefined();
+        expect(applyUserEdit(stravaItem(), { title: 'Morning Run' })).toBeUndefined();
+    });
+});
@@ -0,0 +1,182 @@
+/**
+ * Per-field provenance for synced list items.
+ *
+ * An item's title and each top-level attribute (except `external`) is a field. ListItems.fieldSources
+ * records who last set each field: the provider that synced it, or 'user' once the user edited it.
+ * Re-syncs only overwrite provider-owned fields; when a provider changes a field the user owns, the
+ * user's value is kept and the provider's value is stored in ListItems.syncConflicts.
+ */
+
+export const USER_SOURCE = 'user';
+
+export type FieldSource = {
+    // 'user' or the provider name written to attributes.external.provider
+    source: string;
+    updatedAt: string;
+};
+
+export type FieldSources = Record<string, FieldSource>;
+
+export type SyncConflict = {
+    field: string;
+    provider: string;
+    userValue: any;
+    providerValue: any;
+    detectedAt: string;
+};
+
+// Matches a ListItems row; the Json columns arrive untyped
+export type ProvenanceItem = {
+    title: string | null;
+    attributes: unknown;
+    fieldSources?: unknown;
+    syncConflicts?: unknown;
+};
+
+export type ProviderMerge = {
+    changed: boolean;
+    title: string | null;
+    attributes: Record<string, any>;
+    fieldSources: FieldSources;
+    syncConflicts: SyncConflict[];
+};
+
+const TITLE_FIELD = 'title';
+const ATTRIBUTE_PREFIX = 'attributes.';
+
+function sameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+// Field name -> value for the fields provenance is tracked for
+function fieldsOf(title: string | null | undefined, attributes: unknown): Map<string, unknown> {
+    const fields = new Map<string, unknown>();
+    if (title !== undefined) fields.set(TITLE_FIELD, title);
+    for (const [key, value] of Object.entries((attributes as Record<string, unknown> | null | undefined) ?? {})) {
+        if (key !== 'external') fields.set(`${ATTRIBUTE_PREFIX}${key}`, value);
+    }
+    return fields;
+}
+
+function sourcesOf(item: ProvenanceItem): FieldSources {
+    return (item.fieldSources as FieldSources | null) ?? {};
+}
+
+function conflictsOf(item: ProvenanceItem): SyncConflict[] {
+    return (item.syncConflicts as SyncConflict[] | null) ?? [];
+}
+
+/**
+ * Provenance for an item a provider just created: every field is owned by that provider.
+ */
+export function providerFieldSources(provider: string, title: string | null, attributes: Record<string, any> | null, now = new Date()): FieldSources {
+    const updatedAt = now.toISOString();
+    const sources: FieldSources = {};
+    for (const field of fieldsOf(title, attributes).keys()) {
+        sources[field] = { source: provider, updatedAt };
+    }
+    return sources;
+}
+
+/**
+ * Merge a provider's fresh copy of an item into the stored one. Provider-owned fields (and fields
+ * without provenance, i.e. items stored before it was tracked) take the provider's value; fields
+ * the user edited keep the user's value and a conflict is recorded when the provider's differs.
+ * `external` always comes from the provider.
+ */
+export function mergeProviderUpdate(
+    existing: ProvenanceItem,
+    incoming: { title: string | null; attributes: Record<string, any> },
+    provider: string,
+    now = new Date(),
+): ProviderMerge {
+    const updatedAt = now.toISOString();
+    const sources: FieldSources = { ...sourcesOf(existing) };
+    const conflicts = new Map(conflictsOf(existing).map(conflict => [conflict.field, conflict]));
+    const current = fieldsOf(existing.title, existing.attributes);
+    const next = fieldsOf(incoming.title, incoming.attributes);
+    const merged = new Map<string, unknown>();
+
+    for (const field of new Set([...current.keys(), ...next.keys()])) {
+        const userOwned = sources[field]?.source === USER_SOURCE;
+        const currentValue = current.get(field);
+
+        if (userOwned) {
+            // Fields the user added or edited are kept even when the provider no longer sends them
+            if (current.has(field)) merged.set(field, currentValue);
+            const recorded = conflicts.get(field);
+            if (!next.has(field) || sameValue(currentValue, next.get(field))) {
+                conflicts.delete(field);
+            } else if (!recorded || !sameValue(recorded.providerValue, next.get(field))) {
+                conflicts.set(field, { field, provider, userValue: currentValue, providerValue: next.get(field), detectedAt: updatedAt });
+            }
+            continue;
+        }
+
+        if (!next.has(field)) {
+            delete sources[field];
+            continue;
+        }
+        merged.set(field, next.get(field));
+        if (!current.has(field) || !sameValue(currentValue, next.get(field)) || !sources[field]) {
+            sources[field] = { source: provider, updatedAt };
+        }
+    }
+
+    const attributes: Record<string, any> = {};
+    for (const [field, value] of merged) {
+        if (field.startsWith(ATTRIBUTE_PREFIX)) attributes[field.slice(ATTRIBUTE_PREFIX.length)] = value;
+    }
+    if (incoming.attributes.external !== undefined) attributes.external = incoming.attributes.external;
+    const title = merged.has(TITLE_FIELD) ? (merged.get(TITLE_FIELD) as string | null) : existing.title;
+    const syncConflicts = [...conflicts.values()];
+
+    const changed = !sameValue(title, existing.title)
+        || !sameValue(attributes, existing.attributes)
+        || !sameValue(sources, sourcesOf(existing))
+        || !sameValue(syncConflicts, conflictsOf(existing));
+
+    return { changed, title, attributes, fieldSources: sources, syncConflicts };
+}
+
+/**
+ * Record a user's edit of a synced item: fields whose value changes become user-owned. Setting a
+ * field to the value in its pending conflict accepts the provider's value and hands the field back
+ * to the provider. Returns undefined for items no provider synced and when no tracked field changes.
+ */
+export function applyUserEdit(
+    existing: ProvenanceItem,
+    update: { title?: string | null; attributes?: unknown },
+    now = new Date(),
+): { fieldSources: FieldSources; syncConflicts: SyncConflict[] } | undefined {
+    const external = (existing.attributes as { external?: { provider?: string } } | null)?.external;
+    if (!existing.fieldSources && !external?.provider) return undefined;
+
+    const updatedAt = now.toISOString();
+    const sources: FieldSources = { ...sourcesOf(existing) };
+    const conflicts = new Map(conflictsOf(existing).map(conflict => [conflict.field, conflict]));
+    const current = fieldsOf(existing.title, existing.attributes);
+    // Attributes are replaced as a whole, so keys missing from the update are removed by the user
+    const edited = fieldsOf(update.title, update.attributes === undefined ? undefined : update.attributes ?? {});
+    const fields = new Set(edited.keys());
+    if (update.attributes !== undefined) {
+        for (const field of current.keys()) {
+            if (field.startsWith(ATTRIBUTE_PREFIX)) fields.add(field);
+        }
+    }
+
+    let changed = false;
+    for (const field of fields) {
+        const value = edited.get(field);
+        if (current.has(field) === edited.has(field) && sameValue(current.get(field), value)) continue;
+
+        changed = true;
+        const conflict = conflicts.get(field);
+        conflicts.delete(field);
+        sources[field] = conflict && sameValue(conflict.providerValue, value)
+            ? { source: conflict.provider, updatedAt }
+            : { source: USER_SOURCE, updatedAt };
+    }
+
+    return changed ? { fieldSources: sources, syncConflicts: [...conflicts.values()] } : undefined;
+}
@@ -0,0 +1,38 @@
+import {
+    Injectable,
+    CanActivate,
+    ExecutionContext,
+    ForbiddenException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+
+/**
+ * Guard for operator endpoints
+ * Allows only users whose uid is listed in INTEGRATION_ADMIN_USER_IDS (comma-separated)
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+    constructor(private readonly configService: ConfigService) { }
+
+    canActivate(context: ExecutionContext): boolean {
+        const request = context.switchToHttp().getRequest();
+        const authenticatedUser = request.user;
+
+        if (!authenticatedUser || !authenticatedUser.uid) {
+            throw new ForbiddenException('User not authenticated');
+        }
+
+        const adminIds = (this.configService.get<string>('INTEGRATION_ADMIN_USER_IDS') || '')
+            .split(',')
+            .map(id => id.trim())
+            .filter(Boolean);
+
+        if (!adminIds.includes(authenticatedUser.uid)) {
+            throw new ForbiddenException(
+                'You are not authorized to access this resource',
+            );
+        }
+
+        return true;
+    }
+}
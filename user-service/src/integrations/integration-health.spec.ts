@@ -0,0 +1,97 @@
+import { IntegrationHealthService } from './integration-health';
+import { IntegrationProviderName } from './types';
+
+describe('IntegrationHealthService', () => {
+    let service: IntegrationHealthService;
+    let config: Record<string, string>;
+    let mockRegistry: any;
+    let mockHttp: any;
+    let mockPrisma: any;
+
+    const { PLAID, STRAVA, GOODREADS } = IntegrationProviderName;
+
+    beforeEach(() => {
+        config = {
+            PLAID_CLIENT_ID: 'client',
+            PLAID_SECRET: 'secret',
+            STRAVA_CLIENT_ID: 'client',
+            STRAVA_CLIENT_SECRET: 'secret',
+        };
+        mockRegistry = {
+            registered: jest.fn().mockReturnValue([PLAID, STRAVA, GOODREADS]),
+            isEnabled: jest.fn().mockReturnValue(true),
+        };
+        mockHttp = { circuitState: jest.fn().mockReturnValue('closed') };
+        mockPrisma = {
+            syncRuns: {
+                groupBy: jest.fn()
+                    .mockResolvedValueOnce([
+                        { provider: PLAID, _max: { finishedAt: new Date('2026-10-18T10:00:00Z') } },
+                    ])
+                    .mockResolvedValueOnce([
+                        { provider: PLAID, status: 'SUCCESS', _count: { _all: 9 } },
+                        { provider: PLAID, status: 'FAILED', _count: { _all: 1 } },
+                        { provider: STRAVA, status: 'FAILED', _count: { _all: 3 } },
+                        { provider: STRAVA, status: 'SUCCESS', _count: { _all: 1 } },
+                    ]),
+            },
+        };
+        const configService = { get: jest.fn((key: string) => config[key]) };
+        service = new IntegrationHealthService(mockRegistry, mockHttp, mockPrisma, configService as any);
+    });
+
+    it('should report config, last successful sync and error rate per provider', async () => {
+        const report = await service.getHealth();
+
+        const plaid = report.providers.find(provider => provider.provider === PLAID);
+        expect(plaid).toMatchObject({
+            enabled: true,
+            status: 'ok',
+            config: { configured: true, missing: [], problems: [] },
+            circuit: 'closed',
+            lastSuccessfulSyncAt: new Date('2026-10-18T10:00:00Z'),
+            runs: { total: 10, failed: 1, errorRate: 0.1 },
+        });
+        expect(report.providers.find(provider => provider.provider === GOODREADS)).toMatchObject({
+            status: 'ok',
+            lastSuccessfulSyncAt: null,
+            runs: { total: 0, failed: 0, errorRate: 0 },
+        });
+        expect(report.windowHours).toBe(24);
+    });
+
+    it('should mark providers with a high error rate as degraded', async () => {
+        const report = await service.getHealth();
+
+        expect(report.providers.find(provider => provider.provider === STRAVA)).toMatchObject({
+            status: 'degraded',
+            runs: { total: 4, failed: 3, errorRate: 0.75 },
+        });
+        expect(report.status).toBe('degraded');
+    });
+
+    it('should mark providers with missing config or an open circuit as down', async () => {
+        delete config.PLAID_SECRET;
+        mockHttp.circuitState.mockImplementation((provider: IntegrationProviderName) => provider === GOODREADS ? 'open' : 'closed');
+
+        const report = await service.getHealth();
+
+        expect(report.providers.find(provider => provider.provider === PLAID)).toMatchObject({
+            status: 'down',
+            config: { configured: false, missing: ['PLAID_SECRET'] },
+        });
+        expect(report.providers.find(provider => provider.provider === GOODREADS)?.status).toBe('down');
+        expect(report.status).toBe('down');
+    });
+
+    it('should leave disabled providers out of the overall status', async () => {
+        delete config.PLAID_SECRET;
+        mockRegistry.isEnabled.mockImplementation((provider: IntegrationProviderName) => provider !== PLAID);
+        config.INTEGRATION_HEALTH_ERROR_RATE = '0.9';
+
+        const report = await service.getHealth();
+
+        expect(report.providers.find(provider => provider.provider === PLAID)).toMatchObject({ enabled: false, status: 'disabled' });
+        expect(report.status).toBe('ok');
+    });
+});
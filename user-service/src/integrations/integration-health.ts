@@ -0,0 +1,107 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '@traeta/prisma';
+import { IntegrationProviderRegistry } from './provider-registry';
+import { ProviderHttpClient } from './provider-http-client';
+import { INTEGRATION_CONFIGS, IntegrationConfigCheck, checkIntegrationConfig } from './config-checks';
+import { IntegrationProviderName } from './types';
+import { ACTIVE_CONDITION, ActionStatus } from '../../constants';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type HealthStatus = 'ok' | 'degraded' | 'down' | 'disabled';
+
+export type ProviderHealth = {
+    provider: IntegrationProviderName;
+    enabled: boolean;
+    status: HealthStatus;
+    config: IntegrationConfigCheck;
+    circuit: 'closed' | 'open' | 'half_open';
+    // Latest successful sync for any user
+    lastSuccessfulSyncAt: Date | null;
+    // Sync runs started within the window
+    runs: { total: number; failed: number; errorRate: number };
+};
+
+export type IntegrationHealthReport = {
+    status: Exclude<HealthStatus, 'disabled'>;
+    checkedAt: Date;
+    windowHours: number;
+    providers: ProviderHealth[];
+};
+
+/**
+ * Operator view of the integrations: per registered provider, whether its configuration is present
+ * and usable, the state of its HTTP circuit breaker, and how its syncs have been doing across users.
+ *
+ * A provider is down when its configuration is missing or invalid or its circuit is open, and degraded
+ * when its circuit is half-open or at least INTEGRATION_HEALTH_ERROR_RATE of its runs in the last
+ * INTEGRATION_HEALTH_WINDOW_HOURS failed.
+ */
+@Injectable()
+export class IntegrationHealthService {
+    constructor(
+        private readonly registry: IntegrationProviderRegistry,
+        private readonly http: ProviderHttpClient,
+        private readonly prisma: PrismaService,
+        private readonly configService: ConfigService,
+    ) { }
+
+    async getHealth(): Promise<IntegrationHealthReport> {
+        const checkedAt = new Date();
+        const windowHours = this.getNumber('INTEGRATION_HEALTH_WINDOW_HOURS', 24);
+        const errorRateThreshold = this.getNumber('INTEGRATION_HEALTH_ERROR_RATE', 0.5);
+        const names = this.registry.registered();
+
+        const [lastSuccesses, windowRuns] = await Promise.all([
+            this.prisma.syncRuns.groupBy({
+                by: ['provider'],
+                where: { provider: { in: names }, status: ActionStatus.SUCCESS, ...ACTIVE_CONDITION },
+                _max: { finishedAt: true },
+            }),
+            this.prisma.syncRuns.groupBy({
+                by: ['provider', 'status'],
+                where: {
+                    provider: { in: names },
+                    startedAt: { gte: new Date(checkedAt.getTime() - windowHours * HOUR_MS) },
+                    ...ACTIVE_CONDITION,
+                },
+                _count: { _all: true },
+            }),
+        ]);
+
+        const get = (key: string) => this.configService.get<string>(key);
+        const providers = names.map((provider): ProviderHealth => {
+            const enabled = this.registry.isEnabled(provider);
+            const config = checkIntegrationConfig(INTEGRATION_CONFIGS[provider], get);
+            const circuit = this.http.circuitState(provider);
+            const lastSuccessfulSyncAt = lastSuccesses.find(row => row.provider === provider)?._max.finishedAt ?? null;
+
+            const counts = windowRuns.filter(row => row.provider === provider);
+            const total = counts.reduce((sum, row) => sum + row._count._all, 0);
+            const failed = counts.find(row => row.status === ActionStatus.FAILED)?._count._all ?? 0;
+            const errorRate = total > 0 ? failed / total : 0;
+
+            let status: HealthStatus = 'ok';
+            if (!enabled) {
+                status = 'disabled';
+            } else if (!config.configured || circuit === 'open') {
+                status = 'down';
+            } else if (circuit === 'half_open' || (total > 0 && errorRate >= errorRateThreshold)) {
+                status = 'degraded';
+            }
+
+            return { provider, enabled, status, config, circuit, lastSuccessfulSyncAt, runs: { total, failed, errorRate } };
+        });
+
+        const statuses = providers.map(provider => provider.status);
+        const status = statuses.includes('down') ? 'down' : statuses.includes('degraded') ? 'degraded' : 'ok';
+
+        return { status, checkedAt, windowHours, providers };
+    }
+
+    private getNumber(key: string, fallback: number): number {
+        const value = Number(this.configService.get<string>(key));
+        return value > 0 ? value : fallback;
+    }
+}
@@ -0,0 +1,96 @@
+import { MetricsService } from '@traeta/metrics';
+import { IntegrationMetrics } from './integration-metrics';
+import { ProviderRequestMetric } from './provider-http-client';
+import { SyncRunSummary } from './sync-run-recorder';
+import { RefreshEvent } from './token-lifecycle';
+import { IntegrationProviderName } from './types';
+import { ActionStatus } from '../../constants';
+
+describe('IntegrationMetrics', () => {
+    let metrics: MetricsService;
+    let integrationMetrics: IntegrationMetrics;
+    let emitSync: (summary: SyncRunSummary) => void;
+    let emitRequest: (metric: ProviderRequestMetric) => void;
+    let emitRefresh: (event: RefreshEvent) => void;
+    let mockPrisma: any;
+
+    const request = (metric: Partial<ProviderRequestMetric>): ProviderRequestMetric => ({
+        provider: IntegrationProviderName.STRAVA,
+        operation: 'Fetch activities',
+        method: 'GET',
+        outcome: 'success',
+        attempt: 1,
+        durationMs: 10,
+        ...metric,
+    });
+
+    beforeEach(() => {
+        metrics = new MetricsService();
+        mockPrisma = {
+            syncJobs: {
+                groupBy: jest.fn().mockResolvedValue([
+                    { status: 'PENDING', _count: { _all: 3 } },
+                    { status: 'RUNNING', _count: { _all: 1 } },
+                ]),
+            },
+        };
+        const integrations = { onSync: jest.fn(listener => { emitSync = listener; return jest.fn(); }) };
+        const http = { onRequest: jest.fn(listener => { emitRequest = listener; return jest.fn(); }) };
+        const tokenLifecycle = { onRefresh: jest.fn(listener => { emitRefresh = listener; return jest.fn(); }) };
+
+        integrationMetrics = new IntegrationMetrics(metrics, integrations as any, http as any, tokenLifecycle as any, mockPrisma);
+        integrationMetrics.onModuleInit();
+    });
+
+    it('should record sync duration and items by provider', async () => {
+        emitSync({
+            provider: IntegrationProviderName.SPOTIFY,
+            userId: 'user-1',
+            status: ActionStatus.SUCCESS,
+            durationMs: 1500,
+            items: { created: 4, updated: 2, skipped: 0 },
+            errorClass: null,
+        });
+
+        const output = await metrics.render();
+
+        expect(output).toContain('integration_sync_duration_seconds_count{provider="spotify",status="SUCCESS"} 1');
+        expect(output).toContain('integration_sync_duration_seconds_sum{provider="spotify",status="SUCCESS"} 1.5');
+        expect(output).toContain('integration_sync_items_total{provider="spotify",outcome="created"} 4');
+        expect(output).toContain('integration_sync_items_total{provider="spotify",outcome="updated"} 2');
+        expect(output).not.toContain('outcome="skipped"');
+    });
+
+    it('should count token refreshes by result', async () => {
+        emitRefresh({ provider: IntegrationProviderName.EMAIL_SCRAPER, userId: 'user-1', outcome: 'refreshed' });
+        emitRefresh({ provider: IntegrationProviderName.STRAVA, userId: 'user-1', outcome: 'reauth_required' });
+        emitRefresh({ provider: IntegrationProviderName.STRAVA, userId: 'user-2', outcome: 'skipped' });
+
+        const output = await metrics.render();
+
+        expect(output).toContain('integration_token_refresh_total{provider="email_scraper",result="refreshed"} 1');
+        expect(output).toContain('integration_token_refresh_total{provider="strava",result="reauth_required"} 1');
+        expect(output).not.toContain('result="skipped"');
+    });
+
+    it('should count provider API errors by exception class', async () => {
+        emitRequest(request({ operation: 'Token refresh', outcome: 'http_error', status: 400, errorClass: 'RefreshTokenException' }));
+        // A retried attempt is not an error yet
+        emitRequest(request({ outcome: 'http_error', status: 503 }));
+        emitRequest(request({ outcome: 'rate_limited', status: 429, errorClass: 'RateLimitException' }));
+
+        const output = await metrics.render();
+
+        expect(output).toContain('integration_provider_api_errors_total{provider="strava",error_class="RefreshTokenException"} 1');
+        expect(output).toContain('integration_provider_api_errors_total{provider="strava",error_class="RateLimitException"} 1');
+        expect(output).not.toContain('error_class="undefined"');
+    });
+
+    it('should report the sync job queue depth on every scrape', async () => {
+        const output = await metrics.render();
+
+        expect(output).toContain('integration_sync_jobs{status="PENDING"} 3');
+        expect(output).toContain('integration_sync_jobs{status="RUNNING"} 1');
+        expect(output).toContain('integration_sync_jobs{status="DEAD_LETTER"} 0');
+    });
+});
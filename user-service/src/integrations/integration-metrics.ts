@@ -0,0 +1,72 @@
+import { Injectable, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { PrismaService } from '@traeta/prisma';
+import { MetricsService } from '@traeta/metrics';
+import { IntegrationsService } from './integrations.service';
+import { ProviderHttpClient } from './provider-http-client';
+import { TokenLifecycleService } from './token-lifecycle';
+import { ACTIVE_CONDITION, SYNC_JOB_STATUS } from '../../constants';
+
+const SECOND_MS = 1000;
+
+// Jobs still in the queue; COMPLETED ones are history
+const QUEUED_JOB_STATUSES = [SYNC_JOB_STATUS.PENDING, SYNC_JOB_STATUS.RUNNING, SYNC_JOB_STATUS.DEAD_LETTER];
+
+/**
+ * Integration metrics for GET /metrics: sync duration and item counts from IntegrationsService.onSync,
+ * token refreshes from TokenLifecycleService.onRefresh, provider API errors from
+ * ProviderHttpClient.onRequest, and the sync job queue depth, read from SyncJobs on every scrape.
+ */
+@Injectable()
+export class IntegrationMetrics implements OnModuleInit, OnModuleDestroy {
+    private readonly unsubscribe: Array<() => void> = [];
+
+    constructor(
+        private readonly metrics: MetricsService,
+        private readonly integrations: IntegrationsService,
+        private readonly http: ProviderHttpClient,
+        private readonly tokenLifecycle: TokenLifecycleService,
+        private readonly prisma: PrismaService,
+    ) { }
+
+    onModuleInit() {
+        const syncDuration = this.metrics.histogram('integration_sync_duration_seconds', 'Provider sync duration by provider and status');
+        const syncItems = this.metrics.counter('integration_sync_items_total', 'List items written by provider syncs, by outcome (created, updated, skipped)');
+        const tokenRefreshes = this.metrics.counter('integration_token_refresh_total', 'OAuth token refresh attempts by provider and result (refreshed, reauth_required, failed)');
+        const apiErrors = this.metrics.counter('integration_provider_api_errors_total', 'Failed provider API calls by provider and exception class');
+
+        this.unsubscribe.push(this.integrations.onSync(summary => {
+            syncDuration.observe({ provider: summary.provider, status: summary.status }, summary.durationMs / SECOND_MS);
+            for (const [outcome, count] of Object.entries(summary.items)) {
+                if (count > 0) syncItems.inc({ provider: summary.provider, outcome }, count);
+            }
+        }));
+
+        this.unsubscribe.push(this.tokenLifecycle.onRefresh(event => {
+            if (event.outcome !== 'skipped') {
+                tokenRefreshes.inc({ provider: event.provider, result: event.outcome });
+            }
+        }));
+
+        this.unsubscribe.push(this.http.onRequest(metric => {
+            // Only the attempt whose error reached the caller; retried attempts are not errors yet
+            if (metric.errorClass) {
+                apiErrors.inc({ provider: metric.provider, error_class: metric.errorClass });
+            }
+        }));
+
+        this.metrics.gauge('integration_sync_jobs', 'Sync jobs in the queue by status', async gauge => {
+            const rows = await this.prisma.syncJobs.groupBy({
+                by: ['status'],
+                where: { status: { in: QUEUED_JOB_STATUSES }, ...ACTIVE_CONDITION },
+                _count: { _all: true },
+            });
+            for (const status of QUEUED_JOB_STATUSES) {
+                gauge.set({ status }, rows.find(row => row.status === status)?._count._all ?? 0);
+            }
+        });
+    }
+
+    onModuleDestroy() {
+        this.unsubscribe.splice(0).forEach(unsubscribe => unsubscribe());
+    }
+}
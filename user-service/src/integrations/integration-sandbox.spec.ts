@@ -0,0 +1,151 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosAdapter, AxiosHeaders } from 'axios';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IntegrationSandbox, SandboxFixtureFile } from './integration-sandbox';
+import { IntegrationProviderName } from './types';
+import { SandboxFixtureNotFoundException } from './exceptions';
+
+describe('IntegrationSandbox', () => {
+    const STRAVA = IntegrationProviderName.STRAVA;
+    let dir: string;
+    let config: Record<string, string>;
+    let sandbox: IntegrationSandbox;
+
+    const writeFixture = (fixture: SandboxFixtureFile) =>
+        fs.writeFileSync(path.join(dir, `${fixture.provider}.json`), JSON.stringify(fixture));
+    const readFixture = (provider: IntegrationProviderName): SandboxFixtureFile =>
+        JSON.parse(fs.readFileSync(path.join(dir, `${provider}.json`), 'utf8'));
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sandbox-'));
+        config = { INTEGRATION_SANDBOX_FIXTURES_DIR: dir };
+        sandbox = new IntegrationSandbox({ get: jest.fn((key: string) => config[key]) } as unknown as ConfigService);
+        jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+        jest.spyOn(Logger.prototype, 'debug').mockImplementation();
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+        jest.restoreAllMocks();
+    });
+
+    it('should leave requests alone when the sandbox is off', () => {
+        expect(sandbox.axiosOptions(STRAVA)).toEqual({});
+        expect(sandbox.gaxiosOptions(IntegrationProviderName.CONTACT_LIST)).toEqual({});
+    });
+
+    it('should refuse to start outside off mode in production', () => {
+        config.INTEGRATION_SANDBOX_MODE = 'replay';
+        config.NODE_ENV = 'production';
+
+        expect(() => sandbox.onModuleInit()).toThrow('INTEGRATION_SANDBOX_MODE=replay is not allowed in production');
+    });
+
+    it('should reject an unknown mode', () => {
+        config.INTEGRATION_SANDBOX_MODE = 'live';
+
+        expect(() => sandbox.axiosOptions(STRAVA)).toThrow("Invalid INTEGRATION_SANDBOX_MODE 'live'");
+    });
+
+    describe('replay', () => {
+        beforeEach(() => {
+            config.INTEGRATION_SANDBOX_MODE = 'replay';
+            writeFixture({
+                provider: STRAVA,
+                exchanges: [
+                    { method: 'GET', url: 'https://www.strava.com/api/v3/athlete/activities', query: 'page=2', status: 200, data: [] },
+                    { method: 'GET', url: 'https://www.strava.com/api/v3/athlete/activities', query: 'page=1', status: 200, data: [{ id: 1 }] },
+                    { method: 'POST', url: 'https://www.strava.com/oauth/token', status: 200, data: { access_token: 'sandbox-access_token' } },
+                    { method: 'POST', url: 'https://www.strava.com/oauth/token', status: 400, data: { message: 'Bad Request' } },
+                ],
+            });
+        });
+
+        it('should answer from the fixture by method, URL and query', async () => {
+            const options = sandbox.axiosOptions(STRAVA);
+
+            const first = await axios.get('https://www.strava.com/api/v3/athlete/activities', { ...options, params: { page: 1 } });
+            const second = await axios.get('https://www.strava.com/api/v3/athlete/activities?page=2', options);
+
+            expect(first.data).toEqual([{ id: 1 }]);
+            expect(second.data).toEqual([]);
+        });
+
+        it('should cycle through responses recorded for the same request and reject error statuses', async () => {
+            const options = sandbox.axiosOptions(STRAVA);
+
+            await expect(axios.post('https://www.strava.com/oauth/token', {}, options)).resolves.toMatchObject({
+                status: 200,
+                data: { access_token: 'sandbox-access_token' },
+            });
+            await expect(axios.post('https://www.strava.com/oauth/token', {}, options)).rejects.toMatchObject({
+                isAxiosError: true,
+                response: { status: 400, data: { message: 'Bad Request' } },
+            });
+            await expect(axios.post('https://www.strava.com/oauth/token', {}, options)).resolves.toMatchObject({ status: 200 });
+        });
+
+        it('should fail requests that were never recorded', async () => {
+            await expect(
+                axios.get('https://www.strava.com/api/v3/athlete', sandbox.axiosOptions(STRAVA)),
+            ).rejects.toThrow(SandboxFixtureNotFoundException);
+        });
+
+        it('should build fetch-style responses for googleapis clients', async () => {
+            writeFixture({
+                provider: IntegrationProviderName.CONTACT_LIST,
+                exchanges: [{ method: 'GET', url: 'https://people.googleapis.com/v1/people/me/connections', status: 200, data: { totalPeople: 0 } }],
+            });
+            const { adapter } = sandbox.gaxiosOptions(IntegrationProviderName.CONTACT_LIST);
+            const defaultAdapter = jest.fn();
+
+            const response = await adapter(
+                { url: new URL('https://people.googleapis.com/v1/people/me/connections?pageSize=1000'), headers: new Headers() },
+                defaultAdapter,
+            );
+
+            expect(response.status).toBe(200);
+            expect(response.data).toEqual({ totalPeople: 0 });
+            expect(defaultAdapter).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('record', () => {
+        const originalAdapter = axios.defaults.adapter;
+
+        afterEach(() => {
+            axios.defaults.adapter = originalAdapter;
+        });
+
+        it('should append exchanges with credentials redacted', async () => {
+            config.INTEGRATION_SANDBOX_MODE = 'record';
+            const network: AxiosAdapter = async cfg => ({
+                status: 200,
+                statusText: 'OK',
+                headers: new AxiosHeaders({ 'content-type': 'application/json', 'set-cookie': 'session=1' }),
+                data: JSON.stringify({ access_token: 'real-token', athlete: { id: 7 } }),
+                config: cfg,
+            });
+            axios.defaults.adapter = network;
+
+            const response = await axios.post(
+                'https://www.strava.com/oauth/token',
+                { code: 'abc' },
+                { ...sandbox.axiosOptions(STRAVA), params: { code: 'abc', grant_type: 'authorization_code' } },
+            );
+
+            expect(response.data.access_token).toBe('real-token');
+            expect(readFixture(STRAVA).exchanges).toEqual([{
+                method: 'POST',
+                url: 'https://www.strava.com/oauth/token',
+                query: 'code=REDACTED&grant_type=authorization_code',
+                status: 200,
+                headers: { 'content-type': 'application/json' },
+                data: { access_token: 'sandbox-access_token', athlete: { id: 7 } },
+            }]);
+        });
+    });
+});
@@ -0,0 +1,249 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import type { Common } from 'googleapis';
+import * as fs from 'fs';
+import * as path from 'path';
+import { IntegrationProviderName } from './types';
+import { SandboxFixtureNotFoundException } from './exceptions';
+
+export type SandboxMode = 'off' | 'record' | 'replay';
+
+const SANDBOX_MODES: SandboxMode[] = ['off', 'record', 'replay'];
+
+/** One recorded request/response pair. Request bodies are not stored, so they play no part in matching */
+export type SandboxExchange = {
+    method: string;
+    url: string;
+    query?: string;
+    status: number;
+    headers?: Record<string, string>;
+    data: any;
+};
+
+export type SandboxFixtureFile = {
+    provider: IntegrationProviderName;
+    exchanges: SandboxExchange[];
+};
+
+// Credentials that must never end up in a fixture file
+const REDACTED_QUERY_PARAMS = ['key', 'access_token', 'token', 'client_secret', 'refresh_token', 'code'];
+const REDACTED_RESPONSE_FIELDS = ['access_token', 'refresh_token', 'id_token'];
+const RECORDED_HEADERS = ['content-type', 'retry-after'];
+
+type GaxiosAdapter = NonNullable<Common.GaxiosOptions['adapter']>;
+
+/**
+ * Record/replay of provider HTTP traffic for offline development and tests.
+ *
+ * INTEGRATION_SANDBOX_MODE=record sends requests as usual and appends every exchange to
+ * <INTEGRATION_SANDBOX_FIXTURES_DIR>/<provider>.json, with tokens and API keys redacted.
+ * INTEGRATION_SANDBOX_MODE=replay answers from those files without touching the network and
+ * throws SandboxFixtureNotFoundException for anything that was not recorded.
+ *
+ * Requests match on method, URL and query string, falling back to method and URL alone.
+ * Repeated requests cycle through the recorded responses in order.
+ *
+ * Providers opt in by passing axiosOptions() to axios (ProviderHttpClient and the Plaid SDK
+ * do this) or gaxiosOptions() to googleapis clients.
+ */
+@Injectable()
+export class IntegrationSandbox implements OnModuleInit {
+    private readonly logger = new Logger(IntegrationSandbox.name);
+    private readonly fixtures = new Map<IntegrationProviderName, SandboxFixtureFile>();
+    private readonly cursors = new Map<string, number>();
+
+    constructor(private readonly configService: ConfigService) { }
+
+    onModuleInit() {
+        const mode = this.getMode();
+        if (mode === 'off') return;
+
+        if (this.configService.get<string>('NODE_ENV') === 'production') {
+            throw new Error(`INTEGRATION_SANDBOX_MODE=${mode} is not allowed in production`);
+        }
+        this.logger.warn(`Integration sandbox is in ${mode} mode, fixtures in ${this.getFixturesDir()}`);
+    }
+
+    getMode(): SandboxMode {
+        const mode = (this.configService.get<string>('INTEGRATION_SANDBOX_MODE') || 'off') as SandboxMode;
+        if (!SANDBOX_MODES.includes(mode)) {
+            throw new Error(`Invalid INTEGRATION_SANDBOX_MODE '${mode}'; expected ${SANDBOX_MODES.join(', ')}`);
+        }
+        return mode;
+    }
+
+    /**
+     * Request options that route an axios call through the sandbox. Empty when the sandbox is off.
+     */
+    axiosOptions(provider: IntegrationProviderName): { adapter?: AxiosAdapter } {
+        switch (this.getMode()) {
+            case 'replay':
+                return { adapter: config => this.replayAxios(provider, config) };
+            case 'record':
+                return { adapter: config => this.recordAxios(provider, config) };
+            default:
+                return {};
+        }
+    }
+
+    /**
+     * Transporter options for googleapis / google-auth-library clients. Empty when the sandbox is off.
+     */
+    gaxiosOptions(provider: IntegrationProviderName): { adapter?: GaxiosAdapter } {
+        const mode = this.getMode();
+        if (mode === 'off') return {};
+
+        const adapter = async (options: Parameters<GaxiosAdapter>[0], defaultAdapter: Parameters<GaxiosAdapter>[1]) => {
+            const url = new URL(options.url);
+            const method = (options.method || 'GET').toUpperCase();
+
+            if (mode === 'record') {
+                const response = await defaultAdapter(options);
+                this.record(provider, method, url, response.status, this.pickHeaders(name => response.headers.get(name)), response.data);
+                return response;
+            }
+
+            const exchange = this.find(provider, method, url);
+            const response = new Response(null, { status: exchange.status, headers: exchange.headers });
+            return Object.assign(response, { config: options, data: exchange.data });
+        };
+        return { adapter };
+    }
+
+    private async replayAxios(provider: IntegrationProviderName, config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+        const exchange = this.find(provider, (config.method || 'get').toUpperCase(), new URL(axios.getUri(config)));
+        const response: AxiosResponse = {
+            status: exchange.status,
+            statusText: '',
+            headers: { ...exchange.headers },
+            data: exchange.data,
+            config,
+        };
+
+        // Adapters settle the response themselves, so mirror axios' own status check
+        const validateStatus = config.validateStatus ?? (status => status >= 200 && status < 300);
+        if (!validateStatus(exchange.status)) {
+            throw new AxiosError(
+                `Request failed with status code ${exchange.status}`,
+                exchange.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+                config,
+                null,
+                response,
+            );
+        }
+        return response;
+    }
+
+    private async recordAxios(provider: IntegrationProviderName, config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+        const defaultAdapter = axios.getAdapter(axios.defaults.adapter);
+        const method = (config.method || 'get').toUpperCase();
+        const url = new URL(axios.getUri(config));
+
+        try {
+            const response = await defaultAdapter(config);
+            this.record(provider, method, url, response.status, this.pickHeaders(name => response.headers?.[name]?.toString()), response.data);
+            return response;
+        } catch (error) {
+            // Error responses are part of the provider's behaviour and worth replaying too
+            const response: AxiosResponse | undefined = error?.response;
+            if (response) {
+                this.record(provider, method, url, response.status, this.pickHeaders(name => response.headers?.[name]?.toString()), response.data);
+            }
+            throw error;
+        }
+    }
+
+    private find(provider: IntegrationProviderName, method: string, url: URL): SandboxExchange {
+        const base = url.origin + url.pathname;
+        const query = this.canonicalQuery(url);
+        const exchanges = this.load(provider).exchanges.filter(e => e.method === method && e.url === base);
+
+        for (const [key, candidates] of [
+            [`${method} ${base}?${query}`, exchanges.filter(e => (e.query ?? '') === query)],
+            [`${method} ${base}`, exchanges],
+        ] as const) {
+            if (candidates.length === 0) continue;
+            const index = this.cursors.get(key) ?? 0;
+            this.cursors.set(key, index + 1);
+            return candidates[index % candidates.length];
+        }
+
+        throw new SandboxFixtureNotFoundException(provider, `${method} ${base}${query ? `?${query}` : ''}`);
+    }
+
+    private record(provider: IntegrationProviderName, method: string, url: URL, status: number, headers: Record<string, string>, data: any) {
+        const fixture = this.load(provider);
+        const query = this.canonicalQuery(url);
+        fixture.exchanges.push({
+            method,
+            url: url.origin + url.pathname,
+            ...(query ? { query } : {}),
+            status,
+            headers,
+            data: this.redact(this.parseBody(data)),
+        });
+
+        const file = this.fixturePath(provider);
+        fs.mkdirSync(path.dirname(file), { recursive: true });
+        fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + '\n');
+        this.logger.debug(`Recorded ${provider} ${method} ${url.pathname} -> ${status}`);
+    }
+
+    private load(provider: IntegrationProviderName): SandboxFixtureFile {
+        let fixture = this.fixtures.get(provider);
+        if (!fixture) {
+            const file = this.fixturePath(provider);
+            fixture = fs.existsSync(file)
+                ? JSON.parse(fs.readFileSync(file, 'utf8')) as SandboxFixtureFile
+                : { provider, exchanges: [] };
+            this.fixtures.set(provider, fixture);
+        }
+        return fixture;
+    }
+
+    // Sorted and redacted, so recordings made with different credentials still match
+    private canonicalQuery(url: URL): string {
+        const params = [...url.searchParams.entries()]
+            .map(([key, value]) => [key, REDACTED_QUERY_PARAMS.includes(key) ? 'REDACTED' : value])
+            .sort(([a, av], [b, bv]) => a.localeCompare(b) || av.localeCompare(bv));
+        return new URLSearchParams(params).toString();
+    }
+
+    private redact(value: any): any {
+        if (Array.isArray(value)) return value.map(item => this.redact(item));
+        if (!value || typeof value !== 'object') return value;
+
+        return Object.fromEntries(Object.entries(value).map(([key, field]) => [
+            key,
+            REDACTED_RESPONSE_FIELDS.includes(key) && typeof field === 'string' ? `sandbox-${key}` : this.redact(field),
+        ]));
+    }
+
+    // The axios adapter hands back the raw body; store JSON as JSON so fixtures stay readable
+    private parseBody(data: any): any {
+        if (typeof data !== 'string') return data;
+        try {
+            return JSON.parse(data);
+        } catch {
+            return data;
+        }
+    }
+
+    private pickHeaders(get: (name: string) => string | null | undefined): Record<string, string> {
+        const headers: Record<string, string> = {};
+        for (const name of RECORDED_HEADERS) {
+            const value = get(name);
+            if (value !== undefined && value !== null) headers[name] = value;
+        }
+        return headers;
+    }
+
+    private fixturePath(provider: IntegrationProviderName): string {
+        return path.join(this.getFixturesDir(), `${provider}.json`);
+    }
+
+    private getFixturesDir(): string {
+        return path.resolve(this.configService.get<string>('INTEGRATION_SANDBOX_FIXTURES_DIR') || 'sandbox-fixtures');
+    }
+}
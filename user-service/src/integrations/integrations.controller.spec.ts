@@ -1,10 +1,14 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { IntegrationsController } from './integrations.controller';
 import { IntegrationsService } from './integrations.service';
+import { SyncJobQueue } from './sync-job-queue';
+import { WebhookReceiver } from './webhook-receiver';
+import { IntegrationHealthService } from './integration-health';
 import { FirebaseAuthGuard } from '../firebase/firebase-auth.guard';
 import { UserOwnershipGuard } from './guards/user-ownership.guard';
 import { ExecutionContext, ForbiddenException, UnauthorizedException } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
 
 describe('IntegrationsController Security', () => {
     let controller: IntegrationsController;
@@ -20,9 +24,19 @@ describe('IntegrationsController Security', () => {
         status: jest.fn(),
         handleAppleHealthUpload: jest.fn(),
         getIntegrationConfig: jest.fn(),
+        getCatalog: jest.fn(),
         getConnectedUserData: jest.fn(),
     };
 
+    const mockSyncJobQueue = {
+        enqueue: jest.fn(),
+        getJob: jest.fn(),
+    };
+
+    const mockHealthService = {
+        getHealth: jest.fn(),
+    };
+
     beforeAll(async () => {
         const module: TestingModule = await Test.createTestingModule({
             controllers: [IntegrationsController],
@@ -31,6 +45,22 @@ describe('IntegrationsController Security', () => {
                     provide: IntegrationsService,
                     useValue: mockIntegrationsService,
                 },
+                {
+                    provide: SyncJobQueue,
+                    useValue: mockSyncJobQueue,
+                },
+                {
+                    provide: WebhookReceiver,
+                    useValue: {},
+                },
+                {
+                    provide: IntegrationHealthService,
+                    useValue: mockHealthService,
+                },
+                {
+                    provide: ConfigService,
+                    useValue: { get: jest.fn() },
+                },
                 {
                     provide: FirebaseAuthGuard,
                     useValue: {
@@ -85,20 +115,37 @@ describe('IntegrationsController Security', () => {
         });
 
         describe('sync endpoint', () => {
-            it('should call sync with valid authenticated user', async () => {
+            it('should enqueue a sync job with valid authenticated user', async () => {
                 const mockUser = { uid: 'user-123', email: 'test@example.com', phoneNumber: null };
                 const provider = 'spotify';
                 const userId = 'user-123';
 
-                mockIntegrationsService.sync.mockResolvedValue({
-                    success: true,
-                    syncedData: {},
+                mockSyncJobQueue.enqueue.mockResolvedValue({
+                    jobId: 'job-123',
+                    status: 'PENDING',
                 });
 
                 const result = await controller.sync(provider, userId, mockUser);
 
-                expect(mockIntegrationsService.sync).toHaveBeenCalledWith(provider, userId);
-                expect(result).toHaveProperty('success', true);
+                expect(mockSyncJobQueue.enqueue).toHaveBeenCalledWith(provider, userId);
+                expect(mockIntegrationsService.sync).not.toHaveBeenCalled();
+                expect(result).toHaveProperty('jobId', 'job-123');
+            });
+        });
+
+        describe('job status endpoint', () => {
+            it('should return the job for the authenticated user', async () => {
+                const mockUser = { uid: 'user-123', email: 'test@example.com', phoneNumber: null };
+
+                mockSyncJobQueue.getJob.mockResolvedValue({
+                    jobId: 'job-123',
+                    status: 'COMPLETED',
+                });
+
+                const result = await controller.getJob('job-123', 'user-123', mockUser);
+
+                expect(mockSyncJobQueue.getJob).toHaveBeenCalledWith('job-123', 'user-123');
+                expect(result).toHaveProperty('status', 'COMPLETED');
             });
         });
 
@@ -262,6 +309,24 @@ describe('IntegrationsController Security', () => {
             });
         });
 
+        describe('Get Catalog', () => {
+            it('should return the provider catalog', async () => {
+                const catalog = { providers: [{ provider: 'plaid', authType: 'link-token' }] };
+                mockIntegrationsService.getCatalog.mockReturnValue(catalog);
+
+                await expect(controller.getCatalog()).resolves.toEqual(catalog);
+            });
+        });
+
+        describe('Get Health', () => {
+            it('should return the integration health report', async () => {
+                const report = { status: 'ok', checkedAt: new Date(), windowHours: 24, providers: [] };
+                mockHealthService.getHealth.mockResolvedValue(report);
+
+                await expect(controller.getHealth()).resolves.toEqual(report);
+            });
+        });
+
         describe('Get User Data', () => {
             it('should return user data with valid authentication', async () => {
                 const mockUser = { uid: 'user-123', email: 'test@example.com', phoneNumber: null };
@@ -274,12 +339,13 @@ describe('IntegrationsController Security', () => {
                     data: { topTracks: [], topArtists: [] },
                 });
 
-                const result = await controller.getDataPost(provider, userId, mockUser, forceSync);
+                const result = await controller.getDataPost(provider, userId, mockUser, forceSync, 'link-1');
 
                 expect(mockIntegrationsService.getConnectedUserData).toHaveBeenCalledWith(
                     provider,
                     userId,
                     forceSync,
+                    'link-1',
                 );
                 expect(result).toHaveProperty('user');
                 expect(result).toHaveProperty('data');
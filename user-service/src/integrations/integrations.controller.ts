@@ -1,12 +1,18 @@
-import { Body, Controller, Get, Param, Post, Query, HttpStatus, UseGuards, SetMetadata } from '@nestjs/common';
+import { Body, Controller, Get, Param, Post, Put, Query, Req, HttpCode, HttpStatus, UseGuards, SetMetadata, RawBodyRequest } from '@nestjs/common';
 import { ApiTags, ApiOperation, ApiResponse, ApiParam, ApiBody, ApiQuery, ApiBearerAuth } from '@nestjs/swagger';
 import { IntegrationsService } from './integrations.service';
-import { IntegrationProviderName } from './types';
+import { SyncJobQueue } from './sync-job-queue';
+import { WebhookReceiver } from './webhook-receiver';
+import { IntegrationHealthService } from './integration-health';
+import { DisconnectDataHandling, IntegrationAuthType, IntegrationProviderName } from './types';
 // import { FirebaseAuthGuard } from '../firebase/firebase-auth.guard';
 import { JwtAuthGuard } from 'src/guards/guards';
 import { UserOwnershipGuard } from './guards/user-ownership.guard';
+import { AdminGuard } from './guards/admin.guard';
 import { CurrentUser, AuthenticatedUser } from './decorators/current-user.decorator';
+import type { Request } from 'express';
 import { IntegrationErrorResponseDto } from './dto/error-response.dto';
+import { IntegrationSyncSettingsUpdate } from './sync-settings';
 
 // Decorator to mark endpoints as public (skip authentication)
 export const Public = () => SetMetadata('isPublic', true);
@@ -16,14 +22,198 @@ export const Public = () => SetMetadata('isPublic', true);
 @UseGuards(JwtAuthGuard) // Apply authentication to all endpoints by default
 @ApiBearerAuth()
 export class IntegrationsController {
-    constructor(private readonly integrations: IntegrationsService) { }
+    constructor(
+        private readonly integrations: IntegrationsService,
+        private readonly syncJobs: SyncJobQueue,
+        private readonly webhooks: WebhookReceiver,
+        private readonly health: IntegrationHealthService,
+    ) { }
+
+    // 0) Sync job status
+    @Get('jobs/:jobId')
+    @UseGuards(UserOwnershipGuard)
+    @ApiOperation({
+        summary: 'Get sync job status',
+        description: 'Returns the state of a sync job created by POST /integrations/:provider/sync'
+    })
+    @ApiParam({
+        name: 'jobId',
+        description: 'Sync job ID',
+        example: '3f1c2a4e-8b7d-4e8a-9c2f-1a2b3c4d5e6f'
+    })
+    @ApiQuery({
+        name: 'userId',
+        description: 'User ID (must match authenticated user)',
+        example: 'user-123-abc'
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Sync job details',
+        schema: {
+            type: 'object',
+            properties: {
+                jobId: { type: 'string', example: '3f1c2a4e-8b7d-4e8a-9c2f-1a2b3c4d5e6f' },
+                provider: { type: 'string', example: 'strava' },
+                status: { type: 'string', enum: ['PENDING', 'RUNNING', 'COMPLETED', 'DEAD_LETTER'], example: 'PENDING' },
+                attempts: { type: 'number', example: 1 },
+                maxAttempts: { type: 'number', example: 5 },
+                runAt: { type: 'string', format: 'date-time', description: 'Earliest time of the next attempt' },
+                startedAt: { type: 'string', format: 'date-time', nullable: true },
+                finishedAt: { type: 'string', format: 'date-time', nullable: true },
+                lastError: { type: 'string', nullable: true, example: 'Rate limit exceeded for strava. Retry after 900 seconds.' },
+                lastErrorCode: { type: 'string', nullable: true, example: 'RATE_LIMIT_EXCEEDED' },
+                result: { type: 'object', nullable: true, description: 'Sync result once the job has completed' }
+            }
+        }
+    })
+    @ApiResponse({
+        status: HttpStatus.UNAUTHORIZED,
+        description: 'Unauthorized - Invalid or missing Firebase token',
+        type: IntegrationErrorResponseDto
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'Forbidden - Cannot access another user\'s data',
+        type: IntegrationErrorResponseDto
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'Sync job not found',
+        type: IntegrationErrorResponseDto
+    })
+    async getJob(
+        @Param('jobId') jobId: string,
+        @Query('userId') userId: string,
+        @CurrentUser() user: AuthenticatedUser,
+    ) {
+        return this.syncJobs.getJob(jobId, userId);
+    }
+
+    // 0b) Provider catalog
+    @Get('catalog')
+    @ApiOperation({
+        summary: 'List providers and their capabilities',
+        description: 'Returns how each provider is connected (OAuth, link token, credentials or device upload), '
+            + 'which optional features it supports, and the lists and categories its items land in'
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Provider catalog',
+        schema: {
+            type: 'object',
+            properties: {
+                providers: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            provider: { type: 'string', example: 'plaid' },
+                            provider_name: { type: 'string', example: 'Plaid' },
+                            authType: { type: 'string', enum: Object.values(IntegrationAuthType), example: 'link-token' },
+                            authorizationUrl: { type: 'string', nullable: true, example: 'https://www.strava.com/oauth/authorize' },
+                            uploadEndpoint: { type: 'string', nullable: true, example: '/integrations/apple_health/upload' },
+                            webhooks: { type: 'boolean', example: true },
+                            fileImport: { type: 'boolean', example: false },
+                            disconnect: { type: 'boolean', example: true },
+                            revoke: { type: 'boolean', example: true, description: 'Disconnect revokes access at the provider' },
+                            multipleConnections: { type: 'boolean', example: true },
+                            dataTypes: { type: 'array', items: { type: 'string' }, example: ['accounts', 'transactions'] },
+                            lists: {
+                                type: 'array',
+                                description: 'Lists the provider writes to, primary list first',
+                                items: {
+                                    type: 'object',
+                                    properties: {
+                                        list: { type: 'string', example: 'Food' },
+                                        categories: { type: 'array', items: { type: 'string' }, example: ['Dining', 'Groceries'] }
+                                    }
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        }
+    })
+    @ApiResponse({
+        status: HttpStatus.UNAUTHORIZED,
+        description: 'Unauthorized - Invalid or missing Firebase token',
+        type: IntegrationErrorResponseDto
+    })
+    async getCatalog() {
+        return this.integrations.getCatalog();
+    }
+
+    // 0c) Integration health (admins only)
+    @Get('health')
+    @UseGuards(AdminGuard)
+    @ApiOperation({
+        summary: 'Check integration health',
+        description: 'For each registered provider: whether its required configuration is present and its credentials parse, '
+            + 'the state of its circuit breaker, its last successful sync across all users and its error rate over the '
+            + 'last INTEGRATION_HEALTH_WINDOW_HOURS. Only available to users listed in INTEGRATION_ADMIN_USER_IDS.'
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Integration health report',
+        schema: {
+            type: 'object',
+            properties: {
+                status: { type: 'string', enum: ['ok', 'degraded', 'down'], example: 'degraded' },
+                checkedAt: { type: 'string', format: 'date-time' },
+                windowHours: { type: 'number', example: 24 },
+                providers: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            provider: { type: 'string', example: 'apple_music' },
+                            enabled: { type: 'boolean', example: true },
+                            status: { type: 'string', enum: ['ok', 'degraded', 'down', 'disabled'], example: 'down' },
+                            config: {
+                                type: 'object',
+                                properties: {
+                                    configured: { type: 'boolean', example: false },
+                                    missing: { type: 'array', items: { type: 'string' }, example: [] },
+                                    problems: { type: 'array', items: { type: 'string' }, example: ['APPLE_MUSIC_PRIVATE_KEY could not be parsed: error:1E08010C:DECODER routines::unsupported'] }
+                                }
+                            },
+                            circuit: { type: 'string', enum: ['closed', 'open', 'half_open'], example: 'closed' },
+                            lastSuccessfulSyncAt: { type: 'string', format: 'date-time', nullable: true },
+                            runs: {
+                                type: 'object',
+                                properties: {
+                                    total: { type: 'number', example: 40 },
+                                    failed: { type: 'number', example: 3 },
+                                    errorRate: { type: 'number', example: 0.075 }
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        }
+    })
+    @ApiResponse({
+        status: HttpStatus.UNAUTHORIZED,
+        description: 'Unauthorized - Invalid or missing Firebase token',
+        type: IntegrationErrorResponseDto
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'Forbidden - Not an integrations admin',
+        type: IntegrationErrorResponseDto
+    })
+    async getHealth() {
+        return this.health.getHealth();
+    }
 
     // 1) Start connection flow for a provider
     @Post(':provider/connect')
     @UseGuards(UserOwnershipGuard)
     @ApiOperation({
         summary: 'Connect to an integration provider',
-        description: 'Initiates the OAuth connection flow for a specific integration provider (Spotify, Strava, Plaid, Apple Music, etc.)'
+        description: 'Initiates the OAuth connection flow for a specific integration provider (Spotify, Strava, Plaid, Apple Music, etc.). Pass connectionId to re-authorize an existing connection (for Plaid, a Link token in update mode for the existing Item); otherwise providers with multipleConnections in GET /integrations/catalog add a new connection so users can link several accounts.'
     })
     @ApiParam({
         name: 'provider',
@@ -35,7 +225,9 @@ export class IntegrationsController {
         schema: {
             type: 'object',
             properties: {
-                userId: { type: 'string', description: 'User ID (must match authenticated user)', example: 'user-123-abc' }
+                userId: { type: 'string', description: 'User ID (must match authenticated user)', example: 'user-123-abc' },
+                connectionId: { type: 'string', description: 'Existing connection to re-authorize', example: '5d0c6a8e-2f4b-4c1d-9e3a-7b6f5e4d3c2b' },
+                label: { type: 'string', description: 'User-facing name for the connection', example: 'Work inbox' }
             },
             required: ['userId']
         }
@@ -49,7 +241,8 @@ export class IntegrationsController {
                 provider: { type: 'string', example: 'spotify' },
                 redirectUrl: { type: 'string', example: 'https://accounts.spotify.com/authorize?...' },
                 linkToken: { type: 'string', example: 'link-token-abc-123' },
-                state: { type: 'string', example: 'spotify-user123-1234567890' }
+                state: { type: 'string', example: 'eyJwIjoic3BvdGlmeSIsInUiOiJ1c2VyMTIzIn0.c2lnbmF0dXJl' },
+                connectionId: { type: 'string', example: '5d0c6a8e-2f4b-4c1d-9e3a-7b6f5e4d3c2b' }
             }
         }
     })
@@ -87,9 +280,11 @@ export class IntegrationsController {
         @Param('provider') providerParam: string,
         @Body('userId') userId: string,
         @CurrentUser() user: AuthenticatedUser,
+        @Body('connectionId') connectionId?: string,
+        @Body('label') label?: string,
     ) {
         const provider = providerParam as IntegrationProviderName;
-        return this.integrations.createConnection(provider, userId);
+        return this.integrations.createConnection(provider, userId, { connectionId, label });
     }
 
     // 2) Callback endpoint
@@ -171,65 +366,142 @@ export class IntegrationsController {
         return { ok: true };
     }
 
-    // // 2a) Endpoint specifically for callbacks that return user data
-    // @Public() // OAuth callbacks are called by external providers, not authenticated users
-    // @Post(':provider/callback-with-data')
-    // @ApiOperation({
-    //     summary: 'OAuth callback with user data',
-    //     description: 'Handles OAuth callback and always returns user data with synced content. This endpoint is public as it\'s called by external OAuth providers.'
-    // })
-    // @ApiParam({
-    //     name: 'provider',
-    //     description: 'Integration provider name',
-    //     example: 'spotify'
-    // })
-    // @ApiBody({
-    //     description: 'OAuth callback payload',
-    //     schema: { type: 'object' }
-    // })
-    // @ApiResponse({
-    //     status: HttpStatus.OK,
-    //     description: 'Returns user data with synced integration content'
-    // })
-    // @ApiResponse({
-    //     status: HttpStatus.BAD_REQUEST,
-    //     description: 'Invalid callback payload',
-    //     type: IntegrationErrorResponseDto
-    // })
-    // @ApiResponse({
-    //     status: HttpStatus.UNAUTHORIZED,
-    //     description: 'OAuth authentication failed',
-    //     type: IntegrationErrorResponseDto
-    // })
-    // @ApiResponse({
-    //     status: HttpStatus.NOT_FOUND,
-    //     description: 'Provider or user data not found',
-    //     type: IntegrationErrorResponseDto
-    // })
-    // @ApiResponse({
-    //     status: HttpStatus.INTERNAL_SERVER_ERROR,
-    //     description: 'Data sync failed',
-    //     type: IntegrationErrorResponseDto
-    // })
-    // @ApiResponse({
-    //     status: HttpStatus.BAD_GATEWAY,
-    //     description: 'Provider API error',
-    //     type: IntegrationErrorResponseDto
-    // })
-    // async callbackWithDataPost(
-    //     @Param('provider') providerParam: string,
-    //     @Body() payload: any,
-    // ) {
-    //     const provider = providerParam as IntegrationProviderName;
-    //     return this.integrations.handleCallbackWithUserData(provider, payload);
-    // }
+    // 2b) Provider webhooks
+    @Public() // Called by providers; each request is verified by the provider's signature or token
+    @Post(':provider/webhook')
+    @HttpCode(HttpStatus.OK)
+    @ApiOperation({
+        summary: 'Receive a provider webhook',
+        description: 'Verifies the webhook (Plaid-Verification JWT for Plaid, subscription id for Strava), stores the event and enqueues a sync for the affected user. This endpoint is public as it\'s called by providers.'
+    })
+    @ApiParam({
+        name: 'provider',
+        description: 'Integration provider name',
+        enum: ['plaid', 'strava'],
+        example: 'plaid'
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Webhook received',
+        schema: {
+            type: 'object',
+            properties: {
+                received: { type: 'boolean', example: true },
+                eventId: { type: 'string', example: 'a1b2c3d4-e5f6-7890-abcd-ef1234567890' },
+                status: { type: 'string', enum: ['PROCESSED', 'IGNORED', 'FAILED'], example: 'PROCESSED' }
+            }
+        }
+    })
+    @ApiResponse({
+        status: HttpStatus.UNAUTHORIZED,
+        description: 'Webhook verification failed',
+        type: IntegrationErrorResponseDto
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'Provider not found or does not support webhooks',
+        type: IntegrationErrorResponseDto
+    })
+    async webhook(
+        @Param('provider') providerParam: string,
+        @Req() req: RawBodyRequest<Request>,
+    ) {
+        const provider = providerParam as IntegrationProviderName;
+        return this.webhooks.receive(provider, {
+            headers: req.headers,
+            query: req.query,
+            body: req.body,
+            rawBody: req.rawBody,
+        });
+    }
+
+    // 2c) Webhook subscription handshake (Strava)
+    @Public() // Called by providers when a webhook subscription is created
+    @Get(':provider/webhook')
+    @ApiOperation({
+        summary: 'Validate a webhook subscription',
+        description: 'Answers the provider\'s subscription challenge, e.g. echoes hub.challenge for Strava when hub.verify_token matches.'
+    })
+    @ApiParam({
+        name: 'provider',
+        description: 'Integration provider name',
+        enum: ['strava'],
+        example: 'strava'
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Challenge accepted',
+        schema: {
+            type: 'object',
+            properties: {
+                'hub.challenge': { type: 'string', example: '15f7d1a91c1f40f8a748fd134752feb3' }
+            }
+        }
+    })
+    @ApiResponse({
+        status: HttpStatus.UNAUTHORIZED,
+        description: 'Verify token does not match',
+        type: IntegrationErrorResponseDto
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'Provider not found or does not support webhooks',
+        type: IntegrationErrorResponseDto
+    })
+    async webhookChallenge(
+        @Param('provider') providerParam: string,
+        @Query() query: Record<string, any>,
+    ) {
+        const provider = providerParam as IntegrationProviderName;
+        return this.webhooks.challenge(provider, query);
+    }
+
+    // 2d) Replay a stored webhook event
+    @Post('webhooks/:eventId/replay')
+    @ApiOperation({
+        summary: 'Replay a webhook event',
+        description: 'Runs the provider handler again for a stored webhook event that belongs to the authenticated user'
+    })
+    @ApiParam({
+        name: 'eventId',
+        description: 'Webhook event ID',
+        example: 'a1b2c3d4-e5f6-7890-abcd-ef1234567890'
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Event replayed',
+        schema: {
+            type: 'object',
+            properties: {
+                eventId: { type: 'string', example: 'a1b2c3d4-e5f6-7890-abcd-ef1234567890' },
+                status: { type: 'string', enum: ['PROCESSED', 'IGNORED', 'FAILED'], example: 'PROCESSED' }
+            }
+        }
+    })
+    @ApiResponse({
+        status: HttpStatus.UNAUTHORIZED,
+        description: 'Unauthorized - Invalid or missing Firebase token',
+        type: IntegrationErrorResponseDto
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'Webhook event not found',
+        type: IntegrationErrorResponseDto
+    })
+    async replayWebhook(
+        @Param('eventId') eventId: string,
+        @CurrentUser() user: AuthenticatedUser,
+    ) {
+        return this.webhooks.replay(eventId, user.uid);
+    }
 
     // 3) Trigger sync manually
     @Post(':provider/sync')
+    @HttpCode(HttpStatus.ACCEPTED)
     @UseGuards(UserOwnershipGuard)
     @ApiOperation({
         summary: 'Manually trigger data sync',
-        description: 'Triggers a manual sync of data from the integration provider for a specific user'
+        description: 'Queues a sync of data from the integration provider for a specific user and returns the job id. Poll GET /integrations/jobs/:jobId for the result.'
     })
     @ApiParam({
         name: 'provider',
@@ -240,19 +512,22 @@ export class IntegrationsController {
         schema: {
             type: 'object',
             properties: {
-                userId: { type: 'string', description: 'User ID (must match authenticated user)', example: 'user-123-abc' }
+                userId: { type: 'string', description: 'User ID (must match authenticated user)', example: 'user-123-abc' },
+                connectionId: { type: 'string', description: 'Connection to sync (default: the user\'s default connection)', example: '5d0c6a8e-2f4b-4c1d-9e3a-7b6f5e4d3c2b' }
             },
             required: ['userId']
         }
     })
     @ApiResponse({
-        status: HttpStatus.OK,
-        description: 'Sync completed successfully',
+        status: HttpStatus.ACCEPTED,
+        description: 'Sync job queued. An already pending or running job for the same connection is returned instead of a new one.',
         schema: {
             type: 'object',
             properties: {
-                success: { type: 'boolean', example: true },
-                syncedData: { type: 'object', description: 'Synced data from provider' }
+                jobId: { type: 'string', example: '3f1c2a4e-8b7d-4e8a-9c2f-1a2b3c4d5e6f' },
+                provider: { type: 'string', example: 'spotify' },
+                connectionId: { type: 'string', nullable: true, example: '5d0c6a8e-2f4b-4c1d-9e3a-7b6f5e4d3c2b' },
+                status: { type: 'string', example: 'PENDING' }
             }
         }
     })
@@ -300,9 +575,310 @@ export class IntegrationsController {
         @Param('provider') providerParam: string,
         @Body('userId') userId: string,
         @CurrentUser() user: AuthenticatedUser,
+        @Body('connectionId') connectionId?: string,
     ) {
         const provider = providerParam as IntegrationProviderName;
-        return this.integrations.sync(provider, userId);
+        return this.syncJobs.enqueue(provider, userId, connectionId);
+    }
+
+    // 3b) Sync run history
+    @Get(':provider/history')
+    @UseGuards(UserOwnershipGuard)
+    @ApiOperation({
+        summary: 'Get sync run history',
+        description: 'Pages through the user\'s sync runs for a provider, newest first, with item counts and errors for each run'
+    })
+    @ApiParam({
+        name: 'provider',
+        description: 'Integration provider name',
+        example: 'plaid'
+    })
+    @ApiQuery({
+        name: 'userId',
+        required: true,
+        description: 'User ID (must match authenticated user)',
+        example: 'user-123-abc'
+    })
+    @ApiQuery({
+        name: 'pageNumber',
+        required: false,
+        description: 'Page number (default 1)',
+        example: 1
+    })
+    @ApiQuery({
+        name: 'limit',
+        required: false,
+        description: 'Runs per page (default 20, max 100)',
+        example: 20
+    })
+    @ApiQuery({
+        name: 'connectionId',
+        required: false,
+        description: 'Only runs of this connection',
+        example: '5d0c6a8e-2f4b-4c1d-9e3a-7b6f5e4d3c2b'
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Sync runs retrieved successfully',
+        schema: {
+            type: 'object',
+            properties: {
+                data: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            runId: { type: 'string', example: '9b2f6a1e-4c3d-4b8a-8e7f-0a1b2c3d4e5f' },
+                            provider: { type: 'string', example: 'plaid' },
+                            connectionId: { type: 'string', nullable: true, example: '5d0c6a8e-2f4b-4c1d-9e3a-7b6f5e4d3c2b' },
+                            status: { type: 'string', enum: ['SUCCESS', 'FAILED'], example: 'SUCCESS' },
+                            startedAt: { type: 'string', format: 'date-time' },
+                            finishedAt: { type: 'string', format: 'date-time' },
+                            durationMs: { type: 'number', example: 5321 },
+                            itemsCreated: { type: 'number', example: 42 },
+                            itemsUpdated: { type: 'number', example: 3 },
+                            itemsSkipped: { type: 'number', example: 10 },
+                            errorClass: { type: 'string', nullable: true, example: 'RateLimitException' },
+                            errorMessage: { type: 'string', nullable: true },
+                            details: { type: 'object', nullable: true, description: 'Provider-specific stats, e.g. email categoryStats' }
+                        }
+                    }
+                },
+                metadata: {
+                    type: 'object',
+                    properties: {
+                        pageNumber: { type: 'number', example: 1 },
+                        limit: { type: 'number', example: 20 },
+                        totalCount: { type: 'number', example: 57 }
+                    }
+                }
+            }
+        }
+    })
+    @ApiResponse({
+        status: HttpStatus.UNAUTHORIZED,
+        description: 'Unauthorized - Invalid or missing Firebase token',
+        type: IntegrationErrorResponseDto
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'Forbidden - Cannot access another user\'s data',
+        type: IntegrationErrorResponseDto
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'Provider not found',
+        type: IntegrationErrorResponseDto
+    })
+    async history(
+        @Param('provider') providerParam: string,
+        @Query('userId') userId: string,
+        @Query('pageNumber') pageNumberParam: string,
+        @Query('limit') limitParam: string,
+        @CurrentUser() user: AuthenticatedUser,
+        @Query('connectionId') connectionId?: string,
+    ) {
+        const provider = providerParam as IntegrationProviderName;
+        const pageNumber = Math.max(parseInt(pageNumberParam, 10) || 1, 1);
+        const limit = Math.min(Math.max(parseInt(limitParam, 10) || 20, 1), 100);
+        return this.integrations.getSyncHistory(provider, userId, pageNumber, limit, connectionId);
+    }
+
+    // 3c) Connections (linked accounts) for a provider
+    @Get(':provider/connections')
+    @UseGuards(UserOwnershipGuard)
+    @ApiOperation({
+        summary: 'List connections to a provider',
+        description: 'Lists every account the user has linked for a provider, oldest first. Use a connectionId with connect, sync, status and disconnect to act on one of them.'
+    })
+    @ApiParam({
+        name: 'provider',
+        description: 'Integration provider name',
+        example: 'plaid'
+    })
+    @ApiQuery({
+        name: 'userId',
+        required: true,
+        description: 'User ID (must match authenticated user)',
+        example: 'user-123-abc'
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Connections retrieved successfully',
+        schema: {
+            type: 'object',
+            properties: {
+                provider: { type: 'string', example: 'plaid' },
+                userId: { type: 'string', example: 'user-123-abc' },
+                connections: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            connectionId: { type: 'string', example: '5d0c6a8e-2f4b-4c1d-9e3a-7b6f5e4d3c2b' },
+                            label: { type: 'string', nullable: true, example: 'Joint checking' },
+                            status: { type: 'string', example: 'CONNECTED' },
+                            providerUserId: { type: 'string', nullable: true, example: 'item-sandbox-123' },
+                            createdAt: { type: 'string', format: 'date-time' },
+                            lastConnectedAt: { type: 'string', format: 'date-time', nullable: true },
+                            lastSyncedAt: { type: 'string', format: 'date-time', nullable: true }
+                        }
+                    }
+                }
+            }
+        }
+    })
+    @ApiResponse({
+        status: HttpStatus.UNAUTHORIZED,
+        description: 'Unauthorized - Invalid or missing Firebase token',
+        type: IntegrationErrorResponseDto
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'Forbidden - Cannot access another user\'s data',
+        type: IntegrationErrorResponseDto
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'Provider not found',
+        type: IntegrationErrorResponseDto
+    })
+    async connections(
+        @Param('provider') providerParam: string,
+        @Query('userId') userId: string,
+        @CurrentUser() user: AuthenticatedUser,
+    ) {
+        const provider = providerParam as IntegrationProviderName;
+        return this.integrations.listConnections(provider, userId);
+    }
+
+    // 3d) Sync settings for a provider
+    @Get(':provider/settings')
+    @UseGuards(UserOwnershipGuard)
+    @ApiOperation({
+        summary: 'Get sync settings for a provider',
+        description: 'Returns the user\'s sync settings for a provider: backfill depth of the first sync, categories to import, the list items land in and whether background syncs run. Defaults apply until the user changes them.'
+    })
+    @ApiParam({
+        name: 'provider',
+        description: 'Integration provider name',
+        example: 'strava'
+    })
+    @ApiQuery({
+        name: 'userId',
+        required: true,
+        description: 'User ID (must match authenticated user)',
+        example: 'user-123-abc'
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Settings retrieved successfully',
+        schema: {
+            type: 'object',
+            properties: {
+                provider: { type: 'string', example: 'strava' },
+                userId: { type: 'string', example: 'user-123-abc' },
+                backfillDays: { type: 'number', nullable: true, example: 30 },
+                categories: { type: 'array', items: { type: 'string' }, example: ['Run', 'Bike'] },
+                targetList: { type: 'string', nullable: true, example: 'Training' },
+                customName: { type: 'string', nullable: true, example: 'Marathon training' },
+                autoSync: { type: 'boolean', example: true }
+            }
+        }
+    })
+    @ApiResponse({
+        status: HttpStatus.UNAUTHORIZED,
+        description: 'Unauthorized - Invalid or missing Firebase token',
+        type: IntegrationErrorResponseDto
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'Forbidden - Cannot access another user\'s data',
+        type: IntegrationErrorResponseDto
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'Provider not found',
+        type: IntegrationErrorResponseDto
+    })
+    async getSettings(
+        @Param('provider') providerParam: string,
+        @Query('userId') userId: string,
+        @CurrentUser() user: AuthenticatedUser,
+    ) {
+        const provider = providerParam as IntegrationProviderName;
+        return this.integrations.getSettings(provider, userId);
+    }
+
+    @Put(':provider/settings')
+    @UseGuards(UserOwnershipGuard)
+    @ApiOperation({
+        summary: 'Update sync settings for a provider',
+        description: 'Changes the user\'s sync settings for a provider. Fields left out keep their value; null restores the default. Syncs started afterwards honor the new settings.'
+    })
+    @ApiParam({
+        name: 'provider',
+        description: 'Integration provider name',
+        example: 'strava'
+    })
+    @ApiBody({
+        schema: {
+            type: 'object',
+            properties: {
+                userId: { type: 'string', description: 'User ID (must match authenticated user)', example: 'user-123-abc' },
+                backfillDays: { type: 'number', nullable: true, minimum: 1, maximum: 3650, description: 'Days of history the first sync imports (default: the provider default)', example: 30 },
+                categories: { type: 'array', items: { type: 'string' }, nullable: true, description: 'Categories to import, from the provider\'s catalog lists (empty or null: all)', example: ['Run', 'Bike'] },
+                targetList: { type: 'string', nullable: true, maxLength: 50, description: 'List items land in instead of the provider\'s default lists', example: 'Training' },
+                customName: { type: 'string', nullable: true, maxLength: 50, description: 'Name of the user\'s copy of the list (default: the list name)', example: 'Marathon training' },
+                autoSync: { type: 'boolean', description: 'Run scheduled and webhook-triggered syncs (manual syncs always run)', example: false }
+            },
+            required: ['userId']
+        }
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Settings updated successfully',
+        schema: {
+            type: 'object',
+            properties: {
+                provider: { type: 'string', example: 'strava' },
+                userId: { type: 'string', example: 'user-123-abc' },
+                backfillDays: { type: 'number', nullable: true, example: 30 },
+                categories: { type: 'array', items: { type: 'string' }, example: ['Run', 'Bike'] },
+                targetList: { type: 'string', nullable: true, example: 'Training' },
+                customName: { type: 'string', nullable: true, example: 'Marathon training' },
+                autoSync: { type: 'boolean', example: true }
+            }
+        }
+    })
+    @ApiResponse({
+        status: HttpStatus.BAD_REQUEST,
+        description: 'Invalid backfillDays, unknown category, or list name too long',
+        type: IntegrationErrorResponseDto
+    })
+    @ApiResponse({
+        status: HttpStatus.UNAUTHORIZED,
+        description: 'Unauthorized - Invalid or missing Firebase token',
+        type: IntegrationErrorResponseDto
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'Forbidden - Cannot access another user\'s data',
+        type: IntegrationErrorResponseDto
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'Provider not found',
+        type: IntegrationErrorResponseDto
+    })
+    async updateSettings(
+        @Param('provider') providerParam: string,
+        @Body() body: { userId: string } & IntegrationSyncSettingsUpdate,
+        @CurrentUser() user: AuthenticatedUser,
+    ) {
+        const provider = providerParam as IntegrationProviderName;
+        const { userId, ...changes } = body;
+        return this.integrations.updateSettings(provider, userId, changes);
     }
 
     // 4) Connection status
@@ -323,12 +899,19 @@ export class IntegrationsController {
         description: 'User ID (must match authenticated user)',
         example: 'user-123-abc'
     })
+    @ApiQuery({
+        name: 'connectionId',
+        required: false,
+        description: 'Connection to report on (default: the user\'s default connection)',
+        example: '5d0c6a8e-2f4b-4c1d-9e3a-7b6f5e4d3c2b'
+    })
     @ApiResponse({
         status: HttpStatus.OK,
         description: 'Connection status retrieved successfully',
         schema: {
             type: 'object',
             properties: {
+                connectionId: { type: 'string', nullable: true, example: '5d0c6a8e-2f4b-4c1d-9e3a-7b6f5e4d3c2b' },
                 connected: { type: 'boolean', example: true },
                 lastSyncedAt: { type: 'string', format: 'date-time', example: '2025-01-15T10:30:00Z' },
                 status: { type: 'string', example: 'active' }
@@ -369,9 +952,10 @@ export class IntegrationsController {
         @Param('provider') providerParam: string,
         @Query('userId') userId: string,
         @CurrentUser() user: AuthenticatedUser,
+        @Query('connectionId') connectionId?: string,
     ) {
         const provider = providerParam as IntegrationProviderName;
-        return this.integrations.status(provider, userId);
+        return this.integrations.status(provider, userId, connectionId);
     }
 
     // 4a) Get all integration statuses
@@ -512,80 +1096,12 @@ export class IntegrationsController {
         );
     }
 
-    // // 6) Apple Music specific endpoints for MusicKit integration (deprecated - use callback endpoint)
-    // @Post('apple_music/authorize')
-    // @UseGuards(UserOwnershipGuard)
-    // @ApiOperation({
-    //     summary: 'Authorize Apple Music (Deprecated)',
-    //     description: 'Deprecated: Use the standard callback endpoint instead. Authorizes Apple Music MusicKit integration'
-    // })
-    // @ApiBody({
-    //     schema: {
-    //         type: 'object',
-    //         properties: {
-    //             userId: { type: 'string', description: 'User ID (must match authenticated user)', example: 'user-123-abc' },
-    //             musicUserToken: { type: 'string', description: 'MusicKit user token' },
-    //             state: { type: 'string', description: 'Optional state parameter' }
-    //         },
-    //         required: ['userId', 'musicUserToken']
-    //     }
-    // })
-    // @ApiResponse({
-    //     status: HttpStatus.OK,
-    //     description: 'Apple Music authorized successfully'
-    // })
-    // @ApiResponse({
-    //     status: HttpStatus.BAD_REQUEST,
-    //     description: 'Invalid callback payload',
-    //     type: IntegrationErrorResponseDto
-    // })
-    // @ApiResponse({
-    //     status: HttpStatus.UNAUTHORIZED,
-    //     description: 'Unauthorized - Invalid or missing Firebase token',
-    //     type: IntegrationErrorResponseDto
-    // })
-    // @ApiResponse({
-    //     status: HttpStatus.FORBIDDEN,
-    //     description: 'Forbidden - Cannot access another user\'s data',
-    //     type: IntegrationErrorResponseDto
-    // })
-    // @ApiResponse({
-    //     status: HttpStatus.NOT_FOUND,
-    //     description: 'Provider or user data not found',
-    //     type: IntegrationErrorResponseDto
-    // })
-    // @ApiResponse({
-    //     status: HttpStatus.INTERNAL_SERVER_ERROR,
-    //     description: 'Data sync failed',
-    //     type: IntegrationErrorResponseDto
-    // })
-    // @ApiResponse({
-    //     status: HttpStatus.BAD_GATEWAY,
-    //     description: 'Provider API error',
-    //     type: IntegrationErrorResponseDto
-    // })
-    // async appleMusicAuthorize(
-    //     @Body() payload: {
-    //         userId: string;
-    //         musicUserToken: string;
-    //         state?: string;
-    //     },
-    //     @CurrentUser() user: AuthenticatedUser,
-    // ) {
-    //     // Use the standard callback flow with user data
-    //     const callbackPayload = {
-    //         music_user_token: payload.musicUserToken,
-    //         state: payload.state || `apple-music-${payload.userId}-${Date.now()}`,
-    //     };
-    //     return this.integrations.handleCallbackWithUserData(IntegrationProviderName.APPLE_MUSIC, callbackPayload);
-    // }
-
     // 7) Get integration configuration for mobile apps
     @Get(':provider/config')
     @UseGuards(UserOwnershipGuard)
     @ApiOperation({
         summary: 'Get integration configuration',
-        description: 'Retrieves configuration details for mobile app integration (client IDs, scopes, etc.)'
+        description: 'Retrieves configuration details for mobile app integration (connection status, authorization or upload endpoint, capabilities)'
     })
     @ApiParam({
         name: 'provider',
@@ -604,9 +1120,15 @@ export class IntegrationsController {
         schema: {
             type: 'object',
             properties: {
-                clientId: { type: 'string', example: 'client-id-123' },
-                scopes: { type: 'array', items: { type: 'string' }, example: ['user-read-email', 'user-top-read'] },
-                redirectUri: { type: 'string', example: 'https://api.example.com/callback' }
+                provider: { type: 'string', example: 'strava' },
+                connected: { type: 'boolean', example: true },
+                lastSyncedAt: { type: 'string', format: 'date-time', nullable: true },
+                authorizationUrl: { type: 'string', description: 'OAuth providers only', example: 'https://www.strava.com/oauth/authorize' },
+                uploadEndpoint: { type: 'string', description: 'Device upload providers only', example: '/integrations/apple_health/upload' },
+                uploadToken: { type: 'string', description: 'Device upload providers only', example: 'token-abc-123' },
+                supportedDataTypes: { type: 'array', items: { type: 'string' }, example: ['activities'] },
+                capabilities: { type: 'object', description: 'Same descriptor as GET /integrations/catalog' },
+                details: { type: 'object', nullable: true }
             }
         }
     })
@@ -661,7 +1183,8 @@ export class IntegrationsController {
             type: 'object',
             properties: {
                 userId: { type: 'string', description: 'User ID (must match authenticated user)', example: 'user-123-abc' },
-                forceSync: { type: 'boolean', description: 'Force a fresh sync', example: true }
+                forceSync: { type: 'boolean', description: 'Force a fresh sync', example: true },
+                connectionId: { type: 'string', description: 'Connection to read (default: the user\'s default connection)' }
             },
             required: ['userId']
         }
@@ -715,9 +1238,10 @@ export class IntegrationsController {
         @Body('userId') userId: string,
         @CurrentUser() user: AuthenticatedUser,
         @Body('forceSync') forceSync?: boolean,
+        @Body('connectionId') connectionId?: string,
     ) {
         const provider = providerParam as IntegrationProviderName;
-        return this.integrations.getConnectedUserData(provider, userId, forceSync);
+        return this.integrations.getConnectedUserData(provider, userId, forceSync, connectionId);
     }
 
     // 8) Disconnect from integration provider
@@ -737,7 +1261,15 @@ export class IntegrationsController {
         schema: {
             type: 'object',
             properties: {
-                userId: { type: 'string', description: 'User ID (must match authenticated user)', example: 'user-123-abc' }
+                userId: { type: 'string', description: 'User ID (must match authenticated user)', example: 'user-123-abc' },
+                connectionId: { type: 'string', description: 'Connection to disconnect (default: the user\'s default connection)', example: '5d0c6a8e-2f4b-4c1d-9e3a-7b6f5e4d3c2b' },
+                dataHandling: {
+                    type: 'string',
+                    enum: ['keep', 'purge', 'archive'],
+                    default: 'keep',
+                    description: 'What to do with items imported by the connection: keep them, purge (soft-delete) them, or archive them (hidden from lists until POST :provider/restore or the connection is reconnected). Also applies to a connection that is already disconnected or needs reauth',
+                    example: 'archive'
+                }
             },
             required: ['userId']
         }
@@ -750,13 +1282,15 @@ export class IntegrationsController {
             properties: {
                 statusCode: { type: 'number', example: 200 },
                 connectionStatus: { type: 'string', example: 'disconnected' },
-                message: { type: 'string', example: 'Successfully disconnected from spotify' }
+                message: { type: 'string', example: 'Successfully disconnected from spotify' },
+                dataHandling: { type: 'string', enum: ['keep', 'purge', 'archive'], example: 'archive' },
+                itemsAffected: { type: 'number', description: 'Items purged or archived (0 for keep)', example: 128 }
             }
         }
     })
     @ApiResponse({
         status: HttpStatus.BAD_REQUEST,
-        description: 'Invalid provider or userId, or user not connected to provider',
+        description: 'Invalid provider, userId or dataHandling, or user not connected to provider',
         type: IntegrationErrorResponseDto
     })
     @ApiResponse({
@@ -783,8 +1317,63 @@ export class IntegrationsController {
         @Param('provider') providerParam: string,
         @Body('userId') userId: string,
         @CurrentUser() user: AuthenticatedUser,
+        @Body('connectionId') connectionId?: string,
+        @Body('dataHandling') dataHandling?: DisconnectDataHandling,
+    ) {
+        const provider = providerParam as IntegrationProviderName;
+        return this.integrations.disconnect(provider, userId, connectionId, dataHandling);
+    }
+
+    // 9) Restore archived items
+    @Post(':provider/restore')
+    @UseGuards(UserOwnershipGuard)
+    @ApiOperation({
+        summary: 'Restore archived items',
+        description: 'Shows the items archived when a connection was disconnected with dataHandling "archive" again, without reconnecting it'
+    })
+    @ApiParam({
+        name: 'provider',
+        description: 'Integration provider name',
+        example: 'spotify'
+    })
+    @ApiBody({
+        schema: {
+            type: 'object',
+            properties: {
+                userId: { type: 'string', description: 'User ID (must match authenticated user)', example: 'user-123-abc' },
+                connectionId: { type: 'string', description: 'Connection whose items to restore (default: the user\'s default connection)', example: '5d0c6a8e-2f4b-4c1d-9e3a-7b6f5e4d3c2b' }
+            },
+            required: ['userId']
+        }
+    })
+    @ApiResponse({
+        status: HttpStatus.OK,
+        description: 'Archived items restored',
+        schema: {
+            type: 'object',
+            properties: {
+                connectionId: { type: 'string', nullable: true, example: '5d0c6a8e-2f4b-4c1d-9e3a-7b6f5e4d3c2b' },
+                itemsRestored: { type: 'number', example: 128 }
+            }
+        }
+    })
+    @ApiResponse({
+        status: HttpStatus.FORBIDDEN,
+        description: 'Forbidden - Cannot access another user\'s data',
+        type: IntegrationErrorResponseDto
+    })
+    @ApiResponse({
+        status: HttpStatus.NOT_FOUND,
+        description: 'Provider or connection not found',
+        type: IntegrationErrorResponseDto
+    })
+    async restore(
+        @Param('provider') providerParam: string,
+        @Body('userId') userId: string,
+        @CurrentUser() user: AuthenticatedUser,
+        @Body('connectionId') connectionId?: string,
     ) {
         const provider = providerParam as IntegrationProviderName;
-        return this.integrations.disconnect(provider, userId);
+        return this.integrations.restoreArchivedItems(provider, userId, connectionId);
     }
 }
\ No newline at end of file
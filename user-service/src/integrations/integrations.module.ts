@@ -1,4 +1,5 @@
 import { Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
 import { IntegrationsService } from './integrations.service';
 import { IntegrationsController } from './integrations.controller';
 import { PlaidProvider } from './providers/plaid.provider';
@@ -17,9 +18,26 @@ import { JwtAuthGuard } from '../guards/guards';
 import { IntegrationPersistence } from './persistence';
 import { PrismaTokenStore, TokenStore } from './token-store';
 import { LocationDataStore } from './location-data-store';
+import { SyncScheduler } from './sync-scheduler';
+import { SyncJobQueue } from './sync-job-queue';
+import { SyncRunRecorder } from './sync-run-recorder';
+import { CursorStore, PrismaCursorStore } from './cursor-store';
+import { OAuthStateService } from './oauth-state';
+import { WebhookReceiver } from './webhook-receiver';
+import { TokenLifecycleService } from './token-lifecycle';
+import { ProviderHttpClient } from './provider-http-client';
+import { IntegrationSandbox } from './integration-sandbox';
+import { IntegrationProviderRegistry } from './provider-registry';
+import { IntegrationHealthService } from './integration-health';
+import { IntegrationMetrics } from './integration-metrics';
+import { ItemClusterService } from './item-clusters';
+import { RecurringChargeService } from './recurring-charges';
+import { IntegrationSettingsStore } from './sync-settings';
+import { PlaidCategoryMap } from './plaid-category-map';
 
 @Module({
     imports: [
+        DiscoveryModule,
         PrismaModule,
         JwtModule.registerAsync({
             imports: [ConfigModule],
@@ -32,6 +50,8 @@ import { LocationDataStore } from './location-data-store';
     controllers: [IntegrationsController],
     providers: [
         IntegrationsService,
+        IntegrationProviderRegistry,
+        // Providers register themselves with @IntegrationProvider(name)
         PlaidProvider,
         StravaProvider,
         AppleHealthProvider,
@@ -44,7 +64,22 @@ import { LocationDataStore } from './location-data-store';
         JwtAuthGuard,
         IntegrationPersistence,
         { provide: TokenStore, useClass: PrismaTokenStore },
+        { provide: CursorStore, useClass: PrismaCursorStore },
         LocationDataStore,
+        OAuthStateService,
+        IntegrationSettingsStore,
+        PlaidCategoryMap,
+        SyncRunRecorder,
+        SyncJobQueue,
+        SyncScheduler,
+        WebhookReceiver,
+        TokenLifecycleService,
+        ProviderHttpClient,
+        IntegrationSandbox,
+        IntegrationHealthService,
+        IntegrationMetrics,
+        ItemClusterService,
+        RecurringChargeService,
     ],
     exports: [IntegrationsService],
 })
@@ -1,76 +1,103 @@
 import { Injectable, NotFoundException, Logger } from '@nestjs/common';
-import { IntegrationProvider, IntegrationProviderName, ConnectResponse, CallbackPayload } from './types';
-import { PlaidProvider } from './providers/plaid.provider';
-import { StravaProvider } from './providers/strava.provider';
-import { AppleHealthProvider } from './providers/apple-health.provider';
-import { AppleMusicProvider } from './providers/apple-music.provider';
-import { SpotifyProvider } from './providers/spotify.provider';
-import { EmailScraperProvider } from './providers/email-scraper.provider';
-import { LocationServicesProvider } from './providers/location-services.provider';
-import { ContactListProvider } from './providers/contact-list.provider';
-import { GoodreadsProvider } from './providers/goodreads.provider';
+import {
+    IntegrationAuthType,
+    IntegrationProvider,
+    IntegrationProviderName,
+    ConnectResponse,
+    CallbackPayload,
+    DisconnectDataHandling,
+    EXTERNAL_PROVIDER_NAMES,
+    integrationNameForProvider,
+} from './types';
+import { IntegrationProviderRegistry } from './provider-registry';
 import { PrismaService } from '@traeta/prisma';
 import { IntegrationPersistence } from './persistence';
 import { TokenStore } from './token-store';
+import { CursorStore } from './cursor-store';
+import { SyncRunRecorder, SyncRunSummary } from './sync-run-recorder';
+import { OAuthStateService } from './oauth-state';
+import { runInConnection } from './connection-scope';
+import { IntegrationSettingsStore, IntegrationSyncSettings, IntegrationSyncSettingsUpdate, runWithSettings } from './sync-settings';
 import {
-    ProviderNotFoundException,
+    ConnectionNotFoundException,
     ProviderNotConnectedException,
     InvalidCallbackException,
     DataSyncException,
     UserDataNotFoundException,
     DataValidationException,
+    RateLimitException,
+    RefreshTokenException,
+    InvalidTokenException,
 } from './exceptions';
-import { DATA_STATUS, REC_SEQ, REC_STATUS } from '../../constants';
+import { ACTIVE_CONDITION, DATA_STATUS, REC_SEQ, REC_STATUS, STATUS } from '../../constants';
 
 @Injectable()
 export class IntegrationsService {
-    private readonly providers: Map<IntegrationProviderName, IntegrationProvider>;
     private readonly logger = new Logger(IntegrationsService.name);
+    // In-flight syncs keyed by provider:userId:connection so concurrent callers share one run
+    private readonly inFlightSyncs = new Map<string, Promise<{ ok: boolean; syncedAt?: Date; details?: any }>>();
+    private readonly syncListeners = new Set<(summary: SyncRunSummary) => void>();
 
     constructor(
-        private readonly plaid: PlaidProvider,
-        private readonly strava: StravaProvider,
-        private readonly appleHealth: AppleHealthProvider,
-        private readonly appleMusic: AppleMusicProvider,
-        private readonly spotify: SpotifyProvider,
-        private readonly emailScraper: EmailScraperProvider,
-        private readonly locationServices: LocationServicesProvider,
-        private readonly contactList: ContactListProvider,
-        private readonly goodreads: GoodreadsProvider,
+        private readonly registry: IntegrationProviderRegistry,
         private readonly prisma: PrismaService,
         private readonly persistence: IntegrationPersistence,
         private readonly tokenStore: TokenStore,
-    ) {
-        this.providers = new Map<IntegrationProviderName, IntegrationProvider>([
-            [plaid.name, plaid],
-            [strava.name, strava],
-            [appleHealth.name, appleHealth],
-            [appleMusic.name, appleMusic],
-            [spotify.name, spotify],
-            [emailScraper.name, emailScraper],
-            [locationServices.name, locationServices],
-            [contactList.name, contactList],
-            [goodreads.name, goodreads],
-        ]);
+        private readonly syncRuns: SyncRunRecorder,
+        private readonly cursorStore: CursorStore,
+        private readonly oauthState: OAuthStateService,
+        private readonly settingsStore: IntegrationSettingsStore,
+    ) { }
+
+    /**
+     * Subscribe to finished syncs (duration, item counts, error class). Returns a function that removes the listener.
+     */
+    onSync(listener: (summary: SyncRunSummary) => void): () => void {
+        this.syncListeners.add(listener);
+        return () => this.syncListeners.delete(listener);
+    }
+
+    private emitSync(summary: SyncRunSummary) {
+        for (const listener of this.syncListeners) {
+            try {
+                listener(summary);
+            } catch (error) {
+                this.logger.warn(`Sync listener failed: ${error.message}`);
+            }
+        }
     }
 
-    private getProviderOrThrow(name: IntegrationProviderName): IntegrationProvider {
-        const p = this.providers.get(name);
-        if (!p) {
-            this.logger.error(`Provider not found: ${name}`);
-            throw new ProviderNotFoundException(name);
+    getProviderOrThrow(name: IntegrationProviderName): IntegrationProvider {
+        try {
+            return this.registry.getOrThrow(name);
+        } catch (error) {
+            this.logger.error(`Provider not available: ${name}`);
+            throw error;
         }
-        return p;
     }
 
-    async createConnection(provider: IntegrationProviderName, userId: string): Promise<ConnectResponse> {
+    /**
+     * Start authorizing a connection. With a connectionId the existing connection is re-authorized
+     * (e.g. after REAUTH_REQUIRED); otherwise providers whose capabilities allow multipleConnections
+     * get a new connection, unless the user's only connection needs reauth or was disconnected, and
+     * the others reuse the user's existing one. A callback that links an account the user already
+     * has a connection for goes to that connection (see mergeRelinkedAccount).
+     */
+    async createConnection(
+        provider: IntegrationProviderName,
+        userId: string,
+        options: { connectionId?: string; label?: string } = {},
+    ): Promise<ConnectResponse> {
         try {
             this.logger.log(`Creating connection for provider: ${provider}, userId: ${userId}`);
-            const response = await this.getProviderOrThrow(provider).createConnection(userId);
+            const providerInstance = this.getProviderOrThrow(provider);
+            const connectionId = await this.connectionToAuthorize(provider, userId, options);
+            const response = await runInConnection(connectionId, () => this.withSettings(provider, userId, () => providerInstance.createConnection(userId)));
             // Ensure provider is included in the response
             return {
                 ...response,
                 provider: provider,
+                connectionId,
             };
         } catch (error) {
             this.logger.error(`Failed to create connection for ${provider}:`, error);
@@ -94,7 +121,18 @@ export class IntegrationsService {
                 throw new InvalidCallbackException(provider, 'Missing authorization code or token');
             }
 
-            return await this.getProviderOrThrow(provider).handleCallback(payload);
+            // Complete the connection the state was issued for
+            const providerInstance = this.getProviderOrThrow(provider);
+            const connectionId = this.oauthState.connectionOf(provider, payload.state);
+            // Providers sync right after connecting, so run the callback with the user's settings
+            const userId = this.stateUserId(provider, payload.state);
+            const handle = () => providerInstance.handleCallback(payload);
+            await runInConnection(connectionId, () => userId ? this.withSettings(provider, userId, handle) : handle());
+            if (connectionId) {
+                const linked = userId ? await this.mergeRelinkedAccount(provider, userId, connectionId) : connectionId;
+                // Items archived when this connection was disconnected come back with it
+                await this.persistence.restoreArchivedItems(linked);
+            }
         } catch (error) {
             this.logger.error(`Failed to handle callback for ${provider}:`, error);
             throw error;
@@ -105,35 +143,23 @@ export class IntegrationsService {
         try {
             this.logger.log(`Handling callback with user data for provider: ${provider}`);
 
-            // Handle the callback first
-            await this.handleCallback(provider, payload);
-
-            // Extract userId from state for Spotify, Strava, Plaid, Apple Music, and Email Scraper
-            if ((provider === IntegrationProviderName.SPOTIFY || provider === IntegrationProviderName.STRAVA || provider === IntegrationProviderName.PLAID || provider === IntegrationProviderName.APPLE_MUSIC || provider === IntegrationProviderName.EMAIL_SCRAPER) && payload.state) {
-                const stateStr = String(payload.state);
-                let prefix = `${provider}-`;
-
-                // Handle email scraper special case (state format: "email-<userId>-<timestamp>")
-                if (provider === IntegrationProviderName.EMAIL_SCRAPER) {
-                    prefix = 'email-';
-                }
+            // Spotify, Strava, Plaid, Apple Music and Email Scraper respond with the user's data.
+            // Read the userId from the signed state up front: the callback consumes it
+            const returnsUserData = [
+                IntegrationProviderName.SPOTIFY,
+                IntegrationProviderName.STRAVA,
+                IntegrationProviderName.PLAID,
+                IntegrationProviderName.APPLE_MUSIC,
+                IntegrationProviderName.EMAIL_SCRAPER,
+            ].includes(provider);
+            const userId = returnsUserData && payload.state ? this.oauthState.verify(provider, payload.state) : null;
+            const connectionId = this.oauthState.connectionOf(provider, payload.state);
 
-                // Handle apple music special case (state format: "apple-music-<userId>-<timestamp>")
-                if (provider === IntegrationProviderName.APPLE_MUSIC) {
-                    prefix = 'apple-music-';
-                }
+            await this.handleCallback(provider, payload);
 
-                if (stateStr.startsWith(prefix)) {
-                    const statePayload = stateStr.slice(prefix.length);
-                    const lastHyphenIndex = statePayload.lastIndexOf('-');
-                    if (lastHyphenIndex !== -1) {
-                        const userId = statePayload.slice(0, lastHyphenIndex);
-                        if (userId) {
-                            // Get user data with integration details and synced content
-                            return await this.getUserDataWithSyncedContent(userId, provider);
-                        }
-                    }
-                }
+            if (userId) {
+                // Get user data with integration details and synced content
+                return await this.getUserDataWithSyncedContent(userId, provider, connectionId);
             }
 
             return { ok: true, message: 'Integration connected successfully' };
@@ -143,7 +169,7 @@ export class IntegrationsService {
         }
     }
 
-    private async getUserDataWithSyncedContent(userId: string, provider: IntegrationProviderName): Promise<any> {
+    private async getUserDataWithSyncedContent(userId: string, provider: IntegrationProviderName, connectionId?: string): Promise<any> {
         try {
             // Get user information
             const user = await this.prisma.users.findUnique({
@@ -172,7 +198,7 @@ export class IntegrationsService {
             }
 
             // Get integration status
-            const integrationStatus = await this.status(provider, userId);
+            const integrationStatus = await this.status(provider, userId, connectionId);
 
             // Get synced data based on provider
             let syncedData = null;
@@ -208,6 +234,7 @@ export class IntegrationsService {
                     },
                     integration: {
                         provider: provider,
+                        connectionId: integrationStatus.connectionId,
                         connected: integrationStatus.connected,
                         lastSyncedAt: integrationStatus.lastSyncedAt,
                         details: integrationStatus.details,
@@ -818,10 +845,27 @@ export class IntegrationsService {
         }
     }
 
-    async sync(provider: IntegrationProviderName, userId: string) {
+    async sync(provider: IntegrationProviderName, userId: string, connectionId?: string) {
+        this.getProviderOrThrow(provider);
+        const link = await this.resolveConnection(provider, userId, connectionId);
+        const key = `${provider}:${userId}:${link?.userIntegrationId ?? ''}`;
+        const running = this.inFlightSyncs.get(key);
+        if (running !== undefined) {
+            this.logger.log(`Sync already running for provider: ${provider}, userId: ${userId}; joining it`);
+            return running;
+        }
+
+        const run = runInConnection(link?.userIntegrationId, () => this.runSync(provider, userId))
+            .finally(() => this.inFlightSyncs.delete(key));
+        this.inFlightSyncs.set(key, run);
+        return run;
+    }
+
+    private async runSync(provider: IntegrationProviderName, userId: string) {
         try {
             this.logger.log(`Syncing data for provider: ${provider}, userId: ${userId}`);
-            const result = await this.getProviderOrThrow(provider).sync(userId);
+            const providerInstance = this.getProviderOrThrow(provider);
+            const result = await this.syncRuns.record(provider, userId, () => this.withSettings(provider, userId, () => providerInstance.sync(userId)), summary => this.emitSync(summary));
 
             if (!result.ok) {
                 throw new DataSyncException(provider, result.details?.error || 'Sync failed');
@@ -830,23 +874,185 @@ export class IntegrationsService {
             return result;
         } catch (error) {
             this.logger.error(`Failed to sync data for ${provider}:`, error);
-            if (error instanceof DataSyncException) {
+            // A rejected or unrefreshable token will not recover on retry; ask the user to reconnect
+            if (error instanceof RefreshTokenException || error instanceof InvalidTokenException) {
+                await this.persistence.markReauthRequired(userId, integrationNameForProvider(provider));
+            }
+            // Rate limits keep their retryAfter so the sync job queue can honor it
+            if (error instanceof DataSyncException || error instanceof RateLimitException) {
                 throw error;
             }
             throw new DataSyncException(provider, error.message);
         }
     }
 
-    async status(provider: IntegrationProviderName, userId: string) {
+    // Run provider code with the user's settings for the provider (see runWithSettings)
+    private async withSettings<T>(provider: IntegrationProviderName, userId: string, run: () => Promise<T>): Promise<T> {
+        return runWithSettings(await this.settingsStore.get(userId, provider), run);
+    }
+
+    // User a callback state was issued for; null for invalid states, which the provider rejects
+    private stateUserId(provider: IntegrationProviderName, state: unknown): string | null {
+        try {
+            return state ? this.oauthState.verify(provider, state) : null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * A user's sync settings for a provider: backfill depth, categories to import, target list and auto-sync.
+     */
+    async getSettings(provider: IntegrationProviderName, userId: string): Promise<{ provider: IntegrationProviderName; userId: string } & IntegrationSyncSettings> {
+        this.getProviderOrThrow(provider);
+        return { provider, userId, ...(await this.settingsStore.get(userId, provider)) };
+    }
+
+    /**
+     * Change a user's sync settings for a provider. Fields left out are unchanged; null restores the default.
+     * Backfill depth applies to syncs without a previous sync to continue from.
+     */
+    async updateSettings(
+        provider: IntegrationProviderName,
+        userId: string,
+        changes: IntegrationSyncSettingsUpdate,
+    ): Promise<{ provider: IntegrationProviderName; userId: string } & IntegrationSyncSettings> {
+        const { capabilities } = this.getProviderOrThrow(provider);
+        const settings = await this.settingsStore.update(userId, provider, capabilities, changes);
+        this.logger.log(`Updated ${provider} settings for userId: ${userId}`);
+        return { provider, userId, ...settings };
+    }
+
+    async getSyncHistory(provider: IntegrationProviderName, userId: string, pageNumber?: number, limit?: number, connectionId?: string) {
+        this.getProviderOrThrow(provider);
+        return this.syncRuns.listRuns(provider, userId, pageNumber, limit, connectionId);
+    }
+
+    async status(provider: IntegrationProviderName, userId: string, connectionId?: string) {
         try {
             this.logger.log(`Getting status for provider: ${provider}, userId: ${userId}`);
-            return await this.getProviderOrThrow(provider).status(userId);
+            const providerInstance = this.getProviderOrThrow(provider);
+            const link = await this.resolveConnection(provider, userId, connectionId);
+            const status = await runInConnection(link?.userIntegrationId, () => providerInstance.status(userId));
+            return { ...status, connectionId: link?.userIntegrationId ?? null, connectionStatus: link?.status ?? null };
         } catch (error) {
             this.logger.error(`Failed to get status for ${provider}:`, error);
             throw error;
         }
     }
 
+    /**
+     * When a callback links a provider account one of the user's other connections already holds,
+     * re-authorize that connection instead: the new tokens and the items the callback imported move
+     * to it and the new connection is dropped. Returns the connection the account belongs to.
+     */
+    private async mergeRelinkedAccount(provider: IntegrationProviderName, userId: string, connectionId: string): Promise<string> {
+        const tokens = await runInConnection(connectionId, () => this.tokenStore.get(userId, provider));
+        if (!tokens?.providerUserId) return connectionId;
+
+        const integration = await this.persistence.ensureIntegration(integrationNameForProvider(provider));
+        const existing = await this.prisma.oAuthCredentials.findFirst({
+            where: {
+                userId,
+                userRecSeq: REC_SEQ.DEFAULT_RECORD,
+                integrationId: integration.integrationId,
+                providerUserId: tokens.providerUserId,
+                userIntegrationId: { not: connectionId },
+                ...ACTIVE_CONDITION,
+            },
+            orderBy: { createdOn: 'asc' },
+        });
+        if (!existing?.userIntegrationId) return connectionId;
+
+        const target = existing.userIntegrationId;
+        await runInConnection(target, () => this.tokenStore.set(userId, provider, tokens));
+        await runInConnection(connectionId, async () => {
+            await this.tokenStore.delete(userId, provider);
+            await this.cursorStore.delete(userId, provider);
+        });
+        await this.persistence.mergeUserIntegration(connectionId, target);
+        this.logger.log(`${provider} account of userId: ${userId} is already linked; re-authorized connection ${target} instead of ${connectionId}`);
+        return target;
+    }
+
+    /**
+     * A user's connections to a provider, oldest first.
+     */
+    async listConnections(provider: IntegrationProviderName, userId: string) {
+        this.getProviderOrThrow(provider);
+        const integration = await this.persistence.ensureIntegration(integrationNameForProvider(provider));
+        const links = await this.persistence.findUserIntegrations(userId, integration.integrationId);
+        const credentials = await this.prisma.oAuthCredentials.findMany({
+            where: { userIntegrationId: { in: links.map(link => link.userIntegrationId) }, ...ACTIVE_CONDITION },
+            select: { userIntegrationId: true, providerUserId: true },
+        });
+        const accountByLink = new Map(credentials.map(row => [row.userIntegrationId, row.providerUserId]));
+
+        return {
+            provider,
+            userId,
+            connections: links.map(link => ({
+                connectionId: link.userIntegrationId,
+                label: link.label,
+                status: link.status,
+                statusDetail: link.statusDetail,
+                providerUserId: accountByLink.get(link.userIntegrationId) ?? null,
+                createdAt: link.createdOn,
+                lastConnectedAt: link.history[0]?.lastConnectedAt ?? null,
+                lastSyncedAt: link.history[0]?.lastSyncedAt ?? null,
+            })),
+        };
+    }
+
+    /**
+     * The connection a request acts on. An explicit id must be one of the user's connections to
+     * the provider; without one it is the oldest CONNECTED connection, else the oldest of any status.
+     * Null when the user has never connected the provider.
+     */
+    private async resolveConnection(provider: IntegrationProviderName, userId: string, connectionId?: string) {
+        const integration = await this.persistence.ensureIntegration(integrationNameForProvider(provider));
+        const links = await this.persistence.findUserIntegrations(userId, integration.integrationId);
+        if (connectionId) {
+            const link = links.find(candidate => candidate.userIntegrationId === connectionId);
+            if (!link) {
+                throw new ConnectionNotFoundException(provider, connectionId);
+            }
+            return link;
+        }
+        return links.find(link => link.status === STATUS.CONNECTED) ?? links[0] ?? null;
+    }
+
+    // Connection that createConnection authorizes; see there for the rules
+    private async connectionToAuthorize(
+        provider: IntegrationProviderName,
+        userId: string,
+        { connectionId, label }: { connectionId?: string; label?: string },
+    ): Promise<string> {
+        const integration = await this.persistence.ensureIntegration(integrationNameForProvider(provider));
+        let link: { userIntegrationId: string; label: string | null };
+        if (connectionId) {
+            link = await this.resolveConnection(provider, userId, connectionId);
+        } else if (this.getProviderOrThrow(provider).capabilities.multipleConnections) {
+            const links = await this.persistence.findUserIntegrations(userId, integration.integrationId);
+            const established = links.filter(candidate => candidate.status !== STATUS.PENDING);
+            // Reconnecting after REAUTH_REQUIRED or a disconnect re-authorizes the user's only connection;
+            // otherwise reuse an abandoned attempt rather than piling up PENDING connections
+            const lapsed = established.length === 1 && [STATUS.REAUTH_REQUIRED, STATUS.DISCONNECTED].includes(established[0].status)
+                ? established[0]
+                : undefined;
+            link = lapsed
+                ?? links.find(candidate => candidate.status === STATUS.PENDING)
+                ?? await this.persistence.createUserIntegration(userId, integration.integrationId, label);
+        } else {
+            link = await this.persistence.ensureUserIntegration(userId, integration.integrationId);
+        }
+
+        if (label && link.label !== label) {
+            await this.persistence.setUserIntegrationLabel(link.userIntegrationId, label);
+        }
+        return link.userIntegrationId;
+    }
+
     /**
      * Formats provider name to readable format by capitalizing and removing underscores
      * Example: 'apple_health' -> 'Apple Health', 'spotify' -> 'Spotify'
@@ -858,28 +1064,9 @@ export class IntegrationsService {
             .join(' ');
     }
 
+    // Primary list of a provider's items
     private mapProviderToList(provider: IntegrationProviderName): string {
-        switch (provider) {
-            case IntegrationProviderName.SPOTIFY:
-            case IntegrationProviderName.APPLE_MUSIC:
-                return 'Music';
-            case IntegrationProviderName.STRAVA:
-                return 'Activity';
-            case IntegrationProviderName.PLAID:
-                return 'Financial';
-            case IntegrationProviderName.EMAIL_SCRAPER:
-                return 'Email';
-            case IntegrationProviderName.CONTACT_LIST:
-                return 'Friends';
-            case IntegrationProviderName.APPLE_HEALTH:
-                return 'Health';
-            case IntegrationProviderName.LOCATION_SERVICES:
-                return 'Places';
-            case IntegrationProviderName.GOODREADS:
-                return 'Books';
-            default:
-                return this.formatProviderName(provider);
-        }
+        return this.registry.get(provider)?.capabilities.lists[0]?.list ?? this.formatProviderName(provider);
     }
 
     async getAllStatuses(userId: string) {
@@ -890,20 +1077,27 @@ export class IntegrationsService {
                 provider: IntegrationProviderName;
                 provider_name: string;
                 connected: boolean;
+                connectionStatus: string | null;
                 lastSyncedAt: Date | null | undefined;
                 popularity?: number;
                 details?: any;
                 error?: string;
             }> = [];
 
-            // Iterate through all providers and get their status
-            for (const [providerName, provider] of this.providers.entries()) {
+            // Iterate through all providers and get the status of each one's default connection
+            for (const provider of this.registry.all()) {
+                const providerName = provider.name;
+                // UserIntegrations.status (e.g. REAUTH_REQUIRED); providers only report `connected`
+                let connectionStatus: string | null = null;
                 try {
-                    const status = await provider.status(userId);
+                    const link = await this.resolveConnection(providerName, userId);
+                    connectionStatus = link?.status ?? null;
+                    const status = await runInConnection(link?.userIntegrationId, () => provider.status(userId));
                     statuses.push({
                         provider: providerName,
                         provider_name: this.formatProviderName(providerName),
                         connected: status.connected,
+                        connectionStatus,
                         lastSyncedAt: status.lastSyncedAt,
                         popularity: status.details?.popularity,
                         details: status.details,
@@ -915,6 +1109,7 @@ export class IntegrationsService {
                         provider: providerName,
                         provider_name: this.formatProviderName(providerName),
                         connected: false,
+                        connectionStatus,
                         lastSyncedAt: null,
                         error: error.message || 'Failed to retrieve status',
                     });
@@ -943,6 +1138,7 @@ export class IntegrationsService {
                 integrationsByList,
                 totalIntegrations: sortedStatuses.length,
                 connectedIntegrations: sortedStatuses.filter(s => s.connected).length,
+                reauthRequiredIntegrations: sortedStatuses.filter(s => s.connectionStatus === STATUS.REAUTH_REQUIRED).length,
             };
             // return {
             //     userId,
@@ -963,14 +1159,19 @@ export class IntegrationsService {
             this.logger.log(`Handling Apple Health upload for userId: ${userId}`);
             const provider = this.getProviderOrThrow(IntegrationProviderName.APPLE_HEALTH);
 
-            if (!('handleDataUpload' in provider) || typeof provider.handleDataUpload !== 'function') {
+            if (provider.capabilities.authType !== IntegrationAuthType.DEVICE_UPLOAD || !provider.handleDataUpload) {
                 throw new DataValidationException(
                     IntegrationProviderName.APPLE_HEALTH,
                     'Apple Health provider does not support data upload'
                 );
             }
 
-            return await (provider as any).handleDataUpload(userId, uploadToken, healthData);
+            const link = await this.resolveConnection(IntegrationProviderName.APPLE_HEALTH, userId);
+            return await runInConnection(link?.userIntegrationId, () => this.withSettings(
+                IntegrationProviderName.APPLE_HEALTH,
+                userId,
+                async () => provider.handleDataUpload?.(userId, uploadToken, healthData),
+            ));
         } catch (error) {
             this.logger.error(`Failed to handle Apple Health upload:`, error);
             throw error;
@@ -980,71 +1181,51 @@ export class IntegrationsService {
     // Apple Music specific methods
     async handleAppleMusicAuthorization(userId: string, musicUserToken: string, state?: string) {
         const provider = this.getProviderOrThrow(IntegrationProviderName.APPLE_MUSIC);
-        await provider.handleCallback({
+        const connectionId = state
+            ? this.oauthState.connectionOf(IntegrationProviderName.APPLE_MUSIC, state)
+            : await this.connectionToAuthorize(IntegrationProviderName.APPLE_MUSIC, userId, {});
+        await runInConnection(connectionId, () => this.withSettings(IntegrationProviderName.APPLE_MUSIC, userId, async () => provider.handleCallback({
             music_user_token: musicUserToken,
-            state: state || `apple-music-${userId}-${Date.now()}`,
-        });
+            state: state ?? (await this.oauthState.issue(IntegrationProviderName.APPLE_MUSIC, userId)).state,
+        })));
+        if (connectionId) {
+            await this.persistence.restoreArchivedItems(connectionId);
+        }
         return { ok: true, message: 'Apple Music authorized successfully' };
     }
 
     // Get integration configuration for mobile apps
     async getIntegrationConfig(provider: IntegrationProviderName, userId: string) {
         const providerInstance = this.getProviderOrThrow(provider);
+        const { capabilities } = providerInstance;
+        const status = await providerInstance.status(userId);
+
+        return {
+            provider,
+            connected: status.connected,
+            lastSyncedAt: status.lastSyncedAt,
+            ...(capabilities.authorizationUrl ? { authorizationUrl: capabilities.authorizationUrl } : {}),
+            ...(capabilities.uploadEndpoint
+                ? { uploadEndpoint: capabilities.uploadEndpoint, uploadToken: status.details?.uploadToken }
+                : {}),
+            supportedDataTypes: capabilities.dataTypes,
+            capabilities,
+            details: status.details,
+        };
+    }
 
-        switch (provider) {
-            case IntegrationProviderName.APPLE_HEALTH:
-                const appleHealthStatus = await providerInstance.status(userId);
-                return {
-                    provider: 'apple_health',
-                    uploadEndpoint: process.env.APPLE_HEALTH_UPLOAD_ENDPOINT || '/integrations/apple_health/upload',
-                    connected: appleHealthStatus.connected,
-                    lastSyncedAt: appleHealthStatus.lastSyncedAt,
-                    uploadToken: appleHealthStatus.details?.uploadToken, // Include upload token for connected users
-                    supportedDataTypes: [
-                        'workouts',
-                        'healthMetrics',
-                        'steps',
-                        'heartRate',
-                        'sleep'
-                    ],
-                };
-
-            case IntegrationProviderName.APPLE_MUSIC:
-                const appleMusicStatus = await providerInstance.status(userId);
-                return {
-                    provider: 'apple_music',
-                    connected: appleMusicStatus.connected,
-                    lastSyncedAt: appleMusicStatus.lastSyncedAt,
-                    authorizationUrl: 'https://authorize.music.apple.com/woa',
-                    supportedDataTypes: [
-                        'recentlyPlayed',
-                        'librarySongs',
-                        'playlists'
-                    ],
-                    details: appleMusicStatus.details,
-                };
-
-            case IntegrationProviderName.STRAVA:
-                const stravaStatus = await providerInstance.status(userId);
-                return {
-                    provider: 'strava',
-                    connected: stravaStatus.connected,
-                    lastSyncedAt: stravaStatus.lastSyncedAt,
-                    authorizationUrl: 'https://www.strava.com/oauth/authorize',
-                    supportedDataTypes: [
-                        'activities'
-                    ],
-                };
-
-            default:
-                const status = await providerInstance.status(userId);
-                return {
-                    provider,
-                    connected: status.connected,
-                    lastSyncedAt: status.lastSyncedAt,
-                    details: status.details,
-                };
-        }
+    /**
+     * Capabilities of every enabled provider, so clients can render connect flows
+     * (OAuth redirect, Link token, credentials form, device upload) without per-provider code.
+     */
+    getCatalog() {
+        return {
+            providers: this.registry.all().map(provider => ({
+                provider: provider.name,
+                provider_name: this.formatProviderName(provider.name),
+                ...provider.capabilities,
+            })),
+        };
     }
 
     /**
@@ -1055,16 +1236,18 @@ export class IntegrationsService {
      * @param provider - The integration provider name
      * @param userId - The user ID
      * @param forceSync - Whether to force a fresh sync (default: true)
+     * @param connectionId - The connection to read (default: the user's default connection)
      * @returns User data with integration status and synced content
      */
     async getConnectedUserData(
         provider: IntegrationProviderName,
         userId: string,
-        forceSync: boolean = true
+        forceSync: boolean = true,
+        connectionId?: string,
     ): Promise<any> {
         try {
             // Step 1: Check connection status
-            const integrationStatus = await this.status(provider, userId);
+            const integrationStatus = await this.status(provider, userId, connectionId);
 
             if (!integrationStatus.connected) {
                 return {
@@ -1078,9 +1261,9 @@ export class IntegrationsService {
             // Step 2: Optionally trigger a fresh sync to get latest data
             if (forceSync) {
                 try {
-                    await this.sync(provider, userId);
+                    await this.sync(provider, userId, connectionId);
                     // Refresh status after sync
-                    const updatedStatus = await this.status(provider, userId);
+                    const updatedStatus = await this.status(provider, userId, connectionId);
                     integrationStatus.lastSyncedAt = updatedStatus.lastSyncedAt;
                 } catch (syncError) {
                     console.error(`Error syncing ${provider} data for user ${userId}:`, syncError);
@@ -1089,7 +1272,7 @@ export class IntegrationsService {
             }
 
             // Step 3: Get user data with synced content
-            return await this.getUserDataWithSyncedContent(userId, provider);
+            return await this.getUserDataWithSyncedContent(userId, provider, connectionId);
 
         } catch (error) {
             console.error(`Error getting connected user data for ${provider}:`, error);
@@ -1109,17 +1292,61 @@ export class IntegrationsService {
      * 1. Deletes OAuth tokens from the token store
      * 2. Updates the UserIntegrations status to 'DISCONNECTED'
      * 3. Optionally calls provider-specific revocation if supported
+     * 4. Keeps, purges (soft-deletes) or archives the items the connection imported
      * 
      * @param provider - The integration provider name
      * @param userId - The user ID
-     * @returns Success status and message
+     * @param connectionId - Connection to disconnect (default: the user's default connection)
+     * @param dataHandling - What to do with imported items (default: keep)
+     * @returns Success status and message, with the number of items purged or archived
+     */
+    async disconnect(
+        provider: IntegrationProviderName,
+        userId: string,
+        connectionId?: string,
+        dataHandling: DisconnectDataHandling = DisconnectDataHandling.KEEP,
+    ): Promise<{ statusCode: number; connectionStatus: string; message: string; dataHandling: DisconnectDataHandling; itemsAffected: number }> {
+        if (!Object.values(DisconnectDataHandling).includes(dataHandling)) {
+            throw new DataValidationException(provider, `dataHandling must be one of: ${Object.values(DisconnectDataHandling).join(', ')}`);
+        }
+        // Resolve before scoping so an unknown connection id is a 404, not "not connected"
+        this.getProviderOrThrow(provider);
+        const link = await this.resolveConnection(provider, userId, connectionId);
+        const result = await runInConnection(link?.userIntegrationId, () => this.disconnectInScope(provider, userId));
+
+        // A connection the user already disconnected (e.g. keeping its items) or that needs reauth can still be cleaned up
+        const removable = result.statusCode === 200 || [STATUS.DISCONNECTED, STATUS.REAUTH_REQUIRED].includes(link?.status);
+        let itemsAffected = 0;
+        if (removable && dataHandling !== DisconnectDataHandling.KEEP) {
+            const externalProviders = [provider, EXTERNAL_PROVIDER_NAMES[provider]].filter(Boolean);
+            itemsAffected = await this.persistence.removeConnectionItems(userId, link.userIntegrationId, externalProviders, dataHandling);
+            this.logger.log(`${dataHandling === DisconnectDataHandling.PURGE ? 'Purged' : 'Archived'} ${itemsAffected} item(s) for ${provider}, userId: ${userId}`);
+        }
+        return { ...result, dataHandling, itemsAffected };
+    }
+
+    /**
+     * Show the items archived when a connection was disconnected again, without reconnecting it.
+     * Reconnecting the connection restores them as well.
      */
-    async disconnect(provider: IntegrationProviderName, userId: string): Promise<{ statusCode: number; connectionStatus: string; message: string }> {
+    async restoreArchivedItems(provider: IntegrationProviderName, userId: string, connectionId?: string): Promise<{ connectionId: string | null; itemsRestored: number }> {
+        this.getProviderOrThrow(provider);
+        const link = await this.resolveConnection(provider, userId, connectionId);
+        if (!link) {
+            return { connectionId: null, itemsRestored: 0 };
+        }
+
+        const itemsRestored = await this.persistence.restoreArchivedItems(link.userIntegrationId);
+        this.logger.log(`Restored ${itemsRestored} archived item(s) for ${provider}, userId: ${userId}`);
+        return { connectionId: link.userIntegrationId, itemsRestored };
+    }
+
+    private async disconnectInScope(provider: IntegrationProviderName, userId: string): Promise<{ statusCode: number; connectionStatus: string; message: string }> {
         try {
             this.logger.log(`Disconnecting provider: ${provider}, userId: ${userId}`);
 
             // Step 1: Check if the integration exists
-            const integrationStatus = await this.status(provider, userId);
+            const integrationStatus = await this.getProviderOrThrow(provider).status(userId);
 
             if (!integrationStatus.connected) {
                 this.logger.warn(`User ${userId} is not connected to ${provider}`);
@@ -1132,7 +1359,7 @@ export class IntegrationsService {
 
             // Step 2: Call provider-specific disconnect method (if available)
             // This handles token revocation with the third-party service
-            const providerInstance = this.providers.get(provider);
+            const providerInstance = this.registry.get(provider);
             if (providerInstance && typeof providerInstance.disconnect === 'function') {
                 try {
                     await providerInstance.disconnect(userId);
@@ -1154,8 +1381,15 @@ export class IntegrationsService {
                 // Continue with disconnection even if token deletion fails
             }
 
+            // Step 3b: Drop sync cursors so a reconnect starts with a full sync
+            try {
+                await this.cursorStore.delete(userId, provider);
+            } catch (error) {
+                this.logger.error(`Failed to delete sync cursors for ${provider}:`, error);
+            }
+
             // Step 4: Mark integration as disconnected in database
-            await this.persistence.markDisconnected(userId, provider);
+            await this.persistence.markDisconnected(userId, integrationNameForProvider(provider));
             this.logger.log(`Marked integration as disconnected for ${provider}, userId: ${userId}`);
 
             return {
@@ -12,12 +12,25 @@ import { ContactListProvider } from './providers/contact-list.provider';
 import { GoodreadsProvider } from './providers/goodreads.provider';
 import { PrismaService } from '@traeta/prisma';
 import { IntegrationPersistence } from './persistence';
-import { TokenStore } from './token-store';
-import { IntegrationProviderName } from './types';
+import { InMemoryTokenStore, TokenStore } from './token-store';
+import { WebhookReceiver } from './webhook-receiver';
+import { SyncRunRecorder } from './sync-run-recorder';
+import { CursorStore, InMemoryCursorStore } from './cursor-store';
+import { OAuthStateService } from './oauth-state';
+import { getConnectionId, runInConnection } from './connection-scope';
+import { DEFAULT_SYNC_SETTINGS, getSyncSettings, IntegrationSettingsStore } from './sync-settings';
+import { IntegrationProviderRegistry } from './provider-registry';
+import { DisconnectDataHandling, IntegrationAuthType, IntegrationCapabilities, IntegrationProvider, IntegrationProviderName } from './types';
+import { ConnectionNotFoundException, DataSyncException, DataValidationException, ProviderNotFoundException, RefreshTokenException } from './exceptions';
 import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { SyncJobQueue } from './sync-job-queue';
+import { IntegrationHealthService } from './integration-health';
 
 describe('IntegrationsService', () => {
     let service: IntegrationsService;
+    let tokenStore: TokenStore;
     let controller: IntegrationsController;
     let mockPlaidProvider: jest.Mocked<PlaidProvider>;
     let mockStravaProvider: jest.Mocked<StravaProvider>;
@@ -29,10 +42,53 @@ describe('IntegrationsService', () => {
     let mockContactListProvider: jest.Mocked<ContactListProvider>;
     let mockGoodreadsProvider: jest.Mocked<GoodreadsProvider>;
 
+    const mockPrismaService = {
+        userIntegrations: { findMany: jest.fn().mockResolvedValue([]) },
+        oAuthCredentials: { findFirst: jest.fn().mockResolvedValue(null) },
+    };
+    const mockPersistence = {
+        markReauthRequired: jest.fn().mockResolvedValue(true),
+        ensureIntegration: jest.fn().mockResolvedValue({ integrationId: 'integration-1' }),
+        findUserIntegrations: jest.fn().mockResolvedValue([]),
+        ensureUserIntegration: jest.fn().mockResolvedValue({ userIntegrationId: 'link-1', label: null }),
+        createUserIntegration: jest.fn().mockResolvedValue({ userIntegrationId: 'link-new', label: null }),
+        setUserIntegrationLabel: jest.fn().mockResolvedValue(undefined),
+        markDisconnected: jest.fn().mockResolvedValue(null),
+        removeConnectionItems: jest.fn().mockResolvedValue(0),
+        restoreArchivedItems: jest.fn().mockResolvedValue(0),
+        mergeUserIntegration: jest.fn().mockResolvedValue(undefined),
+    };
+    const mockOAuthState = {
+        issue: jest.fn().mockResolvedValue({ state: 'signed-state' }),
+        verify: jest.fn().mockReturnValue('user123'),
+        connectionOf: jest.fn().mockReturnValue(undefined),
+    };
+    const mockSettingsStore = {
+        get: jest.fn().mockResolvedValue(DEFAULT_SYNC_SETTINGS),
+        update: jest.fn(),
+    };
+    const mockSyncJobQueue = {
+        enqueue: jest.fn(),
+        getJob: jest.fn(),
+    };
+
+    const capabilities = (overrides: Partial<IntegrationCapabilities> = {}): IntegrationCapabilities => ({
+        authType: IntegrationAuthType.OAUTH,
+        webhooks: false,
+        fileImport: false,
+        disconnect: true,
+        revoke: false,
+        multipleConnections: false,
+        dataTypes: [],
+        lists: [],
+        ...overrides,
+    });
+
     beforeAll(async () => {
         // Create mock providers
         mockPlaidProvider = {
             name: IntegrationProviderName.PLAID,
+            capabilities: capabilities({ authType: IntegrationAuthType.LINK_TOKEN, webhooks: true, revoke: true, multipleConnections: true }),
             createConnection: jest.fn(),
             handleCallback: jest.fn(),
             sync: jest.fn(),
@@ -41,6 +97,7 @@ describe('IntegrationsService', () => {
 
         mockStravaProvider = {
             name: IntegrationProviderName.STRAVA,
+            capabilities: capabilities({ authorizationUrl: 'https://www.strava.com/oauth/authorize', webhooks: true, multipleConnections: true, dataTypes: ['activities'] }),
             createConnection: jest.fn(),
             handleCallback: jest.fn(),
             sync: jest.fn(),
@@ -49,6 +106,7 @@ describe('IntegrationsService', () => {
 
         mockSpotifyProvider = {
             name: IntegrationProviderName.SPOTIFY,
+            capabilities: capabilities({ multipleConnections: true, lists: [{ list: 'Music', categories: ['Liked Songs'] }] }),
             createConnection: jest.fn(),
             handleCallback: jest.fn(),
             sync: jest.fn(),
@@ -57,6 +115,7 @@ describe('IntegrationsService', () => {
 
         mockAppleHealthProvider = {
             name: IntegrationProviderName.APPLE_HEALTH,
+            capabilities: capabilities({ authType: IntegrationAuthType.DEVICE_UPLOAD, uploadEndpoint: '/integrations/apple_health/upload', dataTypes: ['workouts', 'steps'] }),
             createConnection: jest.fn(),
             handleCallback: jest.fn(),
             sync: jest.fn(),
@@ -66,6 +125,7 @@ describe('IntegrationsService', () => {
 
         mockAppleMusicProvider = {
             name: IntegrationProviderName.APPLE_MUSIC,
+            capabilities: capabilities({ authorizationUrl: 'https://authorize.music.apple.com/woa', dataTypes: ['recentlyPlayed', 'librarySongs', 'playlists'] }),
             createConnection: jest.fn(),
             handleCallback: jest.fn(),
             sync: jest.fn(),
@@ -74,6 +134,7 @@ describe('IntegrationsService', () => {
 
         mockEmailScraperProvider = {
             name: IntegrationProviderName.EMAIL_SCRAPER,
+            capabilities: capabilities({ multipleConnections: true }),
             createConnection: jest.fn(),
             handleCallback: jest.fn(),
             sync: jest.fn(),
@@ -82,6 +143,7 @@ describe('IntegrationsService', () => {
 
         mockLocationServicesProvider = {
             name: IntegrationProviderName.LOCATION_SERVICES,
+            capabilities: capabilities({ authType: IntegrationAuthType.DEVICE_UPLOAD }),
             createConnection: jest.fn(),
             handleCallback: jest.fn(),
             sync: jest.fn(),
@@ -90,6 +152,7 @@ describe('IntegrationsService', () => {
 
         mockContactListProvider = {
             name: IntegrationProviderName.CONTACT_LIST,
+            capabilities: capabilities({ multipleConnections: true }),
             createConnection: jest.fn(),
             handleCallback: jest.fn(),
             sync: jest.fn(),
@@ -98,32 +161,57 @@ describe('IntegrationsService', () => {
 
         mockGoodreadsProvider = {
             name: IntegrationProviderName.GOODREADS,
+            capabilities: capabilities({ authType: IntegrationAuthType.CREDENTIALS, fileImport: true }),
             createConnection: jest.fn(),
             handleCallback: jest.fn(),
             sync: jest.fn(),
             status: jest.fn(),
         } as any;
 
+        const registered: IntegrationProvider[] = [
+            mockPlaidProvider,
+            mockStravaProvider,
+            mockAppleHealthProvider,
+            mockAppleMusicProvider,
+            mockSpotifyProvider,
+            mockEmailScraperProvider,
+            mockLocationServicesProvider,
+            mockContactListProvider,
+            mockGoodreadsProvider,
+        ];
+        const mockRegistry = {
+            get: jest.fn((name: string) => registered.find(provider => provider.name === name)),
+            getOrThrow: jest.fn((name: string) => {
+                const provider = registered.find(candidate => candidate.name === name);
+                if (!provider) throw new ProviderNotFoundException(name);
+                return provider;
+            }),
+            all: jest.fn(() => registered),
+        };
+
         const module: TestingModule = await Test.createTestingModule({
             controllers: [IntegrationsController],
             providers: [
                 IntegrationsService,
-                { provide: PlaidProvider, useValue: mockPlaidProvider },
-                { provide: StravaProvider, useValue: mockStravaProvider },
-                { provide: SpotifyProvider, useValue: mockSpotifyProvider },
-                { provide: AppleHealthProvider, useValue: mockAppleHealthProvider },
-                { provide: AppleMusicProvider, useValue: mockAppleMusicProvider },
-                { provide: EmailScraperProvider, useValue: mockEmailScraperProvider },
-                { provide: LocationServicesProvider, useValue: mockLocationServicesProvider },
-                { provide: ContactListProvider, useValue: mockContactListProvider },
-                { provide: GoodreadsProvider, useValue: mockGoodreadsProvider },
-                { provide: PrismaService, useValue: {} },
-                { provide: IntegrationPersistence, useValue: {} },
-                { provide: TokenStore, useValue: {} },
+                { provide: IntegrationProviderRegistry, useValue: mockRegistry },
+                { provide: PrismaService, useValue: mockPrismaService },
+                { provide: IntegrationPersistence, useValue: mockPersistence },
+                { provide: TokenStore, useClass: InMemoryTokenStore },
+                { provide: WebhookReceiver, useValue: {} },
+                { provide: SyncRunRecorder, useValue: { record: jest.fn((provider, userId, run) => run()) } },
+                { provide: CursorStore, useClass: InMemoryCursorStore },
+                { provide: OAuthStateService, useValue: mockOAuthState },
+                { provide: IntegrationSettingsStore, useValue: mockSettingsStore },
+                { provide: SyncJobQueue, useValue: mockSyncJobQueue },
+                { provide: IntegrationHealthService, useValue: {} },
+                // JwtAuthGuard dependencies; guards don't run when the controller is called directly
+                { provide: JwtService, useValue: {} },
+                { provide: ConfigService, useValue: new ConfigService() },
             ],
         }).compile();
 
         service = module.get<IntegrationsService>(IntegrationsService);
+        tokenStore = module.get(TokenStore);
         controller = module.get<IntegrationsController>(IntegrationsController);
 
         // Suppress logger output during tests
@@ -145,7 +233,7 @@ describe('IntegrationsService', () => {
                 const result = await service.createConnection(IntegrationProviderName.PLAID, 'user123');
 
                 expect(mockPlaidProvider.createConnection).toHaveBeenCalledWith('user123');
-                expect(result).toEqual({ ...mockResponse, provider: IntegrationProviderName.PLAID });
+                expect(result).toEqual({ ...mockResponse, provider: IntegrationProviderName.PLAID, connectionId: 'link-new' });
             });
 
             it('should create connection for Strava', async () => {
@@ -155,7 +243,7 @@ describe('IntegrationsService', () => {
                 const result = await service.createConnection(IntegrationProviderName.STRAVA, 'user123');
 
                 expect(mockStravaProvider.createConnection).toHaveBeenCalledWith('user123');
-                expect(result).toEqual({ ...mockResponse, provider: IntegrationProviderName.STRAVA });
+                expect(result).toEqual({ ...mockResponse, provider: IntegrationProviderName.STRAVA, connectionId: 'link-new' });
             });
 
             it('should create connection for Spotify', async () => {
@@ -165,7 +253,7 @@ describe('IntegrationsService', () => {
                 const result = await service.createConnection(IntegrationProviderName.SPOTIFY, 'user123');
 
                 expect(mockSpotifyProvider.createConnection).toHaveBeenCalledWith('user123');
-                expect(result).toEqual({ ...mockResponse, provider: IntegrationProviderName.SPOTIFY });
+                expect(result).toEqual({ ...mockResponse, provider: IntegrationProviderName.SPOTIFY, connectionId: 'link-new' });
             });
 
             it('should create connection for Apple Health', async () => {
@@ -175,7 +263,7 @@ describe('IntegrationsService', () => {
                 const result = await service.createConnection(IntegrationProviderName.APPLE_HEALTH, 'user123');
 
                 expect(mockAppleHealthProvider.createConnection).toHaveBeenCalledWith('user123');
-                expect(result).toEqual({ ...mockResponse, provider: IntegrationProviderName.APPLE_HEALTH });
+                expect(result).toEqual({ ...mockResponse, provider: IntegrationProviderName.APPLE_HEALTH, connectionId: 'link-1' });
             });
 
             it('should create connection for Apple Music', async () => {
@@ -185,7 +273,7 @@ describe('IntegrationsService', () => {
                 const result = await service.createConnection(IntegrationProviderName.APPLE_MUSIC, 'user123');
 
                 expect(mockAppleMusicProvider.createConnection).toHaveBeenCalledWith('user123');
-                expect(result).toEqual({ ...mockResponse, provider: IntegrationProviderName.APPLE_MUSIC });
+                expect(result).toEqual({ ...mockResponse, provider: IntegrationProviderName.APPLE_MUSIC, connectionId: 'link-1' });
             });
 
             it('should create connection for Email Scraper', async () => {
@@ -195,7 +283,44 @@ describe('IntegrationsService', () => {
                 const result = await service.createConnection(IntegrationProviderName.EMAIL_SCRAPER, 'user123');
 
                 expect(mockEmailScraperProvider.createConnection).toHaveBeenCalledWith('user123');
-                expect(result).toEqual({ ...mockResponse, provider: IntegrationProviderName.EMAIL_SCRAPER });
+                expect(result).toEqual({ ...mockResponse, provider: IntegrationProviderName.EMAIL_SCRAPER, connectionId: 'link-new' });
+            });
+
+            it('should re-authorize an existing connection and apply its label', async () => {
+                mockPersistence.createUserIntegration.mockClear();
+                mockStravaProvider.createConnection.mockResolvedValue({ provider: 'strava', redirectUrl: 'https://strava.com/oauth' });
+                mockPersistence.findUserIntegrations.mockResolvedValueOnce([
+                    { userIntegrationId: 'link-2', status: 'REAUTH_REQUIRED', label: null, history: [] },
+                ]);
+
+                const result = await service.createConnection(IntegrationProviderName.STRAVA, 'user123', {
+                    connectionId: 'link-2',
+                    label: 'Club account',
+                });
+
+                expect(mockPersistence.createUserIntegration).not.toHaveBeenCalled();
+                expect(mockPersistence.setUserIntegrationLabel).toHaveBeenCalledWith('link-2', 'Club account');
+                expect(result.connectionId).toBe('link-2');
+            });
+
+            it('should re-authorize the only connection once it needs reauth or was disconnected', async () => {
+                mockPersistence.createUserIntegration.mockClear();
+                mockStravaProvider.createConnection.mockResolvedValue({ provider: 'strava', redirectUrl: 'https://strava.com/oauth' });
+                mockPersistence.findUserIntegrations.mockResolvedValueOnce([
+                    { userIntegrationId: 'link-2', status: 'DISCONNECTED', label: null, history: [] },
+                    { userIntegrationId: 'link-3', status: 'PENDING', label: null, history: [] },
+                ]);
+
+                const result = await service.createConnection(IntegrationProviderName.STRAVA, 'user123');
+
+                expect(mockPersistence.createUserIntegration).not.toHaveBeenCalled();
+                expect(result.connectionId).toBe('link-2');
+            });
+
+            it('should reject a connection id the user does not own', async () => {
+                await expect(
+                    service.createConnection(IntegrationProviderName.STRAVA, 'user123', { connectionId: 'someone-elses-link' }),
+                ).rejects.toThrow(ConnectionNotFoundException);
             });
 
             it('should throw error for unknown provider', async () => {
@@ -227,6 +352,31 @@ describe('IntegrationsService', () => {
                 await service.handleCallback(IntegrationProviderName.EMAIL_SCRAPER, payload);
                 expect(mockEmailScraperProvider.handleCallback).toHaveBeenCalledWith(payload);
             });
+
+            it('should restore items archived when the connection was disconnected', async () => {
+                mockOAuthState.connectionOf.mockReturnValueOnce('link-1');
+
+                await service.handleCallback(IntegrationProviderName.SPOTIFY, { code: 'test-code', state: 'test-state' });
+
+                expect(mockPersistence.restoreArchivedItems).toHaveBeenCalledWith('link-1');
+            });
+
+            it('should re-authorize the connection that already holds a relinked account', async () => {
+                mockOAuthState.connectionOf.mockReturnValueOnce('link-new');
+                mockPrismaService.oAuthCredentials.findFirst.mockResolvedValueOnce({ userIntegrationId: 'link-1', providerUserId: 'athlete-1' });
+                mockStravaProvider.handleCallback.mockImplementationOnce(() =>
+                    tokenStore.set('user123', 'strava', { accessToken: 'new-token', providerUserId: 'athlete-1' }));
+
+                await service.handleCallback(IntegrationProviderName.STRAVA, { code: 'test-code', state: 'test-state' });
+
+                expect(mockPrismaService.oAuthCredentials.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+                    where: expect.objectContaining({ providerUserId: 'athlete-1', userIntegrationId: { not: 'link-new' } }),
+                }));
+                expect(mockPersistence.mergeUserIntegration).toHaveBeenCalledWith('link-new', 'link-1');
+                expect(mockPersistence.restoreArchivedItems).toHaveBeenCalledWith('link-1');
+                await expect(runInConnection('link-1', () => tokenStore.get('user123', 'strava'))).resolves.toEqual(expect.objectContaining({ accessToken: 'new-token' }));
+                await expect(runInConnection('link-new', () => tokenStore.get('user123', 'strava'))).resolves.toBeNull();
+            });
         });
 
         describe('sync', () => {
@@ -254,6 +404,47 @@ describe('IntegrationsService', () => {
                     expect(result).toEqual(mockSyncResult);
                 }
             });
+
+            it('should mark the link as needing reauth when the token cannot be refreshed', async () => {
+                mockSpotifyProvider.sync.mockRejectedValue(new RefreshTokenException(IntegrationProviderName.SPOTIFY));
+
+                await expect(service.sync(IntegrationProviderName.SPOTIFY, 'user123')).rejects.toThrow(DataSyncException);
+                expect(mockPersistence.markReauthRequired).toHaveBeenCalledWith('user123', 'spotify');
+            });
+
+            it("should run the provider sync with the user's settings for the provider", async () => {
+                const settings = { ...DEFAULT_SYNC_SETTINGS, backfillDays: 7, categories: ['Run'] };
+                mockSettingsStore.get.mockResolvedValueOnce(settings);
+                let seen: unknown;
+                mockStravaProvider.sync.mockImplementationOnce(async () => {
+                    seen = getSyncSettings();
+                    return { ok: true };
+                });
+
+                await service.sync(IntegrationProviderName.STRAVA, 'user123');
+
+                expect(mockSettingsStore.get).toHaveBeenCalledWith('user123', IntegrationProviderName.STRAVA);
+                expect(seen).toBe(settings);
+            });
+        });
+
+        describe('settings', () => {
+            it('should return the user\'s settings for the provider', async () => {
+                await expect(service.getSettings(IntegrationProviderName.STRAVA, 'user123')).resolves.toEqual({
+                    provider: IntegrationProviderName.STRAVA,
+                    userId: 'user123',
+                    ...DEFAULT_SYNC_SETTINGS,
+                });
+            });
+
+            it('should validate changes against the provider\'s capabilities', async () => {
+                mockSettingsStore.update.mockResolvedValueOnce({ ...DEFAULT_SYNC_SETTINGS, autoSync: false });
+
+                const result = await service.updateSettings(IntegrationProviderName.SPOTIFY, 'user123', { autoSync: false });
+
+                expect(mockSettingsStore.update).toHaveBeenCalledWith('user123', IntegrationProviderName.SPOTIFY, mockSpotifyProvider.capabilities, { autoSync: false });
+                expect(result.autoSync).toBe(false);
+            });
         });
 
         describe('status', () => {
@@ -278,8 +469,149 @@ describe('IntegrationsService', () => {
 
                 for (const provider of providers) {
                     const result = await service.status(provider, 'user123');
-                    expect(result).toEqual(mockStatus);
+                    expect(result).toEqual({ ...mockStatus, connectionId: null, connectionStatus: null });
+                }
+            });
+
+            it('should report links that need reauthorization', async () => {
+                mockStravaProvider.status.mockResolvedValue({ connected: false, lastSyncedAt: null });
+                mockPersistence.findUserIntegrations.mockResolvedValueOnce([
+                    { userIntegrationId: 'link-1', status: 'REAUTH_REQUIRED', history: [] },
+                ]);
+
+                const result = await service.status(IntegrationProviderName.STRAVA, 'user123');
+
+                expect(result).toEqual(expect.objectContaining({ connected: false, connectionId: 'link-1', connectionStatus: 'REAUTH_REQUIRED' }));
+            });
+
+            it('should report the connected account when a user has several', async () => {
+                mockStravaProvider.status.mockResolvedValue({ connected: true, lastSyncedAt: null });
+                mockPersistence.findUserIntegrations.mockResolvedValueOnce([
+                    { userIntegrationId: 'link-old', status: 'DISCONNECTED', history: [] },
+                    { userIntegrationId: 'link-new', status: 'CONNECTED', history: [] },
+                ]);
+
+                const result = await service.status(IntegrationProviderName.STRAVA, 'user123');
+
+                expect(result).toEqual(expect.objectContaining({ connectionId: 'link-new', connectionStatus: 'CONNECTED' }));
+            });
+
+            it('should reject a connection id the user does not own', async () => {
+                await expect(service.status(IntegrationProviderName.STRAVA, 'user123', 'someone-elses-link')).rejects.toThrow(
+                    ConnectionNotFoundException,
+                );
+            });
+        });
+
+        describe('getAllStatuses', () => {
+            afterEach(() => {
+                mockPersistence.ensureIntegration.mockResolvedValue({ integrationId: 'integration-1' });
+                mockPersistence.findUserIntegrations.mockResolvedValue([]);
+            });
+
+            it('should read each provider\'s status inside its default connection', async () => {
+                for (const provider of [mockPlaidProvider, mockStravaProvider, mockSpotifyProvider, mockAppleHealthProvider, mockAppleMusicProvider, mockEmailScraperProvider, mockLocationServicesProvider, mockContactListProvider, mockGoodreadsProvider]) {
+                    provider.status.mockResolvedValue({ connected: false, lastSyncedAt: null });
                 }
+                mockPersistence.ensureIntegration.mockImplementation(async (name: string) => ({ integrationId: `integration-${name}` }));
+                mockPersistence.findUserIntegrations.mockImplementation(async (_userId: string, integrationId: string) =>
+                    integrationId === 'integration-strava'
+                        ? [
+                            { userIntegrationId: 'link-old', status: 'DISCONNECTED', history: [] },
+                            { userIntegrationId: 'link-new', status: 'CONNECTED', history: [] },
+                        ]
+                        : []);
+                mockStravaProvider.status.mockImplementation(async () => ({ connected: true, lastSyncedAt: null, details: { connectionId: getConnectionId() } }));
+
+                const result = await service.getAllStatuses('user123');
+
+                const statuses = [...result.topIntegrations, ...Object.values(result.integrationsByList).flat()];
+                const strava = statuses.find(status => status.provider === IntegrationProviderName.STRAVA);
+                expect(strava).toEqual(expect.objectContaining({ connected: true, connectionStatus: 'CONNECTED', details: { connectionId: 'link-new' } }));
+                const spotify = statuses.find(status => status.provider === IntegrationProviderName.SPOTIFY);
+                expect(spotify).toEqual(expect.objectContaining({ connected: false, connectionStatus: null }));
+            });
+        });
+
+        describe('disconnect', () => {
+            const connectedLink = () => mockPersistence.findUserIntegrations.mockResolvedValueOnce([
+                { userIntegrationId: 'link-1', status: 'CONNECTED', history: [] },
+            ]);
+
+            beforeEach(() => {
+                mockPersistence.removeConnectionItems.mockClear();
+                mockSpotifyProvider.status.mockResolvedValue({ connected: true, lastSyncedAt: null });
+                mockEmailScraperProvider.status.mockResolvedValue({ connected: true, lastSyncedAt: null });
+            });
+
+            it('should keep imported items by default', async () => {
+                connectedLink();
+
+                const result = await service.disconnect(IntegrationProviderName.SPOTIFY, 'user123');
+
+                expect(result).toEqual(expect.objectContaining({ statusCode: 200, dataHandling: 'keep', itemsAffected: 0 }));
+                expect(mockPersistence.removeConnectionItems).not.toHaveBeenCalled();
+            });
+
+            it('should archive the connection\'s items and report how many', async () => {
+                connectedLink();
+                mockPersistence.removeConnectionItems.mockResolvedValueOnce(12);
+
+                const result = await service.disconnect(IntegrationProviderName.SPOTIFY, 'user123', undefined, DisconnectDataHandling.ARCHIVE);
+
+                expect(mockPersistence.removeConnectionItems).toHaveBeenCalledWith('user123', 'link-1', ['spotify'], 'archive');
+                expect(result).toEqual(expect.objectContaining({ statusCode: 200, dataHandling: 'archive', itemsAffected: 12 }));
+            });
+
+            it('should purge email items stored under their gmail provider name', async () => {
+                connectedLink();
+
+                await service.disconnect(IntegrationProviderName.EMAIL_SCRAPER, 'user123', undefined, DisconnectDataHandling.PURGE);
+
+                expect(mockPersistence.removeConnectionItems).toHaveBeenCalledWith('user123', 'link-1', ['email_scraper', 'gmail'], 'purge');
+            });
+
+            it('should leave items alone when the user was not connected', async () => {
+                connectedLink();
+                mockSpotifyProvider.status.mockResolvedValueOnce({ connected: false, lastSyncedAt: null });
+
+                const result = await service.disconnect(IntegrationProviderName.SPOTIFY, 'user123', undefined, DisconnectDataHandling.PURGE);
+
+                expect(result).toEqual(expect.objectContaining({ statusCode: 400, itemsAffected: 0 }));
+                expect(mockPersistence.removeConnectionItems).not.toHaveBeenCalled();
+            });
+
+            it('should purge the items of a connection the user already disconnected', async () => {
+                mockPersistence.findUserIntegrations.mockResolvedValueOnce([
+                    { userIntegrationId: 'link-1', status: 'DISCONNECTED', history: [] },
+                ]);
+                mockSpotifyProvider.status.mockResolvedValueOnce({ connected: false, lastSyncedAt: null });
+                mockPersistence.removeConnectionItems.mockResolvedValueOnce(5);
+
+                const result = await service.disconnect(IntegrationProviderName.SPOTIFY, 'user123', undefined, DisconnectDataHandling.PURGE);
+
+                expect(mockPersistence.removeConnectionItems).toHaveBeenCalledWith('user123', 'link-1', ['spotify'], 'purge');
+                expect(result).toEqual(expect.objectContaining({ itemsAffected: 5 }));
+            });
+
+            it('should reject an unknown dataHandling option', async () => {
+                await expect(
+                    service.disconnect(IntegrationProviderName.SPOTIFY, 'user123', undefined, 'shred' as DisconnectDataHandling),
+                ).rejects.toThrow(DataValidationException);
+            });
+        });
+
+        describe('restoreArchivedItems', () => {
+            it('should restore the archived items of the requested connection', async () => {
+                mockPersistence.findUserIntegrations.mockResolvedValueOnce([
+                    { userIntegrationId: 'link-1', status: 'CONNECTED', history: [] },
+                    { userIntegrationId: 'link-2', status: 'DISCONNECTED', history: [] },
+                ]);
+                mockPersistence.restoreArchivedItems.mockResolvedValueOnce(7);
+
+                await expect(service.restoreArchivedItems(IntegrationProviderName.SPOTIFY, 'user123', 'link-2'))
+                    .resolves.toEqual({ connectionId: 'link-2', itemsRestored: 7 });
+                expect(mockPersistence.restoreArchivedItems).toHaveBeenCalledWith('link-2');
             });
         });
 
@@ -301,6 +633,15 @@ describe('IntegrationsService', () => {
                 );
                 expect(result).toEqual(mockResult);
             });
+
+            it('should reject uploads to providers without device upload', async () => {
+                const original = mockAppleHealthProvider.capabilities;
+                (mockAppleHealthProvider as any).capabilities = { ...original, authType: IntegrationAuthType.OAUTH };
+
+                await expect(service.handleAppleHealthUpload('user123', 'upload-token', {})).rejects.toThrow(DataValidationException);
+
+                (mockAppleHealthProvider as any).capabilities = original;
+            });
         });
 
         describe('Apple Music specific methods', () => {
@@ -315,7 +656,7 @@ describe('IntegrationsService', () => {
 
                 expect(mockAppleMusicProvider.handleCallback).toHaveBeenCalledWith({
                     music_user_token: 'music-user-token',
-                    state: expect.stringContaining('apple-music-user123-'),
+                    state: 'signed-state',
                 });
                 expect(result).toEqual(mockResult);
             });
@@ -323,7 +664,7 @@ describe('IntegrationsService', () => {
 
         describe('getIntegrationConfig', () => {
             it('should get Apple Health config', async () => {
-                const mockStatus = { connected: true, lastSyncedAt: new Date() };
+                const mockStatus = { connected: true, lastSyncedAt: new Date(), details: { uploadToken: 'upload-token' } };
                 mockAppleHealthProvider.status.mockResolvedValue(mockStatus);
 
                 const result = await service.getIntegrationConfig(
@@ -333,16 +674,13 @@ describe('IntegrationsService', () => {
 
                 expect(result).toEqual({
                     provider: 'apple_health',
-                    uploadEndpoint: expect.any(String),
+                    uploadEndpoint: '/integrations/apple_health/upload',
+                    uploadToken: 'upload-token',
                     connected: true,
                     lastSyncedAt: mockStatus.lastSyncedAt,
-                    supportedDataTypes: [
-                        'workouts',
-                        'healthMetrics',
-                        'steps',
-                        'heartRate',
-                        'sleep'
-                    ],
+                    supportedDataTypes: ['workouts', 'steps'],
+                    capabilities: mockAppleHealthProvider.capabilities,
+                    details: mockStatus.details,
                 });
             });
 
@@ -365,6 +703,7 @@ describe('IntegrationsService', () => {
                         'librarySongs',
                         'playlists'
                     ],
+                    capabilities: mockAppleMusicProvider.capabilities,
                     details: mockStatus.details,
                 });
             });
@@ -378,30 +717,41 @@ describe('IntegrationsService', () => {
                     'user123'
                 );
 
-                expect(result).toEqual({
+                expect(result).toEqual(expect.objectContaining({
                     provider: 'strava',
                     connected: true,
                     lastSyncedAt: mockStatus.lastSyncedAt,
                     authorizationUrl: 'https://www.strava.com/oauth/authorize',
                     supportedDataTypes: ['activities'],
-                });
+                }));
             });
 
-            it('should get default config for other providers', async () => {
+            it('should omit endpoints a provider does not have', async () => {
                 const mockStatus = { connected: true, lastSyncedAt: new Date(), details: {} };
-                mockSpotifyProvider.status.mockResolvedValue(mockStatus);
+                mockPlaidProvider.status.mockResolvedValue(mockStatus);
 
                 const result = await service.getIntegrationConfig(
-                    IntegrationProviderName.SPOTIFY,
+                    IntegrationProviderName.PLAID,
                     'user123'
                 );
 
-                expect(result).toEqual({
-                    provider: IntegrationProviderName.SPOTIFY,
-                    connected: true,
-                    lastSyncedAt: mockStatus.lastSyncedAt,
-                    details: mockStatus.details,
-                });
+                expect(result).not.toHaveProperty('authorizationUrl');
+                expect(result).not.toHaveProperty('uploadEndpoint');
+                expect(result.capabilities.authType).toBe(IntegrationAuthType.LINK_TOKEN);
+            });
+        });
+
+        describe('getCatalog', () => {
+            it('should describe every provider', () => {
+                const { providers } = service.getCatalog();
+
+                expect(providers).toHaveLength(Object.values(IntegrationProviderName).length);
+                expect(providers).toContainEqual(expect.objectContaining({
+                    provider: IntegrationProviderName.GOODREADS,
+                    provider_name: 'Goodreads',
+                    authType: IntegrationAuthType.CREDENTIALS,
+                    fileImport: true,
+                }));
             });
         });
     });
@@ -419,7 +769,7 @@ describe('IntegrationsService', () => {
                 const mockUser = { uid: 'user123', email: 'test@example.com' };
                 const result = await controller.connect('plaid', 'user123', mockUser as any);
 
-                expect(service.createConnection).toHaveBeenCalledWith('plaid', 'user123');
+                expect(service.createConnection).toHaveBeenCalledWith('plaid', 'user123', { connectionId: undefined, label: undefined });
                 expect(result).toEqual(mockResponse);
             });
         });
@@ -445,38 +795,38 @@ describe('IntegrationsService', () => {
         });
 
         describe('sync', () => {
-            it('should call service sync via POST', async () => {
-                const mockResponse = { ok: true };
-                jest.spyOn(service, 'sync').mockResolvedValue(mockResponse);
+            it('should queue a sync job via POST', async () => {
+                const mockResponse = { jobId: 'job-1', status: 'PENDING' };
+                mockSyncJobQueue.enqueue.mockResolvedValue(mockResponse);
 
                 const mockUser = { uid: 'user123', email: 'test@example.com' };
                 const result = await controller.sync('plaid', 'user123', mockUser as any);
 
-                expect(service.sync).toHaveBeenCalledWith('plaid', 'user123');
+                expect(mockSyncJobQueue.enqueue).toHaveBeenCalledWith('plaid', 'user123', undefined);
                 expect(result).toEqual(mockResponse);
             });
 
-            it('should call service sync for different provider', async () => {
-                const mockResponse = { ok: true };
-                jest.spyOn(service, 'sync').mockResolvedValue(mockResponse);
+            it('should queue a sync job for the given connection', async () => {
+                const mockResponse = { jobId: 'job-2', status: 'PENDING' };
+                mockSyncJobQueue.enqueue.mockResolvedValue(mockResponse);
 
                 const mockUser = { uid: 'user123', email: 'test@example.com' };
-                const result = await controller.sync('spotify', 'user123', mockUser as any);
+                const result = await controller.sync('spotify', 'user123', mockUser as any, 'link-2');
 
-                expect(service.sync).toHaveBeenCalledWith('spotify', 'user123');
+                expect(mockSyncJobQueue.enqueue).toHaveBeenCalledWith('spotify', 'user123', 'link-2');
                 expect(result).toEqual(mockResponse);
             });
         });
 
         describe('status', () => {
             it('should call service status', async () => {
-                const mockResponse = { connected: true };
+                const mockResponse = { connected: true, connectionId: 'link-1', connectionStatus: 'CONNECTED' };
                 jest.spyOn(service, 'status').mockResolvedValue(mockResponse);
 
                 const mockUser = { uid: 'user123', email: 'test@example.com' };
                 const result = await controller.status('strava', 'user123', mockUser as any);
 
-                expect(service.status).toHaveBeenCalledWith('strava', 'user123');
+                expect(service.status).toHaveBeenCalledWith('strava', 'user123', undefined);
                 expect(result).toEqual(mockResponse);
             });
         });
@@ -528,12 +878,14 @@ describe('IntegrationsService', () => {
             it('should get integration config', async () => {
                 const mockUser = { uid: 'user123', email: 'test@example.com', phoneNumber: null };
                 const mockResponse = {
-                    provider: 'apple_health',
+                    provider: IntegrationProviderName.APPLE_HEALTH,
                     uploadEndpoint: '/integrations/apple_health/upload',
                     connected: true,
                     lastSyncedAt: new Date('2023-01-01'),
                     uploadToken: 'test-upload-token',
-                    supportedDataTypes: ['workouts', 'healthMetrics', 'steps', 'heartRate', 'sleep']
+                    supportedDataTypes: ['workouts', 'healthMetrics', 'steps', 'heartRate', 'sleep'],
+                    capabilities: mockAppleHealthProvider.capabilities,
+                    details: {},
                 };
                 jest.spyOn(service, 'getIntegrationConfig').mockResolvedValue(mockResponse);
 
@@ -0,0 +1,176 @@
+import { Logger } from '@nestjs/common';
+import { ClusterCandidate, ItemClusterService, resolveClusters } from './item-clusters';
+import { SyncRunSummary } from './sync-run-recorder';
+import { IntegrationProviderName } from './types';
+import { ActionStatus } from '../../constants';
+
+describe('item clusters', () => {
+    const item = (listItemId: string, attributes: Record<string, any>, overrides: Partial<ClusterCandidate> = {}): ClusterCandidate => ({
+        listItemId,
+        userListId: 'fitness-list',
+        attributes,
+        createdOn: new Date('2026-10-01T00:00:00.000Z'),
+        primaryItemId: null,
+        ...overrides,
+    });
+
+    const stravaRun = item('strava-run', {
+        startTime: '2026-10-01T07:00:00.000Z',
+        endTime: '2026-10-01T07:45:00.000Z',
+        durationMinutes: 45,
+        miles: 5.1,
+        images: [],
+        route: 'polyline',
+        external: { provider: 'strava', id: '1' },
+    });
+    const healthRun = item('health-run', {
+        startTime: '2026-10-01T07:01:30.000Z',
+        endTime: '2026-10-01T07:44:10.000Z',
+        durationMinutes: 43,
+        calories: 480,
+        external: { provider: 'apple_health', id: 'w1', type: 'workout' },
+    });
+
+    describe('resolveClusters', () => {
+        it('should link the same workout from two providers under the fuller item', () => {
+            const primaries = resolveClusters([healthRun, stravaRun]);
+
+            expect(primaries.get('strava-run')).toBeNull();
+            expect(primaries.get('health-run')).toBe('strava-run');
+        });
+
+        it('should not link workouts that only overlap, or items from the same provider', () => {
+            const later = item('health-later', { ...(healthRun.attributes as object), startTime: '2026-10-01T07:30:00.000Z' });
+            const secondStrava = item('strava-2', { ...(stravaRun.attributes as object), external: { provider: 'strava', id: '2' } });
+
+            const primaries = resolveClusters([stravaRun, later, secondStrava]);
+
+            expect([...primaries.values()]).toEqual([null, null, null]);
+        });
+
+        it('should link song plays by ISRC and saved tracks by name and lead artist', () => {
+            const primaries = resolveClusters([
+                item('spotify-play', { playedAt: '2026-10-01T20:00:00.000Z', trackName: 'Halo', artistName: 'Beyonce', isrc: 'USSM10803948', popularity: 80, external: { provider: 'spotify', id: 't1' } }),
+                item('apple-play', { playedAt: '2026-10-01T20:03:00.000Z', trackName: 'Halo (Live)', artistName: 'Beyoncé', isrc: 'USSM10803948', external: { provider: 'apple_music', id: 'p1' } }),
+                item('spotify-liked', { trackName: 'Crazy in Love', artistName: 'Beyonce, JAY-Z', albumName: 'Dangerously in Love', isrc: null, external: { provider: 'spotify', id: 't2' } }),
+                item('apple-library', { trackName: 'Crazy In Love', artistName: 'Beyonce & JAY-Z', external: { provider: 'apple_music', id: 'l2' } }),
+            ]);
+
+            expect(primaries.get('apple-play')).toBe('spotify-play');
+            expect(primaries.get('apple-library')).toBe('spotify-liked');
+        });
+
+        it('should link a purchase, its receipt and the visit by name or coordinates', () => {
+            const primaries = resolveClusters([
+                item('plaid-txn', {
+                    transactionDate: '2026-10-01T00:00:00.000Z',
+                    transactionName: 'OLIVE GARDEN 1234',
+                    merchantName: 'Olive Garden',
+                    amount: 42.5,
+                    currency: 'USD',
+                    location: { coordinates: { lat: 40.7580, lon: -73.9855 } },
+                    external: { provider: 'plaid', id: 'tx1' },
+                }),
+                item('gmail-receipt', { emailDate: '2026-10-01T21:10:00.000Z', restaurantName: 'Olive Garden', amount: 42.5, external: { provider: 'gmail', id: 'm1' } }),
+                item('visit', { name: 'Times Square Restaurant', latitude: 40.7585, longitude: -73.9850, visitedAt: '2026-10-01T19:30:00.000Z', external: { provider: 'location_services', id: 'v1' } }),
+                // Same merchant, different amount: another meal
+                item('gmail-other', { emailDate: '2026-10-01T12:00:00.000Z', restaurantName: 'Olive Garden', amount: 18, external: { provider: 'gmail', id: 'm2' } }),
+            ]);
+
+            expect(primaries.get('plaid-txn')).toBeNull();
+            expect(primaries.get('gmail-receipt')).toBe('plaid-txn');
+            expect(primaries.get('visit')).toBe('plaid-txn');
+            expect(primaries.get('gmail-other')).toBeNull();
+        });
+
+        it('should pick a primary per user list so a duplicate is never hidden behind an item of another list', () => {
+            const primaries = resolveClusters([healthRun, { ...stravaRun, userListId: 'running-list' }]);
+
+            expect(primaries.get('strava-run')).toBeNull();
+            expect(primaries.get('health-run')).toBeNull();
+        });
+
+        it('should not treat investment trades as purchases', () => {
+            const primaries = resolveClusters([
+                item('plaid-trade', {
+                    transactionDate: '2026-10-01',
+                    transactionName: 'Apple',
+                    amount: 1500,
+                    external: { provider: 'plaid', id: 'it1', type: 'investment_transaction' },
+                }),
+                item('gmail-receipt', { emailDate: '2026-10-01T09:00:00.000Z', companyName: 'Apple', external: { provider: 'gmail', id: 'm3' } }),
+            ]);
+
+            expect([...primaries.values()]).toEqual([null, null]);
+        });
+
+        it('should keep the existing primary of a cluster', () => {
+            const primaries = resolveClusters([
+                { ...stravaRun, primaryItemId: 'health-run' },
+                healthRun,
+                item('old-member', { external: { provider: 'apple_health', id: 'x' } }, { primaryItemId: 'health-run' }),
+            ]);
+
+            expect(primaries.get('strava-run')).toBe('health-run');
+            expect(primaries.get('health-run')).toBeNull();
+            // No longer matches anything, so it leaves the cluster
+            expect(primaries.get('old-member')).toBeNull();
+        });
+    });
+
+    describe('ItemClusterService', () => {
+        let service: ItemClusterService;
+        let emitSync: (summary: SyncRunSummary) => void;
+        let mockPrisma: any;
+
+        const summary = (overrides: Partial<SyncRunSummary> = {}): SyncRunSummary => ({
+            provider: IntegrationProviderName.STRAVA,
+            userId: 'user-1',
+            status: ActionStatus.SUCCESS,
+            durationMs: 100,
+            items: { created: 1, updated: 0, skipped: 0 },
+            errorClass: null,
+            ...overrides,
+        });
+
+        beforeEach(() => {
+            mockPrisma = {
+                listItems: {
+                    findMany: jest.fn().mockResolvedValue([
+                        stravaRun,
+                        healthRun,
+                        item('unrelated', { note: 'x' }, { primaryItemId: 'gone' }),
+                    ]),
+                    updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+                },
+            };
+            const integrations = { onSync: jest.fn(listener => { emitSync = listener; return jest.fn(); }) };
+            const configService = { get: jest.fn().mockReturnValue(undefined) };
+
+            service = new ItemClusterService(integrations as any, mockPrisma, configService as any);
+            service.onModuleInit();
+            jest.spyOn(Logger.prototype, 'log').mockImplementation();
+        });
+
+        it("should update the primaryItemId of items whose cluster changed within the user's recent items", async () => {
+            await expect(service.resolveForUser('user-1')).resolves.toEqual({ compared: 3, changed: 2 });
+
+            expect(mockPrisma.listItems.findMany).toHaveBeenCalledWith(expect.objectContaining({
+                where: expect.objectContaining({ userList: { userId: 'user-1' }, createdOn: { gte: expect.any(Date) } }),
+            }));
+            expect(mockPrisma.listItems.updateMany).toHaveBeenCalledWith({ where: { listItemId: { in: ['health-run'] } }, data: { primaryItemId: 'strava-run' } });
+            expect(mockPrisma.listItems.updateMany).toHaveBeenCalledWith({ where: { listItemId: { in: ['unrelated'] } }, data: { primaryItemId: null } });
+        });
+
+        it('should run after successful syncs that wrote items', () => {
+            const resolve = jest.spyOn(service, 'resolveForUser').mockResolvedValue({ compared: 0, changed: 0 });
+
+            emitSync(summary({ status: ActionStatus.FAILED }));
+            emitSync(summary({ items: { created: 0, updated: 0, skipped: 4 } }));
+            emitSync(summary({ items: { created: 0, updated: 2, skipped: 0 } }));
+
+            expect(resolve).toHaveBeenCalledTimes(1);
+            expect(resolve).toHaveBeenCalledWith('user-1');
+        });
+    });
+});
@@ -0,0 +1,303 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '@traeta/prisma';
+import { IntegrationsService } from './integrations.service';
+import { ACTIVE_CONDITION, ActionStatus } from '../../constants';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// How far apart two providers' records of the same event may be
+export const MATCH_WINDOWS_MS = {
+    // Start and end of a workout recorded by two devices
+    workout: 10 * MINUTE_MS,
+    // A play scrobbled by two music services
+    play: 10 * MINUTE_MS,
+    // Plaid only has the posting date; receipts and visits carry a time
+    place: 36 * HOUR_MS,
+};
+
+// Coordinates closer than this are the same place
+const SAME_PLACE_METERS = 200;
+const EARTH_RADIUS_METERS = 6371000;
+
+export type ClusterCandidate = {
+    listItemId: string;
+    userListId: string | null;
+    attributes: unknown;
+    createdOn: Date;
+    primaryItemId: string | null;
+};
+
+type ItemSignature = {
+    item: ClusterCandidate;
+    provider: string;
+    kind: 'workout' | 'play' | 'track' | 'place';
+    start?: number;
+    end?: number;
+    name?: string;
+    artist?: string;
+    isrc?: string;
+    amount?: number;
+    coordinates?: { lat: number; lon: number };
+};
+
+type CandidatePair = { a: ItemSignature; b: ItemSignature; distance: number };
+
+export function normalize(value: unknown): string | undefined {
+    if (typeof value !== 'string') return undefined;
+    const normalized = value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+    return normalized || undefined;
+}
+
+export function timeOf(value: unknown): number | undefined {
+    if (typeof value !== 'string') return undefined;
+    const time = new Date(value).getTime();
+    return Number.isNaN(time) ? undefined : time;
+}
+
+export function numberOf(value: unknown): number | undefined {
+    const number = typeof value === 'string' ? Number(value) : value;
+    return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * What an item says about the real-world event behind it, read from the attributes the providers
+ * write: workouts (Strava, Apple Health), song plays and saved tracks (Spotify, Apple Music) and
+ * places paid for or visited (Plaid, email receipts, location visits). Null for anything else.
+ */
+function signatureOf(item: ClusterCandidate): ItemSignature | null {
+    const attributes = (item.attributes ?? {}) as Record<string, any>;
+    const provider = attributes.external?.provider;
+    if (typeof provider !== 'string') return null;
+
+    const start = timeOf(attributes.startTime);
+    const end = timeOf(attributes.endTime);
+    if (start !== undefined && end !== undefined && attributes.durationMinutes !== undefined && attributes.external.type !== 'sleep') {
+        return { item, provider, kind: 'workout', start, end };
+    }
+
+    const trackName = normalize(attributes.trackName);
+    if (trackName) {
+        const signature = {
+            item,
+            provider,
+            name: trackName,
+            // "A, B" on Spotify is "A & B" on Apple Music; the lead artist is enough
+            artist: normalize(String(attributes.artistName ?? '').split(/,|&/)[0]),
+            isrc: normalize(attributes.isrc),
+        };
+        const playedAt = timeOf(attributes.playedAt);
+        return playedAt !== undefined ? { ...signature, kind: 'play', start: playedAt } : { ...signature, kind: 'track' };
+    }
+
+    // Trades in an investment account are not purchases, even though they share the transaction fields
+    if (attributes.external.type === 'investment_transaction') return null;
+
+    const placeTime = timeOf(attributes.transactionDate) ?? timeOf(attributes.visitedAt) ?? timeOf(attributes.emailDate);
+    const name = normalize(attributes.merchantName) ?? normalize(attributes.transactionName) ?? normalize(attributes.restaurantName)
+        ?? normalize(attributes.placeName) ?? normalize(attributes.companyName) ?? normalize(attributes.name);
+    const coordinates = attributes.location?.coordinates ?? (attributes.latitude !== undefined
+        ? { lat: attributes.latitude, lon: attributes.longitude }
+        : undefined);
+    const lat = numberOf(coordinates?.lat);
+    const lon = numberOf(coordinates?.lon);
+    if (placeTime !== undefined && (name || (lat !== undefined && lon !== undefined))) {
+        return {
+            item,
+            provider,
+            kind: 'place',
+            start: placeTime,
+            name,
+            amount: numberOf(attributes.amount),
+            coordinates: lat !== undefined && lon !== undefined ? { lat, lon } : undefined,
+        };
+    }
+    return null;
+}
+
+function metersBetween(a: { lat: number; lon: number }, b: { lat: number; lon: number }): number {
+    const toRadians = (degrees: number) => degrees * Math.PI / 180;
+    const dLat = toRadians(b.lat - a.lat);
+    const dLon = toRadians(b.lon - a.lon);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
+
+// "starbucks" names the same merchant as "starbucks store 1234 seattle"
+export function sameName(a?: string, b?: string): boolean {
+    if (!a || !b) return false;
+    return ` ${a} `.includes(` ${b} `) || ` ${b} `.includes(` ${a} `);
+}
+
+function sameTrack(a: ItemSignature, b: ItemSignature): boolean {
+    if (a.isrc && b.isrc) return a.isrc === b.isrc;
+    return a.name === b.name && !!a.artist && a.artist === b.artist;
+}
+
+/**
+ * Whether two items from different providers describe the same event. Returns how far apart
+ * they are in time (closer pairs are linked first), or null when they do not match.
+ */
+function matchDistance(a: ItemSignature, b: ItemSignature): number | null {
+    if (a.provider === b.provider || a.kind !== b.kind) return null;
+    const apart = Math.abs((a.start ?? 0) - (b.start ?? 0));
+
+    switch (a.kind) {
+        case 'workout':
+            return apart <= MATCH_WINDOWS_MS.workout && Math.abs(a.end - b.end) <= MATCH_WINDOWS_MS.workout ? apart : null;
+        case 'play':
+            return apart <= MATCH_WINDOWS_MS.play && sameTrack(a, b) ? apart : null;
+        case 'track':
+            return sameTrack(a, b) ? 0 : null;
+        case 'place': {
+            if (apart > MATCH_WINDOWS_MS.place) return null;
+            // Different amounts are different purchases, however similar the names
+            if (a.amount !== undefined && b.amount !== undefined && Math.abs(a.amount - b.amount) > 0.01) return null;
+            const nearby = !!a.coordinates && !!b.coordinates && metersBetween(a.coordinates, b.coordinates) <= SAME_PLACE_METERS;
+            return sameName(a.name, b.name) || nearby ? apart : null;
+        }
+    }
+}
+
+function candidatePairs(signatures: ItemSignature[]): CandidatePair[] {
+    const pairs: CandidatePair[] = [];
+    const timed = signatures.filter(signature => signature.kind !== 'track').sort((a, b) => a.start - b.start);
+    for (let i = 0; i < timed.length; i++) {
+        const window = MATCH_WINDOWS_MS[timed[i].kind as keyof typeof MATCH_WINDOWS_MS];
+        for (let j = i + 1; j < timed.length && timed[j].start - timed[i].start <= window; j++) {
+            const distance = matchDistance(timed[i], timed[j]);
+            if (distance !== null) pairs.push({ a: timed[i], b: timed[j], distance });
+        }
+    }
+
+    // Saved tracks have no time; only compare tracks with the same name
+    const tracksByName = new Map<string, ItemSignature[]>();
+    for (const signature of signatures.filter(signature => signature.kind === 'track')) {
+        tracksByName.set(signature.name, [...(tracksByName.get(signature.name) ?? []), signature]);
+    }
+    for (const tracks of tracksByName.values()) {
+        for (let i = 0; i < tracks.length; i++) {
+            for (let j = i + 1; j < tracks.length; j++) {
+                const distance = matchDistance(tracks[i], tracks[j]);
+                if (distance !== null) pairs.push({ a: tracks[i], b: tracks[j], distance });
+            }
+        }
+    }
+    return pairs.sort((a, b) => a.distance - b.distance);
+}
+
+// Non-empty attributes besides `external`; the fullest record of the event becomes the primary
+function richness(item: ClusterCandidate): number {
+    return Object.entries((item.attributes ?? {}) as Record<string, unknown>)
+        .filter(([key, value]) => key !== 'external' && value !== null && value !== undefined && value !== '')
+        .length;
+}
+
+function choosePrimary(members: ClusterCandidate[]): ClusterCandidate {
+    // Keep the current primary so clusters are stable across passes
+    const current = members.find(member => !member.primaryItemId && members.some(other => other.primaryItemId === member.listItemId));
+    if (current) return current;
+    return [...members].sort((a, b) => richness(b) - richness(a)
+        || a.createdOn.getTime() - b.createdOn.getTime()
+        || a.listItemId.localeCompare(b.listItemId))[0];
+}
+
+/**
+ * Link items from different providers that record the same real-world event into clusters and pick
+ * each cluster's primary item. Closest matches are linked first and a cluster holds at most one item
+ * per provider, so a daily coffee never chains a week of purchases together.
+ *
+ * Returns the primaryItemId every candidate should have: the primary's id for duplicates, null for
+ * primaries and unclustered items. Collapsing hides duplicates within a list, so a cluster spanning
+ * several user lists gets a primary per list.
+ */
+export function resolveClusters(items: ClusterCandidate[]): Map<string, string | null> {
+    const signatures = items.map(signatureOf).filter((signature): signature is ItemSignature => signature !== null);
+    const clusters = new Map<string, ItemSignature[]>(signatures.map(signature => [signature.item.listItemId, [signature]]));
+
+    for (const { a, b } of candidatePairs(signatures)) {
+        const first = clusters.get(a.item.listItemId);
+        const second = clusters.get(b.item.listItemId);
+        if (first === second) continue;
+        if (first.some(member => second.some(other => other.provider === member.provider))) continue;
+
+        first.push(...second);
+        for (const member of second) clusters.set(member.item.listItemId, first);
+    }
+
+    const primaries = new Map<string, string | null>(items.map(item => [item.listItemId, null]));
+    for (const cluster of new Set(clusters.values())) {
+        const byList = new Map<string | null, ClusterCandidate[]>();
+        for (const { item } of cluster) byList.set(item.userListId, [...(byList.get(item.userListId) ?? []), item]);
+
+        for (const members of byList.values()) {
+            if (members.length < 2) continue;
+            const primary = choosePrimary(members);
+            for (const member of members) {
+                if (member !== primary) primaries.set(member.listItemId, primary.listItemId);
+            }
+        }
+    }
+    return primaries;
+}
+
+/**
+ * Entity resolution pass run after every sync that wrote items: links a user's recent items that
+ * different providers recorded for the same workout, song or purchase by setting primaryItemId on the
+ * duplicates. Only items created in the last ENTITY_RESOLUTION_WINDOW_DAYS are compared.
+ */
+@Injectable()
+export class ItemClusterService implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(ItemClusterService.name);
+    private unsubscribe?: () => void;
+
+    constructor(
+        private readonly integrations: IntegrationsService,
+        private readonly prisma: PrismaService,
+        private readonly configService: ConfigService,
+    ) { }
+
+    onModuleInit() {
+        this.unsubscribe = this.integrations.onSync(summary => {
+            if (summary.status !== ActionStatus.SUCCESS || summary.items.created + summary.items.updated === 0) return;
+            this.resolveForUser(summary.userId).catch(error => {
+                this.logger.warn(`Duplicate detection failed for userId ${summary.userId}: ${error.message}`);
+            });
+        });
+    }
+
+    onModuleDestroy() {
+        this.unsubscribe?.();
+    }
+
+    async resolveForUser(userId: string): Promise<{ compared: number; changed: number }> {
+        const windowDays = Number(this.configService.get<string>('ENTITY_RESOLUTION_WINDOW_DAYS')) || 30;
+        const items = await this.prisma.listItems.findMany({
+            where: {
+                userList: { userId },
+                createdOn: { gte: new Date(Date.now() - windowDays * DAY_MS) },
+                ...ACTIVE_CONDITION,
+            },
+            select: { listItemId: true, userListId: true, attributes: true, createdOn: true, primaryItemId: true },
+        });
+
+        const changes = new Map<string | null, string[]>();
+        const primaries = resolveClusters(items);
+        for (const item of items) {
+            const primaryItemId = primaries.get(item.listItemId) ?? null;
+            if (primaryItemId !== item.primaryItemId) {
+                changes.set(primaryItemId, [...(changes.get(primaryItemId) ?? []), item.listItemId]);
+            }
+        }
+
+        let changed = 0;
+        for (const [primaryItemId, listItemIds] of changes) {
+            await this.prisma.listItems.updateMany({ where: { listItemId: { in: listItemIds } }, data: { primaryItemId } });
+            changed += listItemIds.length;
+        }
+        if (changed > 0) this.logger.log(`Updated duplicate clusters for userId ${userId}: ${changed} items changed`);
+        return { compared: items.length, changed };
+    }
+}
@@ -0,0 +1,151 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '@traeta/prisma';
+import * as crypto from 'crypto';
+import { OAuthStateService } from './oauth-state';
+import { IntegrationProviderName } from './types';
+import { ConfigurationException, InvalidCallbackException } from './exceptions';
+
+describe('OAuthStateService', () => {
+    let service: OAuthStateService;
+    let mockPrismaService: any;
+    let config: Record<string, string | undefined>;
+    let rows: Map<string, any>;
+
+    beforeEach(async () => {
+        config = { OAUTH_STATE_SECRET: 'test-state-secret' };
+        rows = new Map();
+
+        // Just enough of the OAuthStates table to exercise single use
+        mockPrismaService = {
+            oAuthStates: {
+                deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+                create: jest.fn(async ({ data }) => {
+                    const row = { oauthStateId: `nonce-${rows.size + 1}`, consumedAt: null, ...data };
+                    rows.set(row.oauthStateId, row);
+                    return row;
+                }),
+                updateMany: jest.fn(async ({ where, data }) => {
+                    const row = rows.get(where.oauthStateId);
+                    if (!row || row.consumedAt || row.provider !== where.provider || row.expiresAt <= where.expiresAt.gt) {
+                        return { count: 0 };
+                    }
+                    Object.assign(row, data);
+                    return { count: 1 };
+                }),
+                findFirst: jest.fn(async ({ where }) => rows.get(where.oauthStateId) ?? null),
+            },
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                OAuthStateService,
+                { provide: PrismaService, useValue: mockPrismaService },
+                { provide: ConfigService, useValue: { get: jest.fn((key: string) => config[key]) } },
+            ],
+        }).compile();
+
+        service = module.get<OAuthStateService>(OAuthStateService);
+
+        jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+    });
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('issue', () => {
+        it('should issue a signed state without PKCE by default', async () => {
+            const issued = await service.issue(IntegrationProviderName.STRAVA, 'user-1');
+
+            expect(issued.state).toMatch(/^[\w-]+\.[\w-]+$/);
+            expect(issued.pkceParams).toBeUndefined();
+            expect(mockPrismaService.oAuthStates.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({ userId: 'user-1', provider: 'strava', codeVerifier: null }),
+            });
+        });
+
+        it('should return an S256 challenge for the stored verifier', async () => {
+            const issued = await service.issue(IntegrationProviderName.SPOTIFY, 'user-1', { pkce: true });
+
+            const { codeVerifier } = mockPrismaService.oAuthStates.create.mock.calls[0][0].data;
+            expect(issued.pkceParams).toEqual({
+                code_challenge: crypto.createHash('sha256').update(codeVerifier).digest('base64url'),
+                code_challenge_method: 'S256',
+            });
+        });
+
+        it('should require OAUTH_STATE_SECRET', async () => {
+            config.OAUTH_STATE_SECRET = undefined;
+
+            await expect(service.issue(IntegrationProviderName.STRAVA, 'user-1')).rejects.toThrow(ConfigurationException);
+        });
+    });
+
+    describe('consume', () => {
+        it('should return the userId and PKCE verifier', async () => {
+            const { state } = await service.issue(IntegrationProviderName.EMAIL_SCRAPER, 'user-with-hyphens-1', { pkce: true });
+
+            const consumed = await service.consume(IntegrationProviderName.EMAIL_SCRAPER, state);
+
+            const { codeVerifier } = mockPrismaService.oAuthStates.create.mock.calls[0][0].data;
+            expect(consumed).toEqual({ userId: 'user-with-hyphens-1', pkceParams: { code_verifier: codeVerifier } });
+        });
+
+        it('should accept a state only once', async () => {
+            const { state } = await service.issue(IntegrationProviderName.STRAVA, 'user-1');
+
+            await service.consume(IntegrationProviderName.STRAVA, state);
+
+            await expect(service.consume(IntegrationProviderName.STRAVA, state)).rejects.toThrow(
+                'State has already been used or has expired',
+            );
+        });
+
+        it('should reject a tampered state', async () => {
+            const { state } = await service.issue(IntegrationProviderName.STRAVA, 'user-1');
+            const [, signature] = state.split('.');
+            const forged = Buffer.from(JSON.stringify({ p: 'strava', u: 'user-2', n: 'nonce-1', e: 9999999999 })).toString('base64url');
+
+            await expect(service.consume(IntegrationProviderName.STRAVA, `${forged}.${signature}`)).rejects.toThrow(
+                'Invalid state signature',
+            );
+        });
+
+        it('should reject the legacy prefix format', async () => {
+            await expect(service.consume(IntegrationProviderName.STRAVA, `strava-user-1-${Date.now()}`)).rejects.toThrow(
+                InvalidCallbackException,
+            );
+        });
+
+        it('should reject a state issued for another provider', async () => {
+            const { state } = await service.issue(IntegrationProviderName.STRAVA, 'user-1');
+
+            await expect(service.consume(IntegrationProviderName.SPOTIFY, state)).rejects.toThrow(
+                'State was issued for a different provider',
+            );
+        });
+
+        it('should reject an expired state', async () => {
+            config.OAUTH_STATE_TTL_SECONDS = '1';
+            const { state } = await service.issue(IntegrationProviderName.STRAVA, 'user-1');
+            const now = jest.spyOn(Date, 'now').mockReturnValue(new Date().getTime() + 5000);
+
+            await expect(service.consume(IntegrationProviderName.STRAVA, state)).rejects.toThrow('State has expired');
+
+            now.mockRestore();
+        });
+    });
+
+    describe('verify', () => {
+        it('should read the userId without consuming the state', async () => {
+            const { state } = await service.issue(IntegrationProviderName.PLAID, 'user-1');
+
+            expect(service.verify(IntegrationProviderName.PLAID, state)).toBe('user-1');
+            await expect(service.consume(IntegrationProviderName.PLAID, state)).resolves.toEqual(
+                expect.objectContaining({ userId: 'user-1' }),
+            );
+        });
+    });
+});
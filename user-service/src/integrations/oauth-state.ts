@@ -0,0 +1,209 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '@traeta/prisma';
+import * as crypto from 'crypto';
+import { ACTIVE_CONDITION, REC_SEQ } from '../../constants';
+import { IntegrationProviderName } from './types';
+import { ConfigurationException, InvalidCallbackException } from './exceptions';
+import { getConnectionId } from './connection-scope';
+
+const DEFAULT_STATE_TTL_SECONDS = 600;
+
+type StatePayload = {
+    p: string; // provider
+    u: string; // userId
+    n: string; // nonce (OAuthStates row id)
+    e: number; // expiry, epoch seconds
+    c?: string; // connection (UserIntegrations row) being authorized
+};
+
+// PKCE values are keyed by their OAuth parameter names so they can be spread into request params
+export type IssuedState = {
+    state: string;
+    // Set when PKCE was requested; add to the authorization URL
+    pkceParams?: { code_challenge: string; code_challenge_method: 'S256' };
+};
+
+export type ConsumedState = {
+    userId: string;
+    connectionId?: string;
+    // Set when PKCE was requested; add to the token exchange
+    pkceParams?: { code_verifier: string };
+};
+
+/**
+ * Issues and verifies the `state` parameter for connect flows.
+ *
+ * A state is `<payload>.<signature>`: a base64url JSON payload (provider, userId, nonce, expiry and
+ * the connection from runInConnection, if any) signed with HMAC-SHA256. The nonce is stored in OAuthStates so each state is accepted once,
+ * and the PKCE code verifier, when used, never leaves the server.
+ */
+@Injectable()
+export class OAuthStateService {
+    private readonly logger = new Logger(OAuthStateService.name);
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly configService: ConfigService,
+    ) { }
+
+    /**
+     * Create a state for a user's connect attempt. With `pkce`, also returns the S256 code challenge.
+     */
+    async issue(provider: IntegrationProviderName, userId: string, options: { pkce?: boolean } = {}): Promise<IssuedState> {
+        const secret = this.getSecret(provider);
+        const now = new Date();
+        const expiresAt = new Date(now.getTime() + this.getTtlSeconds() * 1000);
+        const codeVerifier = options.pkce ? crypto.randomBytes(32).toString('base64url') : null;
+
+        // Housekeeping: drop this user's expired states before adding a new one
+        await this.prisma.oAuthStates.deleteMany({
+            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, expiresAt: { lt: now } },
+        });
+
+        const row = await this.prisma.oAuthStates.create({
+            data: {
+                userId,
+                userRecSeq: REC_SEQ.DEFAULT_RECORD,
+                provider,
+                codeVerifier,
+                expiresAt,
+                ...ACTIVE_CONDITION,
+            },
+        });
+
+        const payload: StatePayload = {
+            p: provider,
+            u: userId,
+            n: row.oauthStateId,
+            e: Math.floor(expiresAt.getTime() / 1000),
+            ...(getConnectionId() ? { c: getConnectionId() } : {}),
+        };
+        const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+        const state = `${encoded}.${this.sign(encoded, secret)}`;
+
+        if (!codeVerifier) {
+            return { state };
+        }
+
+        return {
+            state,
+            pkceParams: {
+                code_challenge: crypto.createHash('sha256').update(codeVerifier).digest('base64url'),
+                code_challenge_method: 'S256',
+            },
+        };
+    }
+
+    /**
+     * Check the signature, provider and expiry of a state without consuming it.
+     * Returns the userId it was issued for.
+     */
+    verify(provider: IntegrationProviderName, state: unknown): string {
+        return this.decode(provider, state).u;
+    }
+
+    /**
+     * Connection a state was issued for, so the callback can run in it. Undefined for states
+     * issued outside a connection and for invalid states, which consume() rejects.
+     */
+    connectionOf(provider: IntegrationProviderName, state: unknown): string | undefined {
+        try {
+            return this.decode(provider, state).c;
+        } catch {
+            return undefined;
+        }
+    }
+
+    /**
+     * Verify a state and mark it used. A state can be consumed once; replays,
+     * expired states and states issued for another provider are rejected.
+     */
+    async consume(provider: IntegrationProviderName, state: unknown): Promise<ConsumedState> {
+        const payload = this.decode(provider, state);
+        const now = new Date();
+
+        // Step 1: Atomically claim the nonce so concurrent callbacks cannot both succeed
+        const claimed = await this.prisma.oAuthStates.updateMany({
+            where: {
+                oauthStateId: payload.n,
+                userId: payload.u,
+                provider,
+                consumedAt: null,
+                expiresAt: { gt: now },
+                ...ACTIVE_CONDITION,
+            },
+            data: { consumedAt: now },
+        });
+
+        if (claimed.count !== 1) {
+            this.logger.warn(`Rejected reused or unknown state for ${provider}, userId: ${payload.u}`);
+            throw new InvalidCallbackException(provider, 'State has already been used or has expired');
+        }
+
+        // Step 2: Load the PKCE verifier, if this flow used one
+        const row = await this.prisma.oAuthStates.findFirst({
+            where: { oauthStateId: payload.n, recSeq: REC_SEQ.DEFAULT_RECORD },
+            select: { codeVerifier: true },
+        });
+
+        return {
+            userId: payload.u,
+            connectionId: payload.c,
+            pkceParams: row?.codeVerifier ? { code_verifier: row.codeVerifier } : undefined,
+        };
+    }
+
+    private decode(provider: IntegrationProviderName, state: unknown): StatePayload {
+        if (typeof state !== 'string' || !state) {
+            throw new InvalidCallbackException(provider, 'Missing state parameter');
+        }
+
+        const [encoded, signature, ...rest] = state.split('.');
+        if (!encoded || !signature || rest.length > 0) {
+            throw new InvalidCallbackException(provider, 'Invalid state format');
+        }
+
+        const expected = Buffer.from(this.sign(encoded, this.getSecret(provider)));
+        const actual = Buffer.from(signature);
+        if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+            throw new InvalidCallbackException(provider, 'Invalid state signature');
+        }
+
+        let payload: StatePayload;
+        try {
+            payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+        } catch {
+            throw new InvalidCallbackException(provider, 'Invalid state format');
+        }
+
+        if (payload.p !== provider) {
+            throw new InvalidCallbackException(provider, 'State was issued for a different provider');
+        }
+        if (!payload.u || !payload.n) {
+            throw new InvalidCallbackException(provider, 'Invalid state format: unable to extract userId');
+        }
+        if (!payload.e || payload.e * 1000 <= Date.now()) {
+            throw new InvalidCallbackException(provider, 'State has expired');
+        }
+
+        return payload;
+    }
+
+    private sign(encoded: string, secret: string): string {
+        return crypto.createHmac('sha256', secret).update(encoded).digest('base64url');
+    }
+
+    private getSecret(provider: IntegrationProviderName): string {
+        const secret = this.configService.get<string>('OAUTH_STATE_SECRET');
+        if (!secret) {
+            throw new ConfigurationException(provider, 'OAUTH_STATE_SECRET');
+        }
+        return secret;
+    }
+
+    private getTtlSeconds(): number {
+        const ttl = Number(this.configService.get('OAUTH_STATE_TTL_SECONDS'));
+        return Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_STATE_TTL_SECONDS;
+    }
+}
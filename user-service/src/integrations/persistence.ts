@@ -1,6 +1,10 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '@traeta/prisma';
-import { ACTIVE_CONDITION, REC_SEQ, STATUS } from '../../constants';
+import { ACTIVE_CONDITION, DATA_STATUS, REC_SEQ, REC_STATUS, STATUS, STATUS_DETAIL } from '../../constants';
+import { recordItemOutcome } from './sync-run-recorder';
+import { connectionWhere, getConnectionId } from './connection-scope';
+import { mergeProviderUpdate, providerFieldSources } from './field-provenance';
+import { syncListTarget } from './sync-settings';
 
 @Injectable()
 export class IntegrationPersistence {
@@ -13,13 +17,32 @@ export class IntegrationPersistence {
         return this.prisma.integrations.create({ data: { name, ...ACTIVE_CONDITION } });
     }
 
-    // Ensure UserIntegrations link
-    async ensureUserIntegration(userId: string, integrationId: string) {
-        const link = await this.prisma.userIntegrations.findFirst({
+    // The current connection's link (see runInConnection), or the user's oldest link for the integration
+    async findUserIntegration(userId: string, integrationId: string) {
+        return this.prisma.userIntegrations.findFirst({
+            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...connectionWhere(), ...ACTIVE_CONDITION },
+            orderBy: { createdOn: 'asc' },
+        });
+    }
+
+    // Every connection a user has for an integration, oldest first
+    async findUserIntegrations(userId: string, integrationId: string) {
+        return this.prisma.userIntegrations.findMany({
             where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...ACTIVE_CONDITION },
+            include: { history: { where: { userIntegrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...ACTIVE_CONDITION } } },
+            orderBy: { createdOn: 'asc' },
         });
+    }
+
+    // Ensure UserIntegrations link
+    async ensureUserIntegration(userId: string, integrationId: string) {
+        const link = await this.findUserIntegration(userId, integrationId);
         if (link) return link;
+        return this.createUserIntegration(userId, integrationId);
+    }
 
+    // Add a connection; users may link several accounts of the same provider
+    async createUserIntegration(userId: string, integrationId: string, label?: string) {
         return this.prisma.$transaction(async (tx) => {
             const created = await tx.userIntegrations.create({
                 data: {
@@ -28,6 +51,7 @@ export class IntegrationPersistence {
                     integrationId,
                     integrationRecSeq: REC_SEQ.DEFAULT_RECORD,
                     status: STATUS.PENDING,
+                    label: label ?? null,
                     ...ACTIVE_CONDITION
                 },
             });
@@ -43,11 +67,18 @@ export class IntegrationPersistence {
         });
     }
 
+    async setUserIntegrationLabel(linkId: string, label: string) {
+        await this.prisma.userIntegrations.update({
+            where: { userIntegrationId_recSeq: { userIntegrationId: linkId, recSeq: REC_SEQ.DEFAULT_RECORD }, ...ACTIVE_CONDITION },
+            data: { label },
+        });
+    }
+
     async markConnected(userId: string, integrationId: string) {
         const link = await this.ensureUserIntegration(userId, integrationId);
         await this.prisma.userIntegrations.update({
             where: { userIntegrationId_recSeq: { userIntegrationId: link.userIntegrationId, recSeq: REC_SEQ.DEFAULT_RECORD }, ...ACTIVE_CONDITION },
-            data: { status: STATUS.CONNECTED, ...ACTIVE_CONDITION },
+            data: { status: STATUS.CONNECTED, statusDetail: null, ...ACTIVE_CONDITION },
         });
         await this.prisma.userIntegrationHistory.updateMany({
             where: {
@@ -80,9 +111,7 @@ export class IntegrationPersistence {
         // First, get the integration by name to get the actual integrationId
         const integration = await this.ensureIntegration(integrationName);
 
-        const link = await this.prisma.userIntegrations.findFirst({
-            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...ACTIVE_CONDITION },
-        });
+        const link = await this.findUserIntegration(userId, integration.integrationId);
 
         if (link) {
             await this.prisma.userIntegrations.update({
@@ -94,10 +123,129 @@ export class IntegrationPersistence {
         return link;
     }
 
-    async getLastSyncedAt(userId: string, integrationId: string) {
-        const link = await this.prisma.userIntegrations.findFirst({
-            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...ACTIVE_CONDITION },
+    // Only a CONNECTED link is moved; a link the user already disconnected stays as it is
+    async markReauthRequired(userId: string, integrationName: string) {
+        const integration = await this.ensureIntegration(integrationName);
+
+        const { count } = await this.prisma.userIntegrations.updateMany({
+            where: {
+                userId,
+                userRecSeq: REC_SEQ.DEFAULT_RECORD,
+                integrationId: integration.integrationId,
+                integrationRecSeq: REC_SEQ.DEFAULT_RECORD,
+                status: STATUS.CONNECTED,
+                ...connectionWhere(),
+                ...ACTIVE_CONDITION,
+            },
+            data: { status: STATUS.REAUTH_REQUIRED },
+        });
+
+        return count > 0;
+    }
+
+    // Flag a CONNECTED link whose access ends soon; it keeps syncing until the user re-authorizes or it breaks
+    async markExpiring(userId: string, integrationName: string) {
+        const integration = await this.ensureIntegration(integrationName);
+
+        const { count } = await this.prisma.userIntegrations.updateMany({
+            where: {
+                userId,
+                userRecSeq: REC_SEQ.DEFAULT_RECORD,
+                integrationId: integration.integrationId,
+                integrationRecSeq: REC_SEQ.DEFAULT_RECORD,
+                status: STATUS.CONNECTED,
+                ...connectionWhere(),
+                ...ACTIVE_CONDITION,
+            },
+            data: { statusDetail: STATUS_DETAIL.EXPIRING },
+        });
+
+        return count > 0;
+    }
+
+    // Resume syncing a link the user re-authorized; links in any other status stay as they are
+    async markReauthResolved(userId: string, integrationName: string) {
+        const integration = await this.ensureIntegration(integrationName);
+
+        const { count } = await this.prisma.userIntegrations.updateMany({
+            where: {
+                userId,
+                userRecSeq: REC_SEQ.DEFAULT_RECORD,
+                integrationId: integration.integrationId,
+                integrationRecSeq: REC_SEQ.DEFAULT_RECORD,
+                status: STATUS.REAUTH_REQUIRED,
+                ...connectionWhere(),
+                ...ACTIVE_CONDITION,
+            },
+            data: { status: STATUS.CONNECTED, statusDetail: null },
+        });
+
+        return count > 0;
+    }
+
+    /**
+     * Soft-delete (purge) or hide (archive) the items a connection imported; returns how many changed.
+     * Items without a connection, imported before connections existed, match on attributes.external.provider.
+     * Archived items are claimed by the connection so restoreArchivedItems can bring them back.
+     */
+    async removeConnectionItems(userId: string, linkId: string, externalProviders: string[], mode: 'purge' | 'archive') {
+        const { count } = await this.prisma.listItems.updateMany({
+            where: {
+                userList: { userId },
+                OR: [
+                    { userIntegrationId: linkId },
+                    ...externalProviders.map(provider => ({
+                        userIntegrationId: null,
+                        attributes: { path: ['external', 'provider'], equals: provider },
+                    })),
+                ],
+                ...ACTIVE_CONDITION,
+            },
+            data: mode === 'purge'
+                ? { recStatus: REC_STATUS.INACTIVE }
+                : { dataStatus: DATA_STATUS.INACTIVE, userIntegrationId: linkId, userIntegrationRecSeq: REC_SEQ.DEFAULT_RECORD },
+        });
+        return count;
+    }
+
+    // Fold a connection that re-linked an already linked provider account into the existing connection
+    async mergeUserIntegration(fromLinkId: string, intoLinkId: string) {
+        await this.prisma.$transaction([
+            this.prisma.listItems.updateMany({
+                where: { userIntegrationId: fromLinkId, recSeq: REC_SEQ.DEFAULT_RECORD },
+                data: { userIntegrationId: intoLinkId, userIntegrationRecSeq: REC_SEQ.DEFAULT_RECORD },
+            }),
+            this.prisma.userIntegrations.update({
+                where: { userIntegrationId_recSeq: { userIntegrationId: intoLinkId, recSeq: REC_SEQ.DEFAULT_RECORD }, ...ACTIVE_CONDITION },
+                data: { status: STATUS.CONNECTED, statusDetail: null },
+            }),
+            this.prisma.userIntegrationHistory.updateMany({
+                where: { userIntegrationId: intoLinkId, userIntegrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...ACTIVE_CONDITION },
+                data: { lastConnectedAt: new Date() },
+            }),
+            this.prisma.userIntegrations.update({
+                where: { userIntegrationId_recSeq: { userIntegrationId: fromLinkId, recSeq: REC_SEQ.DEFAULT_RECORD }, ...ACTIVE_CONDITION },
+                data: { recStatus: REC_STATUS.INACTIVE },
+            }),
+        ]);
+    }
+
+    // Show a reconnected connection's archived items again
+    async restoreArchivedItems(linkId: string) {
+        const { count } = await this.prisma.listItems.updateMany({
+            where: {
+                userIntegrationId: linkId,
+                recSeq: REC_SEQ.DEFAULT_RECORD,
+                recStatus: REC_STATUS.ACTIVE,
+                dataStatus: DATA_STATUS.INACTIVE,
+            },
+            data: { dataStatus: DATA_STATUS.ACTIVE },
         });
+        return count;
+    }
+
+    async getLastSyncedAt(userId: string, integrationId: string) {
+        const link = await this.findUserIntegration(userId, integrationId);
         if (!link) return null;
         const hist = await this.prisma.userIntegrationHistory.findFirst({
             where: { userIntegrationId: link.userIntegrationId, userIntegrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...ACTIVE_CONDITION },
@@ -106,14 +254,16 @@ export class IntegrationPersistence {
     }
 
     // Ensure List + UserLists + Category
-    async ensureListAndCategoryForUser(userId: string, listName: string, categoryName?: string) {
+    // During a sync, the user's targetList and customName settings (see syncListTarget) replace listName
+    async ensureListAndCategoryForUser(userId: string, defaultListName: string, categoryName?: string) {
+        const { listName, customName } = syncListTarget(defaultListName);
         let list = await this.prisma.lists.findFirst({ where: { name: listName, ...ACTIVE_CONDITION } });
         if (!list) list = await this.prisma.lists.create({ data: { name: listName, ...ACTIVE_CONDITION } });
 
         const userList = (await this.prisma.userLists.findFirst({
-            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, listId: list.listId, listRecSeq: REC_SEQ.DEFAULT_RECORD, customName: listName, ...ACTIVE_CONDITION },
+            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, listId: list.listId, listRecSeq: REC_SEQ.DEFAULT_RECORD, customName, ...ACTIVE_CONDITION },
         })) ?? (await this.prisma.userLists.create({
-            data: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, listId: list.listId, listRecSeq: REC_SEQ.DEFAULT_RECORD, customName: listName, ...ACTIVE_CONDITION },
+            data: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, listId: list.listId, listRecSeq: REC_SEQ.DEFAULT_RECORD, customName, ...ACTIVE_CONDITION },
         }));
 
         let category: any = null;
@@ -127,9 +277,11 @@ export class IntegrationPersistence {
         return { list, userList, category };
     }
 
-    // Create item with attributes; external provider id can be stored inside attributes
+    // Create item with attributes; external provider id can be stored inside attributes.
+    // Items created during a connection's sync record that connection; items carrying
+    // attributes.external start with every field owned by that provider.
     async createListItem(listId: string, listRecSeq: number, userListId: string, userListRecSeq: number, categoryId: string | null, categoryRecSeq: number | null, title: string, attributes: any, attributeDataType: any) {
-        return this.prisma.listItems.create({
+        const item = await this.prisma.listItems.create({
             data: {
                 listId,
                 listRecSeq,
@@ -140,9 +292,15 @@ export class IntegrationPersistence {
                 title,
                 attributes,
                 attributeDataType,
+                fieldSources: attributes?.external?.provider ? providerFieldSources(attributes.external.provider, title, attributes) : undefined,
+                userIntegrationId: getConnectionId() ?? null,
+                userIntegrationRecSeq: REC_SEQ.DEFAULT_RECORD,
                 ...ACTIVE_CONDITION
             },
         });
+        // Only inserts that succeeded count towards the sync run
+        recordItemOutcome('created');
+        return item;
     }
 
     // Check if an email already exists by external ID (Gmail message ID)
@@ -161,15 +319,14 @@ export class IntegrationPersistence {
         return !!existing;
     }
 
-    // Find an existing item by external provider ID
-    async findItemByExternalId(listId: string, listRecSeq: number, userListId: string, userListRecSeq: number, title: string, provider: string, externalId: string) {
+    // Find an existing item by external provider ID. Not matched on title, which the user may have renamed.
+    async findItemByExternalId(listId: string, listRecSeq: number, userListId: string, userListRecSeq: number, provider: string, externalId: string) {
         return this.prisma.listItems.findFirst({
             where: {
                 listId,
                 listRecSeq,
                 userListId,
                 userListRecSeq,
-                title,
                 attributes: {
                     path: ['external', 'provider'],
                     equals: provider,
@@ -185,7 +342,78 @@ export class IntegrationPersistence {
         });
     }
 
-    // Create or update item with deduplication based on external ID
+    // A user's item for an external provider ID in any of their lists
+    async findUserItemByExternalId(userId: string, provider: string, externalId: string) {
+        return this.prisma.listItems.findFirst({
+            where: {
+                userList: { userId },
+                attributes: {
+                    path: ['external', 'provider'],
+                    equals: provider,
+                },
+                AND: {
+                    attributes: {
+                        path: ['external', 'id'],
+                        equals: externalId,
+                    },
+                },
+                ...ACTIVE_CONDITION,
+            },
+        });
+    }
+
+    // Move an item to another list and, when the provider re-keyed it (e.g. a pending bank transaction
+    // that posted under a new id), to its new external ID, so the next upsertListItem updates it in place
+    async relocateListItem(item: { listItemId: string; attributes: unknown }, listId: string, userListId: string, externalId: string) {
+        const attributes = (item.attributes ?? {}) as Record<string, any>;
+        return this.prisma.listItems.update({
+            where: { listItemId_recSeq: { listItemId: item.listItemId, recSeq: REC_SEQ.DEFAULT_RECORD } },
+            data: {
+                listId,
+                listRecSeq: REC_SEQ.DEFAULT_RECORD,
+                userListId,
+                userListRecSeq: REC_SEQ.DEFAULT_RECORD,
+                attributes: { ...attributes, external: { ...attributes.external, id: externalId } },
+            },
+        });
+    }
+
+    // Soft-delete a user's items that the provider deleted upstream; returns how many changed
+    async removeItemsByExternalId(userId: string, provider: string, externalIds: string[]) {
+        if (externalIds.length === 0) return 0;
+        const { count } = await this.prisma.listItems.updateMany({
+            where: {
+                userList: { userId },
+                attributes: { path: ['external', 'provider'], equals: provider },
+                OR: externalIds.map(externalId => ({ attributes: { path: ['external', 'id'], equals: externalId } })),
+                ...ACTIVE_CONDITION,
+            },
+            data: { recStatus: REC_STATUS.INACTIVE },
+        });
+        return count;
+    }
+
+    // Soft-delete a provider's items of one external type for the given accounts that a refresh no longer returned
+    async removeStaleAccountItems(userId: string, provider: string, type: string, accountIds: string[], keepExternalIds: string[]) {
+        if (accountIds.length === 0) return 0;
+        const { count } = await this.prisma.listItems.updateMany({
+            where: {
+                userList: { userId },
+                attributes: { path: ['external', 'provider'], equals: provider },
+                AND: [
+                    { attributes: { path: ['external', 'type'], equals: type } },
+                    { OR: accountIds.map(accountId => ({ attributes: { path: ['external', 'accountId'], equals: accountId } })) },
+                    { NOT: keepExternalIds.map(externalId => ({ attributes: { path: ['external', 'id'], equals: externalId } })) },
+                ],
+                ...ACTIVE_CONDITION,
+            },
+            data: { recStatus: REC_STATUS.INACTIVE },
+        });
+        return count;
+    }
+
+    // Create or update item with deduplication based on external ID. Updates merge only the fields the
+    // provider still owns; fields the user edited are kept and the provider's value recorded as a conflict.
     async upsertListItem(
         listId: string,
         listRecSeq: number,
@@ -204,17 +432,17 @@ export class IntegrationPersistence {
                 listRecSeq,
                 userListId,
                 userListRecSeq,
-                title,
                 attributes.external.provider,
                 attributes.external.id
             );
 
             if (existing) {
-                // Compare attributes to see if update is needed
-                const attributesChanged = JSON.stringify(existing.attributes) !== JSON.stringify(attributes);
+                const merge = mergeProviderUpdate(existing, { title, attributes }, attributes.external.provider);
+                const categoryChanged = (existing.categoryId ?? null) !== (categoryId ?? null);
 
-                if (attributesChanged) {
+                if (merge.changed || categoryChanged) {
                     // Update existing item
+                    recordItemOutcome('updated');
                     return this.prisma.listItems.update({
                         where: {
                             listItemId_recSeq: {
@@ -225,14 +453,18 @@ export class IntegrationPersistence {
                         data: {
                             categoryId: categoryId ?? null,
                             categoryRecSeq: REC_SEQ.DEFAULT_RECORD,
-                            attributes,
+                            title: merge.title,
+                            attributes: merge.attributes,
                             attributeDataType,
+                            fieldSources: merge.fieldSources,
+                            syncConflicts: merge.syncConflicts,
                             ...ACTIVE_CONDITION
                         },
                     });
                 }
 
                 // No changes, return existing item
+                recordItemOutcome('skipped');
                 return existing;
             }
         }
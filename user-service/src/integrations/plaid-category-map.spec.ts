@@ -0,0 +1,43 @@
+import { Logger } from '@nestjs/common';
+import { PLAID_CATEGORY_MASTER_DATA, PlaidCategoryMap } from './plaid-category-map';
+
+describe('PlaidCategoryMap', () => {
+    let categoryMap: PlaidCategoryMap;
+    let mockPrisma: any;
+
+    beforeEach(() => {
+        jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+        mockPrisma = {
+            masterData: {
+                findMany: jest.fn().mockResolvedValue([
+                    { keyCode: 'FOOD_AND_DRINK', value: 'Food | Dining' },
+                    { keyCode: 'FOOD_AND_DRINK_GROCERIES', value: 'Food | Groceries' },
+                    { keyCode: 'TRAVEL', value: 'Travel' },
+                ]),
+            },
+        };
+        categoryMap = new PlaidCategoryMap(mockPrisma);
+    });
+
+    it('should prefer the detailed code over its primary', async () => {
+        await expect(categoryMap.resolve('FOOD_AND_DRINK', 'FOOD_AND_DRINK_GROCERIES')).resolves.toEqual({ listType: 'Food', categoryName: 'Groceries' });
+        await expect(categoryMap.resolve('FOOD_AND_DRINK', 'FOOD_AND_DRINK_COFFEE')).resolves.toEqual({ listType: 'Food', categoryName: 'Dining' });
+        expect(mockPrisma.masterData.findMany).toHaveBeenCalledWith({ where: expect.objectContaining({ parentId: PLAID_CATEGORY_MASTER_DATA }) });
+    });
+
+    it('should ignore rows that do not name a list and a category', async () => {
+        await expect(categoryMap.resolve('TRAVEL', 'TRAVEL_FLIGHTS')).resolves.toBeNull();
+    });
+
+    it('should read master data again once the cached mapping is stale', async () => {
+        const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+        await categoryMap.resolve('FOOD_AND_DRINK', null);
+        await categoryMap.resolve('FOOD_AND_DRINK', null);
+        expect(mockPrisma.masterData.findMany).toHaveBeenCalledTimes(1);
+
+        now.mockReturnValue(5 * 60 * 1000);
+        await categoryMap.resolve('FOOD_AND_DRINK', null);
+        expect(mockPrisma.masterData.findMany).toHaveBeenCalledTimes(2);
+        now.mockRestore();
+    });
+});
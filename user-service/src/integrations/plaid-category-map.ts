@@ -0,0 +1,54 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '@traeta/prisma';
+import { ACTIVE_CONDITION } from '../../constants';
+
+// MasterData rows with this parentId map a personal_finance_category code (keyCode) to 'List | Category' (value)
+export const PLAID_CATEGORY_MASTER_DATA = 'PLAID_PFC';
+
+// Edits to the mapping in master data apply to syncs started after this long
+const MAPPING_CACHE_TTL_MS = 5 * 60 * 1000;
+
+export type PlaidCategoryTarget = {
+    listType: string;
+    categoryName: string;
+};
+
+/**
+ * Maps Plaid personal_finance_category codes to our lists and categories. The table is kept in
+ * MasterData so it can be tuned through the master data service without a deploy. A detailed
+ * code (FOOD_AND_DRINK_GROCERIES) takes precedence over its primary (FOOD_AND_DRINK).
+ */
+@Injectable()
+export class PlaidCategoryMap {
+    private readonly logger = new Logger(PlaidCategoryMap.name);
+    private cached: { loadedAt: number; targets: Map<string, PlaidCategoryTarget> } | null = null;
+
+    constructor(private readonly prisma: PrismaService) { }
+
+    async resolve(primary: string | null | undefined, detailed: string | null | undefined): Promise<PlaidCategoryTarget | null> {
+        const targets = await this.load();
+        return (detailed && targets.get(detailed.toUpperCase())) || (primary && targets.get(primary.toUpperCase())) || null;
+    }
+
+    private async load(): Promise<Map<string, PlaidCategoryTarget>> {
+        if (this.cached && Date.now() - this.cached.loadedAt < MAPPING_CACHE_TTL_MS) {
+            return this.cached.targets;
+        }
+
+        const rows = await this.prisma.masterData.findMany({
+            where: { parentId: PLAID_CATEGORY_MASTER_DATA, ...ACTIVE_CONDITION },
+        });
+        const targets = new Map<string, PlaidCategoryTarget>();
+        for (const row of rows) {
+            const [listType, categoryName] = (row.value ?? '').split('|').map(part => part.trim());
+            if (!listType || !categoryName) {
+                this.logger.warn(`Ignoring Plaid category mapping for ${row.keyCode}: expected 'List | Category', got '${row.value}'`);
+                continue;
+            }
+            targets.set(row.keyCode.trim().toUpperCase(), { listType, categoryName });
+        }
+
+        this.cached = { loadedAt: Date.now(), targets };
+        return targets;
+    }
+}
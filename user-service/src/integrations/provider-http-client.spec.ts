@@ -0,0 +1,219 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import { ProviderHttpClient, ProviderRequestMetric, refreshStatusErrors } from './provider-http-client';
+import { IntegrationSandbox } from './integration-sandbox';
+import { IntegrationProviderName } from './types';
+import { InvalidTokenException, ProviderAPIException, RateLimitException, RefreshTokenException } from './exceptions';
+
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const httpError = (status: number, data: any = {}, headers: Record<string, string> = {}) => ({
+    isAxiosError: true,
+    message: `Request failed with status code ${status}`,
+    response: { status, data, headers },
+});
+
+describe('ProviderHttpClient', () => {
+    let client: ProviderHttpClient;
+    let config: Record<string, string>;
+    let metrics: ProviderRequestMetric[];
+
+    const STRAVA = IntegrationProviderName.STRAVA;
+    const url = 'https://www.strava.com/api/v3/athlete/activities';
+
+    beforeEach(() => {
+        config = {
+            PROVIDER_HTTP_RETRY_BASE_MS: '0',
+            PROVIDER_HTTP_MAX_RETRIES: '2',
+            PROVIDER_CIRCUIT_THRESHOLD: '2',
+            PROVIDER_CIRCUIT_COOLDOWN_MS: '60000',
+            PROVIDER_RATE_LIMIT_STRAVA: '100/1',
+        };
+        const configService = { get: jest.fn((key: string) => config[key]) } as unknown as ConfigService;
+        client = new ProviderHttpClient(configService, new IntegrationSandbox(configService));
+        metrics = [];
+        client.onRequest(metric => metrics.push(metric));
+
+        jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+        jest.spyOn(Logger.prototype, 'debug').mockImplementation();
+    });
+
+    afterEach(() => {
+        jest.resetAllMocks();
+        jest.restoreAllMocks();
+    });
+
+    it('should pass the request through without the client options and report its timing', async () => {
+        mockedAxios.get.mockResolvedValue({ status: 200, data: [] });
+
+        const response = await client.get(STRAVA, url, { operation: 'sync', params: { page: 1 } });
+
+        expect(response.data).toEqual([]);
+        expect(mockedAxios.get).toHaveBeenCalledWith(url, { params: { page: 1 } });
+        expect(metrics).toEqual([
+            expect.objectContaining({ provider: STRAVA, operation: 'sync', method: 'GET', outcome: 'success', status: 200, attempt: 1 }),
+        ]);
+    });
+
+    it('should retry GETs on 5xx and network errors', async () => {
+        mockedAxios.get
+            .mockRejectedValueOnce(httpError(503))
+            .mockRejectedValueOnce({ isAxiosError: true, code: 'ECONNRESET', message: 'socket hang up' })
+            .mockResolvedValueOnce({ status: 200, data: 'ok' });
+
+        await expect(client.get(STRAVA, url)).resolves.toEqual({ status: 200, data: 'ok' });
+
+        expect(mockedAxios.get).toHaveBeenCalledTimes(3);
+        expect(metrics.map(m => m.outcome)).toEqual(['http_error', 'network_error', 'success']);
+    });
+
+    it('should not retry POSTs unless asked to', async () => {
+        mockedAxios.post.mockRejectedValue(httpError(502, { message: 'Bad gateway' }));
+
+        await expect(client.post(STRAVA, url, {}, { operation: 'Token exchange' })).rejects.toThrow(
+            'strava API error during Token exchange: HTTP 502: Bad gateway',
+        );
+        expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+
+        mockedAxios.post.mockClear();
+        await expect(client.post(STRAVA, url, {}, { retry: true })).rejects.toThrow(ProviderAPIException);
+        expect(mockedAxios.post).toHaveBeenCalledTimes(3);
+    });
+
+    it('should wait for a short Retry-After and resend', async () => {
+        mockedAxios.post
+            .mockRejectedValueOnce(httpError(429, {}, { 'retry-after': '0' }))
+            .mockResolvedValueOnce({ status: 200, data: 'ok' });
+
+        await expect(client.post(STRAVA, url)).resolves.toEqual({ status: 200, data: 'ok' });
+        expect(metrics.map(m => m.outcome)).toEqual(['rate_limited', 'success']);
+    });
+
+    it('should throw RateLimitException when Retry-After is too long to wait for', async () => {
+        mockedAxios.get.mockRejectedValue(httpError(429, {}, { 'retry-after': '900' }));
+
+        const error = await client.get(STRAVA, url).catch(e => e);
+
+        expect(error).toBeInstanceOf(RateLimitException);
+        expect(error.retryAfter).toBe(900);
+        expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should map 401/403 to InvalidTokenException unless the caller overrides the status', async () => {
+        mockedAxios.get.mockRejectedValue(httpError(401));
+        await expect(client.get(STRAVA, url)).rejects.toThrow(InvalidTokenException);
+
+        mockedAxios.post.mockRejectedValue(httpError(400, { error: 'invalid_grant' }));
+        await expect(
+            client.post(STRAVA, url, {}, { statusErrors: { 400: () => new RefreshTokenException(STRAVA) } }),
+        ).rejects.toThrow(RefreshTokenException);
+    });
+
+    it('should only treat a rejected refresh grant as a RefreshTokenException', async () => {
+        const statusErrors = refreshStatusErrors(STRAVA);
+
+        mockedAxios.post.mockRejectedValue(httpError(401, { error: 'invalid_grant' }));
+        await expect(client.post(STRAVA, url, {}, { statusErrors })).rejects.toThrow(RefreshTokenException);
+
+        mockedAxios.post.mockRejectedValue(httpError(403));
+        await expect(client.post(STRAVA, url, {}, { statusErrors })).rejects.toThrow(ProviderAPIException);
+    });
+
+    it('should report the exception class of the attempt that failed the call', async () => {
+        mockedAxios.get
+            .mockRejectedValueOnce(httpError(503))
+            .mockRejectedValueOnce(httpError(401));
+
+        await expect(client.get(STRAVA, url)).rejects.toThrow(InvalidTokenException);
+
+        expect(metrics.map(m => m.errorClass)).toEqual([undefined, 'InvalidTokenException']);
+    });
+
+    it('should rethrow errors that did not come from the HTTP call', async () => {
+        const bug = new TypeError('boom');
+        mockedAxios.get.mockRejectedValue(bug);
+
+        await expect(client.get(STRAVA, url)).rejects.toBe(bug);
+        expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+    });
+
+    describe('circuit breaker', () => {
+        it('should open after consecutive failures and let a request through after the cooldown', async () => {
+            config.PROVIDER_HTTP_MAX_RETRIES = '0';
+            mockedAxios.get.mockRejectedValue(httpError(500));
+
+            await expect(client.get(STRAVA, url)).rejects.toThrow(ProviderAPIException);
+            expect(client.circuitState(STRAVA)).toBe('closed');
+            await expect(client.get(STRAVA, url)).rejects.toThrow(ProviderAPIException);
+            expect(client.circuitState(STRAVA)).toBe('open');
+
+            await expect(client.get(STRAVA, url)).rejects.toThrow('strava is unavailable');
+            expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+            expect(client.circuitState(IntegrationProviderName.SPOTIFY)).toBe('closed');
+
+            const now = Date.now();
+            jest.spyOn(Date, 'now').mockReturnValue(now + 60001);
+            expect(client.circuitState(STRAVA)).toBe('half_open');
+
+            mockedAxios.get.mockResolvedValue({ status: 200, data: 'ok' });
+            await expect(client.get(STRAVA, url)).resolves.toEqual({ status: 200, data: 'ok' });
+            expect(client.circuitState(STRAVA)).toBe('closed');
+        });
+
+        it('should let only one trial request through while half-open', async () => {
+            config.PROVIDER_HTTP_MAX_RETRIES = '0';
+            config.PROVIDER_CIRCUIT_THRESHOLD = '1';
+            mockedAxios.get.mockRejectedValueOnce(httpError(500));
+            await expect(client.get(STRAVA, url)).rejects.toThrow(ProviderAPIException);
+
+            const now = Date.now();
+            jest.spyOn(Date, 'now').mockReturnValue(now + 60001);
+            let failTrial: (error: any) => void;
+            mockedAxios.get.mockImplementationOnce(() => new Promise((_, reject) => { failTrial = reject; }));
+
+            const trial = client.get(STRAVA, url);
+            await expect(client.get(STRAVA, url)).rejects.toThrow('strava is unavailable');
+            failTrial(httpError(500));
+            await expect(trial).rejects.toThrow(ProviderAPIException);
+            expect(client.circuitState(STRAVA)).toBe('open');
+            expect(mockedAxios.get).toHaveBeenCalledTimes(2);
+        });
+
+        it('should not count client errors as failures', async () => {
+            mockedAxios.get.mockRejectedValue(httpError(404));
+
+            for (let i = 0; i < 3; i++) {
+                await expect(client.get(STRAVA, url)).rejects.toThrow(ProviderAPIException);
+            }
+            expect(client.circuitState(STRAVA)).toBe('closed');
+        });
+    });
+
+    describe('rate limiting', () => {
+        it('should queue requests once the bucket is empty', async () => {
+            config.PROVIDER_RATE_LIMIT_STRAVA = '1/0.05';
+            mockedAxios.get.mockResolvedValue({ status: 200, data: 'ok' });
+
+            const startedAt = Date.now();
+            await client.get(STRAVA, url);
+            await client.get(STRAVA, url);
+
+            expect(Date.now() - startedAt).toBeGreaterThanOrEqual(40);
+        });
+
+        it('should throw RateLimitException instead of waiting longer than the max wait', async () => {
+            config.PROVIDER_RATE_LIMIT_STRAVA = '1/900';
+            mockedAxios.get.mockResolvedValue({ status: 200, data: 'ok' });
+
+            await client.get(STRAVA, url);
+            const error = await client.get(STRAVA, url).catch(e => e);
+
+            expect(error).toBeInstanceOf(RateLimitException);
+            expect(error.retryAfter).toBeGreaterThanOrEqual(899);
+            expect(error.retryAfter).toBeLessThanOrEqual(901);
+            expect(mockedAxios.get).toHaveBeenCalledTimes(1);
+        });
+    });
+});
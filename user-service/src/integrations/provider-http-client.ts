@@ -0,0 +1,360 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { IntegrationProviderName } from './types';
+import { IntegrationSandbox } from './integration-sandbox';
+import { InvalidTokenException, ProviderAPIException, RateLimitException, RefreshTokenException } from './exceptions';
+
+const SECOND_MS = 1000;
+
+// Requests allowed per window (seconds), used as bucket size and refill rate.
+// Override with PROVIDER_RATE_LIMIT_<PROVIDER>, e.g. PROVIDER_RATE_LIMIT_STRAVA=100/900
+const DEFAULT_RATE_LIMITS: Partial<Record<IntegrationProviderName, string>> = {
+    [IntegrationProviderName.STRAVA]: '100/900',
+    [IntegrationProviderName.SPOTIFY]: '10/1',
+    [IntegrationProviderName.APPLE_MUSIC]: '20/1',
+    [IntegrationProviderName.EMAIL_SCRAPER]: '10/1',
+    [IntegrationProviderName.LOCATION_SERVICES]: '50/1',
+    [IntegrationProviderName.GOODREADS]: '1/1',
+};
+const FALLBACK_RATE_LIMIT = '10/1';
+
+// Operation label for OAuth refresh-token grants
+export const TOKEN_REFRESH_OPERATION = 'Token refresh';
+
+export type ProviderRequestOptions = AxiosRequestConfig & {
+    /** Label used in exception messages and metrics, e.g. 'Token refresh' */
+    operation?: string;
+    /** Retry 5xx and network errors. Defaults to true for GET only, so non-idempotent calls run once */
+    retry?: boolean;
+    /** Exceptions for specific statuses instead of the default mapping, e.g. 400 -> RefreshTokenException */
+    statusErrors?: Partial<Record<number, (message: string) => Error>>;
+};
+
+/**
+ * statusErrors for refresh-token grants. Only a 400/401 (invalid_grant) means the provider rejected
+ * the refresh token and the user has to reconnect; a 403 stays a retryable ProviderAPIException.
+ */
+export function refreshStatusErrors(provider: IntegrationProviderName): ProviderRequestOptions['statusErrors'] {
+    const rejected = () => new RefreshTokenException(provider);
+    return {
+        400: rejected,
+        401: rejected,
+        403: message => new ProviderAPIException(provider, TOKEN_REFRESH_OPERATION, `HTTP 403: ${message}`),
+    };
+}
+
+// Error bodies providers send back; each puts the message somewhere else
+type ProviderErrorBody = {
+    error?: string | { message?: string };
+    error_description?: string;
+    message?: string;
+    errors?: { detail?: string }[];
+};
+
+type ProviderHttpError = AxiosError<ProviderErrorBody>;
+
+export type ProviderRequestOutcome = 'success' | 'http_error' | 'network_error' | 'rate_limited' | 'circuit_open';
+
+export type ProviderRequestMetric = {
+    provider: IntegrationProviderName;
+    operation: string;
+    method: string;
+    outcome: ProviderRequestOutcome;
+    status?: number;
+    attempt: number;
+    durationMs: number;
+    // Exception thrown to the caller when this attempt was the last one, e.g. 'RateLimitException'
+    errorClass?: string;
+};
+
+type Bucket = { tokens: number; updatedAt: number };
+
+// trialInFlight: a request is probing the half-open circuit; others are rejected until it settles
+type Circuit = { failures: number; openUntil: number; trialInFlight?: boolean };
+
+/**
+ * Outbound HTTP for providers.
+ *
+ * Every call goes through a per-provider token bucket and circuit breaker. Transient failures
+ * (5xx, network errors) are retried with exponential backoff and full jitter, a 429 is retried
+ * after its Retry-After when that is short enough, and whatever still fails is mapped to
+ * InvalidTokenException (401/403), RateLimitException (429) or ProviderAPIException. Errors that
+ * did not come from the HTTP call are rethrown untouched.
+ *
+ * Each attempt is reported to listeners registered with onRequest. In sandbox mode requests are
+ * recorded or replayed by IntegrationSandbox.
+ */
+@Injectable()
+export class ProviderHttpClient {
+    private readonly logger = new Logger(ProviderHttpClient.name);
+    private readonly buckets = new Map<IntegrationProviderName, Bucket>();
+    private readonly circuits = new Map<IntegrationProviderName, Circuit>();
+    private readonly listeners = new Set<(metric: ProviderRequestMetric) => void>();
+
+    constructor(
+        private readonly configService: ConfigService,
+        private readonly sandbox: IntegrationSandbox,
+    ) { }
+
+    async get<T = any>(provider: IntegrationProviderName, url: string, options: ProviderRequestOptions = {}): Promise<AxiosResponse<T>> {
+        return this.execute(provider, 'GET', url, options, config => axios.get<T>(url, config));
+    }
+
+    async post<T = any>(provider: IntegrationProviderName, url: string, data?: any, options: ProviderRequestOptions = {}): Promise<AxiosResponse<T>> {
+        return this.execute(provider, 'POST', url, options, config => axios.post<T>(url, data, config));
+    }
+
+    /**
+     * Subscribe to per-attempt timings. Returns a function that removes the listener.
+     */
+    onRequest(listener: (metric: ProviderRequestMetric) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    /**
+     * 'open' while requests are being rejected, 'half_open' once the cooldown has passed
+     * and the next request decides whether the circuit closes again. Only that one trial
+     * request goes out while half-open; concurrent ones are rejected as if it were open.
+     */
+    circuitState(provider: IntegrationProviderName): 'closed' | 'open' | 'half_open' {
+        const circuit = this.circuits.get(provider);
+        if (!circuit || circuit.failures < this.getCircuitThreshold()) return 'closed';
+        return Date.now() < circuit.openUntil ? 'open' : 'half_open';
+    }
+
+    private async execute<T>(
+        provider: IntegrationProviderName,
+        method: string,
+        url: string,
+        options: ProviderRequestOptions,
+        send: (config: AxiosRequestConfig) => Promise<AxiosResponse<T>>,
+    ): Promise<AxiosResponse<T>> {
+        const trial = { held: false };
+        try {
+            return await this.executeAttempts(provider, method, url, options, send, trial);
+        } finally {
+            // A trial that neither closed nor reopened the circuit hands it to the next request
+            const circuit = trial.held ? this.circuits.get(provider) : undefined;
+            if (circuit) circuit.trialInFlight = false;
+        }
+    }
+
+    private async executeAttempts<T>(
+        provider: IntegrationProviderName,
+        method: string,
+        url: string,
+        options: ProviderRequestOptions,
+        send: (config: AxiosRequestConfig) => Promise<AxiosResponse<T>>,
+        trial: { held: boolean },
+    ): Promise<AxiosResponse<T>> {
+        const { operation = `${method} ${this.pathOf(url)}`, retry = method === 'GET', statusErrors, ...config } = options;
+        const maxRetries = this.getNumber('PROVIDER_HTTP_MAX_RETRIES', 2);
+
+        for (let attempt = 1; ; attempt++) {
+            this.assertCircuitClosed(provider, method, operation, attempt, trial);
+            await this.acquire(provider);
+
+            const startedAt = Date.now();
+            try {
+                const response = await send({ ...config, ...this.sandbox.axiosOptions(provider) });
+                this.emit({ provider, operation, method, outcome: 'success', status: response?.status, attempt, durationMs: Date.now() - startedAt });
+                this.circuits.delete(provider);
+                return response;
+            } catch (error) {
+                // Anything that is not an HTTP failure is passed through for the caller to handle
+                if (!this.isHttpError(error)) throw error;
+
+                const status = error.response?.status;
+                const durationMs = Date.now() - startedAt;
+
+                if (status === 429) {
+                    const metric: ProviderRequestMetric = { provider, operation, method, outcome: 'rate_limited', status, attempt, durationMs };
+                    const retryAfter = this.parseRetryAfter(error.response.headers?.['retry-after'] as string | undefined);
+                    // The request was not processed, so it is safe to resend regardless of method
+                    if (attempt <= maxRetries && retryAfter !== undefined &&
+                        retryAfter * SECOND_MS <= this.getNumber('PROVIDER_HTTP_MAX_RETRY_AFTER_MS', 30 * SECOND_MS)) {
+                        this.emit(metric);
+                        await this.sleep(retryAfter * SECOND_MS);
+                        continue;
+                    }
+                    throw this.fail(metric, this.toException(provider, operation, error, statusErrors, retryAfter));
+                }
+
+                const transient = status === undefined || status >= 500;
+                const metric: ProviderRequestMetric = { provider, operation, method, outcome: status ? 'http_error' : 'network_error', status, attempt, durationMs };
+                if (!transient) {
+                    throw this.fail(metric, this.toException(provider, operation, error, statusErrors));
+                }
+
+                if (retry && attempt <= maxRetries) {
+                    this.emit(metric);
+                    const delay = this.backoff(attempt);
+                    this.logger.warn(`${provider} ${operation} failed (${status ?? error.code ?? 'network error'}), retrying in ${delay}ms`);
+                    await this.sleep(delay);
+                    continue;
+                }
+
+                this.recordFailure(provider);
+                throw this.fail(metric, this.toException(provider, operation, error, statusErrors));
+            }
+        }
+    }
+
+    /**
+     * Take a token from the provider's bucket, waiting for one if the wait is short enough.
+     * Tokens are reserved before sleeping so concurrent callers queue up instead of racing.
+     */
+    private async acquire(provider: IntegrationProviderName): Promise<void> {
+        const { capacity, perMs } = this.getRateLimit(provider);
+        const now = Date.now();
+        const bucket = this.buckets.get(provider) ?? { tokens: capacity, updatedAt: now };
+        bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * perMs);
+        bucket.updatedAt = now;
+        this.buckets.set(provider, bucket);
+
+        bucket.tokens -= 1;
+        if (bucket.tokens >= 0) return;
+
+        const waitMs = Math.ceil(-bucket.tokens / perMs);
+        if (waitMs > this.getNumber('PROVIDER_HTTP_MAX_WAIT_MS', 30 * SECOND_MS)) {
+            bucket.tokens += 1;
+            throw new RateLimitException(provider, Math.ceil(waitMs / SECOND_MS));
+        }
+        await this.sleep(waitMs);
+    }
+
+    // Let the request through unless the circuit is open, or half-open with another request's trial in flight
+    private assertCircuitClosed(provider: IntegrationProviderName, method: string, operation: string, attempt: number, trial: { held: boolean }) {
+        const state = this.circuitState(provider);
+        if (state === 'closed' || trial.held) return;
+
+        const circuit = this.circuits.get(provider);
+        if (state === 'half_open' && !circuit.trialInFlight) {
+            circuit.trialInFlight = true;
+            trial.held = true;
+            return;
+        }
+
+        const retryInSeconds = Math.max(1, Math.ceil((circuit.openUntil - Date.now()) / SECOND_MS));
+        throw this.fail(
+            { provider, operation, method, outcome: 'circuit_open', attempt, durationMs: 0 },
+            new ProviderAPIException(provider, operation, `${provider} is unavailable, retry in ${retryInSeconds}s`),
+        );
+    }
+
+    private recordFailure(provider: IntegrationProviderName) {
+        const circuit = this.circuits.get(provider) ?? { failures: 0, openUntil: 0 };
+        circuit.failures++;
+        if (circuit.failures >= this.getCircuitThreshold()) {
+            circuit.openUntil = Date.now() + this.getNumber('PROVIDER_CIRCUIT_COOLDOWN_MS', 30 * SECOND_MS);
+            this.logger.warn(`${provider} circuit opened after ${circuit.failures} consecutive failures`);
+        }
+        this.circuits.set(provider, circuit);
+    }
+
+    private toException(
+        provider: IntegrationProviderName,
+        operation: string,
+        error: ProviderHttpError,
+        statusErrors: ProviderRequestOptions['statusErrors'] = {},
+        retryAfter?: number,
+    ): Error {
+        const status = error.response?.status;
+        const message = this.messageOf(error);
+
+        const override = status !== undefined ? statusErrors[status] : undefined;
+        if (override) return override(message);
+
+        if (status === 429) return new RateLimitException(provider, retryAfter);
+        if (status === 401 || status === 403) return new InvalidTokenException(provider);
+        return new ProviderAPIException(provider, operation, status ? `HTTP ${status}: ${message}` : message);
+    }
+
+    private isHttpError(error: unknown): error is ProviderHttpError {
+        const candidate = error as Partial<ProviderHttpError> | undefined;
+        return candidate?.isAxiosError === true || typeof candidate?.response?.status === 'number';
+    }
+
+    // Providers put the human-readable error in different places
+    private messageOf(error: ProviderHttpError): string {
+        const data = error.response?.data;
+        const candidates = [
+            data?.error_description,
+            typeof data?.error === 'object' ? data.error?.message : undefined,
+            typeof data?.error === 'string' ? data.error : undefined,
+            data?.message,
+            data?.errors?.[0]?.detail,
+        ];
+        return candidates.find(c => typeof c === 'string' && c.length > 0) ?? error.message ?? 'Unknown error';
+    }
+
+    // Retry-After is either delta-seconds or an HTTP date
+    private parseRetryAfter(value?: string | number): number | undefined {
+        if (value === undefined || value === null || value === '') return undefined;
+        const seconds = Number(value);
+        if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+        const date = Date.parse(String(value));
+        return Number.isNaN(date) ? undefined : Math.max(0, Math.ceil((date - Date.now()) / SECOND_MS));
+    }
+
+    // Exponential backoff with full jitter
+    private backoff(attempt: number): number {
+        const base = this.getNumber('PROVIDER_HTTP_RETRY_BASE_MS', 500);
+        return Math.floor(Math.random() * base * 2 ** (attempt - 1));
+    }
+
+    private getRateLimit(provider: IntegrationProviderName): { capacity: number; perMs: number } {
+        const spec = this.configService.get<string>(`PROVIDER_RATE_LIMIT_${provider.toUpperCase()}`)
+            || DEFAULT_RATE_LIMITS[provider]
+            || FALLBACK_RATE_LIMIT;
+        const [requests, seconds] = spec.split('/').map(Number);
+        if (!(requests > 0) || !(seconds > 0)) {
+            throw new Error(`Invalid rate limit '${spec}' for ${provider}; expected <requests>/<seconds>`);
+        }
+        return { capacity: requests, perMs: requests / (seconds * SECOND_MS) };
+    }
+
+    private getCircuitThreshold(): number {
+        return this.getNumber('PROVIDER_CIRCUIT_THRESHOLD', 5);
+    }
+
+    // Zero is a valid setting here (e.g. no retries)
+    private getNumber(key: string, fallback: number): number {
+        const raw = this.configService.get<string>(key);
+        const value = Number(raw);
+        return raw !== undefined && raw !== '' && value >= 0 ? value : fallback;
+    }
+
+    private pathOf(url: string): string {
+        try {
+            return new URL(url).pathname;
+        } catch {
+            return url;
+        }
+    }
+
+    private emit(metric: ProviderRequestMetric) {
+        this.logger.debug(
+            `${metric.provider} ${metric.operation} -> ${metric.status ?? metric.outcome} in ${metric.durationMs}ms (attempt ${metric.attempt})`,
+        );
+        for (const listener of this.listeners) {
+            try {
+                listener(metric);
+            } catch (error) {
+                this.logger.warn(`Request metric listener failed: ${(error as Error).message}`);
+            }
+        }
+    }
+
+    // Report the attempt together with the exception the caller is about to get
+    private fail(metric: ProviderRequestMetric, error: Error): Error {
+        this.emit({ ...metric, errorClass: error.constructor.name });
+        return error;
+    }
+
+    private sleep(ms: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+}
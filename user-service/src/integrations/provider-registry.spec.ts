@@ -0,0 +1,94 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DiscoveryModule } from '@nestjs/core';
+import { Test, TestingModule } from '@nestjs/testing';
+import { PrismaService } from '@traeta/prisma';
+import { IntegrationProviderRegistry } from './provider-registry';
+import { IntegrationProvider, IntegrationProviderName } from './types';
+import { ProviderDisabledException, ProviderNotFoundException } from './exceptions';
+
+@Injectable()
+@IntegrationProvider(IntegrationProviderName.STRAVA)
+class FakeStravaProvider {
+    readonly name = IntegrationProviderName.STRAVA;
+}
+
+@Injectable()
+@IntegrationProvider(IntegrationProviderName.GOODREADS)
+class FakeGoodreadsProvider {
+    readonly name = IntegrationProviderName.GOODREADS;
+}
+
+@Injectable()
+class UnrelatedService { }
+
+describe('IntegrationProviderRegistry', () => {
+    let module: TestingModule;
+    let registry: IntegrationProviderRegistry;
+    let mockPrismaService: any;
+
+    beforeEach(async () => {
+        mockPrismaService = {
+            integrations: { findMany: jest.fn().mockResolvedValue([]) },
+        };
+
+        module = await Test.createTestingModule({
+            imports: [DiscoveryModule],
+            providers: [
+                IntegrationProviderRegistry,
+                FakeStravaProvider,
+                FakeGoodreadsProvider,
+                UnrelatedService,
+                { provide: PrismaService, useValue: mockPrismaService },
+                { provide: ConfigService, useValue: { get: jest.fn() } },
+            ],
+        }).compile();
+
+        jest.spyOn(Logger.prototype, 'log').mockImplementation();
+        jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+
+        registry = module.get(IntegrationProviderRegistry);
+        await module.init();
+    });
+
+    afterEach(async () => {
+        await module.close();
+        jest.clearAllMocks();
+    });
+
+    it('should register decorated providers only', () => {
+        expect(registry.all().map(provider => provider.name)).toEqual([
+            IntegrationProviderName.STRAVA,
+            IntegrationProviderName.GOODREADS,
+        ]);
+        expect(registry.get(IntegrationProviderName.STRAVA)).toBe(module.get(FakeStravaProvider));
+    });
+
+    it('should throw ProviderNotFoundException for unregistered providers', () => {
+        expect(registry.get(IntegrationProviderName.PLAID)).toBeUndefined();
+        expect(() => registry.getOrThrow(IntegrationProviderName.PLAID)).toThrow(ProviderNotFoundException);
+    });
+
+    it('should hide providers disabled through their Integrations row', async () => {
+        mockPrismaService.integrations.findMany.mockResolvedValue([{ name: 'web_scrapping_goodreads' }]);
+
+        await registry.refresh();
+
+        expect(mockPrismaService.integrations.findMany).toHaveBeenCalledWith(expect.objectContaining({
+            where: expect.objectContaining({ enabled: false }),
+        }));
+        expect(registry.isEnabled(IntegrationProviderName.GOODREADS)).toBe(false);
+        expect(registry.all().map(provider => provider.name)).toEqual([IntegrationProviderName.STRAVA]);
+        expect(() => registry.getOrThrow(IntegrationProviderName.GOODREADS)).toThrow(ProviderDisabledException);
+    });
+
+    it('should keep the previous flags when they cannot be loaded', async () => {
+        mockPrismaService.integrations.findMany.mockResolvedValueOnce([{ name: 'strava' }]);
+        await registry.refresh();
+        mockPrismaService.integrations.findMany.mockRejectedValueOnce(new Error('db down'));
+
+        await registry.refresh();
+
+        expect(registry.isEnabled(IntegrationProviderName.STRAVA)).toBe(false);
+    });
+});
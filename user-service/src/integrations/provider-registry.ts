@@ -0,0 +1,106 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DiscoveryService } from '@nestjs/core';
+import { PrismaService } from '@traeta/prisma';
+import { IntegrationProvider, IntegrationProviderName, providerFromIntegrationName } from './types';
+import { ProviderDisabledException, ProviderNotFoundException } from './exceptions';
+import { ACTIVE_CONDITION } from '../../constants';
+
+const SECOND_MS = 1000;
+
+/**
+ * Providers decorated with @IntegrationProvider('name'), found through Nest discovery, so adding a
+ * provider only takes the decorator and an entry in the module's providers.
+ *
+ * A provider can be switched off per environment by setting enabled = false on its Integrations row.
+ * The flags are reloaded every INTEGRATION_PROVIDER_REFRESH_MS; disabled providers behave as if
+ * they were not registered.
+ */
+@Injectable()
+export class IntegrationProviderRegistry implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(IntegrationProviderRegistry.name);
+    private readonly providers = new Map<IntegrationProviderName, IntegrationProvider>();
+    private disabled = new Set<IntegrationProviderName>();
+    private timer: NodeJS.Timeout | null = null;
+
+    constructor(
+        private readonly discovery: DiscoveryService,
+        private readonly prisma: PrismaService,
+        private readonly configService: ConfigService,
+    ) { }
+
+    async onModuleInit() {
+        for (const wrapper of this.discovery.getProviders({ metadataKey: IntegrationProvider.KEY })) {
+            const name = this.discovery.getMetadataByDecorator(IntegrationProvider, wrapper);
+            if (!name || !wrapper.instance) continue;
+            if (this.providers.has(name)) {
+                throw new Error(`Integration provider '${name}' is registered by both ${this.providers.get(name)?.constructor.name} and ${wrapper.name}`);
+            }
+            this.providers.set(name, wrapper.instance as IntegrationProvider);
+        }
+        this.logger.log(`Registered integration providers: ${[...this.providers.keys()].join(', ')}`);
+
+        await this.refresh();
+        const refreshMs = Number(this.configService.get<string>('INTEGRATION_PROVIDER_REFRESH_MS')) || 60 * SECOND_MS;
+        this.timer = setInterval(() => void this.refresh(), refreshMs);
+        this.timer.unref();
+    }
+
+    onModuleDestroy() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    // Reload the enabled flags; on failure the previous flags stay in effect
+    async refresh() {
+        try {
+            const rows = await this.prisma.integrations.findMany({
+                where: { enabled: false, ...ACTIVE_CONDITION },
+                select: { name: true },
+            });
+            const disabled = new Set(rows.map(row => providerFromIntegrationName(row.name)));
+            for (const name of disabled) {
+                if (!this.disabled.has(name) && this.providers.has(name)) this.logger.log(`Integration provider ${name} disabled`);
+            }
+            for (const name of this.disabled) {
+                if (!disabled.has(name) && this.providers.has(name)) this.logger.log(`Integration provider ${name} enabled`);
+            }
+            this.disabled = disabled;
+        } catch (error) {
+            this.logger.warn(`Failed to load integration provider flags: ${error.message}`);
+        }
+    }
+
+    isEnabled(name: IntegrationProviderName): boolean {
+        return this.providers.has(name) && !this.disabled.has(name);
+    }
+
+    get(name: IntegrationProviderName): IntegrationProvider | undefined {
+        return this.isEnabled(name) ? this.providers.get(name) : undefined;
+    }
+
+    getOrThrow(name: IntegrationProviderName): IntegrationProvider {
+        const provider = this.providers.get(name);
+        if (!provider) {
+            throw new ProviderNotFoundException(name);
+        }
+        if (this.disabled.has(name)) {
+            throw new ProviderDisabledException(name);
+        }
+        return provider;
+    }
+
+    // Every registered provider, enabled or not
+    registered(): IntegrationProviderName[] {
+        return [...this.providers.keys()];
+    }
+
+    // Enabled providers in registration order
+    all(): IntegrationProvider[] {
+        return [...this.providers.entries()]
+            .filter(([name]) => !this.disabled.has(name))
+            .map(([, provider]) => provider);
+    }
+}
@@ -1,8 +1,10 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { AppleHealthProvider } from './apple-health.provider';
+import { ConfigService } from '@nestjs/config';
 import { PrismaService } from '@traeta/prisma';
 import { IntegrationPersistence } from '../persistence';
 import { TokenStore } from '../token-store';
+import { OAuthStateService } from '../oauth-state';
 import { Logger } from '@nestjs/common';
 import {
     ConfigurationException,
@@ -18,6 +20,17 @@ describe('AppleHealthProvider', () => {
     let mockTokenStore: jest.Mocked<TokenStore>;
 
     const mockUserId = 'user123';
+
+    // Signed state handling is covered in oauth-state.spec.ts; only mockState is accepted here
+    const mockOAuthState = {
+        issue: jest.fn().mockResolvedValue({ state: 'signed-state' }),
+        consume: jest.fn().mockImplementation(async (provider: string, state: string) => {
+            if (state !== 'signed-state') {
+                throw new InvalidCallbackException(provider, 'Invalid state signature');
+            }
+            return { userId: mockUserId };
+        }),
+    };
     const mockIntegration = {
         integrationId: 'apple_health_integration_id',
         recSeq: 0,
@@ -168,7 +181,7 @@ describe('AppleHealthProvider', () => {
             PrismaService['userIntegrations']['findFirst']
         >;
 
-    beforeAll(async () => {
+    beforeEach(async () => {
         // Create mocks
         mockPrismaService = {
             userIntegrations: {
@@ -220,8 +233,10 @@ describe('AppleHealthProvider', () => {
             providers: [
                 AppleHealthProvider,
                 { provide: PrismaService, useValue: mockPrismaService },
+                { provide: ConfigService, useValue: new ConfigService() },
                 { provide: IntegrationPersistence, useValue: mockPersistence },
                 { provide: TokenStore, useValue: mockTokenStore },
+                { provide: OAuthStateService, useValue: mockOAuthState },
             ],
         }).compile();
 
@@ -239,7 +254,7 @@ describe('AppleHealthProvider', () => {
         );
     });
 
-    afterAll(() => {
+    afterEach(() => {
         jest.clearAllMocks();
     });
 
@@ -247,7 +262,8 @@ describe('AppleHealthProvider', () => {
         it('should create connection successfully with valid configuration', async () => {
             const result = await provider.createConnection(mockUserId);
 
-            expect(result.state).toContain(`apple-health-${mockUserId}`);
+            expect(result.state).toBe('signed-state');
+            expect(mockOAuthState.issue).toHaveBeenCalledWith('apple_health', mockUserId);
             expect(result.redirectUrl).toContain('applehealth://connect');
             expect(result.redirectUrl).toContain('uploadEndpoint=');
             expect(result.redirectUrl).toContain('uploadToken=');
@@ -291,10 +307,9 @@ describe('AppleHealthProvider', () => {
 
         it('should throw ConfigurationException when upload endpoint is missing', async () => {
             process.env.APPLE_HEALTH_UPLOAD_ENDPOINT = '';
-            const newProvider = new AppleHealthProvider(mockPrismaService, mockPersistence, mockTokenStore);
 
-            await expect(newProvider.createConnection(mockUserId)).rejects.toThrow(ConfigurationException);
-            await expect(newProvider.createConnection(mockUserId)).rejects.toThrow(
+            await expect(provider.createConnection(mockUserId)).rejects.toThrow(ConfigurationException);
+            await expect(provider.createConnection(mockUserId)).rejects.toThrow(
                 'Apple Health upload endpoint is not configured'
             );
 
@@ -311,9 +326,9 @@ describe('AppleHealthProvider', () => {
 
     describe('handleCallback', () => {
         const mockUploadToken = 'ah_user123_1234567890_abc123';
-        const mockState = `apple-health-${mockUserId}-${Date.now()}`;
+        const mockState = 'signed-state';
 
-        beforeAll(() => {
+        beforeEach(() => {
             mockTokenStore.get.mockResolvedValue({
                 accessToken: mockUploadToken,
                 expiresAt: Math.floor(Date.now() / 1000) + 3600,
@@ -363,7 +378,7 @@ describe('AppleHealthProvider', () => {
                     state: 'invalid-state',
                     uploadToken: mockUploadToken,
                 })
-            ).rejects.toThrow('unable to extract userId');
+            ).rejects.toThrow('Invalid state signature');
         });
 
         it('should throw InvalidTokenException when stored token does not match', async () => {
@@ -434,9 +449,9 @@ describe('AppleHealthProvider', () => {
             expect(mockPersistence.createListItem).not.toHaveBeenCalled();
         });
 
-        it('should extract userId correctly from state with hyphens', async () => {
+        it('should use the userId from the consumed state', async () => {
             const userIdWithHyphens = 'user-with-hyphens-123';
-            const state = `apple-health-${userIdWithHyphens}-${Date.now()}`;
+            mockOAuthState.consume.mockResolvedValueOnce({ userId: userIdWithHyphens });
 
             mockTokenStore.get.mockResolvedValue({
                 accessToken: mockUploadToken,
@@ -444,7 +459,7 @@ describe('AppleHealthProvider', () => {
             });
 
             await provider.handleCallback({
-                state,
+                state: mockState,
                 uploadToken: mockUploadToken,
             });
 
@@ -455,7 +470,7 @@ describe('AppleHealthProvider', () => {
     describe('handleDataUpload', () => {
         const mockUploadToken = 'ah_user123_1234567890_abc123';
 
-        beforeAll(() => {
+        beforeEach(() => {
             mockTokenStore.get.mockResolvedValue({
                 accessToken: mockUploadToken,
                 expiresAt: Math.floor(Date.now() / 1000) + 3600,
@@ -573,7 +588,7 @@ describe('AppleHealthProvider', () => {
     });
 
     describe('sync', () => {
-        beforeAll(() => {
+        beforeEach(() => {
             mockPersistence.getLastSyncedAt.mockResolvedValue(
                 new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)
             );
@@ -590,7 +605,7 @@ describe('AppleHealthProvider', () => {
             expect(result.syncedAt).toBeInstanceOf(Date);
             expect(result.details.message).toBe('Apple Health sync completed');
             expect(result.details.note).toContain('iOS app');
-            expect(mockPersistence.markSynced).toHaveBeenCalledWith('link_1', 0);
+            expect(mockPersistence.markSynced).toHaveBeenCalledWith('link_1');
         });
 
         it('should use default days when no last sync date', async () => {
@@ -791,7 +806,7 @@ describe('AppleHealthProvider', () => {
 
                 expect(mockPersistence.ensureListAndCategoryForUser).toHaveBeenCalledWith(
                     mockUserId,
-                    'Health Metric',
+                    'Health',
                     expect.any(String)
                 );
             }
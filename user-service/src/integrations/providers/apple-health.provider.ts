@@ -1,9 +1,12 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { IntegrationProvider, IntegrationProviderName, ConnectResponse, CallbackPayload } from '../types';
+import { IntegrationAuthType, IntegrationCapabilities, IntegrationProvider, IntegrationProviderName, ConnectResponse, CallbackPayload } from '../types';
 import { IntegrationPersistence } from '../persistence';
+import { connectionWhere } from '../connection-scope';
+import { backfillDays, importsCategory } from '../sync-settings';
 import { PrismaService } from '@traeta/prisma';
 import { TokenStore } from '../token-store';
+import { OAuthStateService } from '../oauth-state';
 import {
     ConfigurationException,
     InvalidCallbackException,
@@ -62,8 +65,23 @@ interface AppleHealthSleep {
 }
 
 @Injectable()
+@IntegrationProvider(IntegrationProviderName.APPLE_HEALTH)
 export class AppleHealthProvider implements IntegrationProvider {
     public readonly name = IntegrationProviderName.APPLE_HEALTH;
+    public readonly capabilities: IntegrationCapabilities = {
+        authType: IntegrationAuthType.DEVICE_UPLOAD,
+        uploadEndpoint: process.env.APPLE_HEALTH_UPLOAD_ENDPOINT || '/integrations/apple_health/upload',
+        webhooks: false,
+        fileImport: false,
+        disconnect: true,
+        revoke: false,
+        multipleConnections: false,
+        dataTypes: ['workouts', 'healthMetrics', 'steps', 'heartRate', 'sleep'],
+        lists: [
+            { list: 'Health', categories: ['Steps', 'Heart Rate', 'Sleep', 'Weight', 'Height', 'BMI', 'Body Fat', 'Lean Body Mass', 'Resting Heart Rate', 'VO2 Max', 'Blood Pressure', 'Other Health Metric'] },
+            { list: 'Activity', categories: ['Run', 'Bike', 'Swim', 'Walk', 'Hike', 'Strength', 'Yoga', 'Tennis', 'Soccer', 'Basketball', 'Golf', 'Dance', 'Other'] },
+        ],
+    };
     private readonly logger = new Logger(AppleHealthProvider.name);
 
     constructor(
@@ -71,11 +89,12 @@ export class AppleHealthProvider implements IntegrationProvider {
         private readonly persistence: IntegrationPersistence,
         private readonly tokens: TokenStore,
         private readonly configService: ConfigService,
+        private readonly oauthState: OAuthStateService,
     ) { }
 
     private getDefaultDays(): number {
         const days = this.configService.get<string>('APPLE_HEALTH_DEFAULT_DAYS');
-        return days ? Number(days) : 30;
+        return backfillDays(days ? Number(days) : 30);
     }
 
     private getUploadEndpoint(): string | undefined {
@@ -95,7 +114,7 @@ export class AppleHealthProvider implements IntegrationProvider {
 
             // Apple Health uses device-based authorization
             // We generate a session token for secure data upload from the iOS app
-            const state = `apple-health-${userId}-${Date.now()}`;
+            const { state } = await this.oauthState.issue(this.name, userId);
 
             // Create a temporary upload token for the mobile app to use
             const uploadToken = this.generateUploadToken(userId);
@@ -141,24 +160,8 @@ export class AppleHealthProvider implements IntegrationProvider {
             );
         }
 
-        // Extract userId from state format: "apple-health-<userId>-<ts>"
-        // Remove "apple-health-" prefix and "-<timestamp>" suffix
-        if (!state.startsWith('apple-health-')) {
-            throw new InvalidCallbackException(
-                IntegrationProviderName.APPLE_HEALTH,
-                'Invalid state format: unable to extract userId'
-            );
-        }
-
-        const stateWithoutPrefix = state.replace(/^apple-health-/, '');
-        const lastDashIndex = stateWithoutPrefix.lastIndexOf('-');
-        const userId = lastDashIndex > 0 ? stateWithoutPrefix.substring(0, lastDashIndex) : stateWithoutPrefix;
-        if (!userId) {
-            throw new InvalidCallbackException(
-                IntegrationProviderName.APPLE_HEALTH,
-                'Invalid state format: unable to extract userId'
-            );
-        }
+        // Verifies the signature and expiry, and rejects replays
+        const { userId } = await this.oauthState.consume(this.name, state);
 
         // Verify upload token
         const storedToken = await this.tokens.get(userId, 'apple_health');
@@ -203,7 +206,7 @@ export class AppleHealthProvider implements IntegrationProvider {
             // In a real implementation, you might check for uploaded files or queued data
 
             const link = await this.db.userIntegrations.findFirst({
-                where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD },
+                where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...connectionWhere() },
             });
 
             if (link) {
@@ -237,7 +240,7 @@ export class AppleHealthProvider implements IntegrationProvider {
     async status(userId: string): Promise<{ connected: boolean; lastSyncedAt?: Date | null; details?: any }> {
         const integration = await this.persistence.ensureIntegration('apple_health');
         const link = await this.db.userIntegrations.findFirst({
-            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD },
+            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...connectionWhere() },
         });
 
         const history = link
@@ -299,7 +302,7 @@ export class AppleHealthProvider implements IntegrationProvider {
 
             // Now mark as synced
             const link = await this.db.userIntegrations.findFirst({
-                where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD },
+                where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...connectionWhere() },
             });
 
             if (link) {
@@ -360,6 +363,7 @@ export class AppleHealthProvider implements IntegrationProvider {
     private async processWorkouts(userId: string, workouts: AppleHealthWorkout[]): Promise<void> {
         for (const workout of workouts) {
             const categoryName = this.mapWorkoutType(workout.workoutType);
+            if (!importsCategory(categoryName)) continue;
             const { list, userList, category } = await this.persistence.ensureListAndCategoryForUser(userId, 'Activity', categoryName);
 
             const startTime = new Date(workout.startDate);
@@ -404,6 +408,7 @@ export class AppleHealthProvider implements IntegrationProvider {
     private async processHealthMetrics(userId: string, metrics: AppleHealthMetric[]): Promise<void> {
         for (const metric of metrics) {
             const categoryName = this.mapMetricType(metric.type);
+            if (!importsCategory(categoryName)) continue;
             const { list, userList, category } = await this.persistence.ensureListAndCategoryForUser(userId, 'Health', categoryName);
 
             await this.persistence.createListItem(
@@ -437,6 +442,7 @@ export class AppleHealthProvider implements IntegrationProvider {
     }
 
     private async processStepsData(userId: string, stepsData: AppleHealthSteps[]): Promise<void> {
+        if (!importsCategory('Steps')) return;
         for (const steps of stepsData) {
             const { list, userList, category } = await this.persistence.ensureListAndCategoryForUser(userId, 'Health', 'Steps');
 
@@ -471,6 +477,7 @@ export class AppleHealthProvider implements IntegrationProvider {
     private async processHeartRateData(userId: string, heartRateData: AppleHealthHeartRate[]): Promise<void> {
         for (const hr of heartRateData) {
             const categoryName = hr.context ? `Heart Rate (${hr.context})` : 'Heart Rate';
+            if (!importsCategory(categoryName)) continue;
             const { list, userList, category } = await this.persistence.ensureListAndCategoryForUser(userId, 'Health', categoryName);
 
             await this.persistence.createListItem(
@@ -504,6 +511,7 @@ export class AppleHealthProvider implements IntegrationProvider {
     private async processSleepData(userId: string, sleepData: AppleHealthSleep[]): Promise<void> {
         for (const sleep of sleepData) {
             const categoryName = `Sleep (${sleep.value})`;
+            if (!importsCategory(categoryName)) continue;
             const { list, userList, category } = await this.persistence.ensureListAndCategoryForUser(userId, 'Health', categoryName);
 
             const startTime = new Date(sleep.startDate);
@@ -587,7 +595,7 @@ export class AppleHealthProvider implements IntegrationProvider {
         // Mark user integration as disconnected
         const integration = await this.persistence.ensureIntegration('apple_health');
         const link = await this.db.userIntegrations.findFirst({
-            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD },
+            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...connectionWhere() },
         });
 
         if (link) {
@@ -3,6 +3,7 @@ import { AppleMusicProvider } from './apple-music.provider';
 import { PrismaService } from '@traeta/prisma';
 import { IntegrationPersistence } from '../persistence';
 import { TokenStore } from '../token-store';
+import { OAuthStateService } from '../oauth-state';
 import { Logger } from '@nestjs/common';
 import axios from 'axios';
 import {
@@ -15,10 +16,21 @@ import {
     ProviderAPIException,
     RateLimitException,
 } from '../exceptions/integration.exceptions';
+import { ProviderHttpClient } from '../provider-http-client';
+import { IntegrationSandbox } from '../integration-sandbox';
+import { ConfigService } from '@nestjs/config';
 
 jest.mock('axios');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
 
+// Error mapping only; retries, rate limiting and the circuit breaker are covered in provider-http-client.spec.ts
+const httpConfig = new ConfigService({
+    PROVIDER_HTTP_MAX_RETRIES: '0',
+    PROVIDER_CIRCUIT_THRESHOLD: '1000',
+    PROVIDER_RATE_LIMIT_APPLE_MUSIC: '1000/1',
+});
+const httpClient = new ProviderHttpClient(httpConfig, new IntegrationSandbox(httpConfig));
+
 describe('AppleMusicProvider', () => {
     let provider: AppleMusicProvider;
     let mockPrismaService: jest.Mocked<PrismaService>;
@@ -26,6 +38,17 @@ describe('AppleMusicProvider', () => {
     let mockTokenStore: jest.Mocked<TokenStore>;
 
     const mockUserId = 'user123';
+
+    // Signed state handling is covered in oauth-state.spec.ts; only mockState is accepted here
+    const mockOAuthState = {
+        issue: jest.fn().mockResolvedValue({ state: 'signed-state' }),
+        consume: jest.fn().mockImplementation(async (provider: string, state: string) => {
+            if (state !== 'signed-state') {
+                throw new InvalidCallbackException(provider, 'Invalid state signature');
+            }
+            return { userId: mockUserId };
+        }),
+    };
     const mockIntegration = {
         integrationId: 'apple_music_integration_id',
         recSeq: 0,
@@ -127,7 +150,7 @@ describe('AppleMusicProvider', () => {
         },
     };
 
-    beforeAll(async () => {
+    beforeEach(async () => {
         // Create mocks
         mockPrismaService = {
             userIntegrations: {
@@ -182,8 +205,11 @@ S7nFd4o4E1K8X2vHj9+9sFLz6rN8P4g4VjgMwYN5a8X3R2H9pqDc2s7z
             providers: [
                 AppleMusicProvider,
                 { provide: PrismaService, useValue: mockPrismaService },
+                { provide: ConfigService, useValue: new ConfigService() },
+                { provide: ProviderHttpClient, useValue: httpClient },
                 { provide: IntegrationPersistence, useValue: mockPersistence },
                 { provide: TokenStore, useValue: mockTokenStore },
+                { provide: OAuthStateService, useValue: mockOAuthState },
             ],
         }).compile();
 
@@ -207,7 +233,7 @@ S7nFd4o4E1K8X2vHj9+9sFLz6rN8P4g4VjgMwYN5a8X3R2H9pqDc2s7z
         mockTokenStore.get.mockResolvedValue(mockToken);
     });
 
-    afterAll(() => {
+    afterEach(() => {
         jest.clearAllMocks();
     });
 
@@ -218,16 +244,16 @@ S7nFd4o4E1K8X2vHj9+9sFLz6rN8P4g4VjgMwYN5a8X3R2H9pqDc2s7z
             expect(result.redirectUrl).toContain('https://authorize.music.apple.com/woa');
             expect(result.redirectUrl).toContain('app_name=Traeta');
             expect(result.redirectUrl).toContain('developer_token=');
-            expect(result.state).toContain(`apple-music-${mockUserId}`);
+            expect(result.state).toBe('signed-state');
+            expect(mockOAuthState.issue).toHaveBeenCalledWith('apple_music', mockUserId);
             expect(mockPersistence.ensureIntegration).toHaveBeenCalledWith('apple_music');
         });
 
         it('should throw ConfigurationException when TEAM_ID is missing', async () => {
             process.env.APPLE_MUSIC_TEAM_ID = '';
-            const newProvider = new AppleMusicProvider(mockPrismaService, mockPersistence, mockTokenStore);
 
-            await expect(newProvider.createConnection(mockUserId)).rejects.toThrow(ConfigurationException);
-            await expect(newProvider.createConnection(mockUserId)).rejects.toThrow(
+            await expect(provider.createConnection(mockUserId)).rejects.toThrow(ConfigurationException);
+            await expect(provider.createConnection(mockUserId)).rejects.toThrow(
                 'Apple Music credentials are not configured'
             );
 
@@ -237,9 +263,8 @@ S7nFd4o4E1K8X2vHj9+9sFLz6rN8P4g4VjgMwYN5a8X3R2H9pqDc2s7z
 
         it('should throw ConfigurationException when KEY_ID is missing', async () => {
             process.env.APPLE_MUSIC_KEY_ID = '';
-            const newProvider = new AppleMusicProvider(mockPrismaService, mockPersistence, mockTokenStore);
 
-            await expect(newProvider.createConnection(mockUserId)).rejects.toThrow(ConfigurationException);
+            await expect(provider.createConnection(mockUserId)).rejects.toThrow(ConfigurationException);
 
             // Restore for other tests
             process.env.APPLE_MUSIC_KEY_ID = 'test_key_id';
@@ -247,22 +272,22 @@ S7nFd4o4E1K8X2vHj9+9sFLz6rN8P4g4VjgMwYN5a8X3R2H9pqDc2s7z
 
         it('should throw ConfigurationException when PRIVATE_KEY is missing', async () => {
             process.env.APPLE_MUSIC_PRIVATE_KEY = '';
-            const newProvider = new AppleMusicProvider(mockPrismaService, mockPersistence, mockTokenStore);
 
-            await expect(newProvider.createConnection(mockUserId)).rejects.toThrow(ConfigurationException);
+            await expect(provider.createConnection(mockUserId)).rejects.toThrow(ConfigurationException);
 
             // Restore for other tests
             process.env.APPLE_MUSIC_PRIVATE_KEY = 'test_private_key';
         });
 
-        it('should throw ConfigurationException when REDIRECT_URI is missing', async () => {
-            process.env.APPLE_MUSIC_REDIRECT_URI = '';
-            const newProvider = new AppleMusicProvider(mockPrismaService, mockPersistence, mockTokenStore);
+        it('should use APPLE_MUSIC_CALLBACK_URL as the app URL when configured', async () => {
+            process.env.APPLE_MUSIC_CALLBACK_URL = 'https://traeta.com/integrations/apple_music/callback';
+
+            const result = await provider.createConnection(mockUserId);
 
-            await expect(newProvider.createConnection(mockUserId)).rejects.toThrow(ConfigurationException);
+            expect(result.redirectUrl).toContain('app_url=https%3A%2F%2Ftraeta.com%2Fintegrations%2Fapple_music%2Fcallback');
 
             // Restore for other tests
-            process.env.APPLE_MUSIC_REDIRECT_URI = 'http://localhost:3000/callback';
+            delete process.env.APPLE_MUSIC_CALLBACK_URL;
         });
 
         it('should include correct MusicKit parameters in redirect URL', async () => {
@@ -270,13 +295,13 @@ S7nFd4o4E1K8X2vHj9+9sFLz6rN8P4g4VjgMwYN5a8X3R2H9pqDc2s7z
 
             expect(result.redirectUrl).toContain('developer_token=mocked_developer_token');
             expect(result.redirectUrl).toContain('app_name=Traeta');
-            expect(result.redirectUrl).toContain('app_url=https%3A%2F%2Ftraeta.com');
+            expect(result.redirectUrl).toContain('app_url=myapp%3A%2F%2Fintegrations%2Fapple_music%2Fcallback');
         });
     });
 
     describe('handleCallback', () => {
         const mockCode = 'auth_code_123';
-        const mockState = `apple-music-${mockUserId}-${Date.now()}`;
+        const mockState = 'signed-state';
         const mockTokenResponse = {
             data: {
                 access_token: 'access_token_123',
@@ -287,7 +312,7 @@ S7nFd4o4E1K8X2vHj9+9sFLz6rN8P4g4VjgMwYN5a8X3R2H9pqDc2s7z
             },
         };
 
-        beforeAll(() => {
+        beforeEach(() => {
             mockedAxios.post.mockResolvedValue(mockTokenResponse);
             mockedAxios.get.mockResolvedValue(mockPlaylistsResponse);
         });
@@ -329,32 +354,14 @@ S7nFd4o4E1K8X2vHj9+9sFLz6rN8P4g4VjgMwYN5a8X3R2H9pqDc2s7z
             );
         });
 
-        it('should throw InvalidCallbackException with invalid state prefix', async () => {
-            await expect(
-                provider.handleCallback({ code: mockCode, state: 'invalid-prefix-user123-123456' })
-            ).rejects.toThrow(InvalidCallbackException);
-            await expect(
-                provider.handleCallback({ code: mockCode, state: 'invalid-prefix-user123-123456' })
-            ).rejects.toThrow("Invalid state prefix");
-        });
-
-        it('should handle state format without timestamp (legacy support)', async () => {
-            // This should work because it can extract userId='user123' even without timestamp
+        it('should throw InvalidCallbackException when the state is not valid', async () => {
             const mockMusicUserToken = 'mock_music_user_token';
-
             await expect(
                 provider.handleCallback({ music_user_token: mockMusicUserToken, state: 'apple-music-user123' })
-            ).resolves.not.toThrow();
-        });
-
-        it('should throw InvalidCallbackException when userId is missing in state', async () => {
-            const mockMusicUserToken = 'mock_music_user_token';
-            await expect(
-                provider.handleCallback({ music_user_token: mockMusicUserToken, state: `apple-music--${Date.now()}` })
             ).rejects.toThrow(InvalidCallbackException);
             await expect(
-                provider.handleCallback({ music_user_token: mockMusicUserToken, state: `apple-music--${Date.now()}` })
-            ).rejects.toThrow('unable to extract userId');
+                provider.handleCallback({ music_user_token: mockMusicUserToken, state: `apple-music-user123-${Date.now()}` })
+            ).rejects.toThrow('Invalid state signature');
         });
 
         it('should throw InvalidCallbackException when only code is provided (music_user_token required)', async () => {
@@ -375,7 +382,7 @@ S7nFd4o4E1K8X2vHj9+9sFLz6rN8P4g4VjgMwYN5a8X3R2H9pqDc2s7z
     });
 
     describe('sync', () => {
-        beforeAll(() => {
+        beforeEach(() => {
             mockPersistence.getLastSyncedAt.mockResolvedValue(null);
             (mockPrismaService.userIntegrations.findFirst as jest.Mock).mockResolvedValue({
                 userIntegrationId: 'link_1',
@@ -398,10 +405,7 @@ S7nFd4o4E1K8X2vHj9+9sFLz6rN8P4g4VjgMwYN5a8X3R2H9pqDc2s7z
             expect(result.syncedAt).toBeDefined();
             expect(result.details.totalItems).toBeGreaterThan(0);
 
-            expect(mockPersistence.markSynced).toHaveBeenCalledWith(
-                'link_1',
-                0
-            );
+            expect(mockPersistence.markSynced).toHaveBeenCalledWith('link_1');
         });
 
         it('should throw InvalidTokenException when token is missing', async () => {
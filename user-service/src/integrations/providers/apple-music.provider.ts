@@ -1,11 +1,14 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { IntegrationProvider, IntegrationProviderName, ConnectResponse, CallbackPayload } from '../types';
+import { IntegrationAuthType, IntegrationCapabilities, IntegrationProvider, IntegrationProviderName, ConnectResponse, CallbackPayload } from '../types';
 import { URLSearchParams } from 'url';
 import { IntegrationPersistence } from '../persistence';
+import { connectionWhere } from '../connection-scope';
+import { backfillDays, importsCategory } from '../sync-settings';
 import { PrismaService } from '@traeta/prisma';
 import { TokenStore } from '../token-store';
-import axios from 'axios';
+import { OAuthStateService } from '../oauth-state';
+import { ProviderHttpClient } from '../provider-http-client';
 import * as jwt from 'jsonwebtoken';
 import {
     ConfigurationException,
@@ -95,8 +98,22 @@ interface AppleMusicPlaylist {
 }
 
 @Injectable()
+@IntegrationProvider(IntegrationProviderName.APPLE_MUSIC)
 export class AppleMusicProvider implements IntegrationProvider {
     public readonly name = IntegrationProviderName.APPLE_MUSIC;
+    public readonly capabilities: IntegrationCapabilities = {
+        authType: IntegrationAuthType.OAUTH,
+        authorizationUrl: 'https://authorize.music.apple.com/woa',
+        webhooks: false,
+        fileImport: false,
+        disconnect: true,
+        revoke: false,
+        multipleConnections: false,
+        dataTypes: ['recentlyPlayed', 'librarySongs', 'playlists'],
+        lists: [
+            { list: 'Music', categories: ['Recently Played', 'Library', 'Playlists'] },
+        ],
+    };
     private readonly logger = new Logger(AppleMusicProvider.name);
 
     constructor(
@@ -104,6 +121,8 @@ export class AppleMusicProvider implements IntegrationProvider {
         private readonly persistence: IntegrationPersistence,
         private readonly tokens: TokenStore,
         private readonly configService: ConfigService,
+        private readonly oauthState: OAuthStateService,
+        private readonly http: ProviderHttpClient,
     ) { }
 
     private getTeamId(): string {
@@ -124,7 +143,7 @@ export class AppleMusicProvider implements IntegrationProvider {
 
     private getDefaultDays(): number {
         const days = this.configService.get<string>('APPLE_MUSIC_DEFAULT_DAYS');
-        return days ? Number(days) : 30;
+        return backfillDays(days ? Number(days) : 30);
     }
 
     private getUseMockData(): boolean {
@@ -169,7 +188,7 @@ export class AppleMusicProvider implements IntegrationProvider {
 
             // Apple Music uses MusicKit JS for web authorization
             // For mobile apps, it uses the native MusicKit framework
-            const state = `apple-music-${userId}-${Date.now()}`;
+            const { state } = await this.oauthState.issue(this.name, userId);
 
             // Generate developer token for Apple Music API
             const developerToken = this.generateDeveloperToken();
@@ -223,28 +242,6 @@ export class AppleMusicProvider implements IntegrationProvider {
             );
         }
 
-        // Check if state has valid prefix
-        if (!state.startsWith('apple-music-')) {
-            throw new InvalidCallbackException(
-                IntegrationProviderName.APPLE_MUSIC,
-                'Invalid state prefix'
-            );
-        }
-
-        // Extract userId from state format: "apple-music-<userId>-<ts>" or "apple-music-<userId>"
-        // Remove "apple-music-" prefix and "-<timestamp>" suffix if present
-        const stateWithoutPrefix = state.replace(/^apple-music-/, '');
-        const lastDashIndex = stateWithoutPrefix.lastIndexOf('-');
-        const userId = lastDashIndex > 0 ? stateWithoutPrefix.substring(0, lastDashIndex) : stateWithoutPrefix;
-
-        // Check if userId is empty or invalid (starts with dash, which means missing userId)
-        if (!userId || userId.startsWith('-')) {
-            throw new InvalidCallbackException(
-                IntegrationProviderName.APPLE_MUSIC,
-                'Invalid state format: unable to extract userId'
-            );
-        }
-
         // Apple Music requires music_user_token, not traditional OAuth code exchange
         if (!music_user_token) {
             throw new InvalidCallbackException(
@@ -253,6 +250,9 @@ export class AppleMusicProvider implements IntegrationProvider {
             );
         }
 
+        // Verifies the signature and expiry, and rejects replays
+        const { userId } = await this.oauthState.consume(this.name, state);
+
         // Store the music user token
         await this.tokens.set(userId, 'apple_music', {
             accessToken: music_user_token,
@@ -288,22 +288,26 @@ export class AppleMusicProvider implements IntegrationProvider {
 
             let totalItems = 0;
 
-            // Sync recently played tracks
-            const recentlyPlayed = await this.fetchRecentlyPlayed(userToken.accessToken, developerToken, sinceDate);
+            // Sync recently played tracks; sections the user does not import are not fetched
+            const recentlyPlayed = importsCategory('Recently Played')
+                ? await this.fetchRecentlyPlayed(userToken.accessToken, developerToken, sinceDate)
+                : [];
             if (recentlyPlayed.length > 0) {
                 await this.processRecentlyPlayed(userId, recentlyPlayed);
                 totalItems += recentlyPlayed.length;
             }
 
             // Sync library songs
-            const librarySongs = await this.fetchLibrarySongs(userToken.accessToken, developerToken, sinceDate);
+            const librarySongs = importsCategory('Library')
+                ? await this.fetchLibrarySongs(userToken.accessToken, developerToken, sinceDate)
+                : [];
             if (librarySongs.length > 0) {
                 await this.processLibrarySongs(userId, librarySongs);
                 totalItems += librarySongs.length;
             }
 
             // Sync playlists
-            const playlists = await this.fetchPlaylists(userToken.accessToken, developerToken);
+            const playlists = importsCategory('Playlists') ? await this.fetchPlaylists(userToken.accessToken, developerToken) : [];
             if (playlists.length > 0) {
                 await this.processPlaylists(userId, playlists);
                 totalItems += playlists.length;
@@ -311,7 +315,7 @@ export class AppleMusicProvider implements IntegrationProvider {
 
             // Mark as synced
             const link = await this.db.userIntegrations.findFirst({
-                where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD },
+                where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...connectionWhere() },
             });
 
             if (link) {
@@ -340,31 +344,6 @@ export class AppleMusicProvider implements IntegrationProvider {
                 throw error;
             }
 
-            // Handle Axios errors from Apple Music API
-            if (axios.isAxiosError(error)) {
-                const status = error.response?.status;
-                const message = error.response?.data?.errors?.[0]?.detail || error.message;
-
-                if (status === 429) {
-                    throw new RateLimitException(
-                        IntegrationProviderName.APPLE_MUSIC,
-                        error.response?.headers['retry-after']
-                    );
-                }
-
-                if (status === 401 || status === 403) {
-                    throw new InvalidTokenException(
-                        IntegrationProviderName.APPLE_MUSIC
-                    );
-                }
-
-                throw new ProviderAPIException(
-                    IntegrationProviderName.APPLE_MUSIC,
-                    `Apple Music API error: ${message}`,
-                    status ? `Status code: ${status}` : undefined
-                );
-            }
-
             // Generic sync error
             throw new DataSyncException(
                 IntegrationProviderName.APPLE_MUSIC,
@@ -376,7 +355,7 @@ export class AppleMusicProvider implements IntegrationProvider {
     async status(userId: string): Promise<{ connected: boolean; lastSyncedAt?: Date | null; details?: any }> {
         const integration = await this.persistence.ensureIntegration('apple_music');
         const link = await this.db.userIntegrations.findFirst({
-            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD },
+            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...connectionWhere() },
         });
 
         const history = link
@@ -440,7 +419,8 @@ export class AppleMusicProvider implements IntegrationProvider {
         }
 
         try {
-            const response = await axios.get('https://api.music.apple.com/v1/me/recent/played/tracks', {
+            const response = await this.http.get(this.name, 'https://api.music.apple.com/v1/me/recent/played/tracks', {
+                operation: 'Fetch recently played',
                 headers: {
                     'Authorization': `Bearer ${devToken}`,
                     'Music-User-Token': userToken,
@@ -459,14 +439,10 @@ export class AppleMusicProvider implements IntegrationProvider {
             });
 
         } catch (error) {
-            // Check if it's an authentication error
-            if (error.response?.status === 403 || error.response?.status === 401) {
-                const errorDetail = error.response?.data?.errors?.[0];
-                const errorMessage = errorDetail
-                    ? `${errorDetail.title}: ${errorDetail.detail}`
-                    : 'Invalid authentication';
-                this.logger.error(`Authentication failed for recently played tracks: ${errorMessage}`);
-                throw new Error(`Apple Music authentication failed: ${errorMessage}`);
+            // An expired or revoked Music-User-Token fails the whole sync
+            if (error instanceof InvalidTokenException) {
+                this.logger.error(`Authentication failed for recently played tracks`);
+                throw error;
             }
 
             // For other errors, log and return empty array
@@ -484,7 +460,8 @@ export class AppleMusicProvider implements IntegrationProvider {
         }
 
         try {
-            const response = await axios.get('https://api.music.apple.com/v1/me/library/songs', {
+            const response = await this.http.get(this.name, 'https://api.music.apple.com/v1/me/library/songs', {
+                operation: 'Fetch library songs',
                 headers: {
                     'Authorization': `Bearer ${devToken}`,
                     'Music-User-Token': userToken,
@@ -503,14 +480,10 @@ export class AppleMusicProvider implements IntegrationProvider {
             });
 
         } catch (error) {
-            // Check if it's an authentication error
-            if (error.response?.status === 403 || error.response?.status === 401) {
-                const errorDetail = error.response?.data?.errors?.[0];
-                const errorMessage = errorDetail
-                    ? `${errorDetail.title}: ${errorDetail.detail}`
-                    : 'Invalid authentication';
-                this.logger.error(`Authentication failed for library songs: ${errorMessage}`);
-                throw new Error(`Apple Music authentication failed: ${errorMessage}`);
+            // An expired or revoked Music-User-Token fails the whole sync
+            if (error instanceof InvalidTokenException) {
+                this.logger.error(`Authentication failed for library songs`);
+                throw error;
             }
 
             // For other errors, log and return empty array
@@ -528,7 +501,8 @@ export class AppleMusicProvider implements IntegrationProvider {
         }
 
         try {
-            const response = await axios.get('https://api.music.apple.com/v1/me/library/playlists', {
+            const response = await this.http.get(this.name, 'https://api.music.apple.com/v1/me/library/playlists', {
+                operation: 'Fetch playlists',
                 headers: {
                     'Authorization': `Bearer ${devToken}`,
                     'Music-User-Token': userToken,
@@ -542,14 +516,10 @@ export class AppleMusicProvider implements IntegrationProvider {
             return response.data.data || [];
 
         } catch (error) {
-            // Check if it's an authentication error
-            if (error.response?.status === 403 || error.response?.status === 401) {
-                const errorDetail = error.response?.data?.errors?.[0];
-                const errorMessage = errorDetail
-                    ? `${errorDetail.title}: ${errorDetail.detail}`
-                    : 'Invalid authentication';
-                this.logger.error(`Authentication failed for playlists: ${errorMessage}`);
-                throw new Error(`Apple Music authentication failed: ${errorMessage}`);
+            // An expired or revoked Music-User-Token fails the whole sync
+            if (error instanceof InvalidTokenException) {
+                this.logger.error(`Authentication failed for playlists`);
+                throw error;
             }
 
             // For other errors, log and return empty array
@@ -3,6 +3,9 @@ import { ContactListProvider } from './contact-list.provider';
 import { PrismaService } from '@traeta/prisma';
 import { IntegrationPersistence } from '../persistence';
 import { TokenStore } from '../token-store';
+import { OAuthStateService } from '../oauth-state';
+import { IntegrationSandbox } from '../integration-sandbox';
+import { ConfigService } from '@nestjs/config';
 import { Logger } from '@nestjs/common';
 import { google } from 'googleapis';
 import {
@@ -29,6 +32,17 @@ describe('ContactListProvider', () => {
     let mockPeopleApi: any;
 
     const mockUserId = 'user123';
+
+    // Signed state handling is covered in oauth-state.spec.ts; only mockState is accepted here
+    const mockOAuthState = {
+        issue: jest.fn().mockResolvedValue({ state: 'signed-state' }),
+        consume: jest.fn().mockImplementation(async (provider: string, state: string) => {
+            if (state !== 'signed-state') {
+                throw new InvalidCallbackException(provider, 'Invalid state signature');
+            }
+            return { userId: mockUserId };
+        }),
+    };
     const mockIntegration = {
         integrationId: 'contact_list_integration_id',
         recSeq: 0,
@@ -42,7 +56,7 @@ describe('ContactListProvider', () => {
         modifiedBy: null,
     };
 
-    beforeAll(async () => {
+    beforeEach(async () => {
         // Create mocks
         mockPrismaService = {
             userIntegrations: {
@@ -108,8 +122,11 @@ describe('ContactListProvider', () => {
             providers: [
                 ContactListProvider,
                 { provide: PrismaService, useValue: mockPrismaService },
+                { provide: ConfigService, useValue: new ConfigService() },
+                { provide: IntegrationSandbox, useValue: new IntegrationSandbox(new ConfigService()) },
                 { provide: IntegrationPersistence, useValue: mockPersistence },
                 { provide: TokenStore, useValue: mockTokenStore },
+                { provide: OAuthStateService, useValue: mockOAuthState },
             ],
         }).compile();
 
@@ -129,14 +146,14 @@ describe('ContactListProvider', () => {
         });
     });
 
-    afterAll(() => {
+    afterEach(() => {
         jest.clearAllMocks();
     });
 
     describe('createConnection', () => {
         const mockAuthUrl = 'https://accounts.google.com/o/oauth2/v2/auth?client_id=test&scope=contacts';
 
-        beforeAll(() => {
+        beforeEach(() => {
             mockOAuth2Client.generateAuthUrl.mockReturnValue(mockAuthUrl);
         });
 
@@ -150,20 +167,22 @@ describe('ContactListProvider', () => {
                     'https://www.googleapis.com/auth/userinfo.profile',
                     'https://www.googleapis.com/auth/userinfo.email',
                 ],
-                state: expect.stringContaining(`contacts-${mockUserId}`),
+                state: 'signed-state',
                 prompt: 'consent',
+                code_challenge: undefined,
+                code_challenge_method: 'S256',
             });
             expect(result.redirectUrl).toBe(mockAuthUrl);
-            expect(result.state).toContain(`contacts-${mockUserId}`);
+            expect(result.state).toBe('signed-state');
+            expect(mockOAuthState.issue).toHaveBeenCalledWith('contact_list', mockUserId, { pkce: true });
             expect(mockPersistence.ensureIntegration).toHaveBeenCalledWith('contact_list');
         });
 
         it('should throw ConfigurationException when GOOGLE_CLIENT_ID is missing', async () => {
             process.env.GOOGLE_CLIENT_ID = '';
-            const newProvider = new ContactListProvider(mockPrismaService, mockPersistence, mockTokenStore);
 
-            await expect(newProvider.createConnection(mockUserId)).rejects.toThrow(ConfigurationException);
-            await expect(newProvider.createConnection(mockUserId)).rejects.toThrow(
+            await expect(provider.createConnection(mockUserId)).rejects.toThrow(ConfigurationException);
+            await expect(provider.createConnection(mockUserId)).rejects.toThrow(
                 'Missing required Google OAuth configuration (CLIENT_ID, CLIENT_SECRET, or REDIRECT_URI)'
             );
 
@@ -173,9 +192,8 @@ describe('ContactListProvider', () => {
 
         it('should throw ConfigurationException when GOOGLE_CLIENT_SECRET is missing', async () => {
             process.env.GOOGLE_CLIENT_SECRET = '';
-            const newProvider = new ContactListProvider(mockPrismaService, mockPersistence, mockTokenStore);
 
-            await expect(newProvider.createConnection(mockUserId)).rejects.toThrow(ConfigurationException);
+            await expect(provider.createConnection(mockUserId)).rejects.toThrow(ConfigurationException);
 
             // Restore for other tests
             process.env.GOOGLE_CLIENT_SECRET = 'test_google_client_secret';
@@ -184,7 +202,6 @@ describe('ContactListProvider', () => {
         it('should use default redirect URI when GOOGLE_REDIRECT_URI is missing', async () => {
             const originalRedirectUri = process.env.GOOGLE_REDIRECT_URI;
             process.env.GOOGLE_REDIRECT_URI = '';
-            const newProvider = new ContactListProvider(mockPrismaService, mockPersistence, mockTokenStore);
 
             // Mock the OAuth2 client for this specific test
             const mockOAuth2ForTest = {
@@ -192,7 +209,7 @@ describe('ContactListProvider', () => {
             };
             mockedGoogleOAuth2.mockImplementation(() => mockOAuth2ForTest);
 
-            const result = await newProvider.createConnection(mockUserId);
+            const result = await provider.createConnection(mockUserId);
 
             expect(result.redirectUrl).toContain('http%3A%2F%2Flocalhost%3A3000%2Fintegrations%2Fcontacts%2Fcallback');
 
@@ -248,7 +265,7 @@ describe('ContactListProvider', () => {
 
     describe('handleCallback', () => {
         const mockCode = 'auth_code_123';
-        const mockState = `contacts-${mockUserId}-${Date.now()}`;
+        const mockState = 'signed-state';
         const mockTokenResponse = {
             tokens: {
                 access_token: 'access_token_123',
@@ -266,7 +283,7 @@ describe('ContactListProvider', () => {
             },
         };
 
-        beforeAll(() => {
+        beforeEach(() => {
             mockOAuth2Client.getToken.mockResolvedValue(mockTokenResponse);
             jest.spyOn(provider, 'sync').mockResolvedValue({
                 ok: true,
@@ -279,7 +296,7 @@ describe('ContactListProvider', () => {
             it('should handle callback successfully with valid code and state', async () => {
                 await provider.handleCallback({ code: mockCode, state: mockState });
 
-                expect(mockOAuth2Client.getToken).toHaveBeenCalledWith(mockCode);
+                expect(mockOAuth2Client.getToken).toHaveBeenCalledWith({ code: mockCode, codeVerifier: undefined });
                 expect(mockTokenStore.set).toHaveBeenCalledWith(mockUserId, 'contact_list', {
                     accessToken: 'access_token_123',
                     refreshToken: 'refresh_token_123',
@@ -291,11 +308,10 @@ describe('ContactListProvider', () => {
                 );
             });
 
-            it('should handle callback without automatically triggering sync', async () => {
+            it('should trigger an initial sync after the callback', async () => {
                 await provider.handleCallback({ code: mockCode, state: mockState });
 
-                // The actual implementation does not automatically trigger sync
-                expect(provider.sync).not.toHaveBeenCalled();
+                expect(provider.sync).toHaveBeenCalledWith(mockUserId);
             });
 
 
@@ -346,28 +362,24 @@ describe('ContactListProvider', () => {
                 );
             });
 
-            it('should throw InvalidCallbackException with invalid state format', async () => {
-                // Test state that has wrong prefix but can still extract userId at index 1
-                await expect(
-                    provider.handleCallback({ code: mockCode, state: 'invalid-user123-123456' })
-                ).resolves.not.toThrow();
-
-                // Test state with no parts after splitting on '-'
+            it('should throw InvalidCallbackException when the state is not valid', async () => {
                 await expect(
-                    provider.handleCallback({ code: mockCode, state: 'invalid' })
+                    provider.handleCallback({ code: mockCode, state: `contacts-user123-${Date.now()}` })
                 ).rejects.toThrow(InvalidCallbackException);
                 await expect(
                     provider.handleCallback({ code: mockCode, state: 'invalid' })
-                ).rejects.toThrow('Invalid state format: unable to extract userId');
+                ).rejects.toThrow('Invalid state signature');
             });
 
-            it('should throw InvalidCallbackException when userId is missing in state', async () => {
-                await expect(
-                    provider.handleCallback({ code: mockCode, state: `contacts--${Date.now()}` })
-                ).rejects.toThrow(InvalidCallbackException);
-                await expect(
-                    provider.handleCallback({ code: mockCode, state: `contacts--${Date.now()}` })
-                ).rejects.toThrow('Invalid state format: unable to extract userId');
+            it('should send the PKCE code verifier with the token exchange', async () => {
+                mockOAuthState.consume.mockResolvedValueOnce({
+                    userId: mockUserId,
+                    pkceParams: { code_verifier: 'verifier_123' },
+                });
+
+                await provider.handleCallback({ code: mockCode, state: mockState });
+
+                expect(mockOAuth2Client.getToken).toHaveBeenCalledWith({ code: mockCode, codeVerifier: 'verifier_123' });
             });
         });
 
@@ -471,7 +483,7 @@ describe('ContactListProvider', () => {
             },
         };
 
-        beforeAll(() => {
+        beforeEach(() => {
             mockTokenStore.get.mockResolvedValue(mockTokenData);
             mockPeopleApi.people.connections.list.mockResolvedValue(mockContactsResponse);
             jest.spyOn(provider as any, 'parseGoogleContact').mockReturnValue({
@@ -701,7 +713,7 @@ describe('ContactListProvider', () => {
             syncedAt: new Date('2023-06-01'),
         };
 
-        beforeAll(() => {
+        beforeEach(() => {
             (mockPrismaService.userIntegrations.findFirst as jest.Mock).mockResolvedValue(mockUserIntegration as any);
             (mockPrismaService.userIntegrationHistory.findFirst as jest.Mock).mockResolvedValue(mockHistory as any);
         });
@@ -724,6 +736,7 @@ describe('ContactListProvider', () => {
                 connected: true,
                 lastSyncedAt: mockHistory.syncedAt,
                 details: {
+                    popularity: null,
                     hasToken: true,
                     status: 'CONNECTED',
                 },
@@ -1,10 +1,13 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { IntegrationProvider, IntegrationProviderName, ConnectResponse, CallbackPayload } from '../types';
+import { IntegrationAuthType, IntegrationCapabilities, IntegrationProvider, IntegrationProviderName, ConnectResponse, CallbackPayload } from '../types';
 import { IntegrationPersistence } from '../persistence';
+import { connectionWhere } from '../connection-scope';
 import { PrismaService } from '@traeta/prisma';
 import { TokenStore } from '../token-store';
-import { google } from 'googleapis';
+import { OAuthStateService } from '../oauth-state';
+import { IntegrationSandbox } from '../integration-sandbox';
+import { google, Auth } from 'googleapis';
 import {
     ConfigurationException,
     InvalidCallbackException,
@@ -95,8 +98,22 @@ interface ContactData {
 }
 
 @Injectable()
+@IntegrationProvider(IntegrationProviderName.CONTACT_LIST)
 export class ContactListProvider implements IntegrationProvider {
     public readonly name = IntegrationProviderName.CONTACT_LIST;
+    public readonly capabilities: IntegrationCapabilities = {
+        authType: IntegrationAuthType.OAUTH,
+        authorizationUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+        webhooks: false,
+        fileImport: false,
+        disconnect: true,
+        revoke: true,
+        multipleConnections: true,
+        dataTypes: ['contacts'],
+        lists: [
+            { list: 'Friends', categories: ['Contact'] },
+        ],
+    };
     private readonly logger = new Logger(ContactListProvider.name);
 
     constructor(
@@ -104,6 +121,8 @@ export class ContactListProvider implements IntegrationProvider {
         private readonly persistence: IntegrationPersistence,
         private readonly tokens: TokenStore,
         private readonly configService: ConfigService,
+        private readonly oauthState: OAuthStateService,
+        private readonly sandbox: IntegrationSandbox,
     ) { }
 
     private getGoogleClientId(): string {
@@ -119,6 +138,15 @@ export class ContactListProvider implements IntegrationProvider {
             'http://localhost:3000/integrations/contacts/callback';
     }
 
+    private createOAuthClient() {
+        return new google.auth.OAuth2({
+            clientId: this.getGoogleClientId(),
+            clientSecret: this.getGoogleClientSecret(),
+            redirectUri: this.getGoogleRedirectUri(),
+            transporterOptions: this.sandbox.gaxiosOptions(this.name),
+        });
+    }
+
     /**
      * Initiate Google Contacts OAuth flow
      */
@@ -136,13 +164,9 @@ export class ContactListProvider implements IntegrationProvider {
         }
 
         try {
-            const state = `contacts-${userId}-${Date.now()}`;
+            const { state, pkceParams } = await this.oauthState.issue(this.name, userId, { pkce: true });
 
-            const oauth2Client = new google.auth.OAuth2(
-                clientId,
-                clientSecret,
-                redirectUri
-            );
+            const oauth2Client = this.createOAuthClient();
 
             const scopes = [
                 'https://www.googleapis.com/auth/contacts.readonly',
@@ -154,7 +178,9 @@ export class ContactListProvider implements IntegrationProvider {
                 access_type: 'offline',
                 scope: scopes,
                 state: state,
-                prompt: 'consent'
+                prompt: 'consent',
+                code_challenge: pkceParams?.code_challenge,
+                code_challenge_method: Auth.CodeChallengeMethod.S256,
             });
 
             await this.persistence.ensureIntegration('contact_list');
@@ -198,24 +224,14 @@ export class ContactListProvider implements IntegrationProvider {
             );
         }
 
-        // Extract userId from state
-        const userId = state.split('-')[1];
-        if (!userId) {
-            throw new InvalidCallbackException(
-                IntegrationProviderName.CONTACT_LIST,
-                'Invalid state format: unable to extract userId'
-            );
-        }
+        // Verifies the signature and expiry, and rejects replays
+        const { userId, pkceParams } = await this.oauthState.consume(this.name, state);
 
         try {
-            const oauth2Client = new google.auth.OAuth2(
-                this.getGoogleClientId(),
-                this.getGoogleClientSecret(),
-                this.getGoogleRedirectUri()
-            );
+            const oauth2Client = this.createOAuthClient();
 
             // Exchange code for tokens
-            const { tokens } = await oauth2Client.getToken(code);
+            const { tokens } = await oauth2Client.getToken({ code, codeVerifier: pkceParams?.code_verifier });
 
             if (!tokens.access_token) {
                 throw new OAuthAuthenticationException(
@@ -291,11 +307,7 @@ export class ContactListProvider implements IntegrationProvider {
             }
 
             // Setup OAuth client
-            const oauth2Client = new google.auth.OAuth2(
-                this.getGoogleClientId(),
-                this.getGoogleClientSecret(),
-                this.getGoogleRedirectUri()
-            );
+            const oauth2Client = this.createOAuthClient();
 
             oauth2Client.setCredentials({
                 access_token: tokenData.accessToken,
@@ -335,6 +347,7 @@ export class ContactListProvider implements IntegrationProvider {
                     userRecSeq: REC_SEQ.DEFAULT_RECORD,
                     integrationId: integration.integrationId,
                     integrationRecSeq: REC_SEQ.DEFAULT_RECORD,
+                    ...connectionWhere(),
                     ...ACTIVE_CONDITION
                 },
             });
@@ -407,6 +420,7 @@ export class ContactListProvider implements IntegrationProvider {
                     userRecSeq: REC_SEQ.DEFAULT_RECORD,
                     integrationId: integration.integrationId,
                     integrationRecSeq: REC_SEQ.DEFAULT_RECORD,
+                    ...connectionWhere(),
                     ...ACTIVE_CONDITION
                 },
             });
@@ -586,11 +600,7 @@ export class ContactListProvider implements IntegrationProvider {
             if (tokens?.accessToken) {
                 // Revoke the token with Google
                 try {
-                    const oauth2Client = new google.auth.OAuth2(
-                        this.getGoogleClientId(),
-                        this.getGoogleClientSecret(),
-                        this.getGoogleRedirectUri()
-                    );
+                    const oauth2Client = this.createOAuthClient();
 
                     await oauth2Client.revokeToken(tokens.accessToken);
                     this.logger.log(`Successfully revoked Google Contacts token for user ${userId}`);
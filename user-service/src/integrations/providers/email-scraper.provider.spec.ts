@@ -3,6 +3,8 @@ import { EmailScraperProvider } from './email-scraper.provider';
 import { PrismaService } from '@traeta/prisma';
 import { IntegrationPersistence } from '../persistence';
 import { TokenStore } from '../token-store';
+import { CursorStore, InMemoryCursorStore } from '../cursor-store';
+import { OAuthStateService } from '../oauth-state';
 import { Logger } from '@nestjs/common';
 import axios from 'axios';
 import { google } from 'googleapis';
@@ -11,15 +13,27 @@ import {
     InvalidCallbackException,
     OAuthAuthenticationException,
     InvalidTokenException,
+    RefreshTokenException,
     DataSyncException,
     ProviderAPIException,
     RateLimitException,
 } from '../exceptions/integration.exceptions';
+import { ProviderHttpClient } from '../provider-http-client';
+import { IntegrationSandbox } from '../integration-sandbox';
+import { ConfigService } from '@nestjs/config';
 
 jest.mock('axios');
 jest.mock('googleapis');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
 
+// Error mapping only; retries, rate limiting and the circuit breaker are covered in provider-http-client.spec.ts
+const httpConfig = new ConfigService({
+    PROVIDER_HTTP_MAX_RETRIES: '0',
+    PROVIDER_CIRCUIT_THRESHOLD: '1000',
+    PROVIDER_RATE_LIMIT_EMAIL_SCRAPER: '1000/1',
+});
+const httpClient = new ProviderHttpClient(httpConfig, new IntegrationSandbox(httpConfig));
+
 describe('EmailScraperProvider', () => {
     let provider: EmailScraperProvider;
     let mockPrismaService: jest.Mocked<PrismaService>;
@@ -28,6 +42,17 @@ describe('EmailScraperProvider', () => {
     let mockGmailApi: any;
 
     const mockUserId = 'user123';
+
+    // Signed state handling is covered in oauth-state.spec.ts; only mockState is accepted here
+    const mockOAuthState = {
+        issue: jest.fn().mockResolvedValue({ state: 'signed-state' }),
+        consume: jest.fn().mockImplementation(async (provider: string, state: string) => {
+            if (state !== 'signed-state') {
+                throw new InvalidCallbackException(provider, 'Invalid state signature');
+            }
+            return { userId: mockUserId };
+        }),
+    };
     const mockIntegration = {
         integrationId: 'email_scraper_integration_id',
         recSeq: 0,
@@ -41,7 +66,7 @@ describe('EmailScraperProvider', () => {
         modifiedBy: null,
     };
 
-    beforeAll(async () => {
+    beforeEach(async () => {
         // Create mocks
         mockPrismaService = {
             userIntegrations: {
@@ -106,8 +131,13 @@ describe('EmailScraperProvider', () => {
             providers: [
                 EmailScraperProvider,
                 { provide: PrismaService, useValue: mockPrismaService },
+                { provide: ConfigService, useValue: new ConfigService() },
+                { provide: IntegrationSandbox, useValue: new IntegrationSandbox(httpConfig) },
+                { provide: ProviderHttpClient, useValue: httpClient },
                 { provide: IntegrationPersistence, useValue: mockPersistence },
                 { provide: TokenStore, useValue: mockTokenStore },
+                { provide: OAuthStateService, useValue: mockOAuthState },
+                { provide: CursorStore, useClass: InMemoryCursorStore },
             ],
         }).compile();
 
@@ -127,7 +157,7 @@ describe('EmailScraperProvider', () => {
         });
     });
 
-    afterAll(() => {
+    afterEach(() => {
         jest.clearAllMocks();
     });
 
@@ -141,7 +171,7 @@ describe('EmailScraperProvider', () => {
             expect(result.redirectUrl).toContain('scope=https%3A%2F%2Fmail.google.com%2F+openid+email+profile');
             expect(result.redirectUrl).toContain('access_type=offline');
             expect(result.redirectUrl).toContain('prompt=consent');
-            expect(result.state).toContain(`email-${mockUserId}`);
+            expect(result.state).toBe('signed-state');
             expect(mockPersistence.ensureIntegration).toHaveBeenCalledWith('email_scraper');
         });
 
@@ -152,10 +182,8 @@ describe('EmailScraperProvider', () => {
             delete process.env.GMAIL_CLIENT_ID;
             delete process.env.GOOGLE_CLIENT_ID;
 
-            const newProvider = new EmailScraperProvider(mockPrismaService, mockPersistence, mockTokenStore);
-
-            await expect(newProvider.createConnection(mockUserId)).rejects.toThrow(ConfigurationException);
-            await expect(newProvider.createConnection(mockUserId)).rejects.toThrow(
+            await expect(provider.createConnection(mockUserId)).rejects.toThrow(ConfigurationException);
+            await expect(provider.createConnection(mockUserId)).rejects.toThrow(
                 'Missing required Gmail OAuth configuration (CLIENT_ID, CLIENT_SECRET, or REDIRECT_URI)'
             );
 
@@ -171,9 +199,7 @@ describe('EmailScraperProvider', () => {
             delete process.env.GMAIL_CLIENT_SECRET;
             delete process.env.GOOGLE_CLIENT_SECRET;
 
-            const newProvider = new EmailScraperProvider(mockPrismaService, mockPersistence, mockTokenStore);
-
-            await expect(newProvider.createConnection(mockUserId)).rejects.toThrow(ConfigurationException);
+            await expect(provider.createConnection(mockUserId)).rejects.toThrow(ConfigurationException);
 
             // Restore for other tests
             process.env.GMAIL_CLIENT_SECRET = originalGmailSecret;
@@ -186,9 +212,7 @@ describe('EmailScraperProvider', () => {
 
             delete process.env.GMAIL_REDIRECT_URI;
             delete process.env.GOOGLE_REDIRECT_URI;
-
-            const newProvider = new EmailScraperProvider(mockPrismaService, mockPersistence, mockTokenStore);
-            const result = await newProvider.createConnection(mockUserId);
+            const result = await provider.createConnection(mockUserId);
 
             expect(result.redirectUrl).toContain('http%3A%2F%2Flocalhost%3A3000%2Fintegrations%2Fgmail%2Fcallback');
 
@@ -204,6 +228,20 @@ describe('EmailScraperProvider', () => {
             expect(result.redirectUrl).toContain('include_granted_scopes=true');
         });
 
+        it('should request a PKCE state and include the code challenge', async () => {
+            mockOAuthState.issue.mockResolvedValueOnce({
+                state: 'signed-state',
+                pkceParams: { code_challenge: 'challenge_123', code_challenge_method: 'S256' },
+            });
+
+            const result = await provider.createConnection(mockUserId);
+
+            expect(mockOAuthState.issue).toHaveBeenCalledWith('email_scraper', mockUserId, { pkce: true });
+            expect(result.state).toBe('signed-state');
+            expect(result.redirectUrl).toContain('code_challenge=challenge_123');
+            expect(result.redirectUrl).toContain('code_challenge_method=S256');
+        });
+
         it('should handle persistence errors during integration creation', async () => {
             mockPersistence.ensureIntegration.mockRejectedValue(new Error('DB error'));
 
@@ -223,7 +261,7 @@ describe('EmailScraperProvider', () => {
 
     describe('handleCallback', () => {
         const mockCode = 'auth_code_123';
-        const mockState = `email-${mockUserId}-${Date.now()}`;
+        const mockState = 'signed-state';
         const mockTokenResponse = {
             data: {
                 access_token: 'access_token_123',
@@ -237,7 +275,7 @@ describe('EmailScraperProvider', () => {
             name: 'Test User',
         };
 
-        beforeAll(() => {
+        beforeEach(() => {
             mockedAxios.post.mockResolvedValue(mockTokenResponse);
             jest.spyOn(provider as any, 'fetchUserProfile').mockResolvedValue(mockUserProfile);
             jest.spyOn(provider, 'sync').mockResolvedValue({
@@ -313,48 +351,29 @@ describe('EmailScraperProvider', () => {
                 );
             });
 
-            it('should extract userId from flexible state format', async () => {
-                const mockTokenResponse = {
-                    data: {
-                        access_token: 'new_access_token',
-                        refresh_token: 'new_refresh_token',
-                        expires_in: 3600,
-                        scope: 'https://www.googleapis.com/auth/gmail.readonly',
-                    },
-                };
-
-                mockedAxios.post.mockResolvedValue(mockTokenResponse);
-                mockedAxios.get.mockResolvedValue({ data: { email: 'user@example.com' } });
-
-                // Should work with the flexible parsing logic that extracts "invalid-prefix-user123" from "invalid-prefix-user123-123456"
+            it('should reject states that were not issued by the state service', async () => {
                 await expect(
-                    provider.handleCallback({ code: mockCode, state: 'invalid-prefix-user123-123456' })
-                ).resolves.not.toThrow();
+                    provider.handleCallback({ code: mockCode, state: 'email-user123-123456' })
+                ).rejects.toThrow(InvalidCallbackException);
+                await expect(
+                    provider.handleCallback({ code: mockCode, state: 'email-user123' })
+                ).rejects.toThrow('Invalid state signature');
             });
 
-            it('should handle edge cases in state parsing gracefully', async () => {
-                const mockTokenResponse = {
-                    data: {
-                        access_token: 'new_access_token',
-                        refresh_token: 'new_refresh_token',
-                        expires_in: 3600,
-                        scope: 'https://www.googleapis.com/auth/gmail.readonly',
-                    },
-                };
-
-                mockedAxios.post.mockResolvedValue(mockTokenResponse);
+            it('should send the PKCE code verifier with the token exchange', async () => {
+                mockedAxios.post.mockResolvedValue({
+                    data: { access_token: 'new_access_token', refresh_token: 'new_refresh_token', expires_in: 3600 },
+                });
                 mockedAxios.get.mockResolvedValue({ data: { email: 'user@example.com' } });
+                mockOAuthState.consume.mockResolvedValueOnce({
+                    userId: mockUserId,
+                    pkceParams: { code_verifier: 'verifier_123' },
+                });
 
-                // The implementation is flexible and can handle various state formats
-                await expect(
-                    provider.handleCallback({ code: mockCode, state: 'email--12345' })
-                ).resolves.not.toThrow();
-            });
+                await provider.handleCallback({ code: mockCode, state: mockState });
 
-            it('should handle state with single dash correctly', async () => {
-                await expect(
-                    provider.handleCallback({ code: mockCode, state: 'email-user123' })
-                ).resolves.not.toThrow();
+                const [, body] = mockedAxios.post.mock.calls[mockedAxios.post.mock.calls.length - 1];
+                expect((body as URLSearchParams).get('code_verifier')).toBe('verifier_123');
             });
         });
 
@@ -552,7 +571,7 @@ describe('EmailScraperProvider', () => {
         });
 
         describe('Token Refresh Errors', () => {
-            beforeAll(() => {
+            beforeEach(() => {
                 const expiredTokenData = {
                     ...mockTokenData,
                     expiresAt: Math.floor(Date.now() / 1000) - 60,
@@ -560,32 +579,33 @@ describe('EmailScraperProvider', () => {
                 mockTokenStore.get.mockResolvedValue(expiredTokenData);
             });
 
-            it('should throw InvalidTokenException on 400 refresh error', async () => {
+            it('should throw RefreshTokenException on 400 refresh error', async () => {
                 mockedAxios.post.mockRejectedValue({
                     response: { status: 400, data: { error: 'invalid_grant' } },
                 });
 
                 await expect(provider['ensureValidAccessToken'](mockUserId)).rejects.toThrow(
-                    InvalidTokenException
+                    RefreshTokenException
                 );
             });
 
-            it('should throw InvalidTokenException on 401 refresh error', async () => {
+            it('should throw RefreshTokenException on 401 refresh error', async () => {
                 mockedAxios.post.mockRejectedValue({
                     response: { status: 401, data: { error: 'unauthorized' } },
                 });
 
                 await expect(provider['ensureValidAccessToken'](mockUserId)).rejects.toThrow(
-                    InvalidTokenException
+                    RefreshTokenException
                 );
             });
 
-            it('should throw generic error for other HTTP status codes', async () => {
+            it('should throw ProviderAPIException for other HTTP status codes', async () => {
                 const serverError = new Error('Server Error') as any;
                 serverError.response = { status: 500, data: { error: 'internal_server_error' } };
                 mockedAxios.post.mockRejectedValue(serverError);
 
-                await expect(provider['ensureValidAccessToken'](mockUserId)).rejects.toThrow('Server Error');
+                await expect(provider['ensureValidAccessToken'](mockUserId)).rejects.toThrow(ProviderAPIException);
+                await expect(provider['ensureValidAccessToken'](mockUserId)).rejects.toThrow('HTTP 500: internal_server_error');
             });
 
             it('should throw generic error for network issues', async () => {
@@ -606,7 +626,7 @@ describe('EmailScraperProvider', () => {
             providerUserId: 'test@example.com',
         };
 
-        beforeAll(() => {
+        beforeEach(() => {
             jest.spyOn(provider as any, 'ensureValidAccessToken').mockResolvedValue('access_token_123');
             mockPersistence.getLastSyncedAt.mockResolvedValue(null);
             jest.spyOn(provider as any, 'fetchEmailsByQuery').mockResolvedValue([]);
@@ -728,20 +748,15 @@ describe('EmailScraperProvider', () => {
         describe('Configuration', () => {
             it('should use custom default days from environment', async () => {
                 process.env.GMAIL_DEFAULT_DAYS = '30';
-                const newProvider = new EmailScraperProvider(
-                    mockPrismaService,
-                    mockPersistence,
-                    mockTokenStore
-                );
-                jest.spyOn(newProvider as any, 'ensureValidAccessToken').mockResolvedValue('token');
-                jest.spyOn(newProvider as any, 'fetchEmailsByQuery').mockResolvedValue([]);
+                jest.spyOn(provider as any, 'ensureValidAccessToken').mockResolvedValue('token');
+                jest.spyOn(provider as any, 'fetchEmailsByQuery').mockResolvedValue([]);
                 mockPersistence.getLastSyncedAt.mockResolvedValue(null);
 
-                await newProvider.sync(mockUserId);
+                await provider.sync(mockUserId);
 
                 // Should use 30 days instead of default 90
                 const expectedDate = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
-                expect(newProvider['fetchEmailsByQuery']).toHaveBeenCalledWith(
+                expect(provider['fetchEmailsByQuery']).toHaveBeenCalledWith(
                     expect.anything(),
                     expect.anything(),
                     'in:inbox',
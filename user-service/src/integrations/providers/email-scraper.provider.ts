@@ -1,12 +1,17 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { IntegrationProvider, IntegrationProviderName, ConnectResponse, CallbackPayload } from '../types';
+import { IntegrationAuthType, IntegrationCapabilities, IntegrationProvider, IntegrationProviderName, ConnectResponse, CallbackPayload } from '../types';
 import { URLSearchParams } from 'url';
 import { IntegrationPersistence } from '../persistence';
+import { connectionWhere } from '../connection-scope';
+import { backfillDays, importsCategory } from '../sync-settings';
 import { PrismaService } from '@traeta/prisma';
-import { TokenStore } from '../token-store';
+import { OAuthTokens, TokenStore } from '../token-store';
+import { CursorStore } from '../cursor-store';
+import { OAuthStateService } from '../oauth-state';
+import { ProviderHttpClient, TOKEN_REFRESH_OPERATION, refreshStatusErrors } from '../provider-http-client';
+import { IntegrationSandbox } from '../integration-sandbox';
 import { google } from 'googleapis';
-import axios from 'axios';
 import {
     ConfigurationException,
     InvalidCallbackException,
@@ -79,8 +84,28 @@ interface EmailData {
 }
 
 @Injectable()
+@IntegrationProvider(IntegrationProviderName.EMAIL_SCRAPER)
 export class EmailScraperProvider implements IntegrationProvider {
     public readonly name = IntegrationProviderName.EMAIL_SCRAPER;
+    public readonly capabilities: IntegrationCapabilities = {
+        authType: IntegrationAuthType.OAUTH,
+        authorizationUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+        webhooks: false,
+        fileImport: false,
+        disconnect: true,
+        revoke: true,
+        multipleConnections: true,
+        dataTypes: ['emails'],
+        lists: [
+            { list: 'Email', categories: ['Bills & Utilities', 'Subscriptions & Memberships', 'Social Media', 'Work & Professional', 'Financial Transactions', 'Education & Learning', 'Other Emails'] },
+            { list: 'Travel', categories: ['Travel & Bookings'] },
+            { list: 'Food', categories: ['Food & Dining'] },
+            { list: 'Places', categories: ['Online Purchases'] },
+            { list: 'Transport', categories: ['Transportation'] },
+            { list: 'Health', categories: ['Health & Medical'] },
+            { list: 'Events', categories: ['Event Tickets'] },
+        ],
+    };
     private readonly logger = new Logger(EmailScraperProvider.name);
 
     constructor(
@@ -88,6 +113,10 @@ export class EmailScraperProvider implements IntegrationProvider {
         private readonly persistence: IntegrationPersistence,
         private readonly tokens: TokenStore,
         private readonly configService: ConfigService,
+        private readonly cursors: CursorStore,
+        private readonly oauthState: OAuthStateService,
+        private readonly http: ProviderHttpClient,
+        private readonly sandbox: IntegrationSandbox,
     ) { }
 
     private getGoogleClientId(): string {
@@ -108,7 +137,7 @@ export class EmailScraperProvider implements IntegrationProvider {
 
     private getDefaultDays(): number {
         const days = this.configService.get<string>('GMAIL_DEFAULT_DAYS');
-        return days ? Number(days) : 90;
+        return backfillDays(days ? Number(days) : 90);
     }
 
     async createConnection(userId: string): Promise<ConnectResponse> {
@@ -125,7 +154,7 @@ export class EmailScraperProvider implements IntegrationProvider {
         }
 
         try {
-            const state = `email-${userId}-${Date.now()}`;
+            const { state, pkceParams } = await this.oauthState.issue(this.name, userId, { pkce: true });
             const params = new URLSearchParams({
                 client_id: clientId,
                 response_type: 'code',
@@ -135,6 +164,7 @@ export class EmailScraperProvider implements IntegrationProvider {
                 prompt: 'consent',
                 include_granted_scopes: 'true',
                 state,
+                ...pkceParams,
             });
             const redirectUrl = `https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`;
             await this.persistence.ensureIntegration('email_scraper');
@@ -171,18 +201,8 @@ export class EmailScraperProvider implements IntegrationProvider {
             );
         }
 
-        // Extract userId from state format: "email-<userId>-<ts>"
-        // Remove "email-" prefix and "-<timestamp>" suffix
-        const stateStr = String(state);
-        const stateWithoutPrefix = stateStr.replace(/^email-/, '');
-        const lastDashIndex = stateWithoutPrefix.lastIndexOf('-');
-        const userId = lastDashIndex > 0 ? stateWithoutPrefix.substring(0, lastDashIndex) : stateWithoutPrefix;
-        if (!userId) {
-            throw new InvalidCallbackException(
-                IntegrationProviderName.EMAIL_SCRAPER,
-                'Invalid state format: unable to extract userId'
-            );
-        }
+        // Verifies the signature and expiry, and rejects replays
+        const { userId, pkceParams } = await this.oauthState.consume(this.name, state);
 
         try {
             // Exchange authorization code for tokens
@@ -191,16 +211,23 @@ export class EmailScraperProvider implements IntegrationProvider {
             const clientSecret = this.getGoogleClientSecret();
             const redirectUri = this.getGoogleRedirectUri();
 
-            const tokenResponse = await axios.post(tokenUrl, new URLSearchParams({
+            const authFailed = (message: string) => new OAuthAuthenticationException(
+                IntegrationProviderName.EMAIL_SCRAPER,
+                `Gmail authentication failed: ${message}`
+            );
+            const tokenResponse = await this.http.post(this.name, tokenUrl, new URLSearchParams({
                 client_id: clientId,
                 client_secret: clientSecret,
                 code,
                 grant_type: 'authorization_code',
                 redirect_uri: redirectUri,
+                ...pkceParams,
             }), {
+                operation: 'Token exchange',
                 headers: {
                     'Content-Type': 'application/x-www-form-urlencoded',
                 },
+                statusErrors: { 400: authFailed, 401: authFailed },
             });
 
             const tokenData = tokenResponse.data;
@@ -239,25 +266,12 @@ export class EmailScraperProvider implements IntegrationProvider {
 
             // Re-throw custom exceptions
             if (error instanceof InvalidCallbackException ||
-                error instanceof OAuthAuthenticationException) {
+                error instanceof OAuthAuthenticationException ||
+                error instanceof RateLimitException ||
+                error instanceof ProviderAPIException) {
                 throw error;
             }
 
-            // Handle Axios errors
-            if (error.response) {
-                const status = error.response.status;
-                const errorMessage = error.response.data?.error_description ||
-                    error.response.data?.error ||
-                    error.message;
-
-                if (status === 400 || status === 401) {
-                    throw new OAuthAuthenticationException(
-                        IntegrationProviderName.EMAIL_SCRAPER,
-                        `Gmail authentication failed: ${errorMessage}`
-                    );
-                }
-            }
-
             throw new InvalidCallbackException(
                 IntegrationProviderName.EMAIL_SCRAPER,
                 `Failed to process Gmail callback: ${error.message}`
@@ -278,50 +292,52 @@ export class EmailScraperProvider implements IntegrationProvider {
             return existing.accessToken; // Still valid
         }
 
+        return (await this.refreshAccessToken(userId, existing)).accessToken;
+    }
+
+    /**
+     * Refresh strategy used both lazily (above) and by TokenLifecycleService ahead of expiry.
+     * Google reports a revoked grant as 400 invalid_grant.
+     */
+    async refreshAccessToken(userId: string, existing: OAuthTokens): Promise<OAuthTokens> {
         if (!existing.refreshToken) {
             throw new InvalidTokenException(
                 IntegrationProviderName.EMAIL_SCRAPER
             );
         }
 
-        try {
-            // Refresh the token
-            const tokenUrl = 'https://oauth2.googleapis.com/token';
-            const clientId = this.getGoogleClientId();
-            const clientSecret = this.getGoogleClientSecret();
+        // Refresh the token
+        const tokenUrl = 'https://oauth2.googleapis.com/token';
+        const clientId = this.getGoogleClientId();
+        const clientSecret = this.getGoogleClientSecret();
 
-            const response = await axios.post(tokenUrl, new URLSearchParams({
-                client_id: clientId,
-                client_secret: clientSecret,
-                grant_type: 'refresh_token',
-                refresh_token: existing.refreshToken,
-            }), {
-                headers: {
-                    'Content-Type': 'application/x-www-form-urlencoded',
-                },
-            });
+        const response = await this.http.post(this.name, tokenUrl, new URLSearchParams({
+            client_id: clientId,
+            client_secret: clientSecret,
+            grant_type: 'refresh_token',
+            refresh_token: existing.refreshToken,
+        }), {
+            operation: TOKEN_REFRESH_OPERATION,
+            headers: {
+                'Content-Type': 'application/x-www-form-urlencoded',
+            },
+            statusErrors: refreshStatusErrors(IntegrationProviderName.EMAIL_SCRAPER),
+        });
 
-            const tokenData = response.data;
-            const newExpiresAt = Math.floor(Date.now() / 1000) + tokenData.expires_in;
+        const tokenData = response.data;
+        const newExpiresAt = Math.floor(Date.now() / 1000) + tokenData.expires_in;
 
-            // Update stored tokens
-            await this.tokens.set(userId, 'email_scraper', {
-                accessToken: tokenData.access_token,
-                refreshToken: tokenData.refresh_token || existing.refreshToken,
-                expiresAt: newExpiresAt,
-                scope: existing.scope,
-                providerUserId: existing.providerUserId,
-            });
+        // Update stored tokens
+        const refreshed: OAuthTokens = {
+            accessToken: tokenData.access_token,
+            refreshToken: tokenData.refresh_token || existing.refreshToken,
+            expiresAt: newExpiresAt,
+            scope: existing.scope,
+            providerUserId: existing.providerUserId,
+        };
+        await this.tokens.set(userId, 'email_scraper', refreshed);
 
-            return tokenData.access_token;
-        } catch (error) {
-            if (error.response?.status === 400 || error.response?.status === 401) {
-                throw new InvalidTokenException(
-                    IntegrationProviderName.EMAIL_SCRAPER
-                );
-            }
-            throw error;
-        }
+        return refreshed;
     }
 
     async sync(userId: string): Promise<{ ok: boolean; syncedAt?: Date; details?: any }> {
@@ -347,15 +363,34 @@ export class EmailScraperProvider implements IntegrationProvider {
 
             // Initialize Gmail API
             const gmail = google.gmail({ version: 'v1' });
-            const auth = new google.auth.OAuth2();
+            const auth = new google.auth.OAuth2({ transporterOptions: this.sandbox.gaxiosOptions(this.name) });
             auth.setCredentials({ access_token: accessToken });
 
-            // Fetch ALL emails and categorize them intelligently
-            this.logger.log(`[EMAIL SCRAPER] Fetching emails since ${sinceDate}...`);
-            const allEmails = await this.fetchEmailsByQuery(gmail, auth, 'in:inbox', sinceDate);
+            // Prefer the Gmail history delta since the stored historyId; fall back to a date
+            // query on first sync or when Gmail no longer has history that far back
+            const startHistoryId = await this.cursors.get(userId, this.name, 'history_id');
+            const delta = startHistoryId
+                ? await this.fetchEmailsSinceHistory(gmail, auth, startHistoryId)
+                : null;
+
+            let allEmails: EmailData[];
+            let nextHistoryId: string | null;
+            if (delta) {
+                this.logger.log(`[EMAIL SCRAPER] Fetching emails added since historyId ${startHistoryId}...`);
+                allEmails = delta.emails;
+                nextHistoryId = delta.historyId;
+            } else {
+                // Read the current historyId first so mail arriving mid-sync is picked up next time
+                nextHistoryId = await this.fetchCurrentHistoryId(gmail, auth);
+                this.logger.log(`[EMAIL SCRAPER] Fetching emails since ${sinceDate}...`);
+                allEmails = await this.fetchEmailsByQuery(gmail, auth, 'in:inbox', sinceDate);
+            }
             this.logger.log(`[EMAIL SCRAPER] Found ${allEmails.length} total emails`);
 
             if (allEmails.length === 0) {
+                if (nextHistoryId) {
+                    await this.cursors.set(userId, this.name, 'history_id', nextHistoryId);
+                }
                 return {
                     ok: true,
                     syncedAt: new Date(),
@@ -378,8 +413,8 @@ export class EmailScraperProvider implements IntegrationProvider {
             const categoryStats: Record<string, { processed: number; skipped: number }> = {};
 
             for (const [category, emails] of Object.entries(categorizedEmails)) {
-                if (emails.length > 0) {
-                    const categoryInfo = this.getCategoryInfo(category);
+                const categoryInfo = this.getCategoryInfo(category);
+                if (emails.length > 0 && importsCategory(categoryInfo.categoryName)) {
                     this.logger.log(`[EMAIL SCRAPER] Processing ${emails.length} ${category} emails...`);
                     const result = await this.processEmails(userId, emails, categoryInfo.listType, categoryInfo.categoryName);
                     totalProcessed += result.processed;
@@ -395,13 +430,18 @@ export class EmailScraperProvider implements IntegrationProvider {
 
             // Mark as synced with the most recent email date
             const link = await this.db.userIntegrations.findFirst({
-                where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD },
+                where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...connectionWhere() },
             });
 
             if (link) {
                 await this.persistence.markSynced(link.userIntegrationId, mostRecentEmailDate);
             }
 
+            // Only advance the history cursor once every email has been stored
+            if (nextHistoryId) {
+                await this.cursors.set(userId, this.name, 'history_id', nextHistoryId);
+            }
+
             this.logger.log(`[EMAIL SCRAPER] Sync complete: ${totalProcessed} processed, ${totalSkipped} skipped`);
 
             return {
@@ -460,7 +500,7 @@ export class EmailScraperProvider implements IntegrationProvider {
     async status(userId: string): Promise<{ connected: boolean; lastSyncedAt?: Date | null; details?: any }> {
         const integration = await this.persistence.ensureIntegration('email_scraper');
         const link = await this.db.userIntegrations.findFirst({
-            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD },
+            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...connectionWhere() },
         });
 
         const history = link
@@ -486,7 +526,8 @@ export class EmailScraperProvider implements IntegrationProvider {
     }
 
     private async fetchUserProfile(accessToken: string): Promise<{ email: string; name: string }> {
-        const response = await axios.get('https://www.googleapis.com/oauth2/v2/userinfo', {
+        const response = await this.http.get(this.name, 'https://www.googleapis.com/oauth2/v2/userinfo', {
+            operation: 'Fetch profile',
             headers: {
                 'Authorization': `Bearer ${accessToken}`,
             },
@@ -497,6 +538,82 @@ export class EmailScraperProvider implements IntegrationProvider {
         };
     }
 
+    private async fetchCurrentHistoryId(gmail: any, auth: any): Promise<string | null> {
+        try {
+            const profile = await gmail.users.getProfile({ auth, userId: 'me' });
+            return profile.data.historyId ? String(profile.data.historyId) : null;
+        } catch (error) {
+            this.logger.warn('Failed to read Gmail historyId:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Fetch inbox messages added since a Gmail historyId. Returns null when the history
+     * is no longer available (Gmail answers 404), so the caller can fall back to a full query.
+     */
+    private async fetchEmailsSinceHistory(gmail: any, auth: any, startHistoryId: string): Promise<{ emails: EmailData[]; historyId: string } | null> {
+        try {
+            const messageIds = new Set<string>();
+            let historyId = startHistoryId;
+            let pageToken: string | undefined;
+
+            do {
+                const response = await gmail.users.history.list({
+                    auth,
+                    userId: 'me',
+                    startHistoryId,
+                    historyTypes: ['messageAdded'],
+                    labelId: 'INBOX',
+                    pageToken,
+                });
+
+                for (const record of response.data.history || []) {
+                    for (const added of record.messagesAdded || []) {
+                        if (added.message?.id) messageIds.add(added.message.id);
+                    }
+                }
+                if (response.data.historyId) historyId = String(response.data.historyId);
+                pageToken = response.data.nextPageToken ?? undefined;
+            } while (pageToken);
+
+            this.logger.log(`[GMAIL HISTORY] ${messageIds.size} messages added since historyId ${startHistoryId}`);
+            const emails = await this.fetchMessageDetails(gmail, auth, [...messageIds]);
+            return { emails, historyId };
+
+        } catch (error) {
+            if (error.response?.status === 404 || error.code === 404) {
+                this.logger.warn(`[GMAIL HISTORY] historyId ${startHistoryId} expired, falling back to date query`);
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    private async fetchMessageDetails(gmail: any, auth: any, messageIds: string[]): Promise<EmailData[]> {
+        const emailData: EmailData[] = [];
+
+        for (const id of messageIds) {
+            try {
+                const messageResponse = await gmail.users.messages.get({
+                    auth,
+                    userId: 'me',
+                    id,
+                    format: 'full',
+                });
+
+                const emailInfo = this.parseEmailMessage(messageResponse.data);
+                if (emailInfo) {
+                    emailData.push(emailInfo);
+                }
+            } catch (error) {
+                this.logger.warn(`Failed to fetch email ${id}:`, error);
+            }
+        }
+
+        return emailData;
+    }
+
     private async fetchEmailsByQuery(gmail: any, auth: any, query: string, since: Date): Promise<EmailData[]> {
         try {
             const sinceTimestamp = Math.floor(since.getTime() / 1000);
@@ -517,28 +634,8 @@ export class EmailScraperProvider implements IntegrationProvider {
             const messages = searchResponse.data.messages || [];
             this.logger.log(`[GMAIL QUERY] Found ${messages.length} messages`);
 
-            const emailData: EmailData[] = [];
-
             // Fetch details for each message
-            for (const message of messages.slice(0, 50)) { // Limit to 50 emails per query
-                try {
-                    const messageResponse = await gmail.users.messages.get({
-                        auth,
-                        userId: 'me',
-                        id: message.id,
-                        format: 'full',
-                    });
-
-                    const emailInfo = this.parseEmailMessage(messageResponse.data);
-                    if (emailInfo) {
-                        emailData.push(emailInfo);
-                    }
-                } catch (error) {
-                    this.logger.warn(`Failed to fetch email ${message.id}:`, error);
-                }
-            }
-
-            return emailData;
+            return await this.fetchMessageDetails(gmail, auth, messages.slice(0, 50).map(m => m.id)); // Limit to 50 emails per query
 
         } catch (error) {
             this.logger.error(`Failed to fetch emails with query "${query}":`, error);
@@ -1483,7 +1580,8 @@ export class EmailScraperProvider implements IntegrationProvider {
             if (tokens?.accessToken) {
                 // Revoke the token with Google
                 try {
-                    await axios.post('https://oauth2.googleapis.com/revoke', null, {
+                    await this.http.post(this.name, 'https://oauth2.googleapis.com/revoke', null, {
+                        operation: 'Token revoke',
                         params: {
                             token: tokens.accessToken,
                         },
@@ -3,8 +3,10 @@ import { GoodreadsProvider } from './goodreads.provider';
 import { PrismaService } from '@traeta/prisma';
 import { IntegrationPersistence } from '../persistence';
 import { TokenStore } from '../token-store';
+import { OAuthStateService } from '../oauth-state';
 import { Logger } from '@nestjs/common';
 import axios from 'axios';
+import { createHmac } from 'crypto';
 import * as cheerio from 'cheerio';
 import {
     ConfigurationException,
@@ -15,11 +17,23 @@ import {
     ProviderAPIException,
     RateLimitException,
 } from '../exceptions/integration.exceptions';
+import { ProviderHttpClient } from '../provider-http-client';
+import { IntegrationSandbox } from '../integration-sandbox';
+import { ConfigService } from '@nestjs/config';
+import { IntegrationProviderName } from '../types';
 
 jest.mock('axios');
 jest.mock('cheerio');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
 
+// Error mapping only; retries, rate limiting and the circuit breaker are covered in provider-http-client.spec.ts
+const httpConfig = new ConfigService({
+    PROVIDER_HTTP_MAX_RETRIES: '0',
+    PROVIDER_CIRCUIT_THRESHOLD: '1000',
+    PROVIDER_RATE_LIMIT_GOODREADS: '1000/1',
+});
+const httpClient = new ProviderHttpClient(httpConfig, new IntegrationSandbox(httpConfig));
+
 describe('GoodreadsProvider', () => {
     let provider: GoodreadsProvider;
     let mockPrismaService: jest.Mocked<PrismaService>;
@@ -27,6 +41,17 @@ describe('GoodreadsProvider', () => {
     let mockTokenStore: jest.Mocked<TokenStore>;
 
     const mockUserId = 'user123';
+
+    // Signed state handling is covered in oauth-state.spec.ts; only mockState is accepted here
+    const mockOAuthState = {
+        issue: jest.fn().mockResolvedValue({ state: 'signed-state' }),
+        consume: jest.fn().mockImplementation(async (provider: string, state: string) => {
+            if (state !== 'signed-state') {
+                throw new InvalidCallbackException(provider, 'Invalid state signature');
+            }
+            return { userId: mockUserId };
+        }),
+    };
     const mockIntegration = {
         integrationId: 'goodreads_integration_id',
         recSeq: 0,
@@ -40,7 +65,7 @@ describe('GoodreadsProvider', () => {
         modifiedBy: null,
     };
 
-    beforeAll(async () => {
+    beforeEach(async () => {
         // Create mocks
         mockPrismaService = {
             userIntegrations: {
@@ -83,8 +108,11 @@ describe('GoodreadsProvider', () => {
             providers: [
                 GoodreadsProvider,
                 { provide: PrismaService, useValue: mockPrismaService },
+                { provide: ConfigService, useValue: new ConfigService() },
+                { provide: ProviderHttpClient, useValue: httpClient },
                 { provide: IntegrationPersistence, useValue: mockPersistence },
                 { provide: TokenStore, useValue: mockTokenStore },
+                { provide: OAuthStateService, useValue: mockOAuthState },
             ],
         }).compile();
 
@@ -104,7 +132,7 @@ describe('GoodreadsProvider', () => {
         });
     });
 
-    afterAll(() => {
+    afterEach(() => {
         jest.clearAllMocks();
     });
 
@@ -112,20 +140,53 @@ describe('GoodreadsProvider', () => {
         it('should create connection successfully', async () => {
             const result = await provider.createConnection(mockUserId);
 
-            expect(result.state).toContain(`goodreads-${mockUserId}`);
+            expect(result.state).toBe('signed-state');
             expect(result.redirectUrl).toBeUndefined();
-            expect(mockPersistence.ensureIntegration).toHaveBeenCalledWith('goodreads');
+            expect(mockPersistence.ensureIntegration).toHaveBeenCalledWith('web_scrapping_goodreads');
         });
 
-        it('should create state with timestamp', async () => {
-            const result = await provider.createConnection(mockUserId);
+        it('should issue a signed state for the user', async () => {
+            await provider.createConnection(mockUserId);
 
-            // State format should be: goodreads-{userId}-{timestamp}
-            const stateParts = result.state.split('-');
-            expect(stateParts).toHaveLength(3);
-            expect(stateParts[0]).toBe('goodreads');
-            expect(stateParts[1]).toBe(mockUserId);
-            expect(Number(stateParts[2])).toBeGreaterThan(0);
+            expect(mockOAuthState.issue).toHaveBeenCalledWith('goodreads', mockUserId);
+        });
+
+        it('should create an HMAC-signed state that is accepted only once', async () => {
+            // Real OAuthStateService over just enough of the OAuthStates table to track use
+            const rows = new Map<string, any>();
+            const statePrisma = {
+                oAuthStates: {
+                    deleteMany: jest.fn().mockResolvedValue({ count: 0 }),
+                    create: jest.fn(async ({ data }) => {
+                        const row = { oauthStateId: `nonce-${rows.size + 1}`, consumedAt: null, ...data };
+                        rows.set(row.oauthStateId, row);
+                        return row;
+                    }),
+                    updateMany: jest.fn(async ({ where, data }) => {
+                        const row = rows.get(where.oauthStateId);
+                        if (!row || row.consumedAt) return { count: 0 };
+                        Object.assign(row, data);
+                        return { count: 1 };
+                    }),
+                    findFirst: jest.fn(async ({ where }) => rows.get(where.oauthStateId) ?? null),
+                },
+            };
+            const oauthState = new OAuthStateService(statePrisma as any, new ConfigService({ OAUTH_STATE_SECRET: 'test-state-secret' }));
+            const signedProvider = new GoodreadsProvider(mockPrismaService, mockPersistence, mockTokenStore, oauthState, httpClient);
+
+            const { state } = await signedProvider.createConnection(mockUserId);
+
+            const [encoded, signature] = state.split('.');
+            expect(signature).toBe(createHmac('sha256', 'test-state-secret').update(encoded).digest('base64url'));
+            expect(JSON.parse(Buffer.from(encoded, 'base64url').toString())).toEqual(
+                expect.objectContaining({ p: 'goodreads', u: mockUserId })
+            );
+            await expect(oauthState.consume(IntegrationProviderName.GOODREADS, state)).resolves.toEqual(
+                expect.objectContaining({ userId: mockUserId })
+            );
+            await expect(signedProvider.handleCallback({ state, rssFeedUrl: 'https://www.goodreads.com/review/list_rss/1' } as any)).rejects.toThrow(
+                'State has already been used or has expired'
+            );
         });
 
         it('should handle persistence errors gracefully', async () => {
@@ -136,7 +197,7 @@ describe('GoodreadsProvider', () => {
     });
 
     describe('handleCallback', () => {
-        const mockState = `goodreads-${mockUserId}-${Date.now()}`;
+        const mockState = 'signed-state';
         const mockCredentials = {
             username: 'testuser',
             password: 'testpass',
@@ -161,7 +222,7 @@ describe('GoodreadsProvider', () => {
                 ).rejects.toThrow(InvalidCallbackException);
                 await expect(
                     provider.handleCallback({ state: 'invalid-state', ...mockCredentials })
-                ).rejects.toThrow('Invalid state format: unable to extract userId');
+                ).rejects.toThrow('Invalid state signature');
             });
 
             it('should throw InvalidCallbackException when neither credentials nor RSS feed URL provided', async () => {
@@ -187,7 +248,7 @@ describe('GoodreadsProvider', () => {
         });
 
         describe('RSS Feed Authentication', () => {
-            beforeAll(() => {
+            beforeEach(() => {
                 // Mock successful RSS feed validation
                 jest.spyOn(provider as any, 'validateRssFeed').mockResolvedValue(true);
             });
@@ -219,7 +280,7 @@ describe('GoodreadsProvider', () => {
         });
 
         describe('Username/Password Authentication', () => {
-            beforeAll(() => {
+            beforeEach(() => {
                 // Mock successful authentication
                 jest.spyOn(provider as any, 'authenticateWithGoodreads').mockResolvedValue('session-cookie-123');
             });
@@ -322,7 +383,7 @@ describe('GoodreadsProvider', () => {
             },
         ];
 
-        beforeAll(() => {
+        beforeEach(() => {
             mockTokenStore.get.mockResolvedValue(mockTokenData);
             mockPersistence.getLastSyncedAt.mockResolvedValue(null);
             (mockPrismaService.userIntegrations.findFirst as jest.Mock).mockResolvedValue({
@@ -407,7 +468,8 @@ describe('GoodreadsProvider', () => {
 
         describe('Exception Handling', () => {
             it('should handle 401 HTTP error and throw InvalidTokenException', async () => {
-                jest.spyOn(provider as any, 'syncFromRssFeed').mockRejectedValue({
+                // The shared HTTP client maps the status of the feed request
+                mockedAxios.get.mockRejectedValue({
                     response: { status: 401, data: { message: 'Unauthorized' } },
                 });
 
@@ -415,7 +477,8 @@ describe('GoodreadsProvider', () => {
             });
 
             it('should handle 403 HTTP error and throw InvalidTokenException', async () => {
-                jest.spyOn(provider as any, 'syncFromRssFeed').mockRejectedValue({
+                // The shared HTTP client maps the status of the feed request
+                mockedAxios.get.mockRejectedValue({
                     response: { status: 403, data: { message: 'Forbidden' } },
                 });
 
@@ -423,7 +486,8 @@ describe('GoodreadsProvider', () => {
             });
 
             it('should handle 429 HTTP error and throw RateLimitException', async () => {
-                jest.spyOn(provider as any, 'syncFromRssFeed').mockRejectedValue({
+                // The shared HTTP client maps the status of the feed request
+                mockedAxios.get.mockRejectedValue({
                     response: { status: 429, data: { message: 'Rate limit exceeded' } },
                 });
 
@@ -431,7 +495,8 @@ describe('GoodreadsProvider', () => {
             });
 
             it('should handle 500+ HTTP error and throw ProviderAPIException', async () => {
-                jest.spyOn(provider as any, 'syncFromRssFeed').mockRejectedValue({
+                // The shared HTTP client maps the status of the feed request
+                mockedAxios.get.mockRejectedValue({
                     response: { status: 500, data: { message: 'Internal server error' } },
                 });
 
@@ -541,10 +606,10 @@ describe('GoodreadsProvider', () => {
             recSeq: 0,
         };
         const mockHistory = {
-            syncedAt: new Date('2023-06-01'),
+            lastSyncedAt: new Date('2023-06-01'),
         };
 
-        beforeAll(() => {
+        beforeEach(() => {
             (mockPrismaService.userIntegrations.findFirst as jest.Mock).mockResolvedValue(mockUserIntegration as any);
             (mockPrismaService.userIntegrationHistory.findFirst as jest.Mock).mockResolvedValue(mockHistory as any);
         });
@@ -560,8 +625,9 @@ describe('GoodreadsProvider', () => {
 
             expect(result).toEqual({
                 connected: true,
-                lastSyncedAt: mockHistory.syncedAt,
+                lastSyncedAt: mockHistory.lastSyncedAt,
                 details: {
+                    popularity: null,
                     hasValidCredentials: true,
                     syncMethod: 'rss',
                 },
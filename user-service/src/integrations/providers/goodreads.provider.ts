@@ -1,9 +1,12 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { IntegrationProvider, IntegrationProviderName, ConnectResponse, CallbackPayload } from '../types';
+import { IntegrationAuthType, IntegrationCapabilities, IntegrationProvider, IntegrationProviderName, ConnectResponse, CallbackPayload } from '../types';
 import { IntegrationPersistence } from '../persistence';
+import { connectionWhere, getConnectionId } from '../connection-scope';
+import { getSyncSettings, importsCategory, syncListTarget } from '../sync-settings';
 import { PrismaService } from '@traeta/prisma';
 import { TokenStore } from '../token-store';
-import axios from 'axios';
+import { OAuthStateService } from '../oauth-state';
+import { ProviderHttpClient } from '../provider-http-client';
 import * as cheerio from 'cheerio';
 import {
     ConfigurationException,
@@ -98,8 +101,21 @@ interface GoodreadsCredentials {
 }
 
 @Injectable()
+@IntegrationProvider(IntegrationProviderName.GOODREADS)
 export class GoodreadsProvider implements IntegrationProvider {
     public readonly name = IntegrationProviderName.GOODREADS;
+    public readonly capabilities: IntegrationCapabilities = {
+        authType: IntegrationAuthType.CREDENTIALS,
+        webhooks: false,
+        fileImport: true,
+        disconnect: true,
+        revoke: false,
+        multipleConnections: false,
+        dataTypes: ['books'],
+        lists: [
+            { list: 'Books', categories: ['Read', 'Currently Reading', 'To Read'] },
+        ],
+    };
     private readonly logger = new Logger(GoodreadsProvider.name);
 
     private readonly baseUrl = 'https://www.goodreads.com';
@@ -109,6 +125,8 @@ export class GoodreadsProvider implements IntegrationProvider {
         private readonly db: PrismaService,
         private readonly persistence: IntegrationPersistence,
         private readonly tokens: TokenStore,
+        private readonly oauthState: OAuthStateService,
+        private readonly http: ProviderHttpClient,
     ) { }
 
     /**
@@ -116,7 +134,7 @@ export class GoodreadsProvider implements IntegrationProvider {
      * Returns a state token that the frontend can use to prompt for credentials
      */
     async createConnection(userId: string): Promise<ConnectResponse> {
-        const state = `goodreads-${userId}-${Date.now()}`;
+        const { state } = await this.oauthState.issue(this.name, userId);
 
         await this.persistence.ensureIntegration('web_scrapping_goodreads');
 
@@ -147,22 +165,8 @@ export class GoodreadsProvider implements IntegrationProvider {
             );
         }
 
-        // Extract userId from state - expected format: goodreads-{userId}-{timestamp}
-        const stateParts = state.split('-');
-        if (stateParts.length !== 3 || stateParts[0] !== 'goodreads') {
-            throw new InvalidCallbackException(
-                IntegrationProviderName.GOODREADS,
-                'Invalid state format: unable to extract userId'
-            );
-        }
-
-        const userId = stateParts[1];
-        if (!userId) {
-            throw new InvalidCallbackException(
-                IntegrationProviderName.GOODREADS,
-                'Invalid state format: unable to extract userId'
-            );
-        }
+        // Verifies the signature and expiry, and rejects replays
+        const { userId } = await this.oauthState.consume(this.name, state);
 
         try {
             // Validate credentials
@@ -276,7 +280,7 @@ export class GoodreadsProvider implements IntegrationProvider {
             // Update last synced timestamp
             const integration = await this.persistence.ensureIntegration('web_scrapping_goodreads');
             const link = await this.db.userIntegrations.findFirst({
-                where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD },
+                where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...connectionWhere() },
             });
 
             const syncedAt = new Date();
@@ -306,27 +310,6 @@ export class GoodreadsProvider implements IntegrationProvider {
                 throw error;
             }
 
-            // Handle HTTP errors from web scraping/RSS feed fetching
-            if (error.response) {
-                const status = error.response.status;
-                const errorMessage = error.response.data?.message || error.message;
-
-                if (status === 401 || status === 403) {
-                    throw new InvalidTokenException(
-                        IntegrationProviderName.GOODREADS
-                    );
-                } else if (status === 429) {
-                    throw new RateLimitException(
-                        IntegrationProviderName.GOODREADS
-                    );
-                } else if (status >= 500) {
-                    throw new ProviderAPIException(
-                        IntegrationProviderName.GOODREADS,
-                        `Goodreads service error: ${errorMessage}`
-                    );
-                }
-            }
-
             // Handle parsing/scraping errors
             if (error.message?.includes('parse') || error.message?.includes('scraping')) {
                 throw new DataSyncException(
@@ -350,7 +333,7 @@ export class GoodreadsProvider implements IntegrationProvider {
         try {
             const integration = await this.persistence.ensureIntegration('web_scrapping_goodreads');
             const link = await this.db.userIntegrations.findFirst({
-                where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD },
+                where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...connectionWhere() },
             });
 
             if (!link) {
@@ -422,7 +405,8 @@ export class GoodreadsProvider implements IntegrationProvider {
      */
     private async validateRssFeed(rssFeedUrl: string): Promise<void> {
         try {
-            const response = await axios.get(rssFeedUrl, {
+            const response = await this.http.get(this.name, rssFeedUrl, {
+                operation: 'RSS feed validation',
                 headers: { 'User-Agent': this.userAgent },
                 timeout: 10000
             });
@@ -442,7 +426,8 @@ export class GoodreadsProvider implements IntegrationProvider {
      */
     private async syncFromRssFeed(rssFeedUrl: string): Promise<BookData[]> {
         try {
-            const response = await axios.get(rssFeedUrl, {
+            const response = await this.http.get(this.name, rssFeedUrl, {
+                operation: 'RSS feed fetch',
                 headers: { 'User-Agent': this.userAgent },
                 timeout: 10000
             });
@@ -512,15 +497,19 @@ export class GoodreadsProvider implements IntegrationProvider {
      * Store books in database as Book items
      */
     private async storeBooks(userId: string, books: BookData[]): Promise<void> {
-        // Find or create the Books list
+        // Find or create the Books list, or the list the user's settings name instead
+        const { listName, customName } = syncListTarget('Books');
+        // Books lists added before sync settings existed have no custom name
+        const settings = getSyncSettings();
+        const userListName = settings.targetList || settings.customName ? customName : undefined;
         let booksList = await this.db.lists.findFirst({
-            where: { name: 'Books', recSeq: REC_SEQ.DEFAULT_RECORD, ...ACTIVE_CONDITION }
+            where: { name: listName, recSeq: REC_SEQ.DEFAULT_RECORD, ...ACTIVE_CONDITION }
         });
 
         if (!booksList) {
             booksList = await this.db.lists.create({
                 data: {
-                    name: 'Books',
+                    name: listName,
                     createdBy: userId,
                     ...ACTIVE_CONDITION
                 }
@@ -534,6 +523,7 @@ export class GoodreadsProvider implements IntegrationProvider {
                 userRecSeq: REC_SEQ.DEFAULT_RECORD,
                 listId: booksList.listId,
                 listRecSeq: REC_SEQ.DEFAULT_RECORD,
+                customName: userListName,
                 ...ACTIVE_CONDITION
             }
         });
@@ -545,6 +535,7 @@ export class GoodreadsProvider implements IntegrationProvider {
                     userRecSeq: REC_SEQ.DEFAULT_RECORD,
                     listId: booksList.listId,
                     listRecSeq: REC_SEQ.DEFAULT_RECORD,
+                    customName: userListName,
                     createdBy: userId,
                     ...ACTIVE_CONDITION
                 }
@@ -559,6 +550,9 @@ export class GoodreadsProvider implements IntegrationProvider {
         };
 
         for (const book of books) {
+            if (categories[book.readingStatus] && !importsCategory(categories[book.readingStatus].name)) {
+                continue;
+            }
             try {
                 const categoryId = categories[book.readingStatus]?.itemCategoryId;
                 const categoryRecSeq = categories[book.readingStatus]?.recSeq;
@@ -615,6 +609,8 @@ export class GoodreadsProvider implements IntegrationProvider {
                         coverImageUrl: DATA_TYPE.STRING,
                         shelves: DATA_TYPE.STRING
                     },
+                    userIntegrationId: getConnectionId() ?? null,
+                    userIntegrationRecSeq: REC_SEQ.DEFAULT_RECORD,
                     ...ACTIVE_CONDITION,
                     createdBy: userId
                 };
@@ -3,6 +3,7 @@ import { LocationServicesProvider } from './location-services.provider';
 import { PrismaService } from '@traeta/prisma';
 import { IntegrationPersistence } from '../persistence';
 import { LocationDataStore } from '../location-data-store';
+import { OAuthStateService } from '../oauth-state';
 import { Logger } from '@nestjs/common';
 import axios from 'axios';
 import {
@@ -13,10 +14,21 @@ import {
     RateLimitException,
     OAuthAuthenticationException,
 } from '../exceptions/integration.exceptions';
+import { ProviderHttpClient } from '../provider-http-client';
+import { IntegrationSandbox } from '../integration-sandbox';
+import { ConfigService } from '@nestjs/config';
 
 jest.mock('axios');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
 
+// Error mapping only; retries, rate limiting and the circuit breaker are covered in provider-http-client.spec.ts
+const httpConfig = new ConfigService({
+    PROVIDER_HTTP_MAX_RETRIES: '0',
+    PROVIDER_CIRCUIT_THRESHOLD: '1000',
+    PROVIDER_RATE_LIMIT_LOCATION_SERVICES: '1000/1',
+});
+const httpClient = new ProviderHttpClient(httpConfig, new IntegrationSandbox(httpConfig));
+
 describe('LocationServicesProvider', () => {
     let provider: LocationServicesProvider;
     let mockPrismaService: jest.Mocked<PrismaService>;
@@ -24,6 +36,17 @@ describe('LocationServicesProvider', () => {
     let mockLocationDataStore: jest.Mocked<LocationDataStore>;
 
     const mockUserId = 'user123';
+
+    // Signed state handling is covered in oauth-state.spec.ts; only mockState is accepted here
+    const mockOAuthState = {
+        issue: jest.fn().mockResolvedValue({ state: 'signed-state' }),
+        consume: jest.fn().mockImplementation(async (provider: string, state: string) => {
+            if (state !== 'signed-state') {
+                throw new InvalidCallbackException(provider, 'Invalid state signature');
+            }
+            return { userId: mockUserId };
+        }),
+    };
     const mockIntegration = {
         integrationId: 'location_services_integration_id',
         recSeq: 0,
@@ -49,7 +72,7 @@ describe('LocationServicesProvider', () => {
         },
     ];
 
-    beforeAll(async () => {
+    beforeEach(async () => {
         // Create mocks
         mockPrismaService = {
             userIntegrations: {
@@ -99,8 +122,11 @@ describe('LocationServicesProvider', () => {
             providers: [
                 LocationServicesProvider,
                 { provide: PrismaService, useValue: mockPrismaService },
+                { provide: ConfigService, useValue: new ConfigService() },
+                { provide: ProviderHttpClient, useValue: httpClient },
                 { provide: IntegrationPersistence, useValue: mockPersistence },
                 { provide: LocationDataStore, useValue: mockLocationDataStore },
+                { provide: OAuthStateService, useValue: mockOAuthState },
             ],
         }).compile();
 
@@ -120,7 +146,7 @@ describe('LocationServicesProvider', () => {
         });
     });
 
-    afterAll(() => {
+    afterEach(() => {
         jest.clearAllMocks();
         delete process.env.GOOGLE_MAPS_API_KEY;
     });
@@ -131,24 +157,24 @@ describe('LocationServicesProvider', () => {
 
             expect(result.redirectUrl).toBeUndefined();
             expect(result.linkToken).toBeUndefined();
-            expect(result.state).toContain(`location-${mockUserId}`);
+            expect(result.state).toBe('signed-state');
             expect(mockPersistence.ensureIntegration).toHaveBeenCalledWith('location_services');
         });
 
         it('should throw ConfigurationException when GOOGLE_MAPS_API_KEY is missing', async () => {
             delete process.env.GOOGLE_MAPS_API_KEY;
-            const newProvider = new LocationServicesProvider(mockPrismaService, mockPersistence, mockLocationDataStore);
 
-            await expect(newProvider.createConnection(mockUserId)).rejects.toThrow(ConfigurationException);
-            await expect(newProvider.createConnection(mockUserId)).rejects.toThrow(
+            await expect(provider.createConnection(mockUserId)).rejects.toThrow(ConfigurationException);
+            await expect(provider.createConnection(mockUserId)).rejects.toThrow(
                 'Google Maps API key is not configured. Please set GOOGLE_MAPS_API_KEY environment variable.'
             );
         });
 
-        it('should create state with timestamp', async () => {
+        it('should issue a signed state for the user', async () => {
             const result = await provider.createConnection(mockUserId);
 
-            expect(result.state).toMatch(new RegExp(`^location-${mockUserId}-\\d+$`));
+            expect(result.state).toBe('signed-state');
+            expect(mockOAuthState.issue).toHaveBeenCalledWith('location_services', mockUserId);
         });
 
         it('should handle persistence errors during integration creation', async () => {
@@ -170,7 +196,7 @@ describe('LocationServicesProvider', () => {
     });
 
     describe('handleCallback', () => {
-        const mockState = `location-${mockUserId}-${Date.now()}`;
+        const mockState = 'signed-state';
 
         describe('Happy Path', () => {
             it('should handle callback successfully with valid state', async () => {
@@ -182,18 +208,6 @@ describe('LocationServicesProvider', () => {
                     mockIntegration.integrationId
                 );
             });
-
-            it('should handle callback with state without timestamp', async () => {
-                const stateWithoutTimestamp = `location-${mockUserId}`;
-
-                await provider.handleCallback({ state: stateWithoutTimestamp });
-
-                expect(mockPersistence.ensureIntegration).toHaveBeenCalledWith('location_services');
-                expect(mockPersistence.markConnected).toHaveBeenCalledWith(
-                    mockUserId,
-                    mockIntegration.integrationId
-                );
-            });
         });
 
         describe('Input Validation', () => {
@@ -204,35 +218,12 @@ describe('LocationServicesProvider', () => {
                 );
             });
 
-            it('should handle state without location prefix', async () => {
-                // State "user-user123" -> remove "location-" (nothing) -> "user-user123" 
-                // lastDashIndex = 4, so userId = "user"
-                await provider.handleCallback({ state: `user-${mockUserId}` });
-
-                expect(mockPersistence.markConnected).toHaveBeenCalledWith(
-                    'user', // This is what the parsing logic returns
-                    mockIntegration.integrationId
-                );
-            });
-
-            it('should handle empty userId after location prefix removal', async () => {
-                // State "location-" -> remove "location-" -> "" -> userId = "" -> throws error
-                await expect(provider.handleCallback({ state: 'location-' })).rejects.toThrow(
+            it('should throw InvalidCallbackException when the state is not valid', async () => {
+                await expect(provider.handleCallback({ state: `location-${mockUserId}-123` })).rejects.toThrow(
                     InvalidCallbackException
                 );
                 await expect(provider.handleCallback({ state: 'location-' })).rejects.toThrow(
-                    'Invalid state format in callback. Please try connecting again.'
-                );
-            });
-
-            it('should handle complex state formats gracefully', async () => {
-                // State "location-user123-abc-123" -> remove "location-" -> "user123-abc-123"
-                // lastDashIndex = 11 (position of last dash), so userId = "user123-abc"
-                await provider.handleCallback({ state: `location-${mockUserId}-abc-123` });
-
-                expect(mockPersistence.markConnected).toHaveBeenCalledWith(
-                    `${mockUserId}-abc`, // Everything before the last dash
-                    mockIntegration.integrationId
+                    'Invalid state signature'
                 );
             });
         });
@@ -282,7 +273,7 @@ describe('LocationServicesProvider', () => {
             },
         };
 
-        beforeAll(() => {
+        beforeEach(() => {
             mockPersistence.ensureUserIntegration.mockResolvedValue(mockUserIntegration as any);
             mockedAxios.get.mockResolvedValue(mockGoogleMapsResponse);
         });
@@ -303,7 +294,6 @@ describe('LocationServicesProvider', () => {
                 expect(mockLocationDataStore.deleteProcessed).toHaveBeenCalledWith(mockUserId, 'location_services');
                 expect(mockPersistence.markSynced).toHaveBeenCalledWith(
                     mockUserIntegration.userIntegrationId,
-                    mockUserIntegration.recSeq,
                     expect.any(Date)
                 );
             });
@@ -531,6 +521,7 @@ describe('LocationServicesProvider', () => {
                 lastSyncedAt: mockHistory.lastSyncedAt,
                 details: {
                     integrationId: mockIntegration.integrationId,
+                    popularity: null,
                     status: 'CONNECTED',
                     message: 'Location services integration is a stub - implementation pending',
                 },
@@ -547,7 +538,8 @@ describe('LocationServicesProvider', () => {
                 lastSyncedAt: null,
                 details: {
                     integrationId: mockIntegration.integrationId,
-                    status: 'NOT_CONNECTED',
+                    popularity: null,
+                    status: 'DISCONNECTED',
                     message: 'Location services integration is a stub - implementation pending',
                 },
             });
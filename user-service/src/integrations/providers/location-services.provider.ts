@@ -1,10 +1,13 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { IntegrationProvider, IntegrationProviderName, ConnectResponse, CallbackPayload } from '../types';
+import { IntegrationAuthType, IntegrationCapabilities, IntegrationProvider, IntegrationProviderName, ConnectResponse, CallbackPayload } from '../types';
 import { IntegrationPersistence } from '../persistence';
+import { connectionWhere } from '../connection-scope';
+import { importsCategory } from '../sync-settings';
 import { PrismaService } from '@traeta/prisma';
 import { LocationDataStore, LocationData, LocationDataPayload } from '../location-data-store';
-import axios from 'axios';
+import { OAuthStateService } from '../oauth-state';
+import { ProviderHttpClient } from '../provider-http-client';
 import {
     ConfigurationException,
     InvalidCallbackException,
@@ -63,8 +66,23 @@ interface PlaceData {
 }
 
 @Injectable()
+@IntegrationProvider(IntegrationProviderName.LOCATION_SERVICES)
 export class LocationServicesProvider implements IntegrationProvider {
     public readonly name = IntegrationProviderName.LOCATION_SERVICES;
+    public readonly capabilities: IntegrationCapabilities = {
+        authType: IntegrationAuthType.DEVICE_UPLOAD,
+        webhooks: false,
+        fileImport: false,
+        disconnect: true,
+        revoke: false,
+        multipleConnections: false,
+        dataTypes: ['locations'],
+        lists: [
+            { list: 'Places', categories: ['Visited Location', 'Parks', 'Museums', 'Shopping', 'Gyms'] },
+            { list: 'Food', categories: ['Coffee Shops', 'Restaurants'] },
+            { list: 'Travel', categories: ['Airport', 'Accommodation'] },
+        ],
+    };
     private readonly logger = new Logger(LocationServicesProvider.name);
 
     constructor(
@@ -72,6 +90,8 @@ export class LocationServicesProvider implements IntegrationProvider {
         private readonly persistence: IntegrationPersistence,
         private readonly locationDataStore: LocationDataStore,
         private readonly configService: ConfigService,
+        private readonly oauthState: OAuthStateService,
+        private readonly http: ProviderHttpClient,
     ) { }
 
     private getGoogleMapsApiKey(): string {
@@ -95,12 +115,13 @@ export class LocationServicesProvider implements IntegrationProvider {
             // For now, return a placeholder that indicates manual setup is required
 
             await this.persistence.ensureIntegration('location_services');
+            const { state } = await this.oauthState.issue(this.name, userId);
 
             return {
                 provider: this.name,
                 redirectUrl: undefined,
                 linkToken: undefined,
-                state: `location-${userId}-${Date.now()}`,
+                state,
             };
         } catch (error) {
             this.logger.error(`Failed to create location services connection for user ${userId}:`, error);
@@ -135,19 +156,8 @@ export class LocationServicesProvider implements IntegrationProvider {
                 );
             }
 
-            // Extract userId from state
-            const stateStr = String(state);
-            const stateWithoutPrefix = stateStr.replace(/^location-/, '');
-            const lastDashIndex = stateWithoutPrefix.lastIndexOf('-');
-            const userId = lastDashIndex > 0 ? stateWithoutPrefix.substring(0, lastDashIndex) : stateWithoutPrefix;
-
-            if (!userId) {
-                this.logger.error('Invalid state format in location services callback');
-                throw new InvalidCallbackException(
-                    IntegrationProviderName.LOCATION_SERVICES,
-                    'Invalid state format in callback. Please try connecting again.'
-                );
-            }
+            // Verifies the signature and expiry, and rejects replays
+            const { userId } = await this.oauthState.consume(this.name, state);
 
             // Mark as connected (placeholder)
             const integration = await this.persistence.ensureIntegration('location_services');
@@ -317,7 +327,15 @@ export class LocationServicesProvider implements IntegrationProvider {
 
         try {
             const url = `https://maps.googleapis.com/maps/api/geocode/json?latlng=${location.latitude},${location.longitude}&key=${apiKey}`;
-            const response = await axios.get(url);
+            // Access is tied to our API key, not the user, so 401/403 must not ask the user to reconnect
+            const accessDenied = () => new ProviderAPIException(
+                IntegrationProviderName.LOCATION_SERVICES,
+                'Google Maps API access denied. Please check API key configuration.'
+            );
+            const response = await this.http.get(this.name, url, {
+                operation: 'Reverse geocoding',
+                statusErrors: { 401: accessDenied, 403: accessDenied },
+            });
 
             // Handle Google Maps API specific error statuses
             if (response.data.status === 'OVER_QUERY_LIMIT') {
@@ -425,34 +443,6 @@ export class LocationServicesProvider implements IntegrationProvider {
                 throw error;
             }
 
-            // Handle Axios network errors
-            if (error.response) {
-                const status = error.response.status;
-                const errorMessage = error.response.data?.error_message ||
-                    error.response.data?.message ||
-                    error.message;
-
-                if (status === 429) {
-                    throw new RateLimitException(
-                        IntegrationProviderName.LOCATION_SERVICES
-                    );
-                }
-
-                if (status === 403) {
-                    throw new ProviderAPIException(
-                        IntegrationProviderName.LOCATION_SERVICES,
-                        'Google Maps API access denied. Please check API key configuration.'
-                    );
-                }
-
-                if (status >= 500) {
-                    throw new ProviderAPIException(
-                        IntegrationProviderName.LOCATION_SERVICES,
-                        `Google Maps API is currently unavailable: ${errorMessage}`
-                    );
-                }
-            }
-
             // For other errors, just return null to skip this location
             // (don't fail the entire sync for one bad location)
             return null;
@@ -491,6 +481,9 @@ export class LocationServicesProvider implements IntegrationProvider {
                     listType = 'Travel';
                     categoryName = 'Accommodation';
                 }
+                if (!importsCategory(categoryName)) {
+                    continue;
+                }
 
                 // Ensure list and category exist for user
                 const { list, userList, category } = await this.persistence.ensureListAndCategoryForUser(
@@ -621,7 +614,7 @@ export class LocationServicesProvider implements IntegrationProvider {
     async status(userId: string): Promise<{ connected: boolean; lastSyncedAt?: Date | null; details?: any }> {
         const integration = await this.persistence.ensureIntegration('location_services');
         const link = await this.db.userIntegrations.findFirst({
-            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD },
+            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...connectionWhere() },
         });
 
         const history = link
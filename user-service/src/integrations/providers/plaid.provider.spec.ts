@@ -3,7 +3,14 @@ import { PlaidProvider } from './plaid.provider';
 import { PrismaService } from '@traeta/prisma';
 import { IntegrationPersistence } from '../persistence';
 import { TokenStore } from '../token-store';
+import { CursorStore, InMemoryCursorStore } from '../cursor-store';
+import { OAuthStateService } from '../oauth-state';
+import { IntegrationSandbox } from '../integration-sandbox';
+import { PlaidCategoryMap } from '../plaid-category-map';
+import { ConfigService } from '@nestjs/config';
 import { Logger } from '@nestjs/common';
+import * as crypto from 'crypto';
+import * as jwt from 'jsonwebtoken';
 import {
     ConfigurationException,
     InvalidCallbackException,
@@ -12,6 +19,7 @@ import {
     DataSyncException,
     ProviderAPIException,
     RateLimitException,
+    WebhookVerificationException,
 } from '../exceptions/integration.exceptions';
 import { REC_STATUS, DATA_STATUS } from '../../../constants';
 
@@ -20,8 +28,12 @@ const mockPlaidClient = {
     linkTokenCreate: jest.fn(),
     itemPublicTokenExchange: jest.fn(),
     accountsGet: jest.fn(),
-    transactionsGet: jest.fn(),
+    transactionsSync: jest.fn(),
     institutionsGetById: jest.fn(),
+    webhookVerificationKeyGet: jest.fn(),
+    investmentsHoldingsGet: jest.fn(),
+    investmentsTransactionsGet: jest.fn(),
+    liabilitiesGet: jest.fn(),
 };
 
 jest.mock('plaid', () => ({
@@ -34,6 +46,8 @@ jest.mock('plaid', () => ({
     },
     Products: {
         Transactions: 'transactions',
+        Investments: 'investments',
+        Liabilities: 'liabilities',
     },
     CountryCode: {
         Us: 'US',
@@ -47,6 +61,21 @@ describe('PlaidProvider', () => {
     let mockTokenStore: jest.Mocked<TokenStore>;
 
     const mockUserId = 'user123';
+
+    // Signed state handling is covered in oauth-state.spec.ts; only mockState is accepted here
+    const mockOAuthState = {
+        issue: jest.fn().mockResolvedValue({ state: 'signed-state' }),
+        consume: jest.fn().mockImplementation(async (provider: string, state: string) => {
+            if (state !== 'signed-state') {
+                throw new InvalidCallbackException(provider, 'Invalid state signature');
+            }
+            return { userId: mockUserId };
+        }),
+    };
+    // Without a mapping for a code, transactions fall back to merchant matching
+    const mockCategoryMap = {
+        resolve: jest.fn().mockResolvedValue(null),
+    };
     const mockIntegration = {
         integrationId: 'plaid_integration_id',
         recSeq: 0,
@@ -107,7 +136,7 @@ describe('PlaidProvider', () => {
         };
     };
 
-    beforeAll(async () => {
+    beforeEach(async () => {
         // Create mocks
         mockPrismaService = {
             userIntegrations: {
@@ -133,17 +162,25 @@ describe('PlaidProvider', () => {
             ensureIntegration: jest.fn(),
             ensureUserIntegration: jest.fn(),
             markConnected: jest.fn(),
+            markReauthRequired: jest.fn().mockResolvedValue(true),
+            markExpiring: jest.fn().mockResolvedValue(true),
+            markReauthResolved: jest.fn().mockResolvedValue(true),
             markSynced: jest.fn(),
             getLastSyncedAt: jest.fn(),
             ensureListAndCategoryForUser: jest.fn(),
             createListItem: jest.fn(),
             upsertListItem: jest.fn(),
+            findUserItemByExternalId: jest.fn().mockResolvedValue(null),
+            relocateListItem: jest.fn(),
+            removeItemsByExternalId: jest.fn().mockResolvedValue(0),
+            removeStaleAccountItems: jest.fn().mockResolvedValue(0),
         } as any;
 
         mockTokenStore = {
             get: jest.fn(),
             set: jest.fn(),
             delete: jest.fn(),
+            findOwner: jest.fn(),
         } as any;
 
         // Set environment variables
@@ -157,8 +194,13 @@ describe('PlaidProvider', () => {
             providers: [
                 PlaidProvider,
                 { provide: PrismaService, useValue: mockPrismaService },
+                { provide: ConfigService, useValue: new ConfigService() },
+                { provide: IntegrationSandbox, useValue: new IntegrationSandbox(new ConfigService()) },
                 { provide: IntegrationPersistence, useValue: mockPersistence },
                 { provide: TokenStore, useValue: mockTokenStore },
+                { provide: OAuthStateService, useValue: mockOAuthState },
+                { provide: CursorStore, useClass: InMemoryCursorStore },
+                { provide: PlaidCategoryMap, useValue: mockCategoryMap },
             ],
         }).compile();
 
@@ -174,7 +216,7 @@ describe('PlaidProvider', () => {
         mockPersistence.ensureListAndCategoryForUser.mockResolvedValue(createMockListAndCategoryResult());
     });
 
-    afterAll(() => {
+    afterEach(() => {
         jest.clearAllMocks();
     });
 
@@ -186,7 +228,7 @@ describe('PlaidProvider', () => {
             },
         };
 
-        beforeAll(() => {
+        beforeEach(() => {
             mockPlaidClient.linkTokenCreate.mockResolvedValue(mockLinkTokenResponse);
         });
 
@@ -194,7 +236,8 @@ describe('PlaidProvider', () => {
             const result = await provider.createConnection(mockUserId);
 
             expect(result.linkToken).toBe('link-sandbox-test-token');
-            expect(result.state).toContain(`plaid-${mockUserId}`);
+            expect(result.state).toBe('signed-state');
+            expect(mockOAuthState.issue).toHaveBeenCalledWith('plaid', mockUserId);
             expect(result.redirectUrl).toContain('plaid://link?token=');
             expect(mockPersistence.ensureIntegration).toHaveBeenCalledWith('plaid');
             expect(mockPlaidClient.linkTokenCreate).toHaveBeenCalledWith(
@@ -208,6 +251,17 @@ describe('PlaidProvider', () => {
             );
         });
 
+        it('should issue an update mode link token for a connection that already has an Item', async () => {
+            mockTokenStore.get.mockResolvedValueOnce({ accessToken: 'access-sandbox-test-token', providerUserId: 'item_123' });
+
+            const result = await provider.createConnection(mockUserId);
+
+            expect(result.linkToken).toBe('link-sandbox-test-token');
+            const request = mockPlaidClient.linkTokenCreate.mock.lastCall[0];
+            expect(request.access_token).toBe('access-sandbox-test-token');
+            expect(request.products).toBeUndefined();
+        });
+
         it('should throw ConfigurationException when CLIENT_ID is missing', async () => {
             process.env.PLAID_CLIENT_ID = '';
 
@@ -266,8 +320,13 @@ describe('PlaidProvider', () => {
                 providers: [
                     PlaidProvider,
                     { provide: PrismaService, useValue: mockPrismaService },
+                    { provide: ConfigService, useValue: new ConfigService() },
+                    { provide: IntegrationSandbox, useValue: new IntegrationSandbox(new ConfigService()) },
                     { provide: IntegrationPersistence, useValue: mockPersistence },
                     { provide: TokenStore, useValue: mockTokenStore },
+                { provide: OAuthStateService, useValue: mockOAuthState },
+                    { provide: CursorStore, useClass: InMemoryCursorStore },
+                    { provide: PlaidCategoryMap, useValue: mockCategoryMap },
                 ],
             }).compile();
 
@@ -279,7 +338,7 @@ describe('PlaidProvider', () => {
 
     describe('handleCallback', () => {
         const mockPublicToken = 'public-sandbox-test-token';
-        const mockState = `plaid-${mockUserId}-${Date.now()}`;
+        const mockState = 'signed-state';
         const mockExchangeResponse = {
             data: {
                 access_token: 'access-sandbox-test-token',
@@ -287,10 +346,10 @@ describe('PlaidProvider', () => {
             },
         };
 
-        beforeAll(() => {
+        beforeEach(() => {
             mockPlaidClient.itemPublicTokenExchange.mockResolvedValue(mockExchangeResponse);
             mockPlaidClient.accountsGet.mockResolvedValue({ data: { accounts: [] } });
-            mockPlaidClient.transactionsGet.mockResolvedValue({ data: { transactions: [] } });
+            mockPlaidClient.transactionsSync.mockResolvedValue({ data: { added: [], modified: [], removed: [], next_cursor: 'cursor-1', has_more: false } });
         });
 
         it('should handle callback successfully with valid public_token and state', async () => {
@@ -334,15 +393,16 @@ describe('PlaidProvider', () => {
             ).rejects.toThrow(InvalidCallbackException);
         });
 
-        it('should extract userId correctly from state', async () => {
+        it('should use the userId from the consumed state', async () => {
             const userId = 'user-with-hyphens-123';
-            const state = `plaid-${userId}-${Date.now()}`;
+            mockOAuthState.consume.mockResolvedValueOnce({ userId });
 
             await provider.handleCallback({
                 public_token: mockPublicToken,
-                state,
+                state: mockState,
             });
 
+            expect(mockOAuthState.consume).toHaveBeenCalledWith('plaid', mockState);
             expect(mockTokenStore.set).toHaveBeenCalledWith(
                 userId,
                 'plaid',
@@ -404,6 +464,18 @@ describe('PlaidProvider', () => {
             expect(syncSpy).toHaveBeenCalledWith(mockUserId);
         });
 
+        it('should resume the existing Item after an update mode callback', async () => {
+            mockTokenStore.get.mockResolvedValueOnce({ accessToken: 'access-sandbox-test-token', providerUserId: 'item_123' });
+            mockPlaidClient.itemPublicTokenExchange.mockClear();
+            mockTokenStore.set.mockClear();
+
+            await provider.handleCallback({ public_token: mockPublicToken, state: mockState });
+
+            expect(mockPlaidClient.itemPublicTokenExchange).not.toHaveBeenCalled();
+            expect(mockTokenStore.set).not.toHaveBeenCalled();
+            expect(mockPersistence.markReauthResolved).toHaveBeenCalledWith(mockUserId, 'plaid');
+        });
+
         it('should not fail callback if automatic sync fails', async () => {
             jest.spyOn(provider, 'sync').mockRejectedValue(new Error('Sync failed'));
 
@@ -464,7 +536,7 @@ describe('PlaidProvider', () => {
             },
         ];
 
-        beforeAll(() => {
+        beforeEach(() => {
             mockTokenStore.get.mockResolvedValue({
                 accessToken: mockAccessToken,
                 providerUserId: 'item_123',
@@ -480,8 +552,8 @@ describe('PlaidProvider', () => {
             mockPlaidClient.accountsGet.mockResolvedValue({
                 data: { accounts: mockAccounts },
             });
-            mockPlaidClient.transactionsGet.mockResolvedValue({
-                data: { transactions: mockTransactions },
+            mockPlaidClient.transactionsSync.mockResolvedValue({
+                data: { added: mockTransactions, modified: [], removed: [], next_cursor: 'cursor-1', has_more: false },
             });
         });
 
@@ -499,24 +571,25 @@ describe('PlaidProvider', () => {
             expect(result.details.transactions).toBe(2);
             expect(result.details.totalItems).toBe(4);
             expect(mockPlaidClient.accountsGet).toHaveBeenCalled();
-            expect(mockPlaidClient.transactionsGet).toHaveBeenCalled();
+            expect(mockPlaidClient.transactionsSync).toHaveBeenCalled();
             expect(mockPersistence.markSynced).toHaveBeenCalled();
         });
 
-        it('should use default 30 days when no last sync date', async () => {
-            mockPersistence.getLastSyncedAt.mockResolvedValue(null);
-
+        it('should start without a cursor and resume from the stored one', async () => {
+            await provider.sync(mockUserId);
             await provider.sync(mockUserId);
 
-            expect(mockPlaidClient.transactionsGet).toHaveBeenCalled();
+            expect(mockPlaidClient.transactionsSync).toHaveBeenNthCalledWith(1, expect.not.objectContaining({ cursor: expect.anything() }));
+            expect(mockPlaidClient.transactionsSync).toHaveBeenNthCalledWith(2, expect.objectContaining({ cursor: 'cursor-1' }));
         });
 
         it('should handle empty accounts and transactions', async () => {
+            mockPersistence.upsertListItem.mockClear();
             mockPlaidClient.accountsGet.mockResolvedValue({
                 data: { accounts: [] },
             });
-            mockPlaidClient.transactionsGet.mockResolvedValue({
-                data: { transactions: [] },
+            mockPlaidClient.transactionsSync.mockResolvedValue({
+                data: { added: [], modified: [], removed: [], next_cursor: 'cursor-1', has_more: false },
             });
 
             const result = await provider.sync(mockUserId);
@@ -602,8 +675,8 @@ describe('PlaidProvider', () => {
                 pending: true,
                 pending_transaction_id: 'pending_txn_1',
             };
-            mockPlaidClient.transactionsGet.mockResolvedValue({
-                data: { transactions: [pendingTransaction] },
+            mockPlaidClient.transactionsSync.mockResolvedValue({
+                data: { added: [pendingTransaction], modified: [], removed: [], next_cursor: 'cursor-1', has_more: false },
             });
             mockPersistence.upsertListItem.mockResolvedValue({
                 listItemId: 'item_1',
@@ -613,7 +686,417 @@ describe('PlaidProvider', () => {
             const result = await provider.sync(mockUserId);
 
             expect(result.ok).toBe(true);
-            expect(mockPersistence.createListItem).toHaveBeenCalled();
+            expect(mockPersistence.upsertListItem).toHaveBeenCalled();
+        });
+
+        describe('transaction changes', () => {
+            beforeEach(() => {
+                jest.restoreAllMocks();
+                jest.clearAllMocks();
+                mockTokenStore.get.mockResolvedValue({ accessToken: mockAccessToken, providerUserId: 'item_123' });
+                mockPlaidClient.accountsGet.mockResolvedValue({ data: { accounts: mockAccounts } });
+                mockPersistence.findUserItemByExternalId.mockResolvedValue(null);
+            });
+
+            it('should update modified transactions in place and soft-delete removed ones', async () => {
+                const modified = { ...mockTransactions[0], amount: 6.25 };
+                mockPlaidClient.transactionsSync.mockResolvedValue({
+                    data: { added: [], modified: [modified], removed: [{ transaction_id: 'txn_2', account_id: 'account_1' }], next_cursor: 'cursor-2', has_more: false },
+                });
+                mockPersistence.findUserItemByExternalId.mockResolvedValueOnce({
+                    listItemId: 'item_1',
+                    listId: 'list_1',
+                    userListId: 'user_list_1',
+                    attributes: { external: { provider: 'plaid', id: 'txn_1' } },
+                } as any);
+                mockPersistence.removeItemsByExternalId.mockResolvedValueOnce(1);
+
+                const result = await provider.sync(mockUserId);
+
+                expect(mockPersistence.relocateListItem).not.toHaveBeenCalled();
+                expect(mockPersistence.upsertListItem).toHaveBeenCalledWith(
+                    'list_1', 0, 'user_list_1', 0, 'cat_1', 0, expect.any(String),
+                    expect.objectContaining({ amount: 6.25, external: expect.objectContaining({ id: 'txn_1' }) }),
+                    expect.anything(),
+                );
+                expect(mockPersistence.removeItemsByExternalId).toHaveBeenCalledWith(mockUserId, 'plaid', ['txn_2']);
+                expect(result.details).toEqual(expect.objectContaining({ transactions: 1, modified: 1, removed: 1 }));
+            });
+
+            it('should move the item of a pending transaction to the posted one that replaces it', async () => {
+                const posted = { ...mockTransactions[0], transaction_id: 'txn_posted', pending_transaction_id: 'txn_pending' };
+                mockPlaidClient.transactionsSync.mockResolvedValue({
+                    data: { added: [posted], modified: [], removed: [{ transaction_id: 'txn_pending', account_id: 'account_1' }], next_cursor: 'cursor-2', has_more: false },
+                });
+                const pendingItem = {
+                    listItemId: 'item_pending',
+                    listId: 'list_1',
+                    userListId: 'user_list_1',
+                    attributes: { external: { provider: 'plaid', id: 'txn_pending' } },
+                };
+                mockPersistence.findUserItemByExternalId
+                    .mockResolvedValueOnce(null)
+                    .mockResolvedValueOnce(pendingItem as any);
+
+                await provider.sync(mockUserId);
+
+                expect(mockPersistence.findUserItemByExternalId).toHaveBeenLastCalledWith(mockUserId, 'plaid', 'txn_pending');
+                expect(mockPersistence.relocateListItem).toHaveBeenCalledWith(pendingItem, 'list_1', 'user_list_1', 'txn_posted');
+            });
+
+            it('should restart pagination from the stored cursor when transactions change mid-sync', async () => {
+                mockPlaidClient.transactionsSync
+                    .mockResolvedValueOnce({ data: { added: [mockTransactions[0]], modified: [], removed: [], next_cursor: 'page-2', has_more: true } })
+                    .mockRejectedValueOnce({ response: { status: 400, data: { error_code: 'TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION' } } })
+                    .mockResolvedValueOnce({ data: { added: mockTransactions, modified: [], removed: [], next_cursor: 'cursor-2', has_more: false } });
+
+                const result = await provider.sync(mockUserId);
+
+                expect(mockPlaidClient.transactionsSync).toHaveBeenCalledTimes(3);
+                expect(mockPlaidClient.transactionsSync.mock.calls[2][0].cursor).toBe(mockPlaidClient.transactionsSync.mock.calls[0][0].cursor);
+                expect(result.details.transactions).toBe(2);
+            });
+        });
+
+        describe('categorization', () => {
+            const groceries = {
+                ...mockTransactions[0],
+                transaction_id: 'txn_groceries',
+                name: 'WHOLEFDS MKT 10234',
+                merchant_name: null,
+                category: ['Shops'],
+                personal_finance_category: { primary: 'FOOD_AND_DRINK', detailed: 'FOOD_AND_DRINK_GROCERIES', confidence_level: 'VERY_HIGH' },
+                counterparties: [{ name: 'Whole Foods', type: 'merchant', website: 'wholefoodsmarket.com', logo_url: 'https://plaid-merchant-logos.plaid.com/whole_foods.png' }],
+            };
+
+            beforeEach(() => {
+                jest.restoreAllMocks();
+                jest.clearAllMocks();
+                mockTokenStore.get.mockResolvedValue({ accessToken: mockAccessToken, providerUserId: 'item_123' });
+                mockPlaidClient.accountsGet.mockResolvedValue({ data: { accounts: mockAccounts } });
+                mockPlaidClient.transactionsSync.mockResolvedValue({
+                    data: { added: [groceries], modified: [], removed: [], next_cursor: 'cursor-1', has_more: false },
+                });
+            });
+
+            it('should file a transaction under the list and category mapped from its personal_finance_category', async () => {
+                mockCategoryMap.resolve.mockResolvedValueOnce({ listType: 'Food', categoryName: 'Groceries' });
+
+                await provider.sync(mockUserId);
+
+                expect(mockCategoryMap.resolve).toHaveBeenCalledWith('FOOD_AND_DRINK', 'FOOD_AND_DRINK_GROCERIES');
+                expect(mockPersistence.ensureListAndCategoryForUser).toHaveBeenCalledWith(mockUserId, 'Food', 'Groceries');
+                expect(mockPersistence.upsertListItem).toHaveBeenCalledWith(
+                    'list_1', 0, 'user_list_1', 0, 'cat_1', 0, expect.any(String),
+                    expect.objectContaining({
+                        merchantName: 'Whole Foods',
+                        website: 'wholefoodsmarket.com',
+                        logoUrl: 'https://plaid-merchant-logos.plaid.com/whole_foods.png',
+                        personalFinanceCategory: { primary: 'FOOD_AND_DRINK', detailed: 'FOOD_AND_DRINK_GROCERIES', confidenceLevel: 'VERY_HIGH' },
+                        counterparties: [expect.objectContaining({ name: 'Whole Foods', type: 'merchant' })],
+                    }),
+                    expect.objectContaining({ counterparties: 'json', personalFinanceCategory: expect.objectContaining({ detailed: 'string' }) }),
+                );
+            });
+
+            it('should fall back to the merchant counterparty when the code is not mapped', async () => {
+                mockPlaidClient.transactionsSync.mockResolvedValue({
+                    data: {
+                        added: [{ ...groceries, counterparties: [{ name: 'Safeway', type: 'merchant', website: 'safeway.com', logo_url: null }] }],
+                        modified: [], removed: [], next_cursor: 'cursor-1', has_more: false,
+                    },
+                });
+
+                await provider.sync(mockUserId);
+
+                expect(mockPersistence.ensureListAndCategoryForUser).toHaveBeenCalledWith(mockUserId, 'Food', 'Groceries');
+            });
+        });
+
+        describe('investments and liabilities', () => {
+            const investmentAccount = {
+                account_id: 'inv_1',
+                name: 'Brokerage',
+                type: 'investment',
+                subtype: 'brokerage',
+                balances: { available: null, current: 5000, iso_currency_code: 'USD', limit: null, unofficial_currency_code: null },
+                mask: '2222',
+                official_name: null,
+            };
+            const loanAccount = {
+                account_id: 'loan_1',
+                name: 'Student Loan',
+                type: 'loan',
+                subtype: 'student',
+                balances: { available: null, current: 12000, iso_currency_code: 'USD', limit: null, unofficial_currency_code: null },
+                mask: '3333',
+                official_name: null,
+            };
+
+            beforeEach(() => {
+                jest.restoreAllMocks();
+                jest.clearAllMocks();
+                mockTokenStore.get.mockResolvedValue({ accessToken: mockAccessToken, providerUserId: 'item_123' });
+                mockPlaidClient.transactionsSync.mockResolvedValue({
+                    data: { added: [], modified: [], removed: [], next_cursor: 'cursor-1', has_more: false },
+                });
+                mockPlaidClient.accountsGet.mockResolvedValue({
+                    data: { accounts: [...mockAccounts, investmentAccount, loanAccount], item: { products: ['transactions', 'investments', 'liabilities'] } },
+                });
+                mockPlaidClient.investmentsHoldingsGet.mockResolvedValue({
+                    data: {
+                        accounts: [investmentAccount],
+                        holdings: [{ account_id: 'inv_1', security_id: 'sec_1', quantity: 10, institution_price: 190.5, institution_value: 1905, cost_basis: 1500, iso_currency_code: 'USD', unofficial_currency_code: null }],
+                        securities: [{ security_id: 'sec_1', name: 'Apple Inc.', ticker_symbol: 'AAPL', type: 'equity' }],
+                    },
+                });
+                mockPlaidClient.investmentsTransactionsGet.mockResolvedValue({
+                    data: {
+                        investment_transactions: [{
+                            investment_transaction_id: 'inv_txn_1', account_id: 'inv_1', security_id: 'sec_1', date: '2024-01-05', name: 'BUY Apple Inc.',
+                            quantity: 10, amount: 1500, price: 150, fees: 0, type: 'buy', subtype: 'buy', iso_currency_code: 'USD', unofficial_currency_code: null,
+                        }],
+                        securities: [{ security_id: 'sec_1', name: 'Apple Inc.', ticker_symbol: 'AAPL', type: 'equity' }],
+                        total_investment_transactions: 1,
+                    },
+                });
+                mockPlaidClient.liabilitiesGet.mockResolvedValue({
+                    data: {
+                        accounts: [],
+                        liabilities: {
+                            credit: [{
+                                account_id: 'account_2', aprs: [{ apr_type: 'purchase_apr', apr_percentage: 22.99, balance_subject_to_apr: 500, interest_charge_amount: 9.58 }],
+                                is_overdue: false, last_payment_amount: 100, last_payment_date: '2024-01-10', last_statement_balance: 500, minimum_payment_amount: 25, next_payment_due_date: '2024-02-10',
+                            }],
+                            student: [{
+                                account_id: 'loan_1', loan_name: 'Consolidation', loan_status: { type: 'repayment', end_date: null }, repayment_plan: { type: 'standard', description: 'Standard Repayment' },
+                                interest_rate_percentage: 5.25, minimum_payment_amount: 150, outstanding_interest_amount: 20, origination_principal_amount: 15000, origination_date: '2018-09-01',
+                                expected_payoff_date: '2032-09-01', is_overdue: false, last_payment_amount: 150, last_payment_date: '2024-01-15', next_payment_due_date: '2024-02-15',
+                            }],
+                            mortgage: null,
+                        },
+                    },
+                });
+            });
+
+            it('should store holdings, investment activity and debts for the products the Item was granted', async () => {
+                const result = await provider.sync(mockUserId);
+
+                expect(mockPersistence.ensureListAndCategoryForUser).toHaveBeenCalledWith(mockUserId, 'Financial', 'Holdings');
+                expect(mockPersistence.ensureListAndCategoryForUser).toHaveBeenCalledWith(mockUserId, 'Financial', 'Investment Activity');
+                expect(mockPersistence.ensureListAndCategoryForUser).toHaveBeenCalledWith(mockUserId, 'Financial', 'Debts');
+                expect(mockPersistence.upsertListItem).toHaveBeenCalledWith(
+                    'list_1', 0, 'user_list_1', 0, 'cat_1', 0, 'AAPL | Holdings',
+                    expect.objectContaining({ quantity: 10, value: 1905, external: expect.objectContaining({ id: 'inv_1:sec_1', type: 'holding' }) }),
+                    expect.objectContaining({ quantity: 'number', value: 'number' }),
+                );
+                expect(mockPersistence.upsertListItem).toHaveBeenCalledWith(
+                    'list_1', 0, 'user_list_1', 0, 'cat_1', 0, 'Credit Card | Debts',
+                    expect.objectContaining({ debtType: 'credit', aprs: [expect.objectContaining({ type: 'purchase_apr', percentage: 22.99 })] }),
+                    expect.objectContaining({ aprs: 'json', nextPaymentDueDate: 'date' }),
+                );
+                expect(mockPersistence.upsertListItem).toHaveBeenCalledWith(
+                    'list_1', 0, 'user_list_1', 0, 'cat_1', 0, 'Student Loan | Debts',
+                    expect.objectContaining({ debtType: 'student', balance: 12000, interestRatePercentage: 5.25, repaymentPlan: 'Standard Repayment' }),
+                    expect.anything(),
+                );
+                expect(mockPersistence.removeStaleAccountItems).toHaveBeenCalledWith(mockUserId, 'plaid', 'holding', ['inv_1'], ['inv_1:sec_1']);
+                expect(result.details).toEqual(expect.objectContaining({ holdings: 1, investmentTransactions: 1, debts: 2 }));
+            });
+
+            it('should skip products the Item was not granted', async () => {
+                mockPlaidClient.accountsGet.mockResolvedValue({ data: { accounts: mockAccounts, item: { products: ['transactions'] } } });
+
+                const result = await provider.sync(mockUserId);
+
+                expect(mockPlaidClient.investmentsHoldingsGet).not.toHaveBeenCalled();
+                expect(mockPlaidClient.investmentsTransactionsGet).not.toHaveBeenCalled();
+                expect(mockPlaidClient.liabilitiesGet).not.toHaveBeenCalled();
+                expect(result.details).toEqual(expect.objectContaining({ holdings: 0, investmentTransactions: 0, debts: 0 }));
+            });
+
+            it('should skip a product that is not ready yet and still sync the rest', async () => {
+                mockPlaidClient.investmentsHoldingsGet.mockRejectedValue({
+                    response: { status: 400, data: { error_type: 'ITEM_ERROR', error_code: 'PRODUCT_NOT_READY', error_message: 'the requested product is not yet ready' } },
+                });
+
+                const result = await provider.sync(mockUserId);
+
+                expect(result.ok).toBe(true);
+                expect(result.details).toEqual(expect.objectContaining({ holdings: 0, debts: 2 }));
+            });
+
+            it('should resume investment transactions from the last synced date', async () => {
+                await (provider as any).cursors.delete(mockUserId, 'plaid');
+                await provider.sync(mockUserId);
+                await provider.sync(mockUserId);
+
+                const [first, second] = mockPlaidClient.investmentsTransactionsGet.mock.calls.map(([request]) => request);
+                expect(second.start_date > first.start_date).toBe(true);
+                expect(second.end_date).toBe(first.end_date);
+            });
+        });
+
+        describe('item errors', () => {
+            beforeEach(() => {
+                jest.restoreAllMocks();
+                jest.clearAllMocks();
+                mockTokenStore.get.mockResolvedValue({ accessToken: mockAccessToken, providerUserId: 'item_123' });
+            });
+
+            it('should mark the connection for re-authentication on ITEM_LOGIN_REQUIRED', async () => {
+                mockPlaidClient.accountsGet.mockRejectedValue({
+                    response: {
+                        status: 400,
+                        data: { error_type: 'ITEM_ERROR', error_code: 'ITEM_LOGIN_REQUIRED', error_message: 'the login details of this item have changed' },
+                    },
+                });
+
+                await expect(provider.sync(mockUserId)).rejects.toThrow(InvalidTokenException);
+                expect(mockPersistence.markReauthRequired).toHaveBeenCalledWith(mockUserId, 'plaid');
+            });
+
+            it('should keep the connection on other item errors', async () => {
+                mockPlaidClient.accountsGet.mockRejectedValue({
+                    response: { status: 400, data: { error_type: 'ITEM_ERROR', error_code: 'PRODUCT_NOT_READY', error_message: 'not ready' } },
+                });
+
+                await expect(provider.sync(mockUserId)).rejects.toThrow(ProviderAPIException);
+                expect(mockPersistence.markReauthRequired).not.toHaveBeenCalled();
+            });
+        });
+    });
+
+    describe('webhooks', () => {
+        // Stand-in for Plaid's signing key
+        const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+        const body = { webhook_type: 'TRANSACTIONS', webhook_code: 'SYNC_UPDATES_AVAILABLE', item_id: 'item_123' };
+        const rawBody = Buffer.from(JSON.stringify(body));
+
+        const signedRequest = (claims: Record<string, any> = {}, kid = 'kid-1') => {
+            const token = jwt.sign(
+                { request_body_sha256: crypto.createHash('sha256').update(rawBody).digest('hex'), ...claims },
+                privateKey,
+                { algorithm: 'ES256', keyid: kid },
+            );
+            return { headers: { 'plaid-verification': token }, query: {}, body, rawBody };
+        };
+
+        beforeEach(() => {
+            mockPlaidClient.webhookVerificationKeyGet.mockResolvedValue({
+                data: { key: { ...publicKey.export({ format: 'jwk' }), alg: 'ES256', kid: 'kid-1', use: 'sig', expired_at: null } },
+            });
+        });
+
+        it('should verify a signed webhook and return its event type', async () => {
+            await expect(provider.verifyWebhook(signedRequest())).resolves.toBe('TRANSACTIONS.SYNC_UPDATES_AVAILABLE');
+            expect(mockPlaidClient.webhookVerificationKeyGet).toHaveBeenCalledWith({ key_id: 'kid-1' });
+        });
+
+        it('should reject a body that does not match the signed hash', async () => {
+            const request = { ...signedRequest(), rawBody: Buffer.from('{"webhook_type":"ITEM"}') };
+
+            await expect(provider.verifyWebhook(request)).rejects.toThrow('Body hash does not match');
+        });
+
+        it('should reject tokens older than five minutes', async () => {
+            const request = signedRequest({ iat: Math.floor(Date.now() / 1000) - 600 }, 'kid-old');
+
+            await expect(provider.verifyWebhook(request)).rejects.toThrow(WebhookVerificationException);
+        });
+
+        it('should reject a request without the verification header', async () => {
+            await expect(provider.verifyWebhook({ headers: {}, query: {}, body, rawBody })).rejects.toThrow(
+                'Missing Plaid-Verification header',
+            );
+        });
+
+        it('should enqueue a sync for the connection that owns the item', async () => {
+            mockTokenStore.findOwner.mockResolvedValue({ userId: mockUserId, connectionId: 'link_1' });
+            const enqueueSync = jest.fn().mockResolvedValue({});
+
+            const outcome = await provider.handleWebhook(
+                { eventId: 'event-1', provider: provider.name, eventType: 'TRANSACTIONS.SYNC_UPDATES_AVAILABLE', payload: body },
+                enqueueSync,
+            );
+
+            expect(mockTokenStore.findOwner).toHaveBeenCalledWith('plaid', 'item_123');
+            expect(enqueueSync).toHaveBeenCalledWith(mockUserId, 'link_1');
+            expect(outcome).toEqual({ userId: mockUserId, handled: true });
+        });
+
+        it('should mark the connection for re-authentication on an ITEM_LOGIN_REQUIRED webhook', async () => {
+            mockTokenStore.findOwner.mockResolvedValue({ userId: mockUserId, connectionId: 'link_1' });
+            const enqueueSync = jest.fn();
+
+            const outcome = await provider.handleWebhook(
+                {
+                    eventId: 'event-1',
+                    provider: provider.name,
+                    eventType: 'ITEM.ERROR',
+                    payload: { webhook_type: 'ITEM', webhook_code: 'ERROR', item_id: 'item_123', error: { error_code: 'ITEM_LOGIN_REQUIRED' } },
+                },
+                enqueueSync,
+            );
+
+            expect(mockPersistence.markReauthRequired).toHaveBeenCalledWith(mockUserId, 'plaid');
+            expect(enqueueSync).not.toHaveBeenCalled();
+            expect(outcome).toEqual({ userId: mockUserId, handled: true });
+        });
+
+        it('should mark the connection for re-authentication when the user revokes access', async () => {
+            mockTokenStore.findOwner.mockResolvedValue({ userId: mockUserId, connectionId: 'link_1' });
+
+            const outcome = await provider.handleWebhook(
+                { eventId: 'event-1', provider: provider.name, eventType: 'ITEM.USER_PERMISSION_REVOKED', payload: { webhook_type: 'ITEM', webhook_code: 'USER_PERMISSION_REVOKED', item_id: 'item_123' } },
+                jest.fn(),
+            );
+
+            expect(mockPersistence.markReauthRequired).toHaveBeenCalledWith(mockUserId, 'plaid');
+            expect(outcome).toEqual({ userId: mockUserId, handled: true });
+        });
+
+        it('should flag expiring consent without stopping syncs', async () => {
+            jest.clearAllMocks();
+            mockTokenStore.findOwner.mockResolvedValue({ userId: mockUserId, connectionId: 'link_1' });
+
+            for (const code of ['PENDING_EXPIRATION', 'PENDING_DISCONNECT']) {
+                const outcome = await provider.handleWebhook(
+                    { eventId: 'event-1', provider: provider.name, eventType: `ITEM.${code}`, payload: { webhook_type: 'ITEM', webhook_code: code, item_id: 'item_123' } },
+                    jest.fn(),
+                );
+                expect(outcome).toEqual({ userId: mockUserId, handled: true });
+            }
+
+            expect(mockPersistence.markExpiring).toHaveBeenCalledTimes(2);
+            expect(mockPersistence.markExpiring).toHaveBeenCalledWith(mockUserId, 'plaid');
+            expect(mockPersistence.markReauthRequired).not.toHaveBeenCalled();
+        });
+
+        it('should resume syncing when the login is repaired', async () => {
+            mockTokenStore.findOwner.mockResolvedValue({ userId: mockUserId, connectionId: 'link_1' });
+            const enqueueSync = jest.fn().mockResolvedValue({});
+
+            await provider.handleWebhook(
+                { eventId: 'event-1', provider: provider.name, eventType: 'ITEM.LOGIN_REPAIRED', payload: { webhook_type: 'ITEM', webhook_code: 'LOGIN_REPAIRED', item_id: 'item_123' } },
+                enqueueSync,
+            );
+
+            expect(mockPersistence.markReauthResolved).toHaveBeenCalledWith(mockUserId, 'plaid');
+            expect(enqueueSync).toHaveBeenCalledWith(mockUserId, 'link_1');
+        });
+
+        it('should ignore webhooks for unknown items', async () => {
+            mockTokenStore.findOwner.mockResolvedValue(null);
+            const enqueueSync = jest.fn();
+
+            const outcome = await provider.handleWebhook(
+                { eventId: 'event-1', provider: provider.name, eventType: 'TRANSACTIONS.SYNC_UPDATES_AVAILABLE', payload: body },
+                enqueueSync,
+            );
+
+            expect(enqueueSync).not.toHaveBeenCalled();
+            expect(outcome.handled).toBe(false);
         });
     });
 
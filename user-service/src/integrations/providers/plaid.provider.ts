@@ -1,10 +1,18 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { IntegrationProvider, IntegrationProviderName, ConnectResponse, CallbackPayload } from '../types';
+import { IntegrationAuthType, IntegrationCapabilities, IntegrationProvider, IntegrationProviderName, ConnectResponse, CallbackPayload, WebhookEvent, WebhookOutcome, WebhookRequest } from '../types';
 import { IntegrationPersistence } from '../persistence';
+import { connectionWhere, getConnectionId, runInConnection } from '../connection-scope';
+import { getSyncSettings, importsCategory } from '../sync-settings';
 import { PrismaService } from '@traeta/prisma';
 import { TokenStore } from '../token-store';
-import { PlaidApi, Configuration, PlaidEnvironments, LinkTokenCreateRequest, ItemPublicTokenExchangeRequest, TransactionsGetRequest, AccountsGetRequest, InstitutionsGetByIdRequest, Products, CountryCode, Transaction } from 'plaid';
+import { CursorStore } from '../cursor-store';
+import { OAuthStateService } from '../oauth-state';
+import { IntegrationSandbox } from '../integration-sandbox';
+import { PlaidCategoryMap } from '../plaid-category-map';
+import * as crypto from 'crypto';
+import * as jwt from 'jsonwebtoken';
+import { PlaidApi, Configuration, PlaidEnvironments, LinkTokenCreateRequest, ItemPublicTokenExchangeRequest, TransactionsSyncRequest, AccountsGetRequest, InstitutionsGetByIdRequest, Products, CountryCode, RemovedTransaction, Transaction, TransactionCounterparty, Holding, InvestmentTransaction, LiabilitiesObject, Security, Item as PlaidItem } from 'plaid';
 import {
     ConfigurationException,
     InvalidCallbackException,
@@ -13,9 +21,53 @@ import {
     DataSyncException,
     ProviderAPIException,
     RateLimitException,
+    WebhookVerificationException,
 } from '../exceptions/integration.exceptions';
 import { DATA_TYPE, REC_SEQ, STATUS } from '../../../constants';
 
+// Webhooks that mean new or changed transactions are ready to pull
+const TRANSACTION_WEBHOOK_CODES = ['SYNC_UPDATES_AVAILABLE', 'INITIAL_UPDATE', 'HISTORICAL_UPDATE', 'DEFAULT_UPDATE', 'TRANSACTIONS_REMOVED'];
+
+// Webhook codes, by webhook type, that queue a sync
+const SYNC_WEBHOOK_CODES: Record<string, string[]> = {
+    TRANSACTIONS: TRANSACTION_WEBHOOK_CODES,
+    HOLDINGS: ['DEFAULT_UPDATE'],
+    INVESTMENTS_TRANSACTIONS: ['DEFAULT_UPDATE', 'HISTORICAL_UPDATE'],
+    LIABILITIES: ['DEFAULT_UPDATE'],
+};
+
+// Plaid signs webhooks with ES256 and recommends rejecting tokens older than 5 minutes
+const WEBHOOK_JWT_MAX_AGE = '5m';
+
+// Most transaction history Plaid Link can request for an Item
+const PLAID_MAX_DAYS_REQUESTED = 730;
+
+// Restarts of a /transactions/sync pagination loop when the Item changes underneath it
+const SYNC_PAGINATION_ATTEMPTS = 3;
+
+// Item errors the user resolves by logging in again through Link update mode
+const ITEM_REAUTH_ERROR_CODES = ['ITEM_LOGIN_REQUIRED', 'ITEM_LOCKED', 'USER_SETUP_REQUIRED'];
+
+// ITEM webhooks sent once the Item stops working until the user logs in again
+const ITEM_REAUTH_WEBHOOK_CODES = ['ITEM_LOGIN_REQUIRED', 'USER_PERMISSION_REVOKED'];
+
+// ITEM webhooks sent days before the user's consent expires or the bank disconnects; the Item still works
+const ITEM_EXPIRING_WEBHOOK_CODES = ['PENDING_EXPIRATION', 'PENDING_DISCONNECT'];
+
+// Errors that skip an optional product for one sync: still extracting, or no accounts it covers
+const OPTIONAL_PRODUCT_SKIP_CODES = ['PRODUCT_NOT_READY', 'PRODUCTS_NOT_SUPPORTED', 'NO_INVESTMENT_ACCOUNTS', 'NO_LIABILITY_ACCOUNTS'];
+
+// Investment transactions Plaid may still add to days an earlier sync already covered
+const INVESTMENT_TRANSACTION_OVERLAP_DAYS = 30;
+
+// Changes since a /transactions/sync cursor
+interface TransactionChanges {
+    added: Transaction[];
+    modified: Transaction[];
+    removed: RemovedTransaction[];
+    nextCursor: string | null;
+}
+
 interface PlaidAccount {
     account_id: string;
     balances: {
@@ -75,15 +127,40 @@ interface PlaidTransaction {
 }
 
 @Injectable()
+@IntegrationProvider(IntegrationProviderName.PLAID)
 export class PlaidProvider implements IntegrationProvider {
     public readonly name = IntegrationProviderName.PLAID;
+    public readonly capabilities: IntegrationCapabilities = {
+        authType: IntegrationAuthType.LINK_TOKEN,
+        webhooks: true,
+        fileImport: false,
+        disconnect: true,
+        revoke: true,
+        multipleConnections: true,
+        dataTypes: ['accounts', 'transactions', 'holdings', 'investmentTransactions', 'liabilities'],
+        lists: [
+            // Transaction categories are the defaults of the personal_finance_category mapping in master data;
+            // Subscriptions holds the recurring charges RecurringChargeService finds in the transactions
+            { list: 'Financial', categories: ['Accounts', 'Holdings', 'Investment Activity', 'Debts', 'Income', 'Transfers', 'Debt Payments', 'Fees', 'Bills', 'Subscriptions'] },
+            { list: 'Travel', categories: ['Travel Expenses'] },
+            { list: 'Transport', categories: ['Transportation'] },
+            { list: 'Food', categories: ['Dining', 'Groceries'] },
+            { list: 'Places', categories: ['Entertainment', 'Shopping', 'General Expenses'] },
+        ],
+    };
     private readonly logger = new Logger(PlaidProvider.name);
+    // Webhook verification keys by kid; Plaid rotates keys rarely, so they are cached for the process lifetime
+    private readonly webhookKeys = new Map<string, crypto.KeyObject>();
 
     constructor(
         private readonly db: PrismaService,
         private readonly persistence: IntegrationPersistence,
         private readonly tokens: TokenStore,
         private readonly configService: ConfigService,
+        private readonly cursors: CursorStore,
+        private readonly oauthState: OAuthStateService,
+        private readonly sandbox: IntegrationSandbox,
+        private readonly categoryMap: PlaidCategoryMap,
     ) { }
 
     private getClientId(): string {
@@ -106,6 +183,7 @@ export class PlaidProvider implements IntegrationProvider {
                     'PLAID-CLIENT-ID': this.getClientId(),
                     'PLAID-SECRET': this.getSecret(),
                 },
+                ...this.sandbox.axiosOptions(this.name),
             },
         });
         return new PlaidApi(configuration);
@@ -137,19 +215,28 @@ export class PlaidProvider implements IntegrationProvider {
             );
         }
 
-        try {
-            const state = `plaid-${userId}-${Date.now()}`;
+        const { state } = await this.oauthState.issue(this.name, userId);
+        // A connection that already has an Item is re-authorized in update mode instead of linking a new Item
+        const existing = await this.tokens.get(userId, 'plaid');
 
+        try {
+            const backfill = getSyncSettings().backfillDays;
             const request: LinkTokenCreateRequest = {
                 user: {
                     client_user_id: userId,
                 },
                 client_name: 'Traeta',
-                products: [Products.Transactions],
                 country_codes: [CountryCode.Us],
                 language: 'en',
                 webhook: process.env.PLAID_WEBHOOK_URL,
                 redirect_uri: process.env.PLAID_REDIRECT_URI,
+                ...(existing ? { access_token: existing.accessToken } : {
+                    products: [Products.Transactions],
+                    // Offered for institutions that support them; the Item's products record what the user granted
+                    optional_products: [Products.Investments, Products.Liabilities],
+                    // History Plaid pulls for the Item; without it Plaid uses its own default (90 days)
+                    ...(backfill ? { transactions: { days_requested: Math.min(backfill, PLAID_MAX_DAYS_REQUESTED) } } : {}),
+                }),
             };
 
             const response = await this.getPlaidClient().linkTokenCreate(request);
@@ -211,26 +298,18 @@ export class PlaidProvider implements IntegrationProvider {
             );
         }
 
-        // Extract userId from state format: "plaid-<userId>-<ts>"
-        const stateStr = String(state);
-        if (!stateStr.startsWith('plaid-')) {
-            throw new InvalidCallbackException(
-                IntegrationProviderName.PLAID,
-                'Invalid state format: must start with plaid-'
-            );
-        }
-
-        const stateWithoutPrefix = stateStr.replace(/^plaid-/, '');
-        const lastDashIndex = stateWithoutPrefix.lastIndexOf('-');
-        const userId = lastDashIndex > 0 ? stateWithoutPrefix.substring(0, lastDashIndex) : stateWithoutPrefix;
-        if (!userId || lastDashIndex <= 0) {
-            throw new InvalidCallbackException(
-                IntegrationProviderName.PLAID,
-                'Invalid state format: unable to extract userId'
-            );
-        }
+        // Verifies the signature and expiry, and rejects replays
+        const { userId } = await this.oauthState.consume(this.name, state);
 
         try {
+            if (await this.tokens.get(userId, 'plaid')) {
+                // Update mode: the Item and its access token stay the same, so there is nothing to exchange
+                await this.persistence.markReauthResolved(userId, 'plaid');
+                this.logger.log(`Plaid item re-authorized for user ${userId}`);
+                await this.syncAfterConnect(userId);
+                return;
+            }
+
             // Exchange public token for access token
             const request: ItemPublicTokenExchangeRequest = {
                 public_token,
@@ -263,15 +342,7 @@ export class PlaidProvider implements IntegrationProvider {
 
             this.logger.log(`Plaid connected successfully for user ${userId}`);
 
-            // Automatically sync user data after successful connection
-            try {
-                this.logger.log(`Starting automatic sync for user ${userId} after Plaid connection`);
-                const syncResult = await this.sync(userId);
-                this.logger.log(`Automatic sync completed for user ${userId}:`, syncResult);
-            } catch (syncError) {
-                this.logger.error(`Automatic sync failed for user ${userId}:`, syncError);
-                // Don't throw error here as connection was successful, sync can be retried later
-            }
+            await this.syncAfterConnect(userId);
 
         } catch (error) {
             this.logger.error(`Failed to handle Plaid callback for user ${userId}:`, error);
@@ -314,11 +385,20 @@ export class PlaidProvider implements IntegrationProvider {
         }
     }
 
+    // Automatically sync user data after successful connection
+    private async syncAfterConnect(userId: string): Promise<void> {
+        try {
+            this.logger.log(`Starting automatic sync for user ${userId} after Plaid connection`);
+            const syncResult = await this.sync(userId);
+            this.logger.log(`Automatic sync completed for user ${userId}:`, syncResult);
+        } catch (syncError) {
+            this.logger.error(`Automatic sync failed for user ${userId}:`, syncError);
+            // Don't throw error here as connection was successful, sync can be retried later
+        }
+    }
+
     async sync(userId: string): Promise<{ ok: boolean; syncedAt?: Date; details?: any }> {
         const integration = await this.persistence.ensureIntegration('plaid');
-        const sinceDate =
-            (await this.persistence.getLastSyncedAt(userId, integration.integrationId)) ??
-            new Date(Date.now() - 30 * 24 * 60 * 60 * 1000); // Default to 30 days
 
         try {
             const tokenData = await this.tokens.get(userId, 'plaid');
@@ -332,25 +412,48 @@ export class PlaidProvider implements IntegrationProvider {
             let totalItems = 0;
 
             // Fetch accounts
-            const accounts = await this.fetchAccounts(accessToken);
+            const { accounts, item } = await this.fetchAccounts(accessToken);
 
             // Process and store accounts
-            if (accounts.length > 0) {
+            if (accounts.length > 0 && importsCategory('Accounts')) {
                 await this.processAccounts(userId, accounts);
                 totalItems += accounts.length;
             }
 
-            // Fetch transactions for each account
-            const transactions = await this.fetchTransactions(accessToken, sinceDate);
+            // Fetch transactions added, modified and removed since the stored /transactions/sync cursor
+            const cursor = await this.cursors.get(userId, this.name, 'transactions');
+            const { added, modified, removed, nextCursor } = await this.fetchTransactions(accessToken, cursor);
+            // The first sync returns all the history the Item has; keep the user's backfill depth of it
+            const transactions = [...(cursor ? added : this.withinBackfill(added)), ...modified];
 
             if (transactions.length > 0) {
                 await this.processTransactions(userId, transactions, accounts);
                 totalItems += transactions.length;
             }
+            const removedItems = await this.persistence.removeItemsByExternalId(userId, 'plaid', removed.map(transaction => transaction.transaction_id));
+
+            // Investments and liabilities are refreshed in full on every sync, for the products the Item was granted
+            const granted = item?.products ?? item?.billed_products ?? [];
+            const investments = granted.includes(Products.Investments);
+            const holdings = investments && importsCategory('Holdings')
+                ? await this.syncOptionalProduct('holdings', () => this.syncHoldings(userId, accessToken, accounts))
+                : 0;
+            const investmentTransactions = investments && importsCategory('Investment Activity')
+                ? await this.syncOptionalProduct('investment transactions', () => this.syncInvestmentTransactions(userId, accessToken, accounts))
+                : 0;
+            const debts = granted.includes(Products.Liabilities) && importsCategory('Debts')
+                ? await this.syncOptionalProduct('liabilities', () => this.syncLiabilities(userId, accessToken, accounts))
+                : 0;
+            totalItems += holdings + investmentTransactions + debts;
+
+            // Only advance the cursor once the changes have been stored
+            if (nextCursor) {
+                await this.cursors.set(userId, this.name, 'transactions', nextCursor);
+            }
 
             // Mark as synced
             const link = await this.db.userIntegrations.findFirst({
-                where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD },
+                where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...connectionWhere() },
             });
 
             if (link) {
@@ -363,14 +466,25 @@ export class PlaidProvider implements IntegrationProvider {
                 details: {
                     totalItems,
                     transactions: transactions.length,
+                    modified: modified.length,
+                    removed: removedItems,
                     accounts: accounts.length,
-                    since: sinceDate
+                    holdings,
+                    investmentTransactions,
+                    debts,
+                    incremental: !!cursor
                 }
             };
 
         } catch (error) {
             this.logger.error(`Plaid sync failed for user ${userId}:`, error);
 
+            // The Item stops syncing until the user logs in again through Link update mode
+            if (ITEM_REAUTH_ERROR_CODES.includes(error.response?.data?.error_code)) {
+                await this.persistence.markReauthRequired(userId, 'plaid');
+                throw new InvalidTokenException(IntegrationProviderName.PLAID);
+            }
+
             // If it's already one of our custom exceptions, re-throw it
             if (error instanceof InvalidTokenException ||
                 error instanceof RateLimitException ||
@@ -413,7 +527,7 @@ export class PlaidProvider implements IntegrationProvider {
     async status(userId: string): Promise<{ connected: boolean; lastSyncedAt?: Date | null; details?: any }> {
         const integration = await this.persistence.ensureIntegration('plaid');
         const link = await this.db.userIntegrations.findFirst({
-            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD },
+            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...connectionWhere() },
         });
 
         const history = link
@@ -433,63 +547,230 @@ export class PlaidProvider implements IntegrationProvider {
                 popularity: integration.popularity,
                 hasTokens: !!tokens,
                 itemId: tokens?.providerUserId,
+                statusDetail: link?.statusDetail ?? null,
             }
         };
     }
 
-    private async fetchAccounts(accessToken: string): Promise<PlaidAccount[]> {
+    /**
+     * Verify the Plaid-Verification JWT: ES256 signed by a Plaid key, issued in the last
+     * 5 minutes, with a request_body_sha256 claim matching the raw body.
+     * See https://plaid.com/docs/api/webhooks/webhook-verification/
+     */
+    async verifyWebhook(request: WebhookRequest): Promise<string> {
+        const header = request.headers['plaid-verification'];
+        const token = Array.isArray(header) ? header[0] : header;
+        if (!token) {
+            throw new WebhookVerificationException(this.name, 'Missing Plaid-Verification header');
+        }
+        if (!request.rawBody) {
+            throw new WebhookVerificationException(this.name, 'Raw request body is unavailable');
+        }
+
+        const decoded = jwt.decode(token, { complete: true });
+        if (!decoded || decoded.header.alg !== 'ES256' || !decoded.header.kid) {
+            throw new WebhookVerificationException(this.name, 'Invalid verification token header');
+        }
+
+        const key = await this.getWebhookKey(decoded.header.kid);
+        let claims: jwt.JwtPayload;
+        try {
+            claims = jwt.verify(token, key, { algorithms: ['ES256'], maxAge: WEBHOOK_JWT_MAX_AGE }) as jwt.JwtPayload;
+        } catch (error) {
+            throw new WebhookVerificationException(this.name, error.message);
+        }
+
+        const bodyHash = crypto.createHash('sha256').update(request.rawBody).digest('hex');
+        const expected = Buffer.from(String(claims.request_body_sha256 ?? ''));
+        const actual = Buffer.from(bodyHash);
+        if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+            throw new WebhookVerificationException(this.name, 'Body hash does not match');
+        }
+
+        const { webhook_type, webhook_code } = request.body ?? {};
+        return `${webhook_type}.${webhook_code}`;
+    }
+
+    /**
+     * Queue a sync for the connection that owns the Item when transactions, investments or
+     * liabilities have new data. ITEM webhooks about login errors mark the connection REAUTH_REQUIRED,
+     * expiring consent flags it EXPIRING while it keeps syncing, and LOGIN_REPAIRED resumes it.
+     * Other webhook types are acknowledged only.
+     */
+    async handleWebhook(event: WebhookEvent, enqueueSync: (userId: string, connectionId?: string) => Promise<unknown>): Promise<WebhookOutcome> {
+        const { webhook_type, webhook_code, item_id } = event.payload ?? {};
+
+        const owner = item_id ? await this.tokens.findOwner('plaid', item_id) : null;
+        if (!owner) {
+            this.logger.warn(`Plaid webhook ${event.eventType} for unknown item ${item_id}`);
+            return { handled: false };
+        }
+        const { userId, connectionId } = owner;
+
+        if (webhook_type === 'ITEM') {
+            return runInConnection(connectionId, () => this.handleItemWebhook(userId, webhook_code, event.payload.error, enqueueSync));
+        }
+
+        if (!SYNC_WEBHOOK_CODES[webhook_type]?.includes(webhook_code)) {
+            return { userId, handled: false };
+        }
+
+        await enqueueSync(userId, connectionId ?? undefined);
+        return { userId, handled: true };
+    }
+
+    private async handleItemWebhook(
+        userId: string,
+        webhookCode: string,
+        error: { error_code?: string } | null,
+        enqueueSync: (userId: string, connectionId?: string) => Promise<unknown>,
+    ): Promise<WebhookOutcome> {
+        if (ITEM_REAUTH_WEBHOOK_CODES.includes(webhookCode) || (webhookCode === 'ERROR' && ITEM_REAUTH_ERROR_CODES.includes(error?.error_code))) {
+            await this.persistence.markReauthRequired(userId, 'plaid');
+            return { userId, handled: true };
+        }
+
+        // Prompts the user to re-authorize through Link update mode before access actually ends
+        if (ITEM_EXPIRING_WEBHOOK_CODES.includes(webhookCode)) {
+            await this.persistence.markExpiring(userId, 'plaid');
+            return { userId, handled: true };
+        }
+
+        // The user fixed the login outside of our app
+        if (webhookCode === 'LOGIN_REPAIRED') {
+            await this.persistence.markReauthResolved(userId, 'plaid');
+            await enqueueSync(userId, getConnectionId());
+            return { userId, handled: true };
+        }
+
+        return { userId, handled: false };
+    }
+
+    private async getWebhookKey(kid: string): Promise<crypto.KeyObject> {
+        const cached = this.webhookKeys.get(kid);
+        if (cached) return cached;
+
+        let jwk;
+        try {
+            const response = await this.getPlaidClient().webhookVerificationKeyGet({ key_id: kid });
+            jwk = response.data.key;
+        } catch (error) {
+            this.logger.error(`Failed to fetch Plaid webhook key ${kid}:`, error);
+            throw new WebhookVerificationException(this.name, 'Unable to fetch verification key');
+        }
+
+        if (jwk.expired_at) {
+            throw new WebhookVerificationException(this.name, 'Verification key has expired');
+        }
+
+        const key = crypto.createPublicKey({ key: jwk as unknown as crypto.JsonWebKey, format: 'jwk' });
+        this.webhookKeys.set(kid, key);
+        return key;
+    }
+
+    // Accounts, and the Item they belong to with the products the user granted
+    private async fetchAccounts(accessToken: string): Promise<{ accounts: PlaidAccount[]; item?: PlaidItem }> {
         const request: AccountsGetRequest = {
             access_token: accessToken,
         };
 
         const response = await this.getPlaidClient().accountsGet(request);
-        return response.data.accounts;
+        return { accounts: response.data.accounts, item: response.data.item };
     }
 
-    private async fetchTransactions(accessToken: string, since: Date): Promise<Transaction[]> {
-        const endDate = new Date();
-        const startDate = since;
-
-        const request: TransactionsGetRequest = {
-            access_token: accessToken,
-            start_date: startDate.toISOString().split('T')[0], // YYYY-MM-DD format
-            end_date: endDate.toISOString().split('T')[0],
-        };
+    // Run one optional product's import; returns how many items it stored
+    private async syncOptionalProduct(product: string, run: () => Promise<number>): Promise<number> {
+        try {
+            return await run();
+        } catch (error) {
+            const code = error.response?.data?.error_code;
+            if (!OPTIONAL_PRODUCT_SKIP_CODES.includes(code)) {
+                throw error;
+            }
+            this.logger.warn(`Skipping Plaid ${product} for this sync: ${code}`);
+            return 0;
+        }
+    }
 
-        const response = await this.getPlaidClient().transactionsGet(request);
-        let transactions = response.data.transactions;
+    /**
+     * Pull every change since `cursor` from /transactions/sync (the whole history when the
+     * cursor is null). Returns the cursor to store for the next sync. When the Item's data
+     * changes mid-pagination, Plaid requires starting over from `cursor`.
+     */
+    private async fetchTransactions(accessToken: string, cursor: string | null): Promise<TransactionChanges> {
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await this.fetchTransactionPages(accessToken, cursor);
+            } catch (error) {
+                if (error.response?.data?.error_code !== 'TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION' || attempt >= SYNC_PAGINATION_ATTEMPTS) {
+                    throw error;
+                }
+                this.logger.warn(`Plaid transactions changed during pagination; restarting (attempt ${attempt + 1})`);
+            }
+        }
+    }
 
-        // If there are more transactions, fetch them
-        const totalTransactions = response.data.total_transactions;
-        if (totalTransactions > transactions.length) {
-            const remainingRequests = Math.ceil((totalTransactions - transactions.length) / 500);
+    private async fetchTransactionPages(accessToken: string, cursor: string | null): Promise<TransactionChanges> {
+        const changes: TransactionChanges = { added: [], modified: [], removed: [], nextCursor: cursor };
+        let hasMore = true;
 
-            for (let i = 1; i <= remainingRequests && i <= 10; i++) { // Limit to 10 additional requests
-                const additionalRequest: TransactionsGetRequest = {
-                    ...request,
-                };
+        while (hasMore) {
+            const request: TransactionsSyncRequest = {
+                access_token: accessToken,
+                count: 500,
+                ...(changes.nextCursor ? { cursor: changes.nextCursor } : {}),
+            };
 
-                const additionalResponse = await this.getPlaidClient().transactionsGet(additionalRequest);
-                transactions = transactions.concat(additionalResponse.data.transactions);
-            }
+            const response = await this.getPlaidClient().transactionsSync(request);
+            changes.added.push(...response.data.added);
+            changes.modified.push(...response.data.modified);
+            changes.removed.push(...response.data.removed);
+            changes.nextCursor = response.data.next_cursor;
+            hasMore = response.data.has_more;
         }
 
-        return transactions;
+        return changes;
+    }
+
+    private withinBackfill(transactions: Transaction[]): Transaction[] {
+        const days = getSyncSettings().backfillDays;
+        if (!days) {
+            return transactions;
+        }
+        const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+        return transactions.filter(transaction => transaction.date >= cutoff);
     }
 
+    /**
+     * Upsert added and modified transactions. A transaction keeps its item when a change moves it
+     * to another list, and a posted transaction takes over the item of the pending one it replaces,
+     * so user edits survive both.
+     */
     private async processTransactions(userId: string, transactions: Transaction[], accounts: PlaidAccount[]): Promise<void> {
         // Create a map of account IDs to account names for easier lookup
         const accountMap = new Map(accounts.map(account => [account.account_id, account]));
 
         for (const transaction of transactions) {
             const account = accountMap.get(transaction.account_id);
-            const category = this.categorizeTransaction(transaction);
+            const category = await this.categorizeTransaction(transaction);
+            const merchant = this.merchantOf(transaction);
+            const pfc = transaction.personal_finance_category;
+            if (!importsCategory(category.categoryName)) continue;
             const { list, userList, category: listCategory } = await this.persistence.ensureListAndCategoryForUser(userId, category.listType, category.categoryName);
 
+            const existing = await this.persistence.findUserItemByExternalId(userId, 'plaid', transaction.transaction_id)
+                ?? (transaction.pending_transaction_id
+                    ? await this.persistence.findUserItemByExternalId(userId, 'plaid', transaction.pending_transaction_id)
+                    : null);
+            const externalId = (existing?.attributes as { external?: { id?: string } })?.external?.id;
+            if (existing && (existing.listId !== list.listId || existing.userListId !== userList.userListId || externalId !== transaction.transaction_id)) {
+                await this.persistence.relocateListItem(existing, list.listId, userList.userListId, transaction.transaction_id);
+            }
+
             const transactionDate = new Date(transaction.date);
             const amount = Math.abs(transaction.amount); // Plaid uses positive for debits, negative for credits
 
-            await this.persistence.createListItem(
+            await this.persistence.upsertListItem(
                 list.listId,
                 REC_SEQ.DEFAULT_RECORD,
                 userList.userListId,
@@ -500,11 +781,26 @@ export class PlaidProvider implements IntegrationProvider {
                 {
                     transactionDate: transactionDate.toISOString(),
                     transactionName: transaction.name,
-                    merchantName: transaction.merchant_name,
+                    merchantName: transaction.merchant_name ?? merchant?.name ?? null,
+                    logoUrl: transaction.logo_url ?? merchant?.logo_url ?? null,
+                    website: transaction.website ?? merchant?.website ?? null,
                     amount: amount,
+                    // Signed as Plaid reports it: negative for refunds, deposits and other inflows
+                    rawAmount: transaction.amount,
                     currency: transaction.iso_currency_code || transaction.unofficial_currency_code || 'USD',
                     category: transaction.category,
                     categoryId: transaction.category_id,
+                    personalFinanceCategory: pfc ? {
+                        primary: pfc.primary,
+                        detailed: pfc.detailed,
+                        confidenceLevel: pfc.confidence_level ?? null,
+                    } : null,
+                    counterparties: (transaction.counterparties ?? []).map(counterparty => ({
+                        name: counterparty.name,
+                        type: counterparty.type,
+                        website: counterparty.website,
+                        logoUrl: counterparty.logo_url,
+                    })),
                     accountName: account?.name,
                     accountType: account?.type,
                     accountSubtype: account?.subtype,
@@ -533,10 +829,19 @@ export class PlaidProvider implements IntegrationProvider {
                     transactionDate: DATA_TYPE.STRING,
                     transactionName: DATA_TYPE.STRING,
                     merchantName: DATA_TYPE.STRING,
+                    logoUrl: DATA_TYPE.STRING,
+                    website: DATA_TYPE.STRING,
                     amount: DATA_TYPE.STRING,
+                    rawAmount: DATA_TYPE.STRING,
                     currency: DATA_TYPE.STRING,
                     category: DATA_TYPE.STRING,
                     categoryId: DATA_TYPE.STRING,
+                    personalFinanceCategory: {
+                        primary: DATA_TYPE.STRING,
+                        detailed: DATA_TYPE.STRING,
+                        confidenceLevel: DATA_TYPE.STRING,
+                    },
+                    counterparties: DATA_TYPE.JSON,
                     accountName: DATA_TYPE.STRING,
                     accountType: DATA_TYPE.STRING,
                     accountSubtype: DATA_TYPE.STRING,
@@ -616,10 +921,327 @@ export class PlaidProvider implements IntegrationProvider {
         }
     }
 
-    private categorizeTransaction(transaction: Transaction): { listType: string; categoryName: string } {
+    /**
+     * Store the Item's current investment holdings, one item per account and security, and
+     * soft-delete holdings of those accounts that were sold since the last sync.
+     */
+    private async syncHoldings(userId: string, accessToken: string, accounts: PlaidAccount[]): Promise<number> {
+        const response = await this.getPlaidClient().investmentsHoldingsGet({ access_token: accessToken });
+        const { holdings, securities } = response.data;
+        const accountMap = new Map(accounts.map(account => [account.account_id, account]));
+        const securityMap = new Map(securities.map(security => [security.security_id, security]));
+        const { list, userList, category } = await this.persistence.ensureListAndCategoryForUser(userId, 'Financial', 'Holdings');
+
+        for (const holding of holdings) {
+            await this.storeHolding(list.listId, userList.userListId, category?.listCategoryId ?? null, holding, accountMap.get(holding.account_id), securityMap.get(holding.security_id));
+        }
+
+        const investmentAccountIds = response.data.accounts.map(account => account.account_id);
+        await this.persistence.removeStaleAccountItems(userId, 'plaid', 'holding', investmentAccountIds, holdings.map(holding => this.holdingId(holding)));
+        return holdings.length;
+    }
+
+    private holdingId(holding: Holding): string {
+        return `${holding.account_id}:${holding.security_id}`;
+    }
+
+    private async storeHolding(listId: string, userListId: string, categoryId: string | null, holding: Holding, account: PlaidAccount | undefined, security: Security | undefined) {
+        const name = security?.ticker_symbol || security?.name || holding.security_id;
+        await this.persistence.upsertListItem(
+            listId,
+            REC_SEQ.DEFAULT_RECORD,
+            userListId,
+            REC_SEQ.DEFAULT_RECORD,
+            categoryId,
+            REC_SEQ.DEFAULT_RECORD,
+            `${name} | Holdings`,
+            {
+                accountName: account?.name,
+                securityName: security?.name,
+                tickerSymbol: security?.ticker_symbol,
+                securityType: security?.type,
+                quantity: holding.quantity,
+                price: holding.institution_price,
+                priceAsOf: holding.institution_price_as_of ?? null,
+                value: holding.institution_value,
+                costBasis: holding.cost_basis,
+                currency: holding.iso_currency_code || holding.unofficial_currency_code || 'USD',
+                external: {
+                    provider: 'plaid',
+                    id: this.holdingId(holding),
+                    accountId: holding.account_id,
+                    type: 'holding',
+                },
+            },
+            {
+                accountName: DATA_TYPE.STRING,
+                securityName: DATA_TYPE.STRING,
+                tickerSymbol: DATA_TYPE.STRING,
+                securityType: DATA_TYPE.STRING,
+                quantity: DATA_TYPE.NUMBER,
+                price: DATA_TYPE.NUMBER,
+                priceAsOf: DATA_TYPE.DATE,
+                value: DATA_TYPE.NUMBER,
+                costBasis: DATA_TYPE.NUMBER,
+                currency: DATA_TYPE.STRING,
+                external: { provider: DATA_TYPE.STRING, id: DATA_TYPE.STRING, accountId: DATA_TYPE.STRING, type: DATA_TYPE.STRING },
+            }
+        );
+    }
+
+    /**
+     * Store investment transactions since the last sync (the user's backfill depth on the first
+     * one). Each sync re-reads the last few weeks, as Plaid can add transactions to past days.
+     */
+    private async syncInvestmentTransactions(userId: string, accessToken: string, accounts: PlaidAccount[]): Promise<number> {
+        const lastEndDate = await this.cursors.get(userId, this.name, 'investments');
+        const days = Math.min(getSyncSettings().backfillDays ?? PLAID_MAX_DAYS_REQUESTED, PLAID_MAX_DAYS_REQUESTED);
+        const start = lastEndDate
+            ? new Date(new Date(lastEndDate).getTime() - INVESTMENT_TRANSACTION_OVERLAP_DAYS * 24 * 60 * 60 * 1000)
+            : new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+        const endDate = new Date().toISOString().slice(0, 10);
+
+        const transactions: InvestmentTransaction[] = [];
+        const securityMap = new Map<string, Security>();
+        let total = Infinity;
+        while (transactions.length < total) {
+            const response = await this.getPlaidClient().investmentsTransactionsGet({
+                access_token: accessToken,
+                start_date: start.toISOString().slice(0, 10),
+                end_date: endDate,
+                options: { count: 500, offset: transactions.length },
+            });
+            response.data.securities.forEach(security => securityMap.set(security.security_id, security));
+            transactions.push(...response.data.investment_transactions);
+            total = response.data.total_investment_transactions;
+            if (response.data.investment_transactions.length === 0) break;
+        }
+
+        const accountMap = new Map(accounts.map(account => [account.account_id, account]));
+        const { list, userList, category } = await this.persistence.ensureListAndCategoryForUser(userId, 'Financial', 'Investment Activity');
+        for (const transaction of transactions) {
+            const account = accountMap.get(transaction.account_id);
+            const security = transaction.security_id ? securityMap.get(transaction.security_id) : undefined;
+            await this.persistence.upsertListItem(
+                list.listId,
+                REC_SEQ.DEFAULT_RECORD,
+                userList.userListId,
+                REC_SEQ.DEFAULT_RECORD,
+                category?.listCategoryId ?? null,
+                REC_SEQ.DEFAULT_RECORD,
+                `${account?.name} | Investment Activity`,
+                {
+                    transactionDate: transaction.date,
+                    transactionName: transaction.name,
+                    accountName: account?.name,
+                    securityName: security?.name ?? null,
+                    tickerSymbol: security?.ticker_symbol ?? null,
+                    type: transaction.type,
+                    subtype: transaction.subtype,
+                    quantity: transaction.quantity,
+                    price: transaction.price,
+                    amount: transaction.amount,
+                    fees: transaction.fees,
+                    currency: transaction.iso_currency_code || transaction.unofficial_currency_code || 'USD',
+                    external: {
+                        provider: 'plaid',
+                        id: transaction.investment_transaction_id,
+                        accountId: transaction.account_id,
+                        type: 'investment_transaction',
+                    },
+                },
+                {
+                    transactionDate: DATA_TYPE.DATE,
+                    transactionName: DATA_TYPE.STRING,
+                    accountName: DATA_TYPE.STRING,
+                    securityName: DATA_TYPE.STRING,
+                    tickerSymbol: DATA_TYPE.STRING,
+                    type: DATA_TYPE.STRING,
+                    subtype: DATA_TYPE.STRING,
+                    quantity: DATA_TYPE.NUMBER,
+                    price: DATA_TYPE.NUMBER,
+                    amount: DATA_TYPE.NUMBER,
+                    fees: DATA_TYPE.NUMBER,
+                    currency: DATA_TYPE.STRING,
+                    external: { provider: DATA_TYPE.STRING, id: DATA_TYPE.STRING, accountId: DATA_TYPE.STRING, type: DATA_TYPE.STRING },
+                }
+            );
+        }
+
+        await this.cursors.set(userId, this.name, 'investments', endDate);
+        return transactions.length;
+    }
+
+    /**
+     * Store one Debts item per credit card, student loan and mortgage account with its current
+     * balance, rates and payment schedule.
+     */
+    private async syncLiabilities(userId: string, accessToken: string, accounts: PlaidAccount[]): Promise<number> {
+        const response = await this.getPlaidClient().liabilitiesGet({ access_token: accessToken });
+        const debts = this.debtsOf(response.data.liabilities);
+        const accountMap = new Map([...accounts, ...response.data.accounts].map(account => [account.account_id, account]));
+        const { list, userList, category } = await this.persistence.ensureListAndCategoryForUser(userId, 'Financial', 'Debts');
+
+        for (const debt of debts) {
+            const account = accountMap.get(debt.accountId);
+            await this.persistence.upsertListItem(
+                list.listId,
+                REC_SEQ.DEFAULT_RECORD,
+                userList.userListId,
+                REC_SEQ.DEFAULT_RECORD,
+                category?.listCategoryId ?? null,
+                REC_SEQ.DEFAULT_RECORD,
+                `${account?.name} | Debts`,
+                {
+                    debtType: debt.debtType,
+                    accountName: account?.name,
+                    balance: account?.balances.current ?? null,
+                    currency: account?.balances.iso_currency_code || account?.balances.unofficial_currency_code || 'USD',
+                    lastPaymentAmount: debt.lastPaymentAmount,
+                    lastPaymentDate: debt.lastPaymentDate,
+                    nextPaymentDueDate: debt.nextPaymentDueDate,
+                    ...debt.details,
+                    external: {
+                        provider: 'plaid',
+                        id: debt.accountId,
+                        accountId: debt.accountId,
+                        type: 'liability',
+                    },
+                },
+                {
+                    debtType: DATA_TYPE.STRING,
+                    accountName: DATA_TYPE.STRING,
+                    balance: DATA_TYPE.NUMBER,
+                    currency: DATA_TYPE.STRING,
+                    lastPaymentAmount: DATA_TYPE.NUMBER,
+                    lastPaymentDate: DATA_TYPE.DATE,
+                    nextPaymentDueDate: DATA_TYPE.DATE,
+                    ...debt.detailTypes,
+                    external: { provider: DATA_TYPE.STRING, id: DATA_TYPE.STRING, accountId: DATA_TYPE.STRING, type: DATA_TYPE.STRING },
+                }
+            );
+        }
+        return debts.length;
+    }
+
+    // Flatten /liabilities/get into one entry per account with the fields specific to its kind of debt
+    private debtsOf(liabilities: LiabilitiesObject) {
+        const credit = (liabilities.credit ?? []).filter(card => card.account_id).map(card => ({
+            accountId: card.account_id,
+            debtType: 'credit',
+            lastPaymentAmount: card.last_payment_amount,
+            lastPaymentDate: card.last_payment_date,
+            nextPaymentDueDate: card.next_payment_due_date,
+            details: {
+                aprs: card.aprs.map(apr => ({
+                    type: apr.apr_type,
+                    percentage: apr.apr_percentage,
+                    balanceSubjectToApr: apr.balance_subject_to_apr,
+                    interestChargeAmount: apr.interest_charge_amount,
+                })),
+                minimumPaymentAmount: card.minimum_payment_amount,
+                lastStatementBalance: card.last_statement_balance,
+                isOverdue: card.is_overdue,
+            },
+            detailTypes: {
+                aprs: DATA_TYPE.JSON,
+                minimumPaymentAmount: DATA_TYPE.NUMBER,
+                lastStatementBalance: DATA_TYPE.NUMBER,
+                isOverdue: DATA_TYPE.BOOLEAN,
+            },
+        }));
+
+        const student = (liabilities.student ?? []).filter(loan => loan.account_id).map(loan => ({
+            accountId: loan.account_id,
+            debtType: 'student',
+            lastPaymentAmount: loan.last_payment_amount,
+            lastPaymentDate: loan.last_payment_date,
+            nextPaymentDueDate: loan.next_payment_due_date,
+            details: {
+                loanName: loan.loan_name,
+                loanStatus: loan.loan_status?.type ?? null,
+                repaymentPlan: loan.repayment_plan?.description ?? loan.repayment_plan?.type ?? null,
+                interestRatePercentage: loan.interest_rate_percentage,
+                minimumPaymentAmount: loan.minimum_payment_amount,
+                outstandingInterestAmount: loan.outstanding_interest_amount,
+                originationPrincipalAmount: loan.origination_principal_amount,
+                originationDate: loan.origination_date,
+                expectedPayoffDate: loan.expected_payoff_date,
+                isOverdue: loan.is_overdue,
+            },
+            detailTypes: {
+                loanName: DATA_TYPE.STRING,
+                loanStatus: DATA_TYPE.STRING,
+                repaymentPlan: DATA_TYPE.STRING,
+                interestRatePercentage: DATA_TYPE.NUMBER,
+                minimumPaymentAmount: DATA_TYPE.NUMBER,
+                outstandingInterestAmount: DATA_TYPE.NUMBER,
+                originationPrincipalAmount: DATA_TYPE.NUMBER,
+                originationDate: DATA_TYPE.DATE,
+                expectedPayoffDate: DATA_TYPE.DATE,
+                isOverdue: DATA_TYPE.BOOLEAN,
+            },
+        }));
+
+        const mortgage = (liabilities.mortgage ?? []).map(loan => ({
+            accountId: loan.account_id,
+            debtType: 'mortgage',
+            lastPaymentAmount: loan.last_payment_amount,
+            lastPaymentDate: loan.last_payment_date,
+            nextPaymentDueDate: loan.next_payment_due_date,
+            details: {
+                loanType: loan.loan_type_description,
+                loanTerm: loan.loan_term,
+                interestRatePercentage: loan.interest_rate?.percentage ?? null,
+                interestRateType: loan.interest_rate?.type ?? null,
+                nextMonthlyPayment: loan.next_monthly_payment,
+                escrowBalance: loan.escrow_balance,
+                pastDueAmount: loan.past_due_amount,
+                originationPrincipalAmount: loan.origination_principal_amount,
+                originationDate: loan.origination_date,
+                maturityDate: loan.maturity_date,
+            },
+            detailTypes: {
+                loanType: DATA_TYPE.STRING,
+                loanTerm: DATA_TYPE.STRING,
+                interestRatePercentage: DATA_TYPE.NUMBER,
+                interestRateType: DATA_TYPE.STRING,
+                nextMonthlyPayment: DATA_TYPE.NUMBER,
+                escrowBalance: DATA_TYPE.NUMBER,
+                pastDueAmount: DATA_TYPE.NUMBER,
+                originationPrincipalAmount: DATA_TYPE.NUMBER,
+                originationDate: DATA_TYPE.DATE,
+                maturityDate: DATA_TYPE.DATE,
+            },
+        }));
+
+        return [...credit, ...student, ...mortgage];
+    }
+
+    /**
+     * List and category for a transaction from its personal_finance_category, through the mapping
+     * in master data. Transactions without one, or with a code the mapping does not cover, fall
+     * back to matching the merchant's name and website.
+     */
+    private async categorizeTransaction(transaction: Transaction): Promise<{ listType: string; categoryName: string }> {
+        const pfc = transaction.personal_finance_category;
+        const mapped = pfc ? await this.categoryMap.resolve(pfc.primary, pfc.detailed) : null;
+        return mapped ?? this.categorizeByMerchant(transaction);
+    }
+
+    // The merchant counterparty fills in the name, logo and website Plaid leaves empty on some transactions
+    private merchantOf(transaction: Transaction): TransactionCounterparty | undefined {
+        return transaction.counterparties?.find(counterparty => counterparty.type === 'merchant');
+    }
+
+    private categorizeByMerchant(transaction: Transaction): { listType: string; categoryName: string } {
         const categories = transaction.category || [];
         const primaryCategory = categories[0]?.toLowerCase() || '';
-        const merchantName = (transaction.merchant_name || transaction.name || '').toLowerCase();
+        const merchant = this.merchantOf(transaction);
+        const merchantName = [transaction.merchant_name || merchant?.name || transaction.name, transaction.website || merchant?.website]
+            .filter(Boolean)
+            .join(' ')
+            .toLowerCase();
 
         // Travel-related transactions
         if (primaryCategory.includes('travel') ||
@@ -725,7 +1347,7 @@ export class PlaidProvider implements IntegrationProvider {
             // Update user integration status to DISCONNECTED
             const integration = await this.persistence.ensureIntegration('plaid');
             const link = await this.db.userIntegrations.findFirst({
-                where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD },
+                where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...connectionWhere() },
             });
 
             if (link) {
@@ -3,6 +3,8 @@ import { SpotifyProvider } from './spotify.provider';
 import { PrismaService } from '@traeta/prisma';
 import { IntegrationPersistence } from '../persistence';
 import { TokenStore } from '../token-store';
+import { CursorStore, InMemoryCursorStore } from '../cursor-store';
+import { OAuthStateService } from '../oauth-state';
 import { Logger } from '@nestjs/common';
 import axios from 'axios';
 import {
@@ -15,10 +17,21 @@ import {
     ProviderAPIException,
     RateLimitException,
 } from '../exceptions/integration.exceptions';
+import { ProviderHttpClient } from '../provider-http-client';
+import { IntegrationSandbox } from '../integration-sandbox';
+import { ConfigService } from '@nestjs/config';
 
 jest.mock('axios');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
 
+// Error mapping only; retries, rate limiting and the circuit breaker are covered in provider-http-client.spec.ts
+const httpConfig = new ConfigService({
+    PROVIDER_HTTP_MAX_RETRIES: '0',
+    PROVIDER_CIRCUIT_THRESHOLD: '1000',
+    PROVIDER_RATE_LIMIT_SPOTIFY: '1000/1',
+});
+const httpClient = new ProviderHttpClient(httpConfig, new IntegrationSandbox(httpConfig));
+
 describe('SpotifyProvider', () => {
     let provider: SpotifyProvider;
     let mockPrismaService: jest.Mocked<PrismaService>;
@@ -26,6 +39,17 @@ describe('SpotifyProvider', () => {
     let mockTokenStore: jest.Mocked<TokenStore>;
 
     const mockUserId = 'user123';
+
+    // Signed state handling is covered in oauth-state.spec.ts; only mockState is accepted here
+    const mockOAuthState = {
+        issue: jest.fn().mockResolvedValue({ state: 'signed-state' }),
+        consume: jest.fn().mockImplementation(async (provider: string, state: string) => {
+            if (state !== 'signed-state') {
+                throw new InvalidCallbackException(provider, 'Invalid state signature');
+            }
+            return { userId: mockUserId };
+        }),
+    };
     const mockIntegration = {
         integrationId: 'spotify_integration_id',
         recSeq: 0,
@@ -39,7 +63,7 @@ describe('SpotifyProvider', () => {
         modifiedBy: null,
     };
 
-    beforeAll(async () => {
+    beforeEach(async () => {
         // Create mocks
         mockPrismaService = {
             userIntegrations: {
@@ -88,8 +112,12 @@ describe('SpotifyProvider', () => {
             providers: [
                 SpotifyProvider,
                 { provide: PrismaService, useValue: mockPrismaService },
+                { provide: ConfigService, useValue: new ConfigService() },
+                { provide: ProviderHttpClient, useValue: httpClient },
                 { provide: IntegrationPersistence, useValue: mockPersistence },
                 { provide: TokenStore, useValue: mockTokenStore },
+                { provide: OAuthStateService, useValue: mockOAuthState },
+                { provide: CursorStore, useClass: InMemoryCursorStore },
             ],
         }).compile();
 
@@ -109,7 +137,7 @@ describe('SpotifyProvider', () => {
         });
     });
 
-    afterAll(() => {
+    afterEach(() => {
         jest.clearAllMocks();
     });
 
@@ -122,10 +150,23 @@ describe('SpotifyProvider', () => {
             expect(result.redirectUrl).toContain('redirect_uri=http%3A%2F%2Flocalhost%3A3000%2Fcallback');
             expect(result.redirectUrl).toContain('response_type=code');
             expect(result.redirectUrl).toContain('show_dialog=true');
-            expect(result.state).toContain(`spotify-${mockUserId}`);
+            expect(result.state).toBe('signed-state');
+            expect(mockOAuthState.issue).toHaveBeenCalledWith('spotify', mockUserId, { pkce: true });
             expect(mockPersistence.ensureIntegration).toHaveBeenCalledWith('spotify');
         });
 
+        it('should include the PKCE code challenge in authorization URL', async () => {
+            mockOAuthState.issue.mockResolvedValueOnce({
+                state: 'signed-state',
+                pkceParams: { code_challenge: 'challenge_123', code_challenge_method: 'S256' },
+            });
+
+            const result = await provider.createConnection(mockUserId);
+
+            expect(result.redirectUrl).toContain('code_challenge=challenge_123');
+            expect(result.redirectUrl).toContain('code_challenge_method=S256');
+        });
+
         it('should include all required scopes in authorization URL', async () => {
             const result = await provider.createConnection(mockUserId);
 
@@ -147,8 +188,12 @@ describe('SpotifyProvider', () => {
                 providers: [
                     SpotifyProvider,
                     { provide: PrismaService, useValue: mockPrismaService },
+                    { provide: ConfigService, useValue: new ConfigService() },
+                    { provide: ProviderHttpClient, useValue: httpClient },
                     { provide: IntegrationPersistence, useValue: mockPersistence },
                     { provide: TokenStore, useValue: mockTokenStore },
+                { provide: OAuthStateService, useValue: mockOAuthState },
+                    { provide: CursorStore, useClass: InMemoryCursorStore },
                 ],
             }).compile();
 
@@ -174,8 +219,12 @@ describe('SpotifyProvider', () => {
                 providers: [
                     SpotifyProvider,
                     { provide: PrismaService, useValue: mockPrismaService },
+                    { provide: ConfigService, useValue: new ConfigService() },
+                    { provide: ProviderHttpClient, useValue: httpClient },
                     { provide: IntegrationPersistence, useValue: mockPersistence },
                     { provide: TokenStore, useValue: mockTokenStore },
+                { provide: OAuthStateService, useValue: mockOAuthState },
+                    { provide: CursorStore, useClass: InMemoryCursorStore },
                 ],
             }).compile();
 
@@ -198,8 +247,12 @@ describe('SpotifyProvider', () => {
                 providers: [
                     SpotifyProvider,
                     { provide: PrismaService, useValue: mockPrismaService },
+                    { provide: ConfigService, useValue: new ConfigService() },
+                    { provide: ProviderHttpClient, useValue: httpClient },
                     { provide: IntegrationPersistence, useValue: mockPersistence },
                     { provide: TokenStore, useValue: mockTokenStore },
+                { provide: OAuthStateService, useValue: mockOAuthState },
+                    { provide: CursorStore, useClass: InMemoryCursorStore },
                 ],
             }).compile();
 
@@ -214,7 +267,7 @@ describe('SpotifyProvider', () => {
 
     describe('handleCallback', () => {
         const mockCode = 'auth_code_123';
-        const mockState = `spotify-${mockUserId}-${Date.now()}`;
+        const mockState = 'signed-state';
         const mockTokenResponse = {
             data: {
                 access_token: 'access_token_123',
@@ -230,7 +283,7 @@ describe('SpotifyProvider', () => {
             email: 'test@example.com',
         };
 
-        beforeAll(() => {
+        beforeEach(() => {
             mockedAxios.post.mockResolvedValue(mockTokenResponse);
             mockedAxios.get.mockResolvedValue({ data: mockUserProfile });
         });
@@ -288,28 +341,22 @@ describe('SpotifyProvider', () => {
             );
         });
 
-        it('should throw InvalidCallbackException with invalid state prefix', async () => {
+        it('should throw InvalidCallbackException when the state is not valid', async () => {
             await expect(
-                provider.handleCallback({ code: mockCode, state: 'invalid-prefix-user123-123456' })
-            ).rejects.toThrow(InvalidCallbackException);
-            await expect(
-                provider.handleCallback({ code: mockCode, state: 'invalid-prefix-user123-123456' })
-            ).rejects.toThrow("Invalid state prefix");
+                provider.handleCallback({ code: mockCode, state: `spotify-user123-${Date.now()}` })
+            ).rejects.toThrow('Invalid state signature');
         });
 
-        it('should throw InvalidCallbackException when state format is invalid', async () => {
-            await expect(
-                provider.handleCallback({ code: mockCode, state: 'spotify-user123' })
-            ).rejects.toThrow(InvalidCallbackException);
-            await expect(
-                provider.handleCallback({ code: mockCode, state: 'spotify-user123' })
-            ).rejects.toThrow('missing timestamp');
-        });
+        it('should send the PKCE code verifier with the token exchange', async () => {
+            mockOAuthState.consume.mockResolvedValueOnce({
+                userId: mockUserId,
+                pkceParams: { code_verifier: 'verifier_123' },
+            });
 
-        it('should throw InvalidCallbackException when userId is missing in state', async () => {
-            await expect(
-                provider.handleCallback({ code: mockCode, state: `spotify--${Date.now()}` })
-            ).rejects.toThrow(InvalidCallbackException);
+            await provider.handleCallback({ code: mockCode, state: mockState });
+
+            const [, body] = mockedAxios.post.mock.calls[mockedAxios.post.mock.calls.length - 1];
+            expect((body as URLSearchParams).get('code_verifier')).toBe('verifier_123');
         });
 
         it('should handle 401 error from token exchange', async () => {
@@ -557,7 +604,7 @@ describe('SpotifyProvider', () => {
             ],
         };
 
-        beforeAll(() => {
+        beforeEach(() => {
             mockTokenStore.get.mockResolvedValue({
                 accessToken: mockAccessToken,
                 refreshToken: 'refresh_token',
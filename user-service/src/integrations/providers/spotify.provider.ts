@@ -1,11 +1,15 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { IntegrationProvider, IntegrationProviderName, ConnectResponse, CallbackPayload } from '../types';
+import { IntegrationAuthType, IntegrationCapabilities, IntegrationProvider, IntegrationProviderName, ConnectResponse, CallbackPayload } from '../types';
 import { URLSearchParams } from 'url';
 import { IntegrationPersistence } from '../persistence';
+import { connectionWhere } from '../connection-scope';
+import { backfillDays, importsCategory } from '../sync-settings';
 import { PrismaService } from '@traeta/prisma';
-import { TokenStore } from '../token-store';
-import axios from 'axios';
+import { OAuthTokens, TokenStore } from '../token-store';
+import { CursorStore } from '../cursor-store';
+import { OAuthStateService } from '../oauth-state';
+import { ProviderHttpClient, TOKEN_REFRESH_OPERATION, refreshStatusErrors } from '../provider-http-client';
 import {
     ConfigurationException,
     InvalidCallbackException,
@@ -107,8 +111,22 @@ interface SpotifyUserProfile {
 }
 
 @Injectable()
+@IntegrationProvider(IntegrationProviderName.SPOTIFY)
 export class SpotifyProvider implements IntegrationProvider {
     public readonly name = IntegrationProviderName.SPOTIFY;
+    public readonly capabilities: IntegrationCapabilities = {
+        authType: IntegrationAuthType.OAUTH,
+        authorizationUrl: 'https://accounts.spotify.com/authorize',
+        webhooks: false,
+        fileImport: false,
+        disconnect: true,
+        revoke: false,
+        multipleConnections: true,
+        dataTypes: ['recentlyPlayed', 'likedSongs', 'playlists', 'topTracks'],
+        lists: [
+            { list: 'Music', categories: ['Recently Played', 'Liked Songs', 'Playlists', 'Top Tracks'] },
+        ],
+    };
     private readonly logger = new Logger(SpotifyProvider.name);
 
     constructor(
@@ -116,6 +134,9 @@ export class SpotifyProvider implements IntegrationProvider {
         private readonly persistence: IntegrationPersistence,
         private readonly tokens: TokenStore,
         private readonly configService: ConfigService,
+        private readonly cursors: CursorStore,
+        private readonly oauthState: OAuthStateService,
+        private readonly http: ProviderHttpClient,
     ) { }
 
     private getClientId(): string {
@@ -132,7 +153,7 @@ export class SpotifyProvider implements IntegrationProvider {
 
     private getDefaultDays(): number {
         const days = this.configService.get<string>('SPOTIFY_DEFAULT_DAYS');
-        return days ? Number(days) : 30;
+        return backfillDays(days ? Number(days) : 30);
     }
 
     async createConnection(userId: string): Promise<ConnectResponse> {
@@ -147,13 +168,14 @@ export class SpotifyProvider implements IntegrationProvider {
             );
         }
 
-        const state = `spotify-${userId}-${Date.now()}`;
+        const { state, pkceParams } = await this.oauthState.issue(this.name, userId, { pkce: true });
         const params = new URLSearchParams({
             response_type: 'code',
             client_id: clientId,
             scope: 'user-read-email user-read-private user-read-recently-played user-read-playback-state user-library-read playlist-read-private playlist-read-collaborative user-top-read',
             redirect_uri: redirectUri,
             state,
+            ...pkceParams,
             show_dialog: 'true', // Force user to approve app again
         });
         const redirectUrl = `https://accounts.spotify.com/authorize?${params.toString()}`;
@@ -180,31 +202,8 @@ export class SpotifyProvider implements IntegrationProvider {
             );
         }
 
-        const stateStr = String(state);
-        const prefix = `${this.name}-`;
-        if (!stateStr.startsWith(prefix)) {
-            throw new InvalidCallbackException(
-                IntegrationProviderName.SPOTIFY,
-                `Invalid state prefix: expected '${prefix}', got '${stateStr.split('-')[0]}-'`
-            );
-        }
-
-        const statePayload = stateStr.slice(prefix.length);
-        const lastHyphenIndex = statePayload.lastIndexOf('-');
-        if (lastHyphenIndex === -1) {
-            throw new InvalidCallbackException(
-                IntegrationProviderName.SPOTIFY,
-                'Invalid state format: missing timestamp'
-            );
-        }
-
-        const userId = statePayload.slice(0, lastHyphenIndex);
-        if (!userId) {
-            throw new InvalidCallbackException(
-                IntegrationProviderName.SPOTIFY,
-                'Missing userId in state parameter'
-            );
-        }
+        // Verifies the signature and expiry, and rejects replays
+        const { userId, pkceParams } = await this.oauthState.consume(this.name, state);
 
         try {
             // Exchange authorization code for access token
@@ -214,15 +213,22 @@ export class SpotifyProvider implements IntegrationProvider {
             const redirectUri = this.getRedirectUri();
             const authHeader = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
 
-            const tokenResponse = await axios.post(tokenUrl, new URLSearchParams({
+            const authFailed = (message: string) => new OAuthAuthenticationException(
+                IntegrationProviderName.SPOTIFY,
+                `Failed to exchange authorization code: ${message}`
+            );
+            const tokenResponse = await this.http.post(this.name, tokenUrl, new URLSearchParams({
                 grant_type: 'authorization_code',
                 code,
                 redirect_uri: redirectUri,
+                ...pkceParams,
             }), {
+                operation: 'Token exchange',
                 headers: {
                     'Authorization': `Basic ${authHeader}`,
                     'Content-Type': 'application/x-www-form-urlencoded',
                 },
+                statusErrors: { 401: authFailed, 403: authFailed },
             });
 
             const tokenData = tokenResponse.data;
@@ -261,34 +267,12 @@ export class SpotifyProvider implements IntegrationProvider {
 
             // If it's already one of our custom exceptions, re-throw it
             if (error instanceof InvalidCallbackException ||
-                error instanceof OAuthAuthenticationException) {
+                error instanceof OAuthAuthenticationException ||
+                error instanceof RateLimitException ||
+                error instanceof ProviderAPIException) {
                 throw error;
             }
 
-            // Handle Axios errors from Spotify API
-            if (axios.isAxiosError(error)) {
-                const status = error.response?.status;
-                const message = error.response?.data?.error_description || error.message;
-
-                if (status === 401 || status === 403) {
-                    throw new OAuthAuthenticationException(
-                        IntegrationProviderName.SPOTIFY,
-                        `Failed to exchange authorization code: ${message}`
-                    );
-                } else if (status === 429) {
-                    throw new RateLimitException(
-                        IntegrationProviderName.SPOTIFY,
-                        error.response?.headers['retry-after']
-                    );
-                } else {
-                    throw new ProviderAPIException(
-                        IntegrationProviderName.SPOTIFY,
-                        'Token exchange failed',
-                        status ? `${message} (status: ${status})` : message
-                    );
-                }
-            }
-
             // Generic error
             throw new OAuthAuthenticationException(
                 IntegrationProviderName.SPOTIFY,
@@ -310,68 +294,54 @@ export class SpotifyProvider implements IntegrationProvider {
             return existing.accessToken; // Still valid
         }
 
+        return (await this.refreshAccessToken(userId, existing)).accessToken;
+    }
+
+    /**
+     * Refresh strategy used both lazily (above) and by TokenLifecycleService ahead of expiry.
+     */
+    async refreshAccessToken(userId: string, existing: OAuthTokens): Promise<OAuthTokens> {
         if (!existing.refreshToken) {
             throw new InvalidTokenException(
                 IntegrationProviderName.SPOTIFY
             );
         }
 
-        // Refresh the token
         try {
             const tokenUrl = 'https://accounts.spotify.com/api/token';
             const authHeader = Buffer.from(`${this.getClientId()}:${this.getClientSecret()}`).toString('base64');
 
-            const response = await axios.post(tokenUrl, new URLSearchParams({
+            const response = await this.http.post(this.name, tokenUrl, new URLSearchParams({
                 grant_type: 'refresh_token',
                 refresh_token: existing.refreshToken,
             }), {
+                operation: TOKEN_REFRESH_OPERATION,
                 headers: {
                     'Authorization': `Basic ${authHeader}`,
                     'Content-Type': 'application/x-www-form-urlencoded',
                 },
+                statusErrors: refreshStatusErrors(IntegrationProviderName.SPOTIFY),
             });
 
             const tokenData = response.data;
             const newExpiresAt = Math.floor(Date.now() / 1000) + tokenData.expires_in;
 
             // Update stored tokens
-            await this.tokens.set(userId, 'spotify', {
+            const refreshed: OAuthTokens = {
                 accessToken: tokenData.access_token,
                 refreshToken: tokenData.refresh_token || existing.refreshToken, // Spotify may not return new refresh token
                 expiresAt: newExpiresAt,
                 scope: existing.scope,
                 providerUserId: existing.providerUserId,
-            });
+            };
+            await this.tokens.set(userId, 'spotify', refreshed);
 
-            return tokenData.access_token;
+            return refreshed;
         } catch (error) {
             this.logger.error(`Failed to refresh Spotify token for user ${userId}:`, error);
-
-            if (axios.isAxiosError(error)) {
-                const status = error.response?.status;
-                const message = error.response?.data?.error_description || error.message;
-
-                if (status === 400 || status === 401) {
-                    throw new RefreshTokenException(
-                        IntegrationProviderName.SPOTIFY
-                    );
-                } else if (status === 429) {
-                    throw new RateLimitException(
-                        IntegrationProviderName.SPOTIFY,
-                        error.response?.headers['retry-after']
-                    );
-                } else {
-                    throw new ProviderAPIException(
-                        IntegrationProviderName.SPOTIFY,
-                        'Token refresh failed',
-                        status ? `${message} (status: ${status})` : message
-                    );
-                }
-            }
-
-            throw new RefreshTokenException(
-                IntegrationProviderName.SPOTIFY
-            );
+            // Only refreshStatusErrors' invalid_grant mapping asks the user to reconnect; anything
+            // else (storage, network, provider outages) is rethrown as is and retried later
+            throw error;
         }
     }
 
@@ -386,29 +356,39 @@ export class SpotifyProvider implements IntegrationProvider {
             const accessToken = await this.ensureValidAccessToken(userId);
             let totalItems = 0;
 
-            // Sync recently played tracks
-            const recentlyPlayed = await this.fetchRecentlyPlayed(accessToken, sinceDate);
-            if (recentlyPlayed.length > 0) {
-                await this.processRecentlyPlayed(userId, recentlyPlayed);
-                totalItems += recentlyPlayed.length;
+            // Sync recently played tracks after the stored cursor (or the date window on first sync).
+            // Sections the user does not import are not fetched
+            let recentlyPlayed: SpotifyPlayHistoryItem[] = [];
+            if (importsCategory('Recently Played')) {
+                const recentlyPlayedCursor = await this.cursors.get(userId, this.name, 'recently_played_after');
+                const recentlyPlayedAfter = recentlyPlayedCursor ? Number(recentlyPlayedCursor) : sinceDate.getTime();
+                const { items, after: nextRecentlyPlayedAfter } = await this.fetchRecentlyPlayed(accessToken, recentlyPlayedAfter);
+                recentlyPlayed = items;
+                if (recentlyPlayed.length > 0) {
+                    await this.processRecentlyPlayed(userId, recentlyPlayed);
+                    totalItems += recentlyPlayed.length;
+                }
+                if (nextRecentlyPlayedAfter) {
+                    await this.cursors.set(userId, this.name, 'recently_played_after', nextRecentlyPlayedAfter);
+                }
             }
 
             // Sync user's saved tracks (liked songs)
-            const savedTracks = await this.fetchSavedTracks(accessToken, sinceDate);
+            const savedTracks = importsCategory('Liked Songs') ? await this.fetchSavedTracks(accessToken, sinceDate) : [];
             if (savedTracks.length > 0) {
                 await this.processSavedTracks(userId, savedTracks);
                 totalItems += savedTracks.length;
             }
 
             // Sync user's playlists
-            const playlists = await this.fetchUserPlaylists(accessToken);
+            const playlists = importsCategory('Playlists') ? await this.fetchUserPlaylists(accessToken) : [];
             if (playlists.length > 0) {
                 await this.processPlaylists(userId, playlists);
                 totalItems += playlists.length;
             }
 
             // Sync top tracks
-            const topTracks = await this.fetchTopTracks(accessToken);
+            const topTracks = importsCategory('Top Tracks') ? await this.fetchTopTracks(accessToken) : [];
             if (topTracks.length > 0) {
                 await this.processTopTracks(userId, topTracks);
                 totalItems += topTracks.length;
@@ -416,7 +396,7 @@ export class SpotifyProvider implements IntegrationProvider {
 
             // Mark as synced
             const link = await this.db.userIntegrations.findFirst({
-                where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...ACTIVE_CONDITION },
+                where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...connectionWhere(), ...ACTIVE_CONDITION },
             });
 
             if (link) {
@@ -447,29 +427,6 @@ export class SpotifyProvider implements IntegrationProvider {
                 throw error;
             }
 
-            // Handle Axios errors from Spotify API
-            if (axios.isAxiosError(error)) {
-                const status = error.response?.status;
-                const message = error.response?.data?.error?.message || error.message;
-
-                if (status === 429) {
-                    throw new RateLimitException(
-                        IntegrationProviderName.SPOTIFY,
-                        error.response?.headers['retry-after']
-                    );
-                } else if (status === 401 || status === 403) {
-                    throw new InvalidTokenException(
-                        IntegrationProviderName.SPOTIFY
-                    );
-                } else {
-                    throw new ProviderAPIException(
-                        IntegrationProviderName.SPOTIFY,
-                        'Spotify API error during sync',
-                        status ? `${message} (status: ${status})` : message
-                    );
-                }
-            }
-
             // Generic sync error
             throw new DataSyncException(
                 IntegrationProviderName.SPOTIFY,
@@ -481,7 +438,7 @@ export class SpotifyProvider implements IntegrationProvider {
     async status(userId: string): Promise<{ connected: boolean; lastSyncedAt?: Date | null; details?: any }> {
         const integration = await this.persistence.ensureIntegration('spotify');
         const link = await this.db.userIntegrations.findFirst({
-            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...ACTIVE_CONDITION },
+            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId: integration.integrationId, integrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...connectionWhere(), ...ACTIVE_CONDITION },
         });
 
         const history = link
@@ -508,7 +465,8 @@ export class SpotifyProvider implements IntegrationProvider {
 
     private async fetchUserProfile(accessToken: string): Promise<SpotifyUserProfile> {
         try {
-            const response = await axios.get('https://api.spotify.com/v1/me', {
+            const response = await this.http.get(this.name, 'https://api.spotify.com/v1/me', {
+                operation: 'Fetch profile',
                 headers: {
                     'Authorization': `Bearer ${accessToken}`,
                 },
@@ -520,23 +478,31 @@ export class SpotifyProvider implements IntegrationProvider {
         }
     }
 
-    private async fetchRecentlyPlayed(accessToken: string, since: Date): Promise<SpotifyPlayHistoryItem[]> {
+    /**
+     * Fetch plays after a Unix timestamp in milliseconds. Returns Spotify's `cursors.after`,
+     * the timestamp to resume from next time (absent when there were no new plays).
+     */
+    private async fetchRecentlyPlayed(accessToken: string, after: number): Promise<{ items: SpotifyPlayHistoryItem[]; after?: string }> {
         try {
-            const response = await axios.get('https://api.spotify.com/v1/me/player/recently-played', {
+            const response = await this.http.get(this.name, 'https://api.spotify.com/v1/me/player/recently-played', {
+                operation: 'Fetch recently played',
                 headers: {
                     'Authorization': `Bearer ${accessToken}`,
                 },
                 params: {
                     limit: 50,
-                    after: since.getTime(), // Unix timestamp in milliseconds
+                    after,
                 },
             });
 
-            return response.data.items || [];
+            return {
+                items: response.data.items || [],
+                after: response.data.cursors?.after ?? undefined,
+            };
 
         } catch (error) {
             this.logger.error('Failed to fetch recently played tracks:', error);
-            return [];
+            return { items: [] };
         }
     }
 
@@ -547,7 +513,8 @@ export class SpotifyProvider implements IntegrationProvider {
             const limit = 50;
 
             while (true) {
-                const response = await axios.get('https://api.spotify.com/v1/me/tracks', {
+                const response = await this.http.get(this.name, 'https://api.spotify.com/v1/me/tracks', {
+                    operation: 'Fetch saved tracks',
                     headers: {
                         'Authorization': `Bearer ${accessToken}`,
                     },
@@ -592,7 +559,8 @@ export class SpotifyProvider implements IntegrationProvider {
             const limit = 50;
 
             while (true) {
-                const response = await axios.get('https://api.spotify.com/v1/me/playlists', {
+                const response = await this.http.get(this.name, 'https://api.spotify.com/v1/me/playlists', {
+                    operation: 'Fetch playlists',
                     headers: {
                         'Authorization': `Bearer ${accessToken}`,
                     },
@@ -631,7 +599,8 @@ export class SpotifyProvider implements IntegrationProvider {
     }
 
     private async fetchPlaylistDetails(accessToken: string, playlistId: string): Promise<SpotifyPlaylist> {
-        const response = await axios.get(`https://api.spotify.com/v1/playlists/${playlistId}`, {
+        const response = await this.http.get(this.name, `https://api.spotify.com/v1/playlists/${playlistId}`, {
+            operation: 'Fetch playlist',
             headers: {
                 'Authorization': `Bearer ${accessToken}`,
             },
@@ -644,7 +613,8 @@ export class SpotifyProvider implements IntegrationProvider {
 
     private async fetchTopTracks(accessToken: string): Promise<SpotifyTrack[]> {
         try {
-            const response = await axios.get('https://api.spotify.com/v1/me/top/tracks', {
+            const response = await this.http.get(this.name, 'https://api.spotify.com/v1/me/top/tracks', {
+                operation: 'Fetch top tracks',
                 headers: {
                     'Authorization': `Bearer ${accessToken}`,
                 },
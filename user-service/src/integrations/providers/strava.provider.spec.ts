@@ -3,6 +3,8 @@ import { StravaProvider } from './strava.provider';
 import { PrismaService } from '@traeta/prisma';
 import { IntegrationPersistence } from '../persistence';
 import { TokenStore } from '../token-store';
+import { CursorStore, InMemoryCursorStore } from '../cursor-store';
+import { OAuthStateService } from '../oauth-state';
 import { Logger } from '@nestjs/common';
 import axios from 'axios';
 import {
@@ -14,11 +16,23 @@ import {
     DataSyncException,
     ProviderAPIException,
     RateLimitException,
+    WebhookVerificationException,
 } from '../exceptions/integration.exceptions';
+import { ProviderHttpClient } from '../provider-http-client';
+import { IntegrationSandbox } from '../integration-sandbox';
+import { ConfigService } from '@nestjs/config';
 
 jest.mock('axios');
 const mockedAxios = axios as jest.Mocked<typeof axios>;
 
+// Error mapping only; retries, rate limiting and the circuit breaker are covered in provider-http-client.spec.ts
+const httpConfig = new ConfigService({
+    PROVIDER_HTTP_MAX_RETRIES: '0',
+    PROVIDER_CIRCUIT_THRESHOLD: '1000',
+    PROVIDER_RATE_LIMIT_STRAVA: '1000/1',
+});
+const httpClient = new ProviderHttpClient(httpConfig, new IntegrationSandbox(httpConfig));
+
 describe('StravaProvider', () => {
     let provider: StravaProvider;
     let mockPrismaService: jest.Mocked<PrismaService>;
@@ -26,6 +40,17 @@ describe('StravaProvider', () => {
     let mockTokenStore: jest.Mocked<TokenStore>;
 
     const mockUserId = 'user123';
+
+    // Signed state handling is covered in oauth-state.spec.ts; only mockState is accepted here
+    const mockOAuthState = {
+        issue: jest.fn().mockResolvedValue({ state: 'signed-state' }),
+        consume: jest.fn().mockImplementation(async (provider: string, state: string) => {
+            if (state !== 'signed-state') {
+                throw new InvalidCallbackException(provider, 'Invalid state signature');
+            }
+            return { userId: mockUserId };
+        }),
+    };
     const mockIntegration = {
         integrationId: 'strava_integration_id',
         recSeq: 0,
@@ -39,7 +64,7 @@ describe('StravaProvider', () => {
         modifiedBy: null,
     };
 
-    beforeAll(async () => {
+    beforeEach(async () => {
         // Create mocks
         mockPrismaService = {
             userIntegrations: {
@@ -76,6 +101,7 @@ describe('StravaProvider', () => {
             get: jest.fn(),
             set: jest.fn(),
             delete: jest.fn(),
+            findOwner: jest.fn(),
         } as any;
 
         // Set environment variables
@@ -83,13 +109,19 @@ describe('StravaProvider', () => {
         process.env.STRAVA_CLIENT_SECRET = 'test_client_secret';
         process.env.STRAVA_REDIRECT_URI = 'http://localhost:3000/callback';
         process.env.STRAVA_DEFAULT_DAYS = '90';
+        process.env.STRAVA_WEBHOOK_VERIFY_TOKEN = 'test_verify_token';
+        process.env.STRAVA_WEBHOOK_SUBSCRIPTION_ID = '120475';
 
         const module: TestingModule = await Test.createTestingModule({
             providers: [
                 StravaProvider,
                 { provide: PrismaService, useValue: mockPrismaService },
+                { provide: ConfigService, useValue: new ConfigService() },
+                { provide: ProviderHttpClient, useValue: httpClient },
                 { provide: IntegrationPersistence, useValue: mockPersistence },
                 { provide: TokenStore, useValue: mockTokenStore },
+                { provide: OAuthStateService, useValue: mockOAuthState },
+                { provide: CursorStore, useClass: InMemoryCursorStore },
             ],
         }).compile();
 
@@ -109,7 +141,7 @@ describe('StravaProvider', () => {
         });
     });
 
-    afterAll(() => {
+    afterEach(() => {
         jest.clearAllMocks();
     });
 
@@ -121,17 +153,18 @@ describe('StravaProvider', () => {
             expect(result.redirectUrl).toContain('client_id=test_client_id');
             expect(result.redirectUrl).toContain('redirect_uri=http%3A%2F%2Flocalhost%3A3000%2Fcallback');
             expect(result.redirectUrl).toContain('scope=read%2Cactivity%3Aread_all');
-            expect(result.state).toContain(`strava-${mockUserId}`);
+            expect(result.redirectUrl).toContain('state=signed-state');
+            expect(result.state).toBe('signed-state');
+            expect(mockOAuthState.issue).toHaveBeenCalledWith('strava', mockUserId);
             expect(mockPersistence.ensureIntegration).toHaveBeenCalledWith('strava');
         });
 
         it('should throw ConfigurationException when CLIENT_ID is missing', async () => {
-            // Create a new provider instance with missing CLIENT_ID
+            // Configuration is read on each call, so the shared provider sees the missing CLIENT_ID
             process.env.STRAVA_CLIENT_ID = '';
-            const newProvider = new StravaProvider(mockPrismaService, mockPersistence, mockTokenStore);
 
-            await expect(newProvider.createConnection(mockUserId)).rejects.toThrow(ConfigurationException);
-            await expect(newProvider.createConnection(mockUserId)).rejects.toThrow(
+            await expect(provider.createConnection(mockUserId)).rejects.toThrow(ConfigurationException);
+            await expect(provider.createConnection(mockUserId)).rejects.toThrow(
                 'Strava integration is not properly configured'
             );
 
@@ -140,22 +173,20 @@ describe('StravaProvider', () => {
         });
 
         it('should throw ConfigurationException when CLIENT_SECRET is missing', async () => {
-            // Create a new provider instance with missing CLIENT_SECRET
+            // Configuration is read on each call, so the shared provider sees the missing CLIENT_SECRET
             process.env.STRAVA_CLIENT_SECRET = '';
-            const newProvider = new StravaProvider(mockPrismaService, mockPersistence, mockTokenStore);
 
-            await expect(newProvider.createConnection(mockUserId)).rejects.toThrow(ConfigurationException);
+            await expect(provider.createConnection(mockUserId)).rejects.toThrow(ConfigurationException);
 
             // Restore for other tests
             process.env.STRAVA_CLIENT_SECRET = 'test_client_secret';
         });
 
         it('should throw ConfigurationException when REDIRECT_URI is missing', async () => {
-            // Create a new provider instance with missing REDIRECT_URI
+            // Configuration is read on each call, so the shared provider sees the missing REDIRECT_URI
             process.env.STRAVA_REDIRECT_URI = '';
-            const newProvider = new StravaProvider(mockPrismaService, mockPersistence, mockTokenStore);
 
-            await expect(newProvider.createConnection(mockUserId)).rejects.toThrow(ConfigurationException);
+            await expect(provider.createConnection(mockUserId)).rejects.toThrow(ConfigurationException);
 
             // Restore for other tests
             process.env.STRAVA_REDIRECT_URI = 'http://localhost:3000/callback';
@@ -171,7 +202,7 @@ describe('StravaProvider', () => {
 
     describe('handleCallback', () => {
         const mockCode = 'auth_code_123';
-        const mockState = `strava-${mockUserId}-${Date.now()}`;
+        const mockState = 'signed-state';
         const mockTokenResponse = {
             data: {
                 token_type: 'Bearer',
@@ -184,7 +215,7 @@ describe('StravaProvider', () => {
             },
         };
 
-        beforeAll(() => {
+        beforeEach(() => {
             mockedAxios.post.mockResolvedValue(mockTokenResponse);
             mockedAxios.get.mockResolvedValue({ data: [] });
         });
@@ -232,31 +263,10 @@ describe('StravaProvider', () => {
             );
         });
 
-        it('should throw InvalidCallbackException with invalid state prefix', async () => {
-            await expect(
-                provider.handleCallback({ code: mockCode, state: 'invalid-prefix-user123-123456' })
-            ).rejects.toThrow(InvalidCallbackException);
-            await expect(
-                provider.handleCallback({ code: mockCode, state: 'invalid-prefix-user123-123456' })
-            ).rejects.toThrow("Invalid state prefix");
-        });
-
-        it('should throw InvalidCallbackException when state format is invalid (missing timestamp)', async () => {
-            await expect(
-                provider.handleCallback({ code: mockCode, state: 'strava-user123' })
-            ).rejects.toThrow(InvalidCallbackException);
-            await expect(
-                provider.handleCallback({ code: mockCode, state: 'strava-user123' })
-            ).rejects.toThrow('missing timestamp');
-        });
-
-        it('should throw InvalidCallbackException when userId is missing in state', async () => {
+        it('should throw InvalidCallbackException when the state is not valid', async () => {
             await expect(
-                provider.handleCallback({ code: mockCode, state: `strava--${Date.now()}` })
-            ).rejects.toThrow(InvalidCallbackException);
-            await expect(
-                provider.handleCallback({ code: mockCode, state: `strava--${Date.now()}` })
-            ).rejects.toThrow('Missing userId');
+                provider.handleCallback({ code: mockCode, state: `strava-user123-${Date.now()}` })
+            ).rejects.toThrow('Invalid state signature');
         });
 
         it('should handle 401 error from token exchange', async () => {
@@ -473,6 +483,27 @@ describe('StravaProvider', () => {
                 ProviderAPIException
             );
         });
+
+        it('should keep a 403 and storage failures during token refresh retryable', async () => {
+            const existing = {
+                accessToken: mockAccessToken,
+                refreshToken: mockRefreshToken,
+                expiresAt: Math.floor(Date.now() / 1000) - 100,
+            };
+
+            mockedAxios.post.mockRejectedValueOnce({
+                isAxiosError: true,
+                response: { status: 403, data: { message: 'Forbidden' } },
+            });
+            await expect(provider.refreshAccessToken(mockUserId, existing)).rejects.toThrow(ProviderAPIException);
+
+            const storageError = new Error('Token store unavailable');
+            mockedAxios.post.mockResolvedValueOnce({
+                data: { access_token: 'new_access_token', refresh_token: 'new_refresh_token', expires_at: Math.floor(Date.now() / 1000) + 3600 },
+            });
+            mockTokenStore.set.mockRejectedValueOnce(storageError);
+            await expect(provider.refreshAccessToken(mockUserId, existing)).rejects.toBe(storageError);
+        });
     });
 
     describe('sync', () => {
@@ -497,7 +528,7 @@ describe('StravaProvider', () => {
             },
         ];
 
-        beforeAll(() => {
+        beforeEach(() => {
             mockTokenStore.get.mockResolvedValue({
                 accessToken: mockAccessToken,
                 refreshToken: 'refresh_token',
@@ -588,7 +619,7 @@ describe('StravaProvider', () => {
             await provider.sync(mockUserId);
 
             const createItemCall = mockPersistence.createListItem.mock.calls[0];
-            const itemData = createItemCall[4];
+            const itemData = createItemCall[7];
             expect(itemData.miles).toBeCloseTo(3.107, 2); // 5000m ≈ 3.107 miles
         });
 
@@ -610,7 +641,7 @@ describe('StravaProvider', () => {
             await provider.sync(mockUserId);
 
             const createItemCall = mockPersistence.createListItem.mock.calls[0];
-            const itemData = createItemCall[4];
+            const itemData = createItemCall[7];
             expect(itemData.yards).toBeCloseTo(1093.61, 2); // 1000m ≈ 1093.61 yards
         });
 
@@ -660,6 +691,76 @@ describe('StravaProvider', () => {
         });
     });
 
+    describe('webhooks', () => {
+        const activityEvent = {
+            object_type: 'activity',
+            object_id: 1360128428,
+            aspect_type: 'create',
+            owner_id: 134815,
+            subscription_id: 120475,
+            event_time: 1516126040,
+            updates: {},
+        };
+
+        it('should echo the challenge when the verify token matches', async () => {
+            await expect(provider.handleWebhookChallenge({
+                'hub.mode': 'subscribe',
+                'hub.verify_token': 'test_verify_token',
+                'hub.challenge': '15f7d1a91c1f40f8a748fd134752feb3',
+            })).resolves.toEqual({ 'hub.challenge': '15f7d1a91c1f40f8a748fd134752feb3' });
+        });
+
+        it('should reject a challenge with the wrong verify token', async () => {
+            await expect(provider.handleWebhookChallenge({
+                'hub.mode': 'subscribe',
+                'hub.verify_token': 'wrong',
+                'hub.challenge': 'abc',
+            })).rejects.toThrow(WebhookVerificationException);
+        });
+
+        it('should accept events for our subscription', async () => {
+            await expect(provider.verifyWebhook({ headers: {}, query: {}, body: activityEvent })).resolves.toBe('activity.create');
+        });
+
+        it('should reject events for another subscription', async () => {
+            await expect(
+                provider.verifyWebhook({ headers: {}, query: {}, body: { ...activityEvent, subscription_id: 999 } }),
+            ).rejects.toThrow('Unknown subscription_id');
+        });
+
+        it('should enqueue a sync for the athlete on new activities', async () => {
+            mockTokenStore.findOwner.mockResolvedValue({ userId: mockUserId, connectionId: 'link_1' });
+            const enqueueSync = jest.fn().mockResolvedValue({});
+
+            const outcome = await provider.handleWebhook(
+                { eventId: 'event-1', provider: provider.name, eventType: 'activity.create', payload: activityEvent },
+                enqueueSync,
+            );
+
+            expect(mockTokenStore.findOwner).toHaveBeenCalledWith('strava', '134815');
+            expect(enqueueSync).toHaveBeenCalledWith(mockUserId, 'link_1');
+            expect(outcome).toEqual({ userId: mockUserId, handled: true });
+        });
+
+        it('should not sync on athlete events', async () => {
+            mockTokenStore.findOwner.mockResolvedValue({ userId: mockUserId, connectionId: 'link_1' });
+            const enqueueSync = jest.fn();
+
+            const outcome = await provider.handleWebhook(
+                {
+                    eventId: 'event-2',
+                    provider: provider.name,
+                    eventType: 'athlete.update',
+                    payload: { ...activityEvent, object_type: 'athlete', aspect_type: 'update', updates: { authorized: 'false' } },
+                },
+                enqueueSync,
+            );
+
+            expect(enqueueSync).not.toHaveBeenCalled();
+            expect(outcome).toEqual({ userId: mockUserId, handled: false });
+        });
+    });
+
     describe('status', () => {
         it('should return connected status when user is connected', async () => {
             const lastSyncDate = new Date('2024-01-01T12:00:00Z');
@@ -1,11 +1,15 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { IntegrationProvider, IntegrationProviderName, ConnectResponse, CallbackPayload } from '../types';
+import { IntegrationAuthType, IntegrationCapabilities, IntegrationProvider, IntegrationProviderName, ConnectResponse, CallbackPayload, WebhookEvent, WebhookOutcome, WebhookRequest } from '../types';
 import { URLSearchParams } from 'url';
 import { IntegrationPersistence } from '../persistence';
+import { connectionWhere } from '../connection-scope';
+import { backfillDays, importsCategory } from '../sync-settings';
 import { PrismaService } from '@traeta/prisma';
-import { TokenStore } from '../token-store';
-import axios from 'axios';
+import { OAuthTokens, TokenStore } from '../token-store';
+import { CursorStore } from '../cursor-store';
+import { OAuthStateService } from '../oauth-state';
+import { ProviderHttpClient, TOKEN_REFRESH_OPERATION, refreshStatusErrors } from '../provider-http-client';
 import {
     ConfigurationException,
     InvalidCallbackException,
@@ -15,12 +19,27 @@ import {
     DataSyncException,
     ProviderAPIException,
     RateLimitException,
+    WebhookVerificationException,
 } from '../exceptions/integration.exceptions';
 import { DATA_TYPE, REC_SEQ, STATUS } from '../../../constants';
 
 @Injectable()
+@IntegrationProvider(IntegrationProviderName.STRAVA)
 export class StravaProvider implements IntegrationProvider {
     public readonly name = IntegrationProviderName.STRAVA;
+    public readonly capabilities: IntegrationCapabilities = {
+        authType: IntegrationAuthType.OAUTH,
+        authorizationUrl: 'https://www.strava.com/oauth/authorize',
+        webhooks: true,
+        fileImport: false,
+        disconnect: true,
+        revoke: true,
+        multipleConnections: true,
+        dataTypes: ['activities'],
+        lists: [
+            { list: 'Activity', categories: ['Run', 'Bike', 'Swim', 'Walk', 'Hike', 'Strength', 'Other'] },
+        ],
+    };
     private readonly logger = new Logger(StravaProvider.name);
 
     constructor(
@@ -28,6 +47,9 @@ export class StravaProvider implements IntegrationProvider {
         private readonly persistence: IntegrationPersistence,
         private readonly tokens: TokenStore,
         private readonly configService: ConfigService,
+        private readonly cursors: CursorStore,
+        private readonly oauthState: OAuthStateService,
+        private readonly http: ProviderHttpClient,
     ) { }
 
     private getClientId(): string {
@@ -42,9 +64,17 @@ export class StravaProvider implements IntegrationProvider {
         return this.configService.get<string>('STRAVA_REDIRECT_URI') || '';
     }
 
+    private getWebhookVerifyToken(): string {
+        return this.configService.get<string>('STRAVA_WEBHOOK_VERIFY_TOKEN') || '';
+    }
+
+    private getWebhookSubscriptionId(): string {
+        return this.configService.get<string>('STRAVA_WEBHOOK_SUBSCRIPTION_ID') || '';
+    }
+
     private getDefaultDays(): number {
         const days = this.configService.get<string>('STRAVA_DEFAULT_DAYS');
-        return days ? Number(days) : 90;
+        return backfillDays(days ? Number(days) : 90);
     }
 
     async createConnection(userId: string): Promise<ConnectResponse> {
@@ -60,7 +90,7 @@ export class StravaProvider implements IntegrationProvider {
             );
         }
 
-        const state = `strava-${userId}-${Date.now()}`;
+        const { state } = await this.oauthState.issue(this.name, userId);
         const params = new URLSearchParams({
             client_id: clientId,
             response_type: 'code',
@@ -94,31 +124,8 @@ export class StravaProvider implements IntegrationProvider {
             );
         }
 
-        const stateStr = String(state);
-        const prefix = `${this.name}-`;
-        if (!stateStr.startsWith(prefix)) {
-            throw new InvalidCallbackException(
-                IntegrationProviderName.STRAVA,
-                `Invalid state prefix: expected '${prefix}', got '${stateStr.split('-')[0]}-'`
-            );
-        }
-
-        const statePayload = stateStr.slice(prefix.length);
-        const lastHyphenIndex = statePayload.lastIndexOf('-');
-        if (lastHyphenIndex === -1) {
-            throw new InvalidCallbackException(
-                IntegrationProviderName.STRAVA,
-                'Invalid state format: missing timestamp'
-            );
-        }
-
-        const userId = statePayload.slice(0, lastHyphenIndex);
-        if (!userId) {
-            throw new InvalidCallbackException(
-                IntegrationProviderName.STRAVA,
-                'Missing userId in state parameter'
-            );
-        }
+        // Verifies the signature and expiry, and rejects replays
+        const { userId } = await this.oauthState.consume(this.name, state);
 
         try {
             // Exchange code for tokens
@@ -133,8 +140,14 @@ export class StravaProvider implements IntegrationProvider {
                 grant_type: 'authorization_code',
                 redirect_uri: redirectUri,
             });
-            const res = await axios.post(tokenUrl, body.toString(), {
-                headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+            const authFailed = (message: string) => new OAuthAuthenticationException(
+                IntegrationProviderName.STRAVA,
+                `Failed to exchange authorization code: ${message}`
+            );
+            const res = await this.http.post(this.name, tokenUrl, body.toString(), {
+                operation: 'Token exchange',
+                headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+                statusErrors: { 401: authFailed, 403: authFailed },
             });
 
             const data = res.data as {
@@ -175,34 +188,12 @@ export class StravaProvider implements IntegrationProvider {
 
             // If it's already one of our custom exceptions, re-throw it
             if (error instanceof InvalidCallbackException ||
-                error instanceof OAuthAuthenticationException) {
+                error instanceof OAuthAuthenticationException ||
+                error instanceof RateLimitException ||
+                error instanceof ProviderAPIException) {
                 throw error;
             }
 
-            // Handle Axios errors from Strava API
-            if (axios.isAxiosError(error)) {
-                const status = error.response?.status;
-                const message = error.response?.data?.message || error.message;
-
-                if (status === 401 || status === 403) {
-                    throw new OAuthAuthenticationException(
-                        IntegrationProviderName.STRAVA,
-                        `Failed to exchange authorization code: ${message}`
-                    );
-                } else if (status === 429) {
-                    throw new RateLimitException(
-                        IntegrationProviderName.STRAVA,
-                        error.response?.headers['retry-after']
-                    );
-                } else {
-                    throw new ProviderAPIException(
-                        IntegrationProviderName.STRAVA,
-                        'Token exchange',
-                        status ? `HTTP ${status}: ${message}` : message
-                    );
-                }
-            }
-
             // Generic error
             throw new OAuthAuthenticationException(
                 IntegrationProviderName.STRAVA,
@@ -224,13 +215,20 @@ export class StravaProvider implements IntegrationProvider {
             return existing.accessToken; // still valid
         }
 
+        return (await this.refreshAccessToken(userId, existing)).accessToken;
+    }
+
+    /**
+     * Refresh strategy used both lazily (above) and by TokenLifecycleService ahead of expiry.
+     * Strava rotates refresh tokens, so the returned one replaces the stored one.
+     */
+    async refreshAccessToken(userId: string, existing: OAuthTokens): Promise<OAuthTokens> {
         if (!existing.refreshToken) {
             throw new InvalidTokenException(
                 IntegrationProviderName.STRAVA
             );
         }
 
-        // Refresh
         try {
             const tokenUrl = 'https://www.strava.com/oauth/token';
             const clientId = this.getClientId();
@@ -241,7 +239,11 @@ export class StravaProvider implements IntegrationProvider {
                 grant_type: 'refresh_token',
                 refresh_token: existing.refreshToken,
             });
-            const res = await axios.post(tokenUrl, body.toString(), { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } });
+            const res = await this.http.post(this.name, tokenUrl, body.toString(), {
+                operation: TOKEN_REFRESH_OPERATION,
+                headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+                statusErrors: refreshStatusErrors(IntegrationProviderName.STRAVA),
+            });
             const data = res.data as {
                 access_token: string;
                 refresh_token: string;
@@ -249,41 +251,20 @@ export class StravaProvider implements IntegrationProvider {
                 scope?: string;
             };
 
-            await this.tokens.set(userId, 'strava', {
+            const refreshed: OAuthTokens = {
                 accessToken: data.access_token,
                 refreshToken: data.refresh_token,
                 expiresAt: data.expires_at,
                 scope: data.scope ?? existing.scope,
-            });
-            return data.access_token;
+                providerUserId: existing.providerUserId,
+            };
+            await this.tokens.set(userId, 'strava', refreshed);
+            return refreshed;
         } catch (error) {
             this.logger.error(`Failed to refresh Strava token for user ${userId}:`, error);
-
-            if (axios.isAxiosError(error)) {
-                const status = error.response?.status;
-                const message = error.response?.data?.message || error.message;
-
-                if (status === 400 || status === 401) {
-                    throw new RefreshTokenException(
-                        IntegrationProviderName.STRAVA
-                    );
-                } else if (status === 429) {
-                    throw new RateLimitException(
-                        IntegrationProviderName.STRAVA,
-                        error.response?.headers['retry-after']
-                    );
-                } else {
-                    throw new ProviderAPIException(
-                        IntegrationProviderName.STRAVA,
-                        'Token refresh',
-                        status ? `HTTP ${status}: ${message}` : message
-                    );
-                }
-            }
-
-            throw new RefreshTokenException(
-                IntegrationProviderName.STRAVA
-            );
+            // Only refreshStatusErrors' invalid_grant mapping asks the user to reconnect; anything
+            // else (storage, network, provider outages) is rethrown as is and retried later
+            throw error;
         }
     }
 
@@ -293,18 +274,26 @@ export class StravaProvider implements IntegrationProvider {
         const sinceDate =
             (await this.persistence.getLastSyncedAt(userId, integration.integrationId)) ??
             new Date(Date.now() - defaultDays * 24 * 60 * 60 * 1000);
-        const sinceEpoch = Math.floor(sinceDate.getTime() / 1000);
+        // Resume from the newest activity seen so far; fall back to a date window on first sync
+        const cursor = await this.cursors.get(userId, this.name, 'activities_after');
+        const sinceEpoch = cursor ? Number(cursor) : Math.floor(sinceDate.getTime() / 1000);
 
         try {
             const accessToken = await this.ensureValidAccessToken(userId);
 
-            // Fetch activities from Strava since last sync
-            const activitiesRes = await axios.get('https://www.strava.com/api/v3/athlete/activities', {
-                params: { after: sinceEpoch, per_page: 100, page: 1 },
-                headers: { Authorization: `Bearer ${accessToken}` },
-            });
-
-            const rawActivities = activitiesRes.data as any[];
+            // Fetch activities from Strava since the cursor, page by page
+            const rawActivities: any[] = [];
+            const perPage = 100;
+            for (let page = 1; page <= 10; page++) {
+                const activitiesRes = await this.http.get(this.name, 'https://www.strava.com/api/v3/athlete/activities', {
+                    operation: 'sync',
+                    params: { after: sinceEpoch, per_page: perPage, page },
+                    headers: { Authorization: `Bearer ${accessToken}` },
+                });
+                const batch = (activitiesRes.data as any[]) || [];
+                rawActivities.push(...batch);
+                if (batch.length < perPage) break;
+            }
 
             const activities = rawActivities.map((a) => {
                 // Map Strava activity to our internal structure
@@ -343,6 +332,7 @@ export class StravaProvider implements IntegrationProvider {
 
             for (const a of activities) {
                 const categoryName = this.mapType(a.type);
+                if (!importsCategory(categoryName)) continue;
                 const { list, userList, category } = await this.persistence.ensureListAndCategoryForUser(userId, 'Activity', categoryName);
                 const listItem = await this.persistence.createListItem(
                     list.listId,
@@ -386,17 +376,27 @@ export class StravaProvider implements IntegrationProvider {
                     userRecSeq: REC_SEQ.DEFAULT_RECORD,
                     integrationId: integration.integrationId,
                     integrationRecSeq: REC_SEQ.DEFAULT_RECORD,
+                    ...connectionWhere(),
                 },
             });
 
             if (link) await this.persistence.markSynced(link.userIntegrationId);
 
+            // Advance the cursor to the newest activity start so the next sync only fetches deltas
+            const newestEpoch = activities.reduce(
+                (max, a) => Math.max(max, Math.floor(a.start.getTime() / 1000)),
+                sinceEpoch,
+            );
+            if (newestEpoch > sinceEpoch) {
+                await this.cursors.set(userId, this.name, 'activities_after', String(newestEpoch));
+            }
+
             return {
                 ok: true,
                 syncedAt: new Date(),
                 details: {
                     activitiesCount: activities.length,
-                    since: sinceDate,
+                    since: new Date(sinceEpoch * 1000),
                     activities: createdItems,
                     rawStravaData: rawActivities
                 }
@@ -413,29 +413,6 @@ export class StravaProvider implements IntegrationProvider {
                 throw error;
             }
 
-            // Handle Axios errors from Strava API
-            if (axios.isAxiosError(error)) {
-                const status = error.response?.status;
-                const message = error.response?.data?.message || error.message;
-
-                if (status === 429) {
-                    throw new RateLimitException(
-                        IntegrationProviderName.STRAVA,
-                        error.response?.headers['retry-after']
-                    );
-                } else if (status === 401 || status === 403) {
-                    throw new InvalidTokenException(
-                        IntegrationProviderName.STRAVA
-                    );
-                } else {
-                    throw new ProviderAPIException(
-                        IntegrationProviderName.STRAVA,
-                        'sync',
-                        status ? `HTTP ${status}: ${message}` : message
-                    );
-                }
-            }
-
             // Generic sync error
             throw new DataSyncException(
                 IntegrationProviderName.STRAVA,
@@ -452,6 +429,7 @@ export class StravaProvider implements IntegrationProvider {
                 userRecSeq: REC_SEQ.DEFAULT_RECORD,
                 integrationId: integration.integrationId,
                 integrationRecSeq: REC_SEQ.DEFAULT_RECORD,
+                ...connectionWhere(),
             },
         });
 
@@ -474,6 +452,62 @@ export class StravaProvider implements IntegrationProvider {
         };
     }
 
+    /**
+     * Subscription validation: Strava sends hub.verify_token and expects hub.challenge echoed back.
+     * See https://developers.strava.com/docs/webhooks/
+     */
+    async handleWebhookChallenge(query: Record<string, any>): Promise<{ 'hub.challenge': string }> {
+        const verifyToken = this.getWebhookVerifyToken();
+        if (!verifyToken) {
+            throw new ConfigurationException(this.name, 'STRAVA_WEBHOOK_VERIFY_TOKEN');
+        }
+
+        if (query['hub.mode'] !== 'subscribe' || query['hub.verify_token'] !== verifyToken || !query['hub.challenge']) {
+            throw new WebhookVerificationException(this.name, 'Invalid subscription challenge');
+        }
+
+        return { 'hub.challenge': String(query['hub.challenge']) };
+    }
+
+    /**
+     * Strava does not sign events, so only events for our own subscription are accepted.
+     */
+    async verifyWebhook(request: WebhookRequest): Promise<string> {
+        const subscriptionId = this.getWebhookSubscriptionId();
+        if (!subscriptionId) {
+            throw new ConfigurationException(this.name, 'STRAVA_WEBHOOK_SUBSCRIPTION_ID');
+        }
+
+        const { subscription_id, object_type, aspect_type } = request.body ?? {};
+        if (String(subscription_id) !== subscriptionId) {
+            throw new WebhookVerificationException(this.name, 'Unknown subscription_id');
+        }
+
+        return `${object_type}.${aspect_type}`;
+    }
+
+    /**
+     * Queue a sync for the athlete when one of their activities is created or updated.
+     */
+    async handleWebhook(event: WebhookEvent, enqueueSync: (userId: string, connectionId?: string) => Promise<unknown>): Promise<WebhookOutcome> {
+        const { object_type, aspect_type, owner_id } = event.payload ?? {};
+
+        const owner = owner_id ? await this.tokens.findOwner('strava', String(owner_id)) : null;
+        if (!owner) {
+            this.logger.warn(`Strava webhook ${event.eventType} for unknown athlete ${owner_id}`);
+            return { handled: false };
+        }
+        const { userId, connectionId } = owner;
+
+        // Deletes and athlete updates (including deauthorization) are not synced from here
+        if (object_type !== 'activity' || !['create', 'update'].includes(aspect_type)) {
+            return { userId, handled: false };
+        }
+
+        await enqueueSync(userId, connectionId ?? undefined);
+        return { userId, handled: true };
+    }
+
     private mapType(t: string): string {
         switch ((t || '').toLowerCase()) {
             case 'run':
@@ -506,7 +540,8 @@ export class StravaProvider implements IntegrationProvider {
                 // Revoke the token with Strava
                 // Strava provides a deauthorization endpoint
                 try {
-                    await axios.post('https://www.strava.com/oauth/deauthorize', null, {
+                    await this.http.post(this.name, 'https://www.strava.com/oauth/deauthorize', null, {
+                        operation: 'Deauthorize',
                         headers: {
                             'Authorization': `Bearer ${tokens.accessToken}`,
                         },
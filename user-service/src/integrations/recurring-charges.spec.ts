@@ -0,0 +1,211 @@
+import { Logger } from '@nestjs/common';
+import { RecurringCandidate, RecurringChargeService, detectRecurringSeries, linkSubscriptionEmails } from './recurring-charges';
+import { SyncRunSummary } from './sync-run-recorder';
+import { DEFAULT_SYNC_SETTINGS } from './sync-settings';
+import { IntegrationProviderName } from './types';
+import { ActionStatus } from '../../constants';
+
+describe('recurring charges', () => {
+    const now = new Date('2026-10-18T00:00:00.000Z').getTime();
+
+    const charge = (listItemId: string, merchantName: string, date: string, amount: number, overrides: Record<string, any> = {}): RecurringCandidate => ({
+        listItemId,
+        attributes: {
+            transactionDate: `${date}T00:00:00.000Z`,
+            transactionName: merchantName.toUpperCase(),
+            merchantName,
+            amount: Math.abs(amount),
+            rawAmount: amount,
+            currency: 'USD',
+            pending: false,
+            personalFinanceCategory: { primary: 'ENTERTAINMENT', detailed: 'ENTERTAINMENT_TV_AND_MOVIES', confidenceLevel: 'VERY_HIGH' },
+            external: { provider: 'plaid', id: `txn-${listItemId}`, accountId: 'acct-1', type: 'transaction' },
+            ...overrides,
+        },
+    });
+
+    const netflix = [
+        charge('n1', 'Netflix', '2026-08-17', 15.49, { logoUrl: 'https://plaid-merchant-logos.plaid.com/netflix.png' }),
+        charge('n2', 'Netflix', '2026-09-17', 15.49),
+        charge('n3', 'Netflix', '2026-10-17', 15.49, { website: 'netflix.com' }),
+    ];
+
+    describe('detectRecurringSeries', () => {
+        it('should find a monthly series with its average amount and next expected charge', () => {
+            const [series, ...rest] = detectRecurringSeries(netflix, now);
+
+            expect(rest).toEqual([]);
+            expect(series).toEqual(expect.objectContaining({
+                key: 'netflix:monthly',
+                merchantName: 'Netflix',
+                cadence: 'monthly',
+                status: 'active',
+                averageAmount: 15.49,
+                chargeCount: 3,
+                nextExpectedCharge: new Date('2026-11-17T00:00:00.000Z'),
+                logoUrl: 'https://plaid-merchant-logos.plaid.com/netflix.png',
+                website: 'netflix.com',
+                transactionItemIds: ['n1', 'n2', 'n3'],
+            }));
+        });
+
+        it('should find weekly and annual series and skip irregular purchases, income and pending charges', () => {
+            const series = detectRecurringSeries([
+                charge('w1', 'Classpass', '2026-09-28', 12),
+                charge('w2', 'Classpass', '2026-10-05', 12),
+                charge('w3', 'Classpass', '2026-10-12', 12),
+                charge('a1', 'Amazon Prime', '2025-10-02', 139),
+                charge('a2', 'Amazon Prime', '2026-10-02', 139),
+                charge('s1', 'Starbucks', '2026-09-01', 5.4),
+                charge('s2', 'Starbucks', '2026-09-03', 5.4),
+                charge('s3', 'Starbucks', '2026-09-20', 5.4),
+                charge('s4', 'Starbucks', '2026-10-14', 5.4),
+                charge('p1', 'Acme Corp', '2026-08-15', 2500, { personalFinanceCategory: { primary: 'INCOME', detailed: 'INCOME_WAGES' } }),
+                charge('p2', 'Acme Corp', '2026-09-15', 2500, { personalFinanceCategory: { primary: 'INCOME', detailed: 'INCOME_WAGES' } }),
+                charge('p3', 'Acme Corp', '2026-10-15', 2500, { personalFinanceCategory: { primary: 'INCOME', detailed: 'INCOME_WAGES' } }),
+                charge('h1', 'Hulu', '2026-08-01', 7.99),
+                charge('h2', 'Hulu', '2026-09-01', 7.99),
+                charge('h3', 'Hulu', '2026-10-01', 7.99, { pending: true }),
+            ], now);
+
+            expect(series.map(entry => [entry.key, entry.nextExpectedCharge.toISOString().slice(0, 10)])).toEqual([
+                ['classpass:weekly', '2026-10-19'],
+                ['amazon-prime:annual', '2027-10-02'],
+            ]);
+        });
+
+        it('should keep a price change in the series and flag it', () => {
+            const [series] = detectRecurringSeries([...netflix.slice(0, 2), charge('n3', 'Netflix', '2026-10-17', 17.99)], now);
+
+            expect(series).toEqual(expect.objectContaining({ status: 'price_changed', lastAmount: 17.99, averageAmount: 16.32, chargeCount: 3 }));
+        });
+
+        it('should mark a series cancelled once its next charge is overdue', () => {
+            const [series] = detectRecurringSeries(netflix, new Date('2026-12-01T00:00:00.000Z').getTime());
+
+            expect(series.status).toBe('cancelled');
+        });
+
+        it('should ignore refunds and credits', () => {
+            const refunds = ['2026-08-18', '2026-09-18', '2026-10-18'].map((date, index) => charge(`r${index}`, 'Netflix', date, -15.49));
+
+            expect(detectRecurringSeries(refunds, now)).toEqual([]);
+            expect(detectRecurringSeries([...netflix, ...refunds], now)).toEqual([
+                expect.objectContaining({ key: 'netflix:monthly', transactionItemIds: ['n1', 'n2', 'n3'] }),
+            ]);
+        });
+
+        it('should split charges at one merchant with different amounts into separate series', () => {
+            const series = detectRecurringSeries([
+                charge('i1', 'Apple', '2026-08-05', 0.99),
+                charge('c1', 'Apple', '2026-08-15', 9.99),
+                charge('i2', 'Apple', '2026-09-05', 0.99),
+                charge('c2', 'Apple', '2026-09-15', 9.99),
+                charge('i3', 'Apple', '2026-10-05', 0.99),
+                charge('c3', 'Apple', '2026-10-15', 9.99),
+            ], now);
+
+            expect(series.map(entry => [entry.key, entry.averageAmount])).toEqual([['apple:monthly', 0.99], ['apple:monthly:2', 9.99]]);
+        });
+    });
+
+    describe('linkSubscriptionEmails', () => {
+        it('should link emails that name the series merchant', () => {
+            const links = linkSubscriptionEmails(detectRecurringSeries(netflix, now), [
+                { listItemId: 'e1', attributes: { from: 'Netflix <info@account.netflix.com>', subject: 'Your Netflix membership has been renewed', external: { provider: 'gmail', id: 'm1' } } },
+                { listItemId: 'e2', attributes: { from: 'Spotify <no-reply@spotify.com>', subject: 'Your Premium plan', external: { provider: 'gmail', id: 'm2' } } },
+            ]);
+
+            expect(links.get('netflix:monthly')).toEqual(['e1']);
+        });
+    });
+
+    describe('RecurringChargeService', () => {
+        let service: RecurringChargeService;
+        let emitSync: (summary: SyncRunSummary) => void;
+        let mockPrisma: any;
+        let mockPersistence: any;
+        let mockSettings: any;
+
+        const summary = (overrides: Partial<SyncRunSummary> = {}): SyncRunSummary => ({
+            provider: IntegrationProviderName.PLAID,
+            userId: 'user-1',
+            status: ActionStatus.SUCCESS,
+            durationMs: 100,
+            items: { created: 1, updated: 0, skipped: 0 },
+            errorClass: null,
+            ...overrides,
+        });
+
+        beforeEach(() => {
+            jest.spyOn(Date, 'now').mockReturnValue(now);
+            jest.spyOn(Logger.prototype, 'log').mockImplementation();
+            mockPrisma = {
+                listItems: {
+                    findMany: jest.fn(({ where }) => {
+                        if (where.attributes.equals === 'gmail') {
+                            return Promise.resolve([{ listItemId: 'e1', attributes: { from: 'Netflix <info@account.netflix.com>', external: { provider: 'gmail', id: 'm1' } } }]);
+                        }
+                        return Promise.resolve(where.AND[0].attributes.equals === 'transaction'
+                            ? netflix
+                            : [{ listItemId: 'old', attributes: { external: { provider: 'plaid', id: 'recurring:hulu:monthly', type: 'recurring_series' } } }]);
+                    }),
+                },
+            };
+            mockPersistence = {
+                ensureListAndCategoryForUser: jest.fn().mockResolvedValue({ list: { listId: 'list-1' }, userList: { userListId: 'user-list-1' }, category: { listCategoryId: 'cat-1' } }),
+                upsertListItem: jest.fn().mockResolvedValue({}),
+                removeItemsByExternalId: jest.fn().mockResolvedValue(1),
+            };
+            mockSettings = { get: jest.fn().mockResolvedValue({ ...DEFAULT_SYNC_SETTINGS }) };
+            const integrations = { onSync: jest.fn(listener => { emitSync = listener; return jest.fn(); }) };
+
+            service = new RecurringChargeService(integrations as any, mockPrisma, mockPersistence, mockSettings);
+            service.onModuleInit();
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('should store each series under Financial / Subscriptions with its linked emails and remove stale series', async () => {
+            await expect(service.detectForUser('user-1')).resolves.toEqual({ series: 1, linkedEmails: 1, removed: 1 });
+
+            expect(mockSettings.get).toHaveBeenCalledWith('user-1', IntegrationProviderName.PLAID);
+            expect(mockPersistence.ensureListAndCategoryForUser).toHaveBeenCalledWith('user-1', 'Financial', 'Subscriptions');
+            expect(mockPersistence.upsertListItem).toHaveBeenCalledWith(
+                'list-1', 0, 'user-list-1', 0, 'cat-1', 0, 'Netflix | Subscriptions',
+                expect.objectContaining({
+                    cadence: 'monthly',
+                    status: 'active',
+                    averageAmount: 15.49,
+                    nextExpectedCharge: '2026-11-17T00:00:00.000Z',
+                    transactionItemIds: ['n1', 'n2', 'n3'],
+                    emailItemIds: ['e1'],
+                    external: { provider: 'plaid', id: 'recurring:netflix:monthly', type: 'recurring_series' },
+                }),
+                expect.any(Object),
+            );
+            expect(mockPersistence.removeItemsByExternalId).toHaveBeenCalledWith('user-1', 'plaid', ['recurring:hulu:monthly']);
+        });
+
+        it('should remove the series when the user does not import Subscriptions', async () => {
+            mockSettings.get.mockResolvedValue({ ...DEFAULT_SYNC_SETTINGS, categories: ['Accounts'] });
+
+            await expect(service.detectForUser('user-1')).resolves.toEqual({ series: 0, linkedEmails: 0, removed: 1 });
+            expect(mockPersistence.upsertListItem).not.toHaveBeenCalled();
+        });
+
+        it('should run after successful Plaid and email syncs that wrote items', () => {
+            const detect = jest.spyOn(service, 'detectForUser').mockResolvedValue({ series: 0, linkedEmails: 0, removed: 0 });
+
+            emitSync(summary({ provider: IntegrationProviderName.STRAVA }));
+            emitSync(summary({ status: ActionStatus.FAILED }));
+            emitSync(summary({ items: { created: 0, updated: 0, skipped: 3 } }));
+            emitSync(summary());
+            emitSync(summary({ provider: IntegrationProviderName.EMAIL_SCRAPER }));
+
+            expect(detect).toHaveBeenCalledTimes(2);
+        });
+    });
+});
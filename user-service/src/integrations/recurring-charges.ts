@@ -0,0 +1,379 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { PrismaService } from '@traeta/prisma';
+import { IntegrationsService } from './integrations.service';
+import { IntegrationPersistence } from './persistence';
+import { normalize, numberOf, sameName, timeOf } from './item-clusters';
+import { IntegrationSettingsStore, importsCategory, runWithSettings } from './sync-settings';
+import { IntegrationProviderName } from './types';
+import { ACTIVE_CONDITION, ActionStatus, DATA_TYPE, REC_SEQ } from '../../constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Long enough to see two charges of an annual subscription
+const LOOKBACK_DAYS = 400;
+
+// A charge within this fraction of the previous one continues the series, so price changes stay in it
+const AMOUNT_TOLERANCE = 0.2;
+
+// Share of the gaps between charges that must fit the cadence; one skipped or late charge is allowed
+const CADENCE_FIT = 0.75;
+
+// Money coming in or moving between the user's own accounts is not a charge
+const EXCLUDED_PFC_PRIMARIES = ['INCOME', 'TRANSFER_IN', 'TRANSFER_OUT'];
+
+// Where the email scraper files subscription and renewal emails
+const EMAIL_SUBSCRIPTIONS_CATEGORY = 'Subscriptions & Memberships';
+
+export const SUBSCRIPTIONS_CATEGORY = 'Subscriptions';
+export const RECURRING_SERIES_TYPE = 'recurring_series';
+
+export type Cadence = 'weekly' | 'monthly' | 'annual';
+export type SeriesStatus = 'active' | 'cancelled' | 'price_changed';
+
+// Days between charges each cadence accepts, the charges needed to call it a series and how late
+// the next charge may be before the series counts as cancelled
+const CADENCES: Record<Cadence, { minDays: number; maxDays: number; minCharges: number; graceDays: number }> = {
+    weekly: { minDays: 5, maxDays: 9, minCharges: 3, graceDays: 4 },
+    monthly: { minDays: 26, maxDays: 35, minCharges: 3, graceDays: 10 },
+    annual: { minDays: 350, maxDays: 380, minCharges: 2, graceDays: 30 },
+};
+
+export type RecurringCandidate = {
+    listItemId: string;
+    attributes: unknown;
+};
+
+export type RecurringSeries = {
+    // Stable across passes: the merchant, cadence and, for a merchant's later series, their order
+    key: string;
+    merchantName: string;
+    cadence: Cadence;
+    currency: string;
+    averageAmount: number;
+    lastAmount: number;
+    chargeCount: number;
+    firstChargeDate: Date;
+    lastChargeDate: Date;
+    nextExpectedCharge: Date;
+    status: SeriesStatus;
+    logoUrl: string | null;
+    website: string | null;
+    transactionItemIds: string[];
+};
+
+type Charge = {
+    listItemId: string;
+    merchant: string;
+    merchantName: string;
+    time: number;
+    amount: number;
+    currency: string;
+    logoUrl: string | null;
+    website: string | null;
+};
+
+// A posted outgoing Plaid transaction with a merchant, date and amount; null for anything else
+function chargeOf(item: RecurringCandidate): Charge | null {
+    const attributes = (item.attributes ?? {}) as Record<string, any>;
+    if (attributes.external?.provider !== 'plaid' || attributes.external.type !== 'transaction' || attributes.pending) return null;
+    if (EXCLUDED_PFC_PRIMARIES.includes(attributes.personalFinanceCategory?.primary)) return null;
+    // amount is unsigned; refunds and credits only show up in the raw Plaid amount
+    if (numberOf(attributes.rawAmount) < 0) return null;
+
+    const merchantName = attributes.merchantName ?? attributes.transactionName;
+    const merchant = normalize(merchantName);
+    const time = timeOf(attributes.transactionDate);
+    const amount = numberOf(attributes.amount);
+    if (!merchant || time === undefined || !amount) return null;
+    return {
+        listItemId: item.listItemId,
+        merchant,
+        merchantName,
+        time,
+        amount,
+        currency: attributes.currency ?? 'USD',
+        logoUrl: attributes.logoUrl ?? null,
+        website: attributes.website ?? null,
+    };
+}
+
+function withinTolerance(previous: number, amount: number): boolean {
+    return Math.abs(amount - previous) <= previous * AMOUNT_TOLERANCE;
+}
+
+function median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function roundCents(amount: number): number {
+    return Math.round(amount * 100) / 100;
+}
+
+// Same day of the month, clamped to the month's last day (Jan 31 + 1 month is Feb 28)
+function addMonths(time: number, months: number): Date {
+    const date = new Date(time);
+    const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+    return target;
+}
+
+function nextChargeAfter(time: number, cadence: Cadence): Date {
+    switch (cadence) {
+        case 'weekly':
+            return new Date(time + 7 * DAY_MS);
+        case 'monthly':
+            return addMonths(time, 1);
+        case 'annual':
+            return addMonths(time, 12);
+    }
+}
+
+// The cadence of charges sorted by date, or null when their spacing is not regular enough
+function cadenceOf(charges: Charge[]): Cadence | null {
+    const gaps = charges.slice(1).map((charge, index) => (charge.time - charges[index].time) / DAY_MS);
+    if (gaps.length === 0) return null;
+
+    const typicalGap = median(gaps);
+    for (const [cadence, { minDays, maxDays, minCharges }] of Object.entries(CADENCES) as [Cadence, typeof CADENCES[Cadence]][]) {
+        if (typicalGap < minDays || typicalGap > maxDays || charges.length < minCharges) continue;
+        const fitting = gaps.filter(gap => gap >= minDays && gap <= maxDays).length;
+        return fitting >= Math.ceil(gaps.length * CADENCE_FIT) ? cadence : null;
+    }
+    return null;
+}
+
+// Split one merchant's charges into runs of similar amounts, each compared with the run's latest charge
+function amountRuns(charges: Charge[]): Charge[][] {
+    const runs: Charge[][] = [];
+    for (const charge of charges) {
+        const run = runs.find(candidate => candidate[0].currency === charge.currency
+            && withinTolerance(candidate[candidate.length - 1].amount, charge.amount));
+        if (run) run.push(charge);
+        else runs.push([charge]);
+    }
+    return runs;
+}
+
+function seriesOf(key: string, charges: Charge[], cadence: Cadence, now: number): RecurringSeries {
+    const first = charges[0];
+    const last = charges[charges.length - 1];
+    const previous = charges[charges.length - 2];
+    const nextExpectedCharge = nextChargeAfter(last.time, cadence);
+
+    let status: SeriesStatus = 'active';
+    if (now > nextExpectedCharge.getTime() + CADENCES[cadence].graceDays * DAY_MS) status = 'cancelled';
+    else if (previous && Math.abs(last.amount - previous.amount) >= 0.01) status = 'price_changed';
+
+    // The latest charge carries the merchant's current name and branding
+    return {
+        key,
+        merchantName: last.merchantName,
+        cadence,
+        currency: last.currency,
+        averageAmount: roundCents(charges.reduce((sum, charge) => sum + charge.amount, 0) / charges.length),
+        lastAmount: last.amount,
+        chargeCount: charges.length,
+        firstChargeDate: new Date(first.time),
+        lastChargeDate: new Date(last.time),
+        nextExpectedCharge,
+        status,
+        logoUrl: [...charges].reverse().find(charge => charge.logoUrl)?.logoUrl ?? null,
+        website: [...charges].reverse().find(charge => charge.website)?.website ?? null,
+        transactionItemIds: charges.map(charge => charge.listItemId),
+    };
+}
+
+/**
+ * Find recurring charges in a user's Plaid transactions: charges at the same merchant with amounts
+ * within AMOUNT_TOLERANCE of each other, repeating weekly, monthly or annually. Only transactions from
+ * the last LOOKBACK_DAYS are read. A series whose next charge is overdue is cancelled; one whose
+ * latest charge differs from the one before has changed price.
+ */
+export function detectRecurringSeries(items: RecurringCandidate[], now = Date.now()): RecurringSeries[] {
+    const since = now - LOOKBACK_DAYS * DAY_MS;
+    const byMerchant = new Map<string, Charge[]>();
+    for (const charge of items.map(chargeOf)) {
+        if (!charge || charge.time < since) continue;
+        byMerchant.set(charge.merchant, [...(byMerchant.get(charge.merchant) ?? []), charge]);
+    }
+
+    const series: RecurringSeries[] = [];
+    for (const [merchant, charges] of byMerchant) {
+        const seen = new Map<Cadence, number>();
+        const runs = amountRuns(charges.sort((a, b) => a.time - b.time || a.listItemId.localeCompare(b.listItemId)));
+        for (const run of runs) {
+            const cadence = cadenceOf(run);
+            if (!cadence) continue;
+            const index = (seen.get(cadence) ?? 0) + 1;
+            seen.set(cadence, index);
+            const key = index === 1 ? `${merchant}:${cadence}` : `${merchant}:${cadence}:${index}`;
+            series.push(seriesOf(key.replace(/ /g, '-'), run, cadence, now));
+        }
+    }
+    return series;
+}
+
+/**
+ * Match email-scraper subscription emails to series by merchant: the service, company, sender or
+ * subject of the email has to name the series' merchant. Returns the linked email item ids per series key.
+ */
+export function linkSubscriptionEmails(series: RecurringSeries[], emails: RecurringCandidate[]): Map<string, string[]> {
+    const links = new Map<string, string[]>(series.map(entry => [entry.key, []]));
+    for (const email of emails) {
+        const attributes = (email.attributes ?? {}) as Record<string, any>;
+        const names = [attributes.service, attributes.companyName, attributes.from, attributes.subject].map(normalize);
+        for (const entry of series) {
+            const merchant = normalize(entry.merchantName);
+            if (names.some(name => sameName(merchant, name))) links.get(entry.key).push(email.listItemId);
+        }
+    }
+    return links;
+}
+
+/**
+ * Recurring charge pass run after Plaid and email syncs that wrote items: keeps one item per detected
+ * series in the Financial list's Subscriptions category, with its cadence, amounts, next expected charge
+ * and status, and the Plaid transactions and subscription emails behind it. Series that are no longer
+ * detected (their transactions were removed) are soft-deleted. The user's Plaid sync settings apply:
+ * excluding the Subscriptions category removes the series, and they follow the Financial list's target.
+ */
+@Injectable()
+export class RecurringChargeService implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(RecurringChargeService.name);
+    private unsubscribe?: () => void;
+
+    constructor(
+        private readonly integrations: IntegrationsService,
+        private readonly prisma: PrismaService,
+        private readonly persistence: IntegrationPersistence,
+        private readonly settings: IntegrationSettingsStore,
+    ) { }
+
+    onModuleInit() {
+        this.unsubscribe = this.integrations.onSync(summary => {
+            if (summary.provider !== IntegrationProviderName.PLAID && summary.provider !== IntegrationProviderName.EMAIL_SCRAPER) return;
+            if (summary.status !== ActionStatus.SUCCESS || summary.items.created + summary.items.updated === 0) return;
+            this.detectForUser(summary.userId).catch(error => {
+                this.logger.warn(`Recurring charge detection failed for userId ${summary.userId}: ${error.message}`);
+            });
+        });
+    }
+
+    onModuleDestroy() {
+        this.unsubscribe?.();
+    }
+
+    async detectForUser(userId: string): Promise<{ series: number; linkedEmails: number; removed: number }> {
+        const settings = await this.settings.get(userId, IntegrationProviderName.PLAID);
+        return runWithSettings(settings, () => this.detect(userId));
+    }
+
+    private async detect(userId: string): Promise<{ series: number; linkedEmails: number; removed: number }> {
+        const [transactions, emails, existing] = await Promise.all([
+            this.plaidItems(userId, 'transaction'),
+            this.prisma.listItems.findMany({
+                where: {
+                    userList: { userId },
+                    attributes: { path: ['external', 'provider'], equals: 'gmail' },
+                    OR: [
+                        { category: { name: EMAIL_SUBSCRIPTIONS_CATEGORY } },
+                        { attributes: { path: ['type'], equals: 'subscription' } },
+                    ],
+                    ...ACTIVE_CONDITION,
+                },
+                select: { listItemId: true, attributes: true },
+            }),
+            this.plaidItems(userId, RECURRING_SERIES_TYPE),
+        ]);
+
+        const series = importsCategory(SUBSCRIPTIONS_CATEGORY) ? detectRecurringSeries(transactions) : [];
+        const links = linkSubscriptionEmails(series, emails);
+        if (series.length > 0) {
+            const { list, userList, category } = await this.persistence.ensureListAndCategoryForUser(userId, 'Financial', SUBSCRIPTIONS_CATEGORY);
+            for (const entry of series) {
+                await this.storeSeries(list.listId, userList.userListId, category?.listCategoryId ?? null, entry, links.get(entry.key));
+            }
+        }
+
+        const detected = new Set(series.map(entry => this.externalId(entry)));
+        const stale = existing
+            .map(item => (item.attributes as { external?: { id?: string } })?.external?.id)
+            .filter(externalId => externalId && !detected.has(externalId));
+        const removed = await this.persistence.removeItemsByExternalId(userId, 'plaid', stale);
+
+        const linkedEmails = [...links.values()].reduce((sum, ids) => sum + ids.length, 0);
+        if (series.length > 0 || removed > 0) {
+            this.logger.log(`Updated recurring charges for userId ${userId}: ${series.length} series, ${linkedEmails} emails linked, ${removed} removed`);
+        }
+        return { series: series.length, linkedEmails, removed };
+    }
+
+    private plaidItems(userId: string, type: string) {
+        return this.prisma.listItems.findMany({
+            where: {
+                userList: { userId },
+                attributes: { path: ['external', 'provider'], equals: 'plaid' },
+                AND: [{ attributes: { path: ['external', 'type'], equals: type } }],
+                ...ACTIVE_CONDITION,
+            },
+            select: { listItemId: true, attributes: true },
+        });
+    }
+
+    private externalId(series: RecurringSeries): string {
+        return `recurring:${series.key}`;
+    }
+
+    private async storeSeries(listId: string, userListId: string, categoryId: string | null, series: RecurringSeries, emailItemIds: string[]) {
+        await this.persistence.upsertListItem(
+            listId,
+            REC_SEQ.DEFAULT_RECORD,
+            userListId,
+            REC_SEQ.DEFAULT_RECORD,
+            categoryId,
+            REC_SEQ.DEFAULT_RECORD,
+            `${series.merchantName} | ${SUBSCRIPTIONS_CATEGORY}`.slice(0, 50),
+            {
+                merchantName: series.merchantName,
+                cadence: series.cadence,
+                status: series.status,
+                averageAmount: series.averageAmount,
+                lastAmount: series.lastAmount,
+                currency: series.currency,
+                chargeCount: series.chargeCount,
+                firstChargeDate: series.firstChargeDate.toISOString(),
+                lastChargeDate: series.lastChargeDate.toISOString(),
+                nextExpectedCharge: series.nextExpectedCharge.toISOString(),
+                logoUrl: series.logoUrl,
+                website: series.website,
+                transactionItemIds: series.transactionItemIds,
+                emailItemIds,
+                external: {
+                    provider: 'plaid',
+                    id: this.externalId(series),
+                    type: RECURRING_SERIES_TYPE,
+                },
+            },
+            {
+                merchantName: DATA_TYPE.STRING,
+                cadence: DATA_TYPE.STRING,
+                status: DATA_TYPE.STRING,
+                averageAmount: DATA_TYPE.NUMBER,
+                lastAmount: DATA_TYPE.NUMBER,
+                currency: DATA_TYPE.STRING,
+                chargeCount: DATA_TYPE.NUMBER,
+                firstChargeDate: DATA_TYPE.DATE,
+                lastChargeDate: DATA_TYPE.DATE,
+                nextExpectedCharge: DATA_TYPE.DATE,
+                logoUrl: DATA_TYPE.STRING,
+                website: DATA_TYPE.STRING,
+                transactionItemIds: DATA_TYPE.STRING_ARRAY,
+                emailItemIds: DATA_TYPE.STRING_ARRAY,
+                external: { provider: DATA_TYPE.STRING, id: DATA_TYPE.STRING, type: DATA_TYPE.STRING },
+            }
+        );
+    }
+}
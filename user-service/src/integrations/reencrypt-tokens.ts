@@ -0,0 +1,96 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Token Re-encryption
+ *
+ * Rewrites every OAuthCredentials.accessTokenEnc / refreshTokenEnc with the active
+ * TOKEN_CRYPTO_ACTIVE_KEY_ID. Run it after adding a new key to TOKEN_CRYPTO_KEYS and making it
+ * active; once it reports nothing left to migrate, the old key can be removed.
+ *
+ *   npm run tokens:reencrypt             # migrate
+ *   npm run tokens:reencrypt -- --dry-run
+ */
+
+import { config } from 'dotenv';
+import { PrismaService } from '@traeta/prisma';
+import { getActiveKeyId, reencryptToken } from './token-crypto';
+
+export type ReencryptSummary = {
+    scanned: number;
+    updated: number;
+    failed: number;
+};
+
+type CredentialsClient = Pick<PrismaService, 'oAuthCredentials'>;
+
+/**
+ * Re-encrypt credentials in pages ordered by id. Rows that fail to decrypt are counted
+ * and skipped so one bad row does not stop the migration.
+ */
+export async function reencryptTokens(
+    prisma: CredentialsClient,
+    options: { dryRun?: boolean; batchSize?: number } = {},
+): Promise<ReencryptSummary> {
+    const batchSize = options.batchSize ?? 100;
+    const summary: ReencryptSummary = { scanned: 0, updated: 0, failed: 0 };
+    let cursor: { oauthCredentialId: string; recSeq: number } | undefined;
+
+    for (;;) {
+        const rows = await prisma.oAuthCredentials.findMany({
+            select: { oauthCredentialId: true, recSeq: true, accessTokenEnc: true, refreshTokenEnc: true },
+            orderBy: [{ oauthCredentialId: 'asc' }, { recSeq: 'asc' }],
+            take: batchSize,
+            ...(cursor ? { cursor: { oauthCredentialId_recSeq: cursor }, skip: 1 } : {}),
+        });
+        if (rows.length === 0) break;
+
+        for (const row of rows) {
+            summary.scanned++;
+            try {
+                const accessTokenEnc = reencryptToken(row.accessTokenEnc);
+                const refreshTokenEnc = row.refreshTokenEnc ? reencryptToken(row.refreshTokenEnc) : null;
+                if (!accessTokenEnc && !refreshTokenEnc) continue;
+
+                if (!options.dryRun) {
+                    await prisma.oAuthCredentials.update({
+                        where: { oauthCredentialId_recSeq: { oauthCredentialId: row.oauthCredentialId, recSeq: row.recSeq } },
+                        data: {
+                            ...(accessTokenEnc ? { accessTokenEnc } : {}),
+                            ...(refreshTokenEnc ? { refreshTokenEnc } : {}),
+                        },
+                    });
+                }
+                summary.updated++;
+            } catch (error) {
+                summary.failed++;
+                console.error(`❌ ${row.oauthCredentialId}: ${error.message}`);
+            }
+        }
+
+        const last = rows[rows.length - 1];
+        cursor = { oauthCredentialId: last.oauthCredentialId, recSeq: last.recSeq };
+    }
+
+    return summary;
+}
+
+async function main() {
+    config();
+    const dryRun = process.argv.includes('--dry-run');
+    const prisma = new PrismaService();
+
+    try {
+        console.log(`🔐 Re-encrypting OAuth tokens with key '${getActiveKeyId()}'${dryRun ? ' (dry run)' : ''}`);
+        const summary = await reencryptTokens(prisma, { dryRun });
+        console.log(`   Scanned: ${summary.scanned}`);
+        console.log(`   ${dryRun ? 'Would update' : 'Updated'}: ${summary.updated}`);
+        console.log(`   Failed:  ${summary.failed}`);
+        process.exitCode = summary.failed > 0 ? 1 : 0;
+    } finally {
+        await prisma.$disconnect();
+    }
+}
+
+if (require.main === module) {
+    void main();
+}
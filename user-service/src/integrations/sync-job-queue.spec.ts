@@ -0,0 +1,252 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '@traeta/prisma';
+import { Prisma } from '@prisma/client';
+import { SyncJobQueue } from './sync-job-queue';
+import { IntegrationsService } from './integrations.service';
+import { IntegrationProviderName } from './types';
+import {
+    DataSyncException,
+    ProviderNotFoundException,
+    RateLimitException,
+    SyncJobNotFoundException,
+} from './exceptions';
+
+describe('SyncJobQueue', () => {
+    let queue: SyncJobQueue;
+    let mockPrismaService: any;
+    let mockIntegrationsService: any;
+    let config: Record<string, string>;
+
+    const pendingJob = (overrides: Record<string, any> = {}) => ({
+        syncJobId: 'job-1',
+        userId: 'user-1',
+        provider: 'strava',
+        userIntegrationId: 'link-1',
+        status: 'PENDING',
+        attempts: 0,
+        maxAttempts: 3,
+        runAt: new Date(),
+        ...overrides,
+    });
+
+    beforeEach(async () => {
+        config = {
+            INTEGRATION_SYNC_WORKER_ENABLED: 'false',
+            INTEGRATION_SYNC_MAX_ATTEMPTS: '3',
+            INTEGRATION_SYNC_BACKOFF_BASE_MS: '1000',
+        };
+
+        mockPrismaService = {
+            syncJobs: {
+                findFirst: jest.fn(),
+                create: jest.fn(),
+                update: jest.fn().mockResolvedValue({}),
+                updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+            },
+        };
+
+        mockIntegrationsService = {
+            sync: jest.fn(),
+            getProviderOrThrow: jest.fn((name: string) => {
+                if (!Object.values<string>(IntegrationProviderName).includes(name)) throw new ProviderNotFoundException(name);
+                return { name };
+            }),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                SyncJobQueue,
+                { provide: PrismaService, useValue: mockPrismaService },
+                { provide: IntegrationsService, useValue: mockIntegrationsService },
+                { provide: ConfigService, useValue: { get: jest.fn((key: string) => config[key]) } },
+            ],
+        }).compile();
+
+        queue = module.get<SyncJobQueue>(SyncJobQueue);
+
+        jest.spyOn(Logger.prototype, 'log').mockImplementation();
+        jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+        jest.spyOn(Logger.prototype, 'error').mockImplementation();
+    });
+
+    afterEach(() => {
+        queue.onModuleDestroy();
+        jest.clearAllMocks();
+    });
+
+    // Make the next poll claim `job` once and then find nothing else
+    const queueForPoll = (job: any) => {
+        mockPrismaService.syncJobs.findFirst.mockResolvedValueOnce(job).mockResolvedValue(null);
+        mockPrismaService.syncJobs.updateMany
+            .mockResolvedValueOnce({ count: 0 }) // stale job release
+            .mockResolvedValueOnce({ count: 1 }); // claim
+    };
+
+    describe('enqueue', () => {
+        it('should create a pending job', async () => {
+            mockPrismaService.syncJobs.findFirst.mockResolvedValue(null);
+            mockPrismaService.syncJobs.create.mockResolvedValue(pendingJob());
+
+            const job = await queue.enqueue(IntegrationProviderName.STRAVA, 'user-1');
+
+            expect(mockPrismaService.syncJobs.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    userId: 'user-1',
+                    provider: 'strava',
+                    status: 'PENDING',
+                    maxAttempts: 3,
+                }),
+            });
+            expect(job).toEqual(expect.objectContaining({ jobId: 'job-1', status: 'PENDING' }));
+        });
+
+        it('should return the active job instead of creating a duplicate', async () => {
+            mockPrismaService.syncJobs.findFirst.mockResolvedValue(pendingJob({ syncJobId: 'job-existing', status: 'RUNNING' }));
+
+            const job = await queue.enqueue(IntegrationProviderName.STRAVA, 'user-1');
+
+            expect(mockPrismaService.syncJobs.create).not.toHaveBeenCalled();
+            expect(job.jobId).toBe('job-existing');
+        });
+
+        it('should return the job a concurrent enqueue created when the insert hits the unique index', async () => {
+            mockPrismaService.syncJobs.findFirst
+                .mockResolvedValueOnce(null)
+                .mockResolvedValueOnce(pendingJob({ syncJobId: 'job-concurrent' }));
+            mockPrismaService.syncJobs.create.mockRejectedValue(
+                new Prisma.PrismaClientKnownRequestError('Unique constraint failed', { code: 'P2002', clientVersion: 'test' }),
+            );
+
+            const job = await queue.enqueue(IntegrationProviderName.STRAVA, 'user-1', 'link-1');
+
+            expect(job.jobId).toBe('job-concurrent');
+            expect(mockPrismaService.syncJobs.findFirst).toHaveBeenCalledTimes(2);
+        });
+
+        it('should rethrow other insert errors', async () => {
+            mockPrismaService.syncJobs.findFirst.mockResolvedValue(null);
+            mockPrismaService.syncJobs.create.mockRejectedValue(new Error('connection lost'));
+
+            await expect(queue.enqueue(IntegrationProviderName.STRAVA, 'user-1')).rejects.toThrow('connection lost');
+            expect(mockPrismaService.syncJobs.findFirst).toHaveBeenCalledTimes(1);
+        });
+
+        it('should queue connections of the same provider separately', async () => {
+            mockPrismaService.syncJobs.findFirst.mockResolvedValue(null);
+            mockPrismaService.syncJobs.create.mockResolvedValue(pendingJob({ userIntegrationId: 'link-2' }));
+
+            const job = await queue.enqueue(IntegrationProviderName.STRAVA, 'user-1', 'link-2');
+
+            expect(mockPrismaService.syncJobs.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+                where: expect.objectContaining({ userIntegrationId: 'link-2' }),
+            }));
+            expect(job.connectionId).toBe('link-2');
+        });
+
+        it('should reject unknown providers', async () => {
+            await expect(queue.enqueue('myspace' as IntegrationProviderName, 'user-1')).rejects.toThrow(
+                ProviderNotFoundException,
+            );
+            expect(mockPrismaService.syncJobs.create).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getJob', () => {
+        it('should scope the lookup to the user', async () => {
+            mockPrismaService.syncJobs.findFirst.mockResolvedValue(pendingJob());
+
+            await queue.getJob('job-1', 'user-1');
+
+            expect(mockPrismaService.syncJobs.findFirst).toHaveBeenCalledWith({
+                where: expect.objectContaining({ syncJobId: 'job-1', userId: 'user-1' }),
+            });
+        });
+
+        it('should throw SyncJobNotFoundException for missing jobs', async () => {
+            mockPrismaService.syncJobs.findFirst.mockResolvedValue(null);
+
+            await expect(queue.getJob('job-1', 'user-2')).rejects.toThrow(SyncJobNotFoundException);
+        });
+    });
+
+    describe('poll', () => {
+        it('should run a claimed job and mark it completed', async () => {
+            queueForPoll(pendingJob());
+            mockIntegrationsService.sync.mockResolvedValue({ ok: true, details: { imported: 2 } });
+
+            const processed = await queue.poll();
+
+            expect(processed).toBe(1);
+            expect(mockIntegrationsService.sync).toHaveBeenCalledWith('strava', 'user-1', 'link-1');
+            expect(mockPrismaService.syncJobs.update).toHaveBeenCalledWith({
+                where: { syncJobId_recSeq: { syncJobId: 'job-1', recSeq: 0 } },
+                data: expect.objectContaining({
+                    status: 'COMPLETED',
+                    result: { ok: true, details: { imported: 2 } },
+                }),
+            });
+        });
+
+        it('should reschedule a failed job with exponential backoff', async () => {
+            queueForPoll(pendingJob({ attempts: 1 }));
+            mockIntegrationsService.sync.mockRejectedValue(new DataSyncException('strava', 'Provider API error'));
+            const before = Date.now();
+
+            await queue.poll();
+
+            const data = mockPrismaService.syncJobs.update.mock.calls[0][0].data;
+            expect(data.status).toBe('PENDING');
+            expect(data.lastErrorCode).toBe('DATA_SYNC_FAILED');
+            // Second attempt: base (1s) * 2, minus up to 20% jitter
+            const delay = data.runAt.getTime() - before;
+            expect(delay).toBeGreaterThanOrEqual(1600);
+            expect(delay).toBeLessThanOrEqual(2000 + 50);
+        });
+
+        it('should honor retryAfter on rate limits', async () => {
+            queueForPoll(pendingJob());
+            mockIntegrationsService.sync.mockRejectedValue(new RateLimitException('strava', 900));
+            const before = Date.now();
+
+            await queue.poll();
+
+            const data = mockPrismaService.syncJobs.update.mock.calls[0][0].data;
+            expect(data.status).toBe('PENDING');
+            expect(data.lastErrorCode).toBe('RATE_LIMIT_EXCEEDED');
+            expect(data.runAt.getTime() - before).toBeGreaterThanOrEqual(900 * 1000);
+        });
+
+        it('should move the job to dead letter after the last attempt', async () => {
+            queueForPoll(pendingJob({ attempts: 2 }));
+            mockIntegrationsService.sync.mockRejectedValue(new Error('boom'));
+
+            await queue.poll();
+
+            const data = mockPrismaService.syncJobs.update.mock.calls[0][0].data;
+            expect(data.status).toBe('DEAD_LETTER');
+            expect(data.finishedAt).toBeInstanceOf(Date);
+            expect(data.lastError).toBe('boom');
+        });
+
+        it('should not run a job claimed by another worker', async () => {
+            mockPrismaService.syncJobs.findFirst.mockResolvedValue(pendingJob());
+            mockPrismaService.syncJobs.updateMany.mockResolvedValue({ count: 0 });
+
+            const processed = await queue.poll();
+
+            expect(processed).toBe(0);
+            expect(mockIntegrationsService.sync).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('getRetryDelayMs', () => {
+        it('should cap the backoff', () => {
+            config.INTEGRATION_SYNC_BACKOFF_MAX_MS = '5000';
+
+            expect(queue.getRetryDelayMs(new Error('boom'), 10)).toBeLessThanOrEqual(5000);
+            expect(queue.getRetryDelayMs(new RateLimitException('spotify', 3600), 1)).toBe(5000);
+        });
+    });
+});
@@ -0,0 +1,268 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '@traeta/prisma';
+import { Prisma, SyncJobs } from '@prisma/client';
+import { hostname } from 'os';
+import { IntegrationsService } from './integrations.service';
+import { IntegrationProviderName } from './types';
+import {
+    IntegrationException,
+    RateLimitException,
+    SyncJobNotFoundException,
+} from './exceptions';
+import { ACTIVE_CONDITION, REC_SEQ, SYNC_JOB_STATUS } from '../../constants';
+
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+
+const ACTIVE_JOB_STATUSES = [SYNC_JOB_STATUS.PENDING, SYNC_JOB_STATUS.RUNNING];
+
+/**
+ * Postgres-backed queue for provider syncs, plus the worker that drains it.
+ *
+ * Jobs are claimed with a conditional update so several user-service instances can share
+ * the table. Failed jobs are retried with exponential backoff (or the provider's
+ * Retry-After for rate limits) and moved to DEAD_LETTER once maxAttempts is reached.
+ */
+@Injectable()
+export class SyncJobQueue implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(SyncJobQueue.name);
+    private readonly workerId = `${hostname()}:${process.pid}`;
+    private timer: NodeJS.Timeout | null = null;
+    private polling = false;
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly integrations: IntegrationsService,
+        private readonly configService: ConfigService,
+    ) { }
+
+    onModuleInit() {
+        if (this.configService.get<string>('INTEGRATION_SYNC_WORKER_ENABLED') === 'false') {
+            this.logger.log('Sync job worker is disabled');
+            return;
+        }
+
+        const pollMs = this.getNumber('INTEGRATION_SYNC_WORKER_POLL_MS', 5 * SECOND_MS);
+        this.timer = setInterval(() => void this.poll(), pollMs);
+        this.timer.unref();
+        this.logger.log(`Sync job worker ${this.workerId} started (poll every ${pollMs}ms)`);
+    }
+
+    onModuleDestroy() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private getNumber(key: string, fallback: number): number {
+        const value = Number(this.configService.get<string>(key));
+        return value > 0 ? value : fallback;
+    }
+
+    /**
+     * Queue a sync for a user/provider, optionally for one connection (UserIntegrations row);
+     * without it the worker syncs the user's default connection. If a job for the same
+     * connection is already pending or running, that job is returned instead of creating a second one.
+     * The SyncJobs_active_connection_key partial unique index backs this up when two enqueues race.
+     */
+    async enqueue(provider: IntegrationProviderName, userId: string, connectionId?: string) {
+        // Fail fast instead of queueing a job that can never run (unknown or disabled provider)
+        this.integrations.getProviderOrThrow(provider);
+
+        const existing = await this.findActiveJob(provider, userId, connectionId);
+        if (existing) return this.toView(existing);
+
+        let job: SyncJobs;
+        try {
+            job = await this.prisma.syncJobs.create({
+                data: {
+                    userId,
+                    userRecSeq: REC_SEQ.DEFAULT_RECORD,
+                    provider,
+                    userIntegrationId: connectionId ?? null,
+                    status: SYNC_JOB_STATUS.PENDING,
+                    maxAttempts: this.getNumber('INTEGRATION_SYNC_MAX_ATTEMPTS', 5),
+                    runAt: new Date(),
+                    ...ACTIVE_CONDITION,
+                },
+            });
+        } catch (error) {
+            // Unique violation: a concurrent enqueue (webhook, scheduler) created the active job first
+            if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') throw error;
+            const winner = await this.findActiveJob(provider, userId, connectionId);
+            if (!winner) throw error;
+            return this.toView(winner);
+        }
+        this.logger.log(`Enqueued sync job ${job.syncJobId} for ${provider}, userId: ${userId}`);
+        return this.toView(job);
+    }
+
+    private findActiveJob(provider: IntegrationProviderName, userId: string, connectionId?: string) {
+        return this.prisma.syncJobs.findFirst({
+            where: { userId, provider, userIntegrationId: connectionId ?? null, status: { in: ACTIVE_JOB_STATUSES }, ...ACTIVE_CONDITION },
+            orderBy: { createdOn: 'asc' },
+        });
+    }
+
+    async getJob(jobId: string, userId: string) {
+        const job = await this.prisma.syncJobs.findFirst({
+            where: { syncJobId: jobId, userId, ...ACTIVE_CONDITION },
+        });
+        if (!job) {
+            throw new SyncJobNotFoundException(jobId);
+        }
+        return this.toView(job);
+    }
+
+    /**
+     * Run due jobs until none are left or the per-poll limit is reached.
+     * Returns the number of jobs processed.
+     */
+    async poll(): Promise<number> {
+        if (this.polling) return 0;
+        this.polling = true;
+
+        let processed = 0;
+        try {
+            await this.releaseStaleJobs();
+            const limit = this.getNumber('INTEGRATION_SYNC_WORKER_BATCH_SIZE', 10);
+            while (processed < limit) {
+                const job = await this.claimNext();
+                if (!job) break;
+                await this.runJob(job);
+                processed++;
+            }
+        } catch (error) {
+            this.logger.error('Sync job poll failed:', error);
+        } finally {
+            this.polling = false;
+        }
+        return processed;
+    }
+
+    // Jobs left RUNNING by a crashed worker go back to PENDING once their lock times out
+    private async releaseStaleJobs() {
+        const timeoutMs = this.getNumber('INTEGRATION_SYNC_JOB_TIMEOUT_MS', 15 * MINUTE_MS);
+        const { count } = await this.prisma.syncJobs.updateMany({
+            where: {
+                status: SYNC_JOB_STATUS.RUNNING,
+                lockedAt: { lt: new Date(Date.now() - timeoutMs) },
+                ...ACTIVE_CONDITION,
+            },
+            data: { status: SYNC_JOB_STATUS.PENDING, lockedAt: null, lockedBy: null },
+        });
+        if (count > 0) {
+            this.logger.warn(`Released ${count} stale sync job(s)`);
+        }
+    }
+
+    private async claimNext() {
+        // Retry a few times in case another worker claims the same job first
+        for (let i = 0; i < 3; i++) {
+            const candidate = await this.prisma.syncJobs.findFirst({
+                where: { status: SYNC_JOB_STATUS.PENDING, runAt: { lte: new Date() }, ...ACTIVE_CONDITION },
+                orderBy: { runAt: 'asc' },
+            });
+            if (!candidate) return null;
+
+            const now = new Date();
+            const { count } = await this.prisma.syncJobs.updateMany({
+                where: { syncJobId: candidate.syncJobId, status: SYNC_JOB_STATUS.PENDING, ...ACTIVE_CONDITION },
+                data: {
+                    status: SYNC_JOB_STATUS.RUNNING,
+                    lockedAt: now,
+                    lockedBy: this.workerId,
+                    startedAt: now,
+                    attempts: { increment: 1 },
+                },
+            });
+            if (count === 1) {
+                return { ...candidate, attempts: candidate.attempts + 1 };
+            }
+        }
+        return null;
+    }
+
+    private async runJob(job: { syncJobId: string; userId: string; provider: string; userIntegrationId: string | null; attempts: number; maxAttempts: number }) {
+        const where = { syncJobId_recSeq: { syncJobId: job.syncJobId, recSeq: REC_SEQ.DEFAULT_RECORD } };
+
+        try {
+            const result = await this.integrations.sync(job.provider as IntegrationProviderName, job.userId, job.userIntegrationId ?? undefined);
+            await this.prisma.syncJobs.update({
+                where,
+                data: {
+                    status: SYNC_JOB_STATUS.COMPLETED,
+                    finishedAt: new Date(),
+                    lockedAt: null,
+                    lockedBy: null,
+                    lastError: null,
+                    lastErrorCode: null,
+                    result: JSON.parse(JSON.stringify(result ?? null)) as Prisma.InputJsonValue,
+                },
+            });
+            this.logger.log(`Sync job ${job.syncJobId} completed for ${job.provider}, userId: ${job.userId}`);
+        } catch (error: unknown) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            const errorCode = error instanceof IntegrationException ? error.errorCode : (error instanceof Error ? error.name : null);
+            const deadLetter = job.attempts >= job.maxAttempts;
+            const delayMs = this.getRetryDelayMs(error, job.attempts);
+
+            await this.prisma.syncJobs.update({
+                where,
+                data: {
+                    status: deadLetter ? SYNC_JOB_STATUS.DEAD_LETTER : SYNC_JOB_STATUS.PENDING,
+                    runAt: deadLetter ? undefined : new Date(Date.now() + delayMs),
+                    finishedAt: deadLetter ? new Date() : null,
+                    lockedAt: null,
+                    lockedBy: null,
+                    lastError: message,
+                    lastErrorCode: errorCode,
+                },
+            });
+
+            if (deadLetter) {
+                this.logger.error(`Sync job ${job.syncJobId} moved to dead letter after ${job.attempts} attempts: ${message}`);
+            } else {
+                this.logger.warn(`Sync job ${job.syncJobId} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${delayMs}ms: ${message}`);
+            }
+        }
+    }
+
+    /**
+     * Delay before the next attempt: the provider's Retry-After for rate limits,
+     * otherwise exponential backoff with jitter, capped at INTEGRATION_SYNC_BACKOFF_MAX_MS.
+     */
+    getRetryDelayMs(error: unknown, attempts: number): number {
+        const maxMs = this.getNumber('INTEGRATION_SYNC_BACKOFF_MAX_MS', 60 * MINUTE_MS);
+
+        if (error instanceof RateLimitException) {
+            const retryAfter = Number(error.retryAfter);
+            if (retryAfter > 0) return Math.min(retryAfter * SECOND_MS, maxMs);
+        }
+
+        const baseMs = this.getNumber('INTEGRATION_SYNC_BACKOFF_BASE_MS', 30 * SECOND_MS);
+        const backoff = Math.min(baseMs * 2 ** Math.max(attempts - 1, 0), maxMs);
+        // Up to 20% jitter so retries from one outage do not line up
+        return Math.floor(backoff * (0.8 + Math.random() * 0.2));
+    }
+
+    private toView(job: SyncJobs) {
+        return {
+            jobId: job.syncJobId,
+            provider: job.provider,
+            userId: job.userId,
+            connectionId: job.userIntegrationId ?? null,
+            status: job.status,
+            attempts: job.attempts,
+            maxAttempts: job.maxAttempts,
+            runAt: job.runAt,
+            startedAt: job.startedAt ?? null,
+            finishedAt: job.finishedAt ?? null,
+            lastError: job.lastError ?? null,
+            lastErrorCode: job.lastErrorCode ?? null,
+            result: job.result ?? null,
+        };
+    }
+}
@@ -0,0 +1,184 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import { PrismaService } from '@traeta/prisma';
+import { SyncRunRecorder, recordItemOutcome } from './sync-run-recorder';
+import { IntegrationProviderName } from './types';
+import { RateLimitException } from './exceptions';
+
+describe('SyncRunRecorder', () => {
+    let recorder: SyncRunRecorder;
+    let mockPrismaService: any;
+
+    beforeEach(async () => {
+        mockPrismaService = {
+            syncRuns: {
+                create: jest.fn().mockResolvedValue({}),
+                findMany: jest.fn(),
+                count: jest.fn(),
+            },
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                SyncRunRecorder,
+                { provide: PrismaService, useValue: mockPrismaService },
+            ],
+        }).compile();
+
+        recorder = module.get<SyncRunRecorder>(SyncRunRecorder);
+
+        jest.spyOn(Logger.prototype, 'error').mockImplementation();
+    });
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    const savedRun = () => mockPrismaService.syncRuns.create.mock.calls[0][0].data;
+
+    describe('record', () => {
+        it('should record item outcomes reported during the sync', async () => {
+            const result = await recorder.record(IntegrationProviderName.CONTACT_LIST, 'user-1', async () => {
+                recordItemOutcome('created');
+                recordItemOutcome('created');
+                recordItemOutcome('updated');
+                recordItemOutcome('skipped', 3);
+                return { ok: true };
+            });
+
+            expect(result).toEqual({ ok: true });
+            expect(savedRun()).toEqual(expect.objectContaining({
+                userId: 'user-1',
+                provider: 'contact_list',
+                status: 'SUCCESS',
+                itemsCreated: 2,
+                itemsUpdated: 1,
+                itemsSkipped: 3,
+                errorClass: null,
+                errorMessage: null,
+            }));
+            expect(savedRun().durationMs).toBeGreaterThanOrEqual(0);
+        });
+
+        it('should keep counts separate for concurrent syncs', async () => {
+            await Promise.all([
+                recorder.record(IntegrationProviderName.SPOTIFY, 'user-1', async () => {
+                    recordItemOutcome('created');
+                    await new Promise(resolve => setTimeout(resolve, 5));
+                    recordItemOutcome('created');
+                    return { ok: true };
+                }),
+                recorder.record(IntegrationProviderName.STRAVA, 'user-1', async () => {
+                    recordItemOutcome('created');
+                    return { ok: true };
+                }),
+            ]);
+
+            const byProvider = Object.fromEntries(
+                mockPrismaService.syncRuns.create.mock.calls.map(([{ data }]) => [data.provider, data.itemsCreated]),
+            );
+            expect(byProvider).toEqual({ spotify: 2, strava: 1 });
+        });
+
+        it('should add email category stats to the skipped count', async () => {
+            const categoryStats = { travel: { processed: 2, skipped: 4 }, food: { processed: 1, skipped: 1 } };
+
+            await recorder.record(IntegrationProviderName.EMAIL_SCRAPER, 'user-1', async () => {
+                recordItemOutcome('created', 3);
+                return { ok: true, details: { categoryStats } };
+            });
+
+            expect(savedRun()).toEqual(expect.objectContaining({
+                itemsCreated: 3,
+                itemsSkipped: 5,
+                details: { categoryStats },
+            }));
+        });
+
+        it('should pass the run summary to onRecorded even when the row cannot be saved', async () => {
+            mockPrismaService.syncRuns.create.mockRejectedValue(new Error('db down'));
+            const onRecorded = jest.fn();
+
+            await recorder.record(IntegrationProviderName.SPOTIFY, 'user-1', async () => {
+                recordItemOutcome('created', 2);
+                recordItemOutcome('skipped');
+                return { ok: true };
+            }, onRecorded);
+
+            expect(onRecorded).toHaveBeenCalledWith({
+                provider: IntegrationProviderName.SPOTIFY,
+                userId: 'user-1',
+                status: 'SUCCESS',
+                durationMs: expect.any(Number),
+                items: { created: 2, updated: 0, skipped: 1 },
+                errorClass: null,
+            });
+        });
+
+        it('should record the error class and rethrow when the sync throws', async () => {
+            const error = new RateLimitException('strava', 900);
+
+            await expect(
+                recorder.record(IntegrationProviderName.STRAVA, 'user-1', async () => {
+                    recordItemOutcome('created');
+                    throw error;
+                }),
+            ).rejects.toBe(error);
+
+            expect(savedRun()).toEqual(expect.objectContaining({
+                status: 'FAILED',
+                itemsCreated: 1,
+                errorClass: 'RateLimitException',
+                errorMessage: error.message,
+            }));
+        });
+
+        it('should record unsuccessful results as failed', async () => {
+            await recorder.record(IntegrationProviderName.PLAID, 'user-1', async () => ({
+                ok: false,
+                details: { error: 'No access token' },
+            }));
+
+            expect(savedRun()).toEqual(expect.objectContaining({
+                status: 'FAILED',
+                errorClass: null,
+                errorMessage: 'No access token',
+            }));
+        });
+
+        it('should not fail the sync when the run cannot be saved', async () => {
+            mockPrismaService.syncRuns.create.mockRejectedValue(new Error('db down'));
+
+            const result = await recorder.record(IntegrationProviderName.SPOTIFY, 'user-1', async () => ({ ok: true }));
+
+            expect(result).toEqual({ ok: true });
+            expect(Logger.prototype.error).toHaveBeenCalled();
+        });
+    });
+
+    describe('recordItemOutcome', () => {
+        it('should be a no-op outside of a recorded sync', () => {
+            expect(() => recordItemOutcome('created')).not.toThrow();
+        });
+    });
+
+    describe('listRuns', () => {
+        it('should page through runs newest first', async () => {
+            mockPrismaService.syncRuns.findMany.mockResolvedValue([
+                { syncRunId: 'run-2', provider: 'plaid', status: 'SUCCESS', itemsCreated: 4 },
+            ]);
+            mockPrismaService.syncRuns.count.mockResolvedValue(21);
+
+            const page = await recorder.listRuns(IntegrationProviderName.PLAID, 'user-1', 3, 10);
+
+            expect(mockPrismaService.syncRuns.findMany).toHaveBeenCalledWith(expect.objectContaining({
+                where: expect.objectContaining({ userId: 'user-1', provider: 'plaid' }),
+                orderBy: { startedAt: 'desc' },
+                skip: 20,
+                take: 10,
+            }));
+            expect(page.data[0]).toEqual(expect.objectContaining({ runId: 'run-2', itemsCreated: 4 }));
+            expect(page.metadata).toEqual({ pageNumber: 3, limit: 10, totalCount: 21 });
+        });
+    });
+});
@@ -0,0 +1,162 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '@traeta/prisma';
+import { AsyncLocalStorage } from 'async_hooks';
+import { IntegrationProviderName } from './types';
+import { getConnectionId } from './connection-scope';
+import { ACTIVE_CONDITION, ActionStatus, REC_SEQ } from '../../constants';
+
+export type ItemOutcome = 'created' | 'updated' | 'skipped';
+
+type SyncRunCounts = Record<ItemOutcome, number>;
+
+type SyncResult = { ok: boolean; syncedAt?: Date; details?: any };
+
+// What a finished sync run looked like, for metrics and post-sync passes
+export type SyncRunSummary = {
+    provider: IntegrationProviderName;
+    userId: string;
+    status: ActionStatus;
+    durationMs: number;
+    items: SyncRunCounts;
+    errorClass: string | null;
+};
+
+// Counters for the sync running in the current async context
+const currentRun = new AsyncLocalStorage<SyncRunCounts>();
+
+/**
+ * Count a list item written during the current sync. A no-op outside of
+ * SyncRunRecorder.record, so persistence helpers can call it unconditionally.
+ */
+export function recordItemOutcome(outcome: ItemOutcome, count = 1) {
+    const counts = currentRun.getStore();
+    if (counts) counts[outcome] += count;
+}
+
+/**
+ * Stores a SyncRuns row for every provider sync: timing, item counts and the error, if any.
+ */
+@Injectable()
+export class SyncRunRecorder {
+    private readonly logger = new Logger(SyncRunRecorder.name);
+
+    constructor(private readonly prisma: PrismaService) { }
+
+    /**
+     * Run a provider sync and record its outcome. The sync result (or error) is passed
+     * through unchanged; failing to write the history row never fails the sync.
+     * onRecorded receives the run's summary whether or not the row could be written.
+     */
+    async record<T extends SyncResult>(
+        provider: IntegrationProviderName,
+        userId: string,
+        run: () => Promise<T>,
+        onRecorded?: (summary: SyncRunSummary) => void,
+    ): Promise<T> {
+        const counts: SyncRunCounts = { created: 0, updated: 0, skipped: 0 };
+        const startedAt = new Date();
+
+        let result: T;
+        try {
+            result = await currentRun.run(counts, run);
+        } catch (error) {
+            const summary = await this.save(provider, userId, startedAt, counts, undefined, error);
+            onRecorded?.(summary);
+            throw error;
+        }
+
+        const summary = await this.save(provider, userId, startedAt, counts, result);
+        onRecorded?.(summary);
+        return result;
+    }
+
+    private async save(
+        provider: IntegrationProviderName,
+        userId: string,
+        startedAt: Date,
+        counts: SyncRunCounts,
+        result?: SyncResult,
+        error?: any,
+    ): Promise<SyncRunSummary> {
+        const finishedAt = new Date();
+        const details = result?.details;
+        const failed = !!error || result?.ok === false;
+
+        // The email scraper skips known messages before they reach persistence,
+        // so its per-category stats are the source for skipped counts
+        const categorySkipped = details?.categoryStats
+            ? Object.values(details.categoryStats as Record<string, { skipped?: number }>)
+                .reduce((sum, stats) => sum + (stats?.skipped ?? 0), 0)
+            : 0;
+        const summary: SyncRunSummary = {
+            provider,
+            userId,
+            status: failed ? ActionStatus.FAILED : ActionStatus.SUCCESS,
+            durationMs: finishedAt.getTime() - startedAt.getTime(),
+            items: { ...counts, skipped: counts.skipped + categorySkipped },
+            errorClass: error ? error.constructor?.name ?? 'Error' : null,
+        };
+
+        try {
+            await this.prisma.syncRuns.create({
+                data: {
+                    userId,
+                    userRecSeq: REC_SEQ.DEFAULT_RECORD,
+                    provider,
+                    userIntegrationId: getConnectionId() ?? null,
+                    status: summary.status,
+                    startedAt,
+                    finishedAt,
+                    durationMs: summary.durationMs,
+                    itemsCreated: summary.items.created,
+                    itemsUpdated: summary.items.updated,
+                    itemsSkipped: summary.items.skipped,
+                    errorClass: summary.errorClass,
+                    errorMessage: error ? error.message ?? String(error) : (failed ? details?.error ?? null : null),
+                    details: details?.categoryStats ? { categoryStats: details.categoryStats } : undefined,
+                    ...ACTIVE_CONDITION,
+                },
+            });
+        } catch (saveError) {
+            this.logger.error(`Failed to record sync run for ${provider}, userId: ${userId}:`, saveError);
+        }
+        return summary;
+    }
+
+    /**
+     * Page through a user's sync runs for a provider, newest first, optionally for one connection.
+     */
+    async listRuns(provider: IntegrationProviderName, userId: string, pageNumber = 1, limit = 20, connectionId?: string) {
+        const where = { userId, provider, ...(connectionId ? { userIntegrationId: connectionId } : {}), ...ACTIVE_CONDITION };
+        const skip = (pageNumber - 1) * limit;
+
+        const [runs, totalCount] = await Promise.all([
+            this.prisma.syncRuns.findMany({
+                where,
+                orderBy: { startedAt: 'desc' },
+                skip,
+                take: limit,
+            }),
+            this.prisma.syncRuns.count({ where }),
+        ]);
+
+        return {
+            data: runs.map(run => ({
+                runId: run.syncRunId,
+                provider: run.provider,
+                connectionId: run.userIntegrationId,
+                status: run.status,
+                startedAt: run.startedAt,
+                finishedAt: run.finishedAt,
+                durationMs: run.durationMs,
+                itemsCreated: run.itemsCreated,
+                itemsUpdated: run.itemsUpdated,
+                itemsSkipped: run.itemsSkipped,
+                errorClass: run.errorClass,
+                errorMessage: run.errorMessage,
+                details: run.details,
+            })),
+            metadata: { pageNumber, limit, totalCount },
+        };
+    }
+}
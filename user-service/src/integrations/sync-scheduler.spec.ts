@@ -0,0 +1,239 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '@traeta/prisma';
+import { SyncScheduler, DEFAULT_SYNC_CADENCE_MS } from './sync-scheduler';
+import { SyncJobQueue } from './sync-job-queue';
+import { IntegrationProviderRegistry } from './provider-registry';
+import { IntegrationSettingsStore } from './sync-settings';
+import { IntegrationProviderName } from './types';
+
+describe('SyncScheduler', () => {
+    let scheduler: SyncScheduler;
+    let mockPrismaService: any;
+    let mockSyncJobQueue: jest.Mocked<SyncJobQueue>;
+    let disabledProviders: Set<string>;
+    let manualOnly: Set<string>;
+    let config: Record<string, string>;
+
+    const HOUR_MS = 60 * 60 * 1000;
+
+    const link = (userId: string, name: string, lastSyncedAt: Date | null, userIntegrationId = `link-${userId}`) => ({
+        userId,
+        userIntegrationId,
+        integration: { name },
+        history: [{ lastSyncedAt }],
+    });
+
+    beforeEach(async () => {
+        config = { INTEGRATION_SYNC_SCHEDULER_ENABLED: 'false' };
+        disabledProviders = new Set();
+        manualOnly = new Set();
+
+        mockPrismaService = {
+            userIntegrations: {
+                findMany: jest.fn(),
+            },
+        };
+
+        mockSyncJobQueue = {
+            enqueue: jest.fn().mockResolvedValue({ jobId: 'job-1', status: 'PENDING' }),
+        } as any;
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                SyncScheduler,
+                { provide: PrismaService, useValue: mockPrismaService },
+                { provide: SyncJobQueue, useValue: mockSyncJobQueue },
+                {
+                    provide: IntegrationProviderRegistry,
+                    useValue: {
+                        isEnabled: jest.fn((name: string) =>
+                            Object.values<string>(IntegrationProviderName).includes(name) && !disabledProviders.has(name)),
+                    },
+                },
+                { provide: ConfigService, useValue: { get: jest.fn((key: string) => config[key]) } },
+                { provide: IntegrationSettingsStore, useValue: { autoSyncDisabled: jest.fn(async () => manualOnly) } },
+            ],
+        }).compile();
+
+        scheduler = module.get<SyncScheduler>(SyncScheduler);
+
+        jest.spyOn(Logger.prototype, 'log').mockImplementation();
+        jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+        jest.spyOn(Logger.prototype, 'error').mockImplementation();
+    });
+
+    afterEach(() => {
+        scheduler.onModuleDestroy();
+        jest.clearAllMocks();
+    });
+
+    describe('cadence', () => {
+        it('should use the default cadence per provider', () => {
+            expect(scheduler.getCadenceMs(IntegrationProviderName.SPOTIFY)).toBe(HOUR_MS);
+            expect(scheduler.getCadenceMs(IntegrationProviderName.PLAID)).toBe(24 * HOUR_MS);
+        });
+
+        it('should honor a per-provider interval override', () => {
+            config.STRAVA_SYNC_INTERVAL_MINUTES = '15';
+            expect(scheduler.getCadenceMs(IntegrationProviderName.STRAVA)).toBe(15 * 60 * 1000);
+        });
+
+        it('should keep jitter stable and within the jitter window', () => {
+            const first = scheduler.getJitterMs(IntegrationProviderName.SPOTIFY, 'link-1');
+            const second = scheduler.getJitterMs(IntegrationProviderName.SPOTIFY, 'link-1');
+
+            expect(first).toBe(second);
+            expect(first).toBeGreaterThanOrEqual(0);
+            expect(first).toBeLessThan(DEFAULT_SYNC_CADENCE_MS[IntegrationProviderName.SPOTIFY] * 0.1);
+        });
+    });
+
+    describe('findDueLinks', () => {
+        it('should skip links that synced recently and unknown integrations', async () => {
+            const now = Date.now();
+            mockPrismaService.userIntegrations.findMany.mockResolvedValue([
+                link('recent', 'spotify', new Date(now - 10 * 60 * 1000)),
+                link('stale', 'spotify', new Date(now - 3 * HOUR_MS)),
+                link('never', 'plaid', null),
+                link('unknown', 'text_scrapping', null),
+            ]);
+
+            const due = await scheduler.findDueLinks(now);
+
+            expect(due.map(d => d.userId)).toEqual(['never', 'stale']);
+        });
+
+        it('should skip providers disabled through their Integrations row', async () => {
+            disabledProviders.add(IntegrationProviderName.PLAID);
+            mockPrismaService.userIntegrations.findMany.mockResolvedValue([
+                link('banker', 'plaid', null),
+                link('runner', 'strava', null),
+            ]);
+
+            const due = await scheduler.findDueLinks();
+
+            expect(due.map(d => d.userId)).toEqual(['runner']);
+        });
+
+        it('should skip providers the user turned auto-sync off for', async () => {
+            manualOnly.add('runner:strava');
+            mockPrismaService.userIntegrations.findMany.mockResolvedValue([
+                link('runner', 'strava', null),
+                link('runner', 'spotify', null, 'link-runner-spotify'),
+            ]);
+
+            const due = await scheduler.findDueLinks();
+
+            expect(due.map(d => d.provider)).toEqual([IntegrationProviderName.SPOTIFY]);
+        });
+
+        it('should map the goodreads integration row to the goodreads provider', async () => {
+            mockPrismaService.userIntegrations.findMany.mockResolvedValue([
+                link('reader', 'web_scrapping_goodreads', null),
+            ]);
+
+            const due = await scheduler.findDueLinks();
+
+            expect(due).toEqual([
+                { userId: 'reader', provider: IntegrationProviderName.GOODREADS, connectionId: 'link-reader', lastSyncedAt: null },
+            ]);
+        });
+
+        it('should only query connected integrations', async () => {
+            mockPrismaService.userIntegrations.findMany.mockResolvedValue([]);
+
+            await scheduler.findDueLinks();
+
+            expect(mockPrismaService.userIntegrations.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({ where: expect.objectContaining({ status: 'CONNECTED' }) }),
+            );
+        });
+    });
+
+    describe('tick', () => {
+        it('should enqueue due links and not re-enqueue them on the next tick', async () => {
+            mockPrismaService.userIntegrations.findMany.mockResolvedValue([link('user-1', 'strava', null)]);
+
+            const first = await scheduler.tick();
+            const second = await scheduler.tick();
+
+            expect(first).toEqual({ enqueued: 1, failed: 0 });
+            expect(second.enqueued).toBe(0);
+            expect(mockSyncJobQueue.enqueue).toHaveBeenCalledTimes(1);
+            expect(mockSyncJobQueue.enqueue).toHaveBeenCalledWith(IntegrationProviderName.STRAVA, 'user-1', 'link-user-1');
+        });
+
+        it('should enqueue each connection of a user separately', async () => {
+            mockPrismaService.userIntegrations.findMany.mockResolvedValue([
+                link('user-1', 'plaid', null, 'link-checking'),
+                link('user-1', 'plaid', null, 'link-savings'),
+            ]);
+
+            const summary = await scheduler.tick();
+
+            expect(summary).toEqual({ enqueued: 2, failed: 0 });
+            expect(mockSyncJobQueue.enqueue).toHaveBeenCalledWith(IntegrationProviderName.PLAID, 'user-1', 'link-checking');
+            expect(mockSyncJobQueue.enqueue).toHaveBeenCalledWith(IntegrationProviderName.PLAID, 'user-1', 'link-savings');
+        });
+
+        it('should continue with other links when one enqueue fails', async () => {
+            mockPrismaService.userIntegrations.findMany.mockResolvedValue([
+                link('user-1', 'spotify', null),
+                link('user-2', 'spotify', null),
+            ]);
+            mockSyncJobQueue.enqueue
+                .mockRejectedValueOnce(new Error('boom'))
+                .mockResolvedValueOnce({ jobId: 'job-2', status: 'PENDING' } as any);
+
+            const summary = await scheduler.tick();
+
+            expect(summary).toEqual({ enqueued: 1, failed: 1 });
+        });
+
+        it('should cap the number of syncs per tick', async () => {
+            config.INTEGRATION_SYNC_BATCH_SIZE = '1';
+            mockPrismaService.userIntegrations.findMany.mockResolvedValue([
+                link('user-1', 'spotify', null),
+                link('user-2', 'spotify', null),
+            ]);
+
+            const summary = await scheduler.tick();
+
+            expect(summary.enqueued).toBe(1);
+        });
+    });
+
+    describe('lifecycle', () => {
+        it('should not start a timer when disabled', () => {
+            const setIntervalSpy = jest.spyOn(global, 'setInterval');
+
+            scheduler.onModuleInit();
+
+            expect(setIntervalSpy).not.toHaveBeenCalled();
+            setIntervalSpy.mockRestore();
+        });
+
+        it('should not start a timer unless enabled explicitly', () => {
+            delete config.INTEGRATION_SYNC_SCHEDULER_ENABLED;
+            const setIntervalSpy = jest.spyOn(global, 'setInterval');
+
+            scheduler.onModuleInit();
+
+            expect(setIntervalSpy).not.toHaveBeenCalled();
+            setIntervalSpy.mockRestore();
+        });
+
+        it('should start a timer when enabled', () => {
+            config.INTEGRATION_SYNC_SCHEDULER_ENABLED = 'true';
+            const setIntervalSpy = jest.spyOn(global, 'setInterval');
+
+            scheduler.onModuleInit();
+
+            expect(setIntervalSpy).toHaveBeenCalledTimes(1);
+            scheduler.onModuleDestroy();
+            setIntervalSpy.mockRestore();
+        });
+    });
+});
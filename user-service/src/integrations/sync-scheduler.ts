@@ -0,0 +1,186 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '@traeta/prisma';
+import { SyncJobQueue } from './sync-job-queue';
+import { IntegrationProviderRegistry } from './provider-registry';
+import { IntegrationSettingsStore } from './sync-settings';
+import { IntegrationProviderName, providerFromIntegrationName } from './types';
+import { ACTIVE_CONDITION, REC_SEQ, STATUS } from '../../constants';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// Default background sync cadence per provider. Override with <PROVIDER>_SYNC_INTERVAL_MINUTES.
+export const DEFAULT_SYNC_CADENCE_MS: Record<IntegrationProviderName, number> = {
+    [IntegrationProviderName.SPOTIFY]: HOUR_MS,
+    [IntegrationProviderName.APPLE_MUSIC]: HOUR_MS,
+    [IntegrationProviderName.STRAVA]: 6 * HOUR_MS,
+    [IntegrationProviderName.EMAIL_SCRAPER]: 6 * HOUR_MS,
+    [IntegrationProviderName.LOCATION_SERVICES]: 6 * HOUR_MS,
+    [IntegrationProviderName.APPLE_HEALTH]: 12 * HOUR_MS,
+    [IntegrationProviderName.PLAID]: 24 * HOUR_MS,
+    [IntegrationProviderName.CONTACT_LIST]: 24 * HOUR_MS,
+    [IntegrationProviderName.GOODREADS]: 24 * HOUR_MS,
+};
+
+type DueLink = {
+    userId: string;
+    provider: IntegrationProviderName;
+    connectionId: string;
+    lastSyncedAt: Date | null;
+};
+
+/**
+ * Periodically enqueues a sync job for every CONNECTED user integration that is due,
+ * skipping providers the user turned auto-sync off for. Runs only when
+ * INTEGRATION_SYNC_SCHEDULER_ENABLED is "true".
+ *
+ * Each provider has its own cadence; a per-link jitter (derived from the connection)
+ * spreads syncs out so that links connected at the same time do not all fire together.
+ * SyncJobQueue.enqueue reuses a pending or running job, so a connection never has
+ * two syncs queued at once.
+ */
+@Injectable()
+export class SyncScheduler implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(SyncScheduler.name);
+    private timer: NodeJS.Timeout | null = null;
+    private ticking = false;
+    // Last enqueue per connection, so links are not re-enqueued on every tick
+    private readonly lastAttemptAt = new Map<string, number>();
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly jobs: SyncJobQueue,
+        private readonly registry: IntegrationProviderRegistry,
+        private readonly configService: ConfigService,
+        private readonly settings: IntegrationSettingsStore,
+    ) { }
+
+    onModuleInit() {
+        if (!this.isEnabled()) {
+            this.logger.log('Background sync scheduler is disabled');
+            return;
+        }
+
+        const tickMs = this.getTickMs();
+        this.timer = setInterval(() => void this.tick(), tickMs);
+        // Do not keep the process alive just for the scheduler
+        this.timer.unref();
+        this.logger.log(`Background sync scheduler started (tick every ${tickMs}ms)`);
+    }
+
+    onModuleDestroy() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    private isEnabled(): boolean {
+        // Opt-in, so local runs and deployments do not start background syncs unless asked to
+        return this.configService.get<string>('INTEGRATION_SYNC_SCHEDULER_ENABLED') === 'true';
+    }
+
+    private getTickMs(): number {
+        const value = Number(this.configService.get<string>('INTEGRATION_SYNC_TICK_MS'));
+        return value > 0 ? value : MINUTE_MS;
+    }
+
+    private getBatchSize(): number {
+        const value = Number(this.configService.get<string>('INTEGRATION_SYNC_BATCH_SIZE'));
+        return value > 0 ? value : 25;
+    }
+
+    private getJitterRatio(): number {
+        const value = Number(this.configService.get<string>('INTEGRATION_SYNC_JITTER_RATIO'));
+        return value >= 0 && value < 1 ? value : 0.1;
+    }
+
+    getCadenceMs(provider: IntegrationProviderName): number {
+        const override = Number(this.configService.get<string>(`${provider.toUpperCase()}_SYNC_INTERVAL_MINUTES`));
+        if (override > 0) return override * MINUTE_MS;
+        return DEFAULT_SYNC_CADENCE_MS[provider];
+    }
+
+    /**
+     * Stable jitter in [0, cadence * ratio) for a given link, so the same link is always
+     * due at the same offset instead of drifting on every tick.
+     */
+    getJitterMs(provider: IntegrationProviderName, connectionId: string): number {
+        const window = Math.floor(this.getCadenceMs(provider) * this.getJitterRatio());
+        if (window <= 0) return 0;
+        let hash = 0;
+        for (const ch of `${provider}:${connectionId}`) {
+            hash = (hash * 31 + ch.charCodeAt(0)) >>> 0;
+        }
+        return hash % window;
+    }
+
+    isDue(link: DueLink, now: number = Date.now()): boolean {
+        const interval = this.getCadenceMs(link.provider) + this.getJitterMs(link.provider, link.connectionId);
+        const lastAttempt = this.lastAttemptAt.get(link.connectionId) ?? 0;
+        const lastSynced = link.lastSyncedAt ? new Date(link.lastSyncedAt).getTime() : 0;
+        return now - Math.max(lastAttempt, lastSynced) >= interval;
+    }
+
+    async findDueLinks(now: number = Date.now()): Promise<DueLink[]> {
+        const links = await this.prisma.userIntegrations.findMany({
+            where: { status: STATUS.CONNECTED, ...ACTIVE_CONDITION },
+            include: {
+                integration: true,
+                history: { where: { userIntegrationRecSeq: REC_SEQ.DEFAULT_RECORD, ...ACTIVE_CONDITION } },
+            },
+        });
+
+        const manualOnly = await this.settings.autoSyncDisabled([...new Set(links.map(link => link.userId))]);
+
+        const due: DueLink[] = [];
+        for (const link of links) {
+            const provider = providerFromIntegrationName(link.integration?.name);
+            // Unknown or disabled providers
+            if (!this.registry.isEnabled(provider)) continue;
+            if (manualOnly.has(`${link.userId}:${provider}`)) continue;
+
+            const candidate: DueLink = {
+                userId: link.userId,
+                provider,
+                connectionId: link.userIntegrationId,
+                lastSyncedAt: link.history?.[0]?.lastSyncedAt ?? null,
+            };
+            if (this.isDue(candidate, now)) due.push(candidate);
+        }
+
+        // Oldest first so a backlog drains fairly across ticks
+        return due.sort((a, b) => (a.lastSyncedAt?.getTime() ?? 0) - (b.lastSyncedAt?.getTime() ?? 0));
+    }
+
+    async tick(): Promise<{ enqueued: number; failed: number }> {
+        const summary = { enqueued: 0, failed: 0 };
+        if (this.ticking) return summary; // previous tick still running
+        this.ticking = true;
+
+        try {
+            const due = (await this.findDueLinks()).slice(0, this.getBatchSize());
+            for (const link of due) {
+                this.lastAttemptAt.set(link.connectionId, Date.now());
+                try {
+                    await this.jobs.enqueue(link.provider, link.userId, link.connectionId);
+                    summary.enqueued++;
+                } catch (error) {
+                    summary.failed++;
+                    this.logger.warn(`Failed to enqueue scheduled sync for ${link.provider}, userId: ${link.userId}: ${error.message}`);
+                }
+            }
+
+            if (summary.enqueued > 0 || summary.failed > 0) {
+                this.logger.log(`Scheduled sync tick: ${summary.enqueued} enqueued, ${summary.failed} failed`);
+            }
+        } catch (error) {
+            this.logger.error('Scheduled sync tick failed:', error);
+        } finally {
+            this.ticking = false;
+        }
+
+        return summary;
+    }
+}
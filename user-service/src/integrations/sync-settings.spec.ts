@@ -0,0 +1,88 @@
+import { DataValidationException } from './exceptions';
+import {
+    backfillDays,
+    DEFAULT_SYNC_SETTINGS,
+    importsCategory,
+    IntegrationSettingsStore,
+    runWithSettings,
+    syncListTarget,
+} from './sync-settings';
+import { IntegrationAuthType, IntegrationCapabilities, IntegrationProviderName } from './types';
+
+describe('sync settings', () => {
+    describe('scope helpers', () => {
+        it('should fall back to the provider defaults outside of a sync', () => {
+            expect(backfillDays(90)).toBe(90);
+            expect(importsCategory('Run')).toBe(true);
+            expect(syncListTarget('Activity')).toEqual({ listName: 'Activity', customName: 'Activity' });
+        });
+
+        it("should apply the user's settings inside a sync", async () => {
+            const settings = { ...DEFAULT_SYNC_SETTINGS, backfillDays: 14, categories: ['Run', 'Heart Rate'], targetList: 'Training', customName: 'Marathon' };
+
+            await runWithSettings(settings, async () => {
+                expect(backfillDays(90)).toBe(14);
+                expect(importsCategory('Run')).toBe(true);
+                expect(importsCategory('Heart Rate (resting)')).toBe(true);
+                expect(importsCategory('Bike')).toBe(false);
+                expect(syncListTarget('Activity')).toEqual({ listName: 'Training', customName: 'Marathon' });
+            });
+        });
+    });
+
+    describe('IntegrationSettingsStore', () => {
+        let store: IntegrationSettingsStore;
+        let mockPrisma: any;
+
+        const capabilities: IntegrationCapabilities = {
+            authType: IntegrationAuthType.OAUTH,
+            webhooks: true,
+            fileImport: false,
+            disconnect: true,
+            revoke: false,
+            multipleConnections: false,
+            dataTypes: ['activities'],
+            lists: [{ list: 'Activity', categories: ['Run', 'Bike', 'Swim'] }],
+        };
+
+        beforeEach(() => {
+            mockPrisma = {
+                integrationSettings: {
+                    findFirst: jest.fn().mockResolvedValue({ ...DEFAULT_SYNC_SETTINGS, backfillDays: 30, integrationSettingId: 'settings-1' }),
+                    upsert: jest.fn(async ({ update }) => update),
+                },
+            };
+            store = new IntegrationSettingsStore(mockPrisma);
+        });
+
+        it('should return the defaults for a user who never changed them', async () => {
+            mockPrisma.integrationSettings.findFirst.mockResolvedValueOnce(null);
+
+            await expect(store.get('user-1', IntegrationProviderName.STRAVA)).resolves.toEqual(DEFAULT_SYNC_SETTINGS);
+        });
+
+        it('should keep fields left out of an update and reset fields set to null', async () => {
+            const settings = await store.update('user-1', IntegrationProviderName.STRAVA, capabilities, {
+                categories: ['Run', 'Run'],
+                targetList: ' Training ',
+                customName: null,
+            });
+
+            expect(settings).toEqual({ backfillDays: 30, categories: ['Run'], targetList: 'Training', customName: null, autoSync: true });
+            expect(mockPrisma.integrationSettings.upsert).toHaveBeenCalledWith(expect.objectContaining({
+                where: { userId_userRecSeq_provider: { userId: 'user-1', userRecSeq: 0, provider: 'strava' } },
+            }));
+        });
+
+        it.each([
+            [{ backfillDays: 0 }],
+            [{ backfillDays: 1.5 }],
+            [{ categories: ['Run', 'Yoga'] }],
+            [{ targetList: 'x'.repeat(51) }],
+            [{ autoSync: 'no' as any }],
+        ])('should reject %j', async (changes) => {
+            await expect(store.update('user-1', IntegrationProviderName.STRAVA, capabilities, changes)).rejects.toThrow(DataValidationException);
+            expect(mockPrisma.integrationSettings.upsert).not.toHaveBeenCalled();
+        });
+    });
+});
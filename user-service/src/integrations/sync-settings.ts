@@ -0,0 +1,181 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '@traeta/prisma';
+import { AsyncLocalStorage } from 'async_hooks';
+import { ACTIVE_CONDITION, REC_SEQ } from '../../constants';
+import { DataValidationException } from './exceptions';
+import { IntegrationCapabilities, IntegrationProviderName } from './types';
+
+// A user's sync preferences for one provider
+export type IntegrationSyncSettings = {
+    // Lookback of the first sync in days; null uses the provider default
+    backfillDays: number | null;
+    // Categories to import; empty imports all of the provider's categories
+    categories: string[];
+    // List items land in instead of the provider's default lists
+    targetList: string | null;
+    // Name of the user's copy of the list; null uses the list name
+    customName: string | null;
+    // Scheduled and webhook-triggered syncs; manual syncs always run
+    autoSync: boolean;
+};
+
+export type IntegrationSyncSettingsUpdate = Partial<IntegrationSyncSettings>;
+
+export const DEFAULT_SYNC_SETTINGS: IntegrationSyncSettings = {
+    backfillDays: null,
+    categories: [],
+    targetList: null,
+    customName: null,
+    autoSync: true,
+};
+
+export const MAX_BACKFILL_DAYS = 3650;
+const MAX_NAME_LENGTH = 50;
+
+// Settings of the user and provider that the code running in the current async context syncs for
+const currentSettings = new AsyncLocalStorage<IntegrationSyncSettings>();
+
+/**
+ * Run provider code with a user's settings for the provider. The helpers below read them, so
+ * providers keep their (userId) signatures; outside of a run they return the defaults.
+ */
+export function runWithSettings<T>(settings: IntegrationSyncSettings, run: () => Promise<T>): Promise<T> {
+    return currentSettings.run(settings, run);
+}
+
+export function getSyncSettings(): IntegrationSyncSettings {
+    return currentSettings.getStore() ?? DEFAULT_SYNC_SETTINGS;
+}
+
+// Lookback of a first sync: the user's backfill depth, else the provider default
+export function backfillDays(defaultDays: number): number {
+    return getSyncSettings().backfillDays ?? defaultDays;
+}
+
+// Qualified categories such as 'Heart Rate (resting)' follow their base category
+export function importsCategory(categoryName: string): boolean {
+    const { categories } = getSyncSettings();
+    return categories.length === 0 || categories.includes(categoryName.replace(/ \(.+\)$/, ''));
+}
+
+/**
+ * List (Lists.name) and user list (UserLists.customName) that items the provider files under
+ * `listName` land in.
+ */
+export function syncListTarget(listName: string): { listName: string; customName: string } {
+    const { targetList, customName } = getSyncSettings();
+    const target = targetList ?? listName;
+    return { listName: target, customName: customName ?? target };
+}
+
+// Persisted settings, one row per user and provider
+@Injectable()
+export class IntegrationSettingsStore {
+    constructor(private readonly prisma: PrismaService) { }
+
+    async get(userId: string, provider: IntegrationProviderName): Promise<IntegrationSyncSettings> {
+        const row = await this.prisma.integrationSettings.findFirst({
+            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, provider, ...ACTIVE_CONDITION },
+        });
+        return row ? this.toSettings(row) : { ...DEFAULT_SYNC_SETTINGS };
+    }
+
+    /**
+     * Validate and save changes to a user's settings. Fields left out keep their current value;
+     * null resets a field to the provider default.
+     */
+    async update(
+        userId: string,
+        provider: IntegrationProviderName,
+        capabilities: IntegrationCapabilities,
+        changes: IntegrationSyncSettingsUpdate,
+    ): Promise<IntegrationSyncSettings> {
+        const settings = { ...(await this.get(userId, provider)), ...this.validate(provider, capabilities, changes) };
+        const data = {
+            backfillDays: settings.backfillDays,
+            categories: settings.categories,
+            targetList: settings.targetList,
+            customName: settings.customName,
+            autoSync: settings.autoSync,
+            modifiedBy: userId,
+        };
+        const row = await this.prisma.integrationSettings.upsert({
+            where: { userId_userRecSeq_provider: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, provider } },
+            update: { ...data, ...ACTIVE_CONDITION },
+            create: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, provider, ...data, createdBy: userId, ...ACTIVE_CONDITION },
+        });
+        return this.toSettings(row);
+    }
+
+    /**
+     * `${userId}:${provider}` of the given users' providers with auto-sync turned off.
+     */
+    async autoSyncDisabled(userIds: string[]): Promise<Set<string>> {
+        if (userIds.length === 0) {
+            return new Set();
+        }
+        const rows = await this.prisma.integrationSettings.findMany({
+            where: { userId: { in: userIds }, userRecSeq: REC_SEQ.DEFAULT_RECORD, autoSync: false, ...ACTIVE_CONDITION },
+            select: { userId: true, provider: true },
+        });
+        return new Set(rows.map(row => `${row.userId}:${row.provider}`));
+    }
+
+    private validate(
+        provider: IntegrationProviderName,
+        capabilities: IntegrationCapabilities,
+        changes: IntegrationSyncSettingsUpdate,
+    ): IntegrationSyncSettingsUpdate {
+        const valid: IntegrationSyncSettingsUpdate = {};
+
+        if (changes.backfillDays !== undefined) {
+            const days = changes.backfillDays;
+            if (days !== null && (!Number.isInteger(days) || days < 1 || days > MAX_BACKFILL_DAYS)) {
+                throw new DataValidationException(provider, `backfillDays must be a whole number of days between 1 and ${MAX_BACKFILL_DAYS}`);
+            }
+            valid.backfillDays = days;
+        }
+
+        if (changes.categories !== undefined) {
+            const known = capabilities.lists.flatMap(list => list.categories);
+            const categories = changes.categories ?? [];
+            if (!Array.isArray(categories) || categories.some(name => typeof name !== 'string')) {
+                throw new DataValidationException(provider, 'categories must be a list of category names');
+            }
+            const unknown = categories.filter(name => !known.includes(name));
+            if (unknown.length > 0) {
+                throw new DataValidationException(provider, `Unknown categories: ${unknown.join(', ')}. Expected any of: ${known.join(', ')}`);
+            }
+            valid.categories = [...new Set(categories)];
+        }
+
+        for (const field of ['targetList', 'customName'] as const) {
+            if (changes[field] === undefined) {
+                continue;
+            }
+            const name = typeof changes[field] === 'string' ? changes[field].trim() : changes[field];
+            if (name !== null && (typeof name !== 'string' || name.length === 0 || name.length > MAX_NAME_LENGTH)) {
+                throw new DataValidationException(provider, `${field} must be a name of 1 to ${MAX_NAME_LENGTH} characters`);
+            }
+            valid[field] = name;
+        }
+
+        if (changes.autoSync !== undefined) {
+            if (typeof changes.autoSync !== 'boolean') {
+                throw new DataValidationException(provider, 'autoSync must be true or false');
+            }
+            valid.autoSync = changes.autoSync;
+        }
+        return valid;
+    }
+
+    private toSettings(row: { backfillDays: number | null; categories: string[]; targetList: string | null; customName: string | null; autoSync: boolean }): IntegrationSyncSettings {
+        return {
+            backfillDays: row.backfillDays,
+            categories: row.categories,
+            targetList: row.targetList,
+            customName: row.customName,
+            autoSync: row.autoSync,
+        };
+    }
+}
@@ -0,0 +1,129 @@
+import * as crypto from 'crypto';
+import { decryptToken, encryptToken, getActiveKeyId, getCiphertextKeyId, reencryptToken } from './token-crypto';
+import { reencryptTokens } from './reencrypt-tokens';
+
+const KEY_V1 = crypto.randomBytes(32).toString('hex');
+const KEY_V2 = crypto.randomBytes(32).toString('hex');
+
+// The format used before key ids were added
+function legacyEncrypt(plain: string, hexKey: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', Buffer.from(hexKey, 'hex'), iv);
+    const enc = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+    return [iv.toString('base64'), enc.toString('base64'), cipher.getAuthTag().toString('base64')].join(':');
+}
+
+describe('token-crypto', () => {
+    const originalEnv = process.env;
+
+    beforeEach(() => {
+        process.env = { ...originalEnv };
+        delete process.env.TOKEN_CRYPTO_KEY;
+        delete process.env.TOKEN_CRYPTO_ACTIVE_KEY_ID;
+        process.env.TOKEN_CRYPTO_KEYS = `v2:${KEY_V2},v1:${KEY_V1}`;
+    });
+
+    afterAll(() => {
+        process.env = originalEnv;
+    });
+
+    it('should write with the first key by default and tag the ciphertext with its id', () => {
+        const payload = encryptToken('access-token');
+
+        expect(getCiphertextKeyId(payload)).toBe('v2');
+        expect(decryptToken(payload)).toBe('access-token');
+    });
+
+    it('should write with TOKEN_CRYPTO_ACTIVE_KEY_ID and still read values from other keys', () => {
+        const v2Payload = encryptToken('old-token');
+        process.env.TOKEN_CRYPTO_ACTIVE_KEY_ID = 'v1';
+
+        const v1Payload = encryptToken('new-token');
+
+        expect(getCiphertextKeyId(v1Payload)).toBe('v1');
+        expect(decryptToken(v1Payload)).toBe('new-token');
+        expect(decryptToken(v2Payload)).toBe('old-token');
+    });
+
+    it('should decrypt unversioned values with whichever key wrote them', () => {
+        expect(decryptToken(legacyEncrypt('legacy-token', KEY_V1))).toBe('legacy-token');
+    });
+
+    it('should accept the legacy TOKEN_CRYPTO_KEY as key id "default"', () => {
+        delete process.env.TOKEN_CRYPTO_KEYS;
+        process.env.TOKEN_CRYPTO_KEY = KEY_V1;
+
+        expect(getActiveKeyId()).toBe('default');
+        expect(decryptToken(legacyEncrypt('legacy-token', KEY_V1))).toBe('legacy-token');
+    });
+
+    it('should fail for a key id that is no longer configured', () => {
+        const payload = encryptToken('access-token');
+        process.env.TOKEN_CRYPTO_KEYS = `v1:${KEY_V1}`;
+
+        expect(() => decryptToken(payload)).toThrow("Token was encrypted with unknown key 'v2'");
+    });
+
+    it('should reject an active key id that is not configured', () => {
+        process.env.TOKEN_CRYPTO_ACTIVE_KEY_ID = 'v3';
+
+        expect(() => encryptToken('access-token')).toThrow("TOKEN_CRYPTO_ACTIVE_KEY_ID 'v3' is not a configured key");
+    });
+
+    describe('reencryptToken', () => {
+        it('should move values to the active key and skip ones already on it', () => {
+            const legacy = legacyEncrypt('legacy-token', KEY_V1);
+            const current = encryptToken('current-token');
+
+            const migrated = reencryptToken(legacy);
+
+            expect(getCiphertextKeyId(migrated)).toBe('v2');
+            expect(decryptToken(migrated)).toBe('legacy-token');
+            expect(reencryptToken(current)).toBeNull();
+        });
+    });
+
+    describe('reencryptTokens', () => {
+        const buildPrisma = (rows: any[]) => ({
+            oAuthCredentials: {
+                findMany: jest.fn(async ({ cursor, take }) => {
+                    const start = cursor ? rows.findIndex(r => r.oauthCredentialId === cursor.oauthCredentialId_recSeq.oauthCredentialId) + 1 : 0;
+                    return rows.slice(start, start + take);
+                }),
+                update: jest.fn().mockResolvedValue({}),
+            },
+        });
+
+        it('should rewrite only rows that are not on the active key', async () => {
+            process.env.TOKEN_CRYPTO_ACTIVE_KEY_ID = 'v1';
+            const onV2 = encryptToken('a');
+            process.env.TOKEN_CRYPTO_ACTIVE_KEY_ID = 'v2';
+            const prisma = buildPrisma([
+                { oauthCredentialId: 'c1', recSeq: 0, accessTokenEnc: onV2, refreshTokenEnc: null },
+                { oauthCredentialId: 'c2', recSeq: 0, accessTokenEnc: encryptToken('b'), refreshTokenEnc: legacyEncrypt('r', KEY_V1) },
+                { oauthCredentialId: 'c3', recSeq: 0, accessTokenEnc: encryptToken('c'), refreshTokenEnc: encryptToken('r') },
+            ]);
+
+            const summary = await reencryptTokens(prisma as any, { batchSize: 2 });
+
+            expect(summary).toEqual({ scanned: 3, updated: 2, failed: 0 });
+            expect(prisma.oAuthCredentials.update).toHaveBeenCalledTimes(2);
+            const [first, second] = prisma.oAuthCredentials.update.mock.calls.map(([args]) => args);
+            expect(getCiphertextKeyId(first.data.accessTokenEnc)).toBe('v2');
+            expect(second.data).toEqual({ refreshTokenEnc: expect.stringMatching(/^v2:/) });
+        });
+
+        it('should count rows it cannot decrypt and keep going', async () => {
+            const prisma = buildPrisma([
+                { oauthCredentialId: 'c1', recSeq: 0, accessTokenEnc: legacyEncrypt('a', crypto.randomBytes(32).toString('hex')), refreshTokenEnc: null },
+                { oauthCredentialId: 'c2', recSeq: 0, accessTokenEnc: legacyEncrypt('b', KEY_V1), refreshTokenEnc: null },
+            ]);
+            jest.spyOn(console, 'error').mockImplementation();
+
+            const summary = await reencryptTokens(prisma as any, { dryRun: true });
+
+            expect(summary).toEqual({ scanned: 2, updated: 1, failed: 1 });
+            expect(prisma.oAuthCredentials.update).not.toHaveBeenCalled();
+        });
+    });
+});
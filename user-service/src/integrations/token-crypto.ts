@@ -0,0 +1,109 @@
+import * as crypto from 'crypto';
+
+/**
+ * AES-256-GCM helpers for encrypting OAuth tokens at rest, with versioned keys.
+ *
+ * Keys are configured as TOKEN_CRYPTO_KEYS="v2:<key>,v1:<key>" and new writes use
+ * TOKEN_CRYPTO_ACTIVE_KEY_ID (default: the first key listed). The single TOKEN_CRYPTO_KEY
+ * is still accepted and registered as key id "default".
+ *
+ * Ciphertext format is `keyId:iv:ciphertext:tag` (base64 parts). Values written before key ids
+ * existed (`iv:ciphertext:tag`) are decrypted by trying each configured key; the GCM tag tells
+ * us which one is right.
+ */
+
+const LEGACY_KEY_ID = 'default';
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// Accept hex or base64; fallback to utf8 padded/truncated to 32 bytes
+function toKey(k: string): Buffer {
+    if (/^[0-9a-fA-F]{64}$/.test(k)) return Buffer.from(k, 'hex');
+    const b = Buffer.from(k, k.length % 4 === 0 ? 'base64' : 'utf8');
+    return b.length >= 32 ? b.subarray(0, 32) : Buffer.concat([b, Buffer.alloc(32 - b.length, 0)]);
+}
+
+function getKeys(): Map<string, Buffer> {
+    const keys = new Map<string, Buffer>();
+    for (const entry of (process.env.TOKEN_CRYPTO_KEYS || '').split(',').map(e => e.trim()).filter(Boolean)) {
+        const separator = entry.indexOf(':');
+        const keyId = entry.slice(0, separator);
+        if (separator <= 0 || !KEY_ID_PATTERN.test(keyId)) {
+            throw new Error('TOKEN_CRYPTO_KEYS entries must look like <keyId>:<key>');
+        }
+        keys.set(keyId, toKey(entry.slice(separator + 1)));
+    }
+
+    const legacy = process.env.TOKEN_CRYPTO_KEY;
+    if (legacy && !keys.has(LEGACY_KEY_ID)) {
+        keys.set(LEGACY_KEY_ID, toKey(legacy));
+    }
+
+    if (keys.size === 0) throw new Error('TOKEN_CRYPTO_KEYS (or TOKEN_CRYPTO_KEY) is required for PrismaTokenStore');
+    return keys;
+}
+
+export function getActiveKeyId(): string {
+    const keys = getKeys();
+    const active = process.env.TOKEN_CRYPTO_ACTIVE_KEY_ID || keys.keys().next().value;
+    if (!keys.has(active)) throw new Error(`TOKEN_CRYPTO_ACTIVE_KEY_ID '${active}' is not a configured key`);
+    return active;
+}
+
+/**
+ * Key id a value was encrypted with, or null for values written before key ids existed.
+ */
+export function getCiphertextKeyId(payload: string): string | null {
+    const parts = payload.split(':');
+    return parts.length === 4 ? parts[0] : null;
+}
+
+export function encryptToken(plain: string): string {
+    const keyId = getActiveKeyId();
+    const key = getKeys().get(keyId);
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+    const enc = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+    return [keyId, iv.toString('base64'), enc.toString('base64'), tag.toString('base64')].join(':');
+}
+
+export function decryptToken(payload: string): string {
+    const parts = payload.split(':');
+    const keys = getKeys();
+
+    if (parts.length === 4) {
+        const [keyId, ...rest] = parts;
+        const key = keys.get(keyId);
+        if (!key) throw new Error(`Token was encrypted with unknown key '${keyId}'`);
+        return decryptWith(key, rest);
+    }
+
+    // Unversioned value: the auth tag only verifies with the key that wrote it
+    for (const key of keys.values()) {
+        try {
+            return decryptWith(key, parts);
+        } catch {
+            // try the next key
+        }
+    }
+    throw new Error('Token could not be decrypted with any configured key');
+}
+
+function decryptWith(key: Buffer, [ivB64, encB64, tagB64]: string[]): string {
+    const iv = Buffer.from(ivB64, 'base64');
+    const enc = Buffer.from(encB64, 'base64');
+    const tag = Buffer.from(tagB64, 'base64');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAuthTag(tag);
+    const dec = Buffer.concat([decipher.update(enc), decipher.final()]);
+    return dec.toString('utf8');
+}
+
+/**
+ * Decrypt with whichever key wrote the value and encrypt again with the active key.
+ * Returns null when the value already uses the active key.
+ */
+export function reencryptToken(payload: string): string | null {
+    if (getCiphertextKeyId(payload) === getActiveKeyId()) return null;
+    return encryptToken(decryptToken(payload));
+}
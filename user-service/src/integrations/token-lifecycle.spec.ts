@@ -0,0 +1,127 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '@traeta/prisma';
+import { TokenLifecycleService } from './token-lifecycle';
+import { IntegrationsService } from './integrations.service';
+import { IntegrationPersistence } from './persistence';
+import { TokenStore } from './token-store';
+import { IntegrationProviderName } from './types';
+import { ProviderAPIException, RefreshTokenException } from './exceptions';
+
+describe('TokenLifecycleService', () => {
+    let service: TokenLifecycleService;
+    let mockPrismaService: any;
+    let mockPersistence: any;
+    let mockTokenStore: any;
+    let providers: Record<string, any>;
+
+    const tokens = { accessToken: 'old', refreshToken: 'refresh', expiresAt: 1 };
+
+    beforeEach(async () => {
+        mockPrismaService = {
+            oAuthCredentials: { findMany: jest.fn().mockResolvedValue([]) },
+            userIntegrations: { findMany: jest.fn().mockResolvedValue([]) },
+        };
+        mockPersistence = { markReauthRequired: jest.fn().mockResolvedValue(true) };
+        mockTokenStore = { get: jest.fn().mockResolvedValue(tokens) };
+        providers = {
+            spotify: { name: 'spotify', refreshAccessToken: jest.fn().mockResolvedValue({ accessToken: 'new' }) },
+            strava: { name: 'strava', refreshAccessToken: jest.fn().mockResolvedValue({ accessToken: 'new' }) },
+            plaid: { name: 'plaid' },
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                TokenLifecycleService,
+                { provide: PrismaService, useValue: mockPrismaService },
+                { provide: IntegrationsService, useValue: { getProviderOrThrow: jest.fn((name: string) => providers[name]) } },
+                { provide: IntegrationPersistence, useValue: mockPersistence },
+                { provide: TokenStore, useValue: mockTokenStore },
+                { provide: ConfigService, useValue: { get: jest.fn() } },
+            ],
+        }).compile();
+
+        service = module.get<TokenLifecycleService>(TokenLifecycleService);
+
+        jest.spyOn(Logger.prototype, 'log').mockImplementation();
+        jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+    });
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    describe('findExpiring', () => {
+        it('should return expiring credentials of connected links only', async () => {
+            const now = Date.now();
+            mockPrismaService.oAuthCredentials.findMany.mockResolvedValue([
+                { userId: 'user-1', integrationId: 'int-spotify', userIntegrationId: 'link-1', expiresAt: new Date(now), integration: { name: 'spotify' } },
+                { userId: 'user-2', integrationId: 'int-spotify', userIntegrationId: 'link-2', expiresAt: new Date(now), integration: { name: 'spotify' } },
+            ]);
+            mockPrismaService.userIntegrations.findMany.mockResolvedValue([
+                { userIntegrationId: 'link-1' },
+            ]);
+
+            const expiring = await service.findExpiring(now);
+
+            expect(mockPrismaService.oAuthCredentials.findMany).toHaveBeenCalledWith(expect.objectContaining({
+                where: expect.objectContaining({ expiresAt: { lte: new Date(now + 600 * 1000) } }),
+            }));
+            expect(expiring).toEqual([{ userId: 'user-1', connectionId: 'link-1', provider: 'spotify', expiresAt: new Date(now) }]);
+        });
+    });
+
+    describe('refresh', () => {
+        it('should refresh through the provider strategy', async () => {
+            await expect(service.refresh(IntegrationProviderName.SPOTIFY, 'user-1')).resolves.toBe('refreshed');
+
+            expect(providers.spotify.refreshAccessToken).toHaveBeenCalledWith('user-1', tokens);
+            expect(mockPersistence.markReauthRequired).not.toHaveBeenCalled();
+        });
+
+        it('should require reauth when the refresh token is rejected', async () => {
+            providers.strava.refreshAccessToken.mockRejectedValue(new RefreshTokenException('strava'));
+
+            await expect(service.refresh(IntegrationProviderName.STRAVA, 'user-1')).resolves.toBe('reauth_required');
+
+            expect(mockPersistence.markReauthRequired).toHaveBeenCalledWith('user-1', 'strava');
+        });
+
+        it('should report each attempt to refresh listeners', async () => {
+            const listener = jest.fn();
+            const unsubscribe = service.onRefresh(listener);
+
+            await service.refresh(IntegrationProviderName.SPOTIFY, 'user-1');
+            unsubscribe();
+            await service.refresh(IntegrationProviderName.SPOTIFY, 'user-1');
+
+            expect(listener).toHaveBeenCalledTimes(1);
+            expect(listener).toHaveBeenCalledWith({ provider: IntegrationProviderName.SPOTIFY, userId: 'user-1', outcome: 'refreshed' });
+        });
+
+        it('should leave the link connected on transient failures', async () => {
+            providers.strava.refreshAccessToken.mockRejectedValue(new ProviderAPIException('strava', 'Token refresh', 'HTTP 503'));
+
+            await expect(service.refresh(IntegrationProviderName.STRAVA, 'user-1')).resolves.toBe('failed');
+
+            expect(mockPersistence.markReauthRequired).not.toHaveBeenCalled();
+        });
+
+        it('should skip providers without a refresh strategy', async () => {
+            await expect(service.refresh(IntegrationProviderName.PLAID, 'user-1')).resolves.toBe('skipped');
+        });
+    });
+
+    describe('tick', () => {
+        it('should summarize refresh outcomes', async () => {
+            jest.spyOn(service, 'findExpiring').mockResolvedValue([
+                { userId: 'user-1', connectionId: 'link-1', provider: IntegrationProviderName.SPOTIFY, expiresAt: new Date() },
+                { userId: 'user-2', connectionId: 'link-2', provider: IntegrationProviderName.STRAVA, expiresAt: new Date() },
+            ]);
+            providers.strava.refreshAccessToken.mockRejectedValue(new RefreshTokenException('strava'));
+
+            await expect(service.tick()).resolves.toEqual({ refreshed: 1, reauth_required: 1, failed: 0, skipped: 0 });
+        });
+    });
+});
@@ -0,0 +1,188 @@
+import { Injectable, Logger, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from '@traeta/prisma';
+import { IntegrationsService } from './integrations.service';
+import { IntegrationPersistence } from './persistence';
+import { TokenStore } from './token-store';
+import { IntegrationProviderName, integrationNameForProvider, providerFromIntegrationName } from './types';
+import { InvalidTokenException, RefreshTokenException } from './exceptions';
+import { runInConnection } from './connection-scope';
+import { ACTIVE_CONDITION, REC_SEQ, STATUS } from '../../constants';
+
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+
+export type RefreshOutcome = 'refreshed' | 'reauth_required' | 'failed' | 'skipped';
+
+// One refresh attempt, reported to onRefresh listeners
+export type RefreshEvent = {
+    provider: IntegrationProviderName;
+    userId: string;
+    outcome: RefreshOutcome;
+};
+
+/**
+ * Refreshes OAuth access tokens ahead of expiry.
+ *
+ * Every tick it scans OAuthCredentials for tokens that expire within the lead time and runs the
+ * provider's refreshAccessToken. A permanent failure (revoked grant, missing refresh token) moves
+ * the user's integration to REAUTH_REQUIRED so the scheduler stops syncing it and the status
+ * endpoints can prompt the user to reconnect. Transient failures are retried on the next tick.
+ */
+@Injectable()
+export class TokenLifecycleService implements OnModuleInit, OnModuleDestroy {
+    private readonly logger = new Logger(TokenLifecycleService.name);
+    private timer: NodeJS.Timeout | null = null;
+    private ticking = false;
+    private readonly refreshListeners = new Set<(event: RefreshEvent) => void>();
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly integrations: IntegrationsService,
+        private readonly persistence: IntegrationPersistence,
+        private readonly tokens: TokenStore,
+        private readonly configService: ConfigService,
+    ) { }
+
+    onModuleInit() {
+        if (this.configService.get<string>('TOKEN_REFRESH_ENABLED') === 'false') {
+            this.logger.log('Proactive token refresh is disabled');
+            return;
+        }
+
+        const tickMs = this.getNumber('TOKEN_REFRESH_TICK_MS', 5 * MINUTE_MS);
+        this.timer = setInterval(() => void this.tick(), tickMs);
+        this.timer.unref();
+        this.logger.log(`Proactive token refresh started (tick every ${tickMs}ms)`);
+    }
+
+    onModuleDestroy() {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = null;
+        }
+    }
+
+    /**
+     * Subscribe to refresh attempts and their outcome. Returns a function that removes the listener.
+     */
+    onRefresh(listener: (event: RefreshEvent) => void): () => void {
+        this.refreshListeners.add(listener);
+        return () => this.refreshListeners.delete(listener);
+    }
+
+    private emitRefresh(event: RefreshEvent) {
+        for (const listener of this.refreshListeners) {
+            try {
+                listener(event);
+            } catch (error) {
+                this.logger.warn(`Refresh listener failed: ${error.message}`);
+            }
+        }
+    }
+
+    private getNumber(key: string, fallback: number): number {
+        const value = Number(this.configService.get<string>(key));
+        return value > 0 ? value : fallback;
+    }
+
+    /**
+     * Credentials of CONNECTED links that expire within TOKEN_REFRESH_LEAD_SECONDS, soonest first.
+     */
+    async findExpiring(now: number = Date.now()) {
+        const leadMs = this.getNumber('TOKEN_REFRESH_LEAD_SECONDS', 600) * SECOND_MS;
+        const credentials = await this.prisma.oAuthCredentials.findMany({
+            where: {
+                expiresAt: { lte: new Date(now + leadMs) },
+                refreshTokenEnc: { not: null },
+                ...ACTIVE_CONDITION,
+            },
+            select: { userId: true, integrationId: true, userIntegrationId: true, expiresAt: true, integration: { select: { name: true } } },
+            orderBy: { expiresAt: 'asc' },
+        });
+        if (credentials.length === 0) return [];
+
+        // Links that need reauth or were disconnected keep their credentials; skip them
+        const connected = await this.prisma.userIntegrations.findMany({
+            where: {
+                status: STATUS.CONNECTED,
+                userRecSeq: REC_SEQ.DEFAULT_RECORD,
+                userIntegrationId: { in: credentials.map(row => row.userIntegrationId).filter(Boolean) },
+                ...ACTIVE_CONDITION,
+            },
+            select: { userIntegrationId: true },
+        });
+        const connectedIds = new Set(connected.map(link => link.userIntegrationId));
+
+        return credentials
+            .filter(row => connectedIds.has(row.userIntegrationId))
+            .slice(0, this.getNumber('TOKEN_REFRESH_BATCH_SIZE', 25))
+            .map(row => ({
+                userId: row.userId,
+                connectionId: row.userIntegrationId,
+                provider: providerFromIntegrationName(row.integration.name),
+                expiresAt: row.expiresAt,
+            }));
+    }
+
+    async tick(): Promise<Record<RefreshOutcome, number>> {
+        const summary: Record<RefreshOutcome, number> = { refreshed: 0, reauth_required: 0, failed: 0, skipped: 0 };
+        if (this.ticking) return summary; // previous tick still running
+        this.ticking = true;
+
+        try {
+            for (const { userId, provider, connectionId } of await this.findExpiring()) {
+                summary[await this.refresh(provider, userId, connectionId)]++;
+            }
+
+            if (summary.refreshed > 0 || summary.reauth_required > 0 || summary.failed > 0) {
+                this.logger.log(
+                    `Token refresh tick: ${summary.refreshed} refreshed, ${summary.reauth_required} need reauth, ${summary.failed} failed`,
+                );
+            }
+        } catch (error) {
+            this.logger.error('Token refresh tick failed:', error);
+        } finally {
+            this.ticking = false;
+        }
+
+        return summary;
+    }
+
+    /**
+     * Refresh one user's tokens for a provider through its refresh strategy, for the given
+     * connection or the user's default one.
+     */
+    async refresh(provider: IntegrationProviderName, userId: string, connectionId?: string): Promise<RefreshOutcome> {
+        const outcome = await runInConnection(connectionId, () => this.refreshInScope(provider, userId));
+        this.emitRefresh({ provider, userId, outcome });
+        return outcome;
+    }
+
+    private async refreshInScope(provider: IntegrationProviderName, userId: string): Promise<RefreshOutcome> {
+        const instance = this.integrations.getProviderOrThrow(provider);
+        if (!instance.refreshAccessToken) {
+            return 'skipped';
+        }
+
+        const existing = await this.tokens.get(userId, provider);
+        if (!existing) {
+            return 'skipped';
+        }
+
+        try {
+            await instance.refreshAccessToken(userId, existing);
+            this.logger.log(`Refreshed ${provider} token for userId: ${userId}`);
+            return 'refreshed';
+        } catch (error) {
+            if (error instanceof RefreshTokenException || error instanceof InvalidTokenException) {
+                await this.persistence.markReauthRequired(userId, integrationNameForProvider(provider));
+                this.logger.warn(`${provider} token for userId: ${userId} can no longer be refreshed; reauth required`);
+                return 'reauth_required';
+            }
+
+            this.logger.warn(`Token refresh for ${provider}, userId: ${userId} failed, will retry: ${error.message}`);
+            return 'failed';
+        }
+    }
+}
@@ -1,7 +1,8 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '@traeta/prisma';
 import { ACTIVE_CONDITION, REC_SEQ } from '../../constants';
-import * as crypto from 'crypto';
+import { decryptToken, encryptToken } from './token-crypto';
+import { connectionWhere, getConnectionId } from './connection-scope';
 
 export type OAuthTokens = {
     accessToken: string;
@@ -11,10 +12,22 @@ export type OAuthTokens = {
     providerUserId?: string; // e.g., Strava athlete id
 };
 
+// Owner of a provider account, as found from the provider's account id
+export type TokenOwner = {
+    userId: string;
+    connectionId: string | null;
+};
+
+/**
+ * Tokens are stored per connection: inside runInConnection the current connection's tokens are
+ * read and written, otherwise the user's first connection for the provider is used.
+ */
 export abstract class TokenStore {
     abstract get(userId: string, provider: string): Promise<OAuthTokens | null>;
     abstract set(userId: string, provider: string, tokens: OAuthTokens): Promise<void>;
     abstract delete(userId: string, provider: string): Promise<void>;
+    // Reverse lookup from the provider's account id (e.g. Plaid item_id, Strava athlete id), used by webhooks
+    abstract findOwner(provider: string, providerUserId: string): Promise<TokenOwner | null>;
 }
 
 // NOTE: In-memory only for development. Replace with a secure external store in production.
@@ -23,7 +36,7 @@ export class InMemoryTokenStore extends TokenStore {
     private store = new Map<string, OAuthTokens>();
 
     private key(userId: string, provider: string) {
-        return `${provider}:${userId}`;
+        return `${provider}:${userId}:${getConnectionId() ?? ''}`;
     }
 
     async get(userId: string, provider: string): Promise<OAuthTokens | null> {
@@ -37,40 +50,19 @@ export class InMemoryTokenStore extends TokenStore {
     async delete(userId: string, provider: string): Promise<void> {
         this.store.delete(this.key(userId, provider));
     }
-}
-
-// AES-256-GCM helpers for encrypting tokens at rest
-function getKey(): Buffer {
-    const k = process.env.TOKEN_CRYPTO_KEY || '';
-    if (!k) throw new Error('TOKEN_CRYPTO_KEY is required for PrismaTokenStore');
-    // Accept hex or base64; fallback to utf8 padded/truncated to 32 bytes
-    if (/^[0-9a-fA-F]{64}$/.test(k)) return Buffer.from(k, 'hex');
-    const b = Buffer.from(k, k.length % 4 === 0 ? 'base64' : 'utf8');
-    return b.length >= 32 ? b.subarray(0, 32) : Buffer.concat([b, Buffer.alloc(32 - b.length, 0)]);
-}
-
-function encrypt(plain: string): string {
-    const key = getKey();
-    const iv = crypto.randomBytes(12);
-    const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
-    const enc = Buffer.concat([cipher.update(plain, 'utf8'), cipher.final()]);
-    const tag = cipher.getAuthTag();
-    return [iv.toString('base64'), enc.toString('base64'), tag.toString('base64')].join(':');
-}
 
-function decrypt(payload: string): string {
-    const [ivB64, encB64, tagB64] = payload.split(':');
-    const key = getKey();
-    const iv = Buffer.from(ivB64, 'base64');
-    const enc = Buffer.from(encB64, 'base64');
-    const tag = Buffer.from(tagB64, 'base64');
-    const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
-    decipher.setAuthTag(tag);
-    const dec = Buffer.concat([decipher.update(enc), decipher.final()]);
-    return dec.toString('utf8');
+    async findOwner(provider: string, providerUserId: string): Promise<TokenOwner | null> {
+        for (const [key, tokens] of this.store) {
+            if (key.startsWith(`${provider}:`) && tokens.providerUserId === providerUserId) {
+                const [, userId, connectionId] = key.split(':');
+                return { userId, connectionId: connectionId || null };
+            }
+        }
+        return null;
+    }
 }
 
-// Prisma-backed encrypted token store
+// Prisma-backed encrypted token store (see token-crypto.ts for key rotation)
 @Injectable()
 export class PrismaTokenStore extends TokenStore {
     constructor(private readonly prisma: PrismaService) {
@@ -83,14 +75,19 @@ export class PrismaTokenStore extends TokenStore {
         return { integrationId: integ.integrationId, integrationRecSeq: integ.recSeq };
     }
 
-    async get(userId: string, provider: string): Promise<OAuthTokens | null> {
+    private async findRow(userId: string, provider: string) {
         const { integrationId, integrationRecSeq } = await this.getIntegrationId(provider);
-        const row = await this.prisma.oAuthCredentials.findFirst({
-            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId, integrationRecSeq, ...ACTIVE_CONDITION },
+        return this.prisma.oAuthCredentials.findFirst({
+            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId, integrationRecSeq, ...connectionWhere(), ...ACTIVE_CONDITION },
+            orderBy: { createdOn: 'asc' },
         });
+    }
+
+    async get(userId: string, provider: string): Promise<OAuthTokens | null> {
+        const row = await this.findRow(userId, provider);
         if (!row) return null;
-        const accessToken = decrypt(row.accessTokenEnc);
-        const refreshToken = row.refreshTokenEnc ? decrypt(row.refreshTokenEnc) : undefined;
+        const accessToken = decryptToken(row.accessTokenEnc);
+        const refreshToken = row.refreshTokenEnc ? decryptToken(row.refreshTokenEnc) : undefined;
         const expiresAt = row.expiresAt ? Math.floor(new Date(row.expiresAt).getTime() / 1000) : undefined;
         return {
             accessToken,
@@ -103,13 +100,11 @@ export class PrismaTokenStore extends TokenStore {
 
     async set(userId: string, provider: string, tokens: OAuthTokens): Promise<void> {
         const { integrationId, integrationRecSeq } = await this.getIntegrationId(provider);
-        const accessTokenEnc = encrypt(tokens.accessToken);
-        const refreshTokenEnc = tokens.refreshToken ? encrypt(tokens.refreshToken) : null;
+        const accessTokenEnc = encryptToken(tokens.accessToken);
+        const refreshTokenEnc = tokens.refreshToken ? encryptToken(tokens.refreshToken) : null;
         const expiresAt = tokens.expiresAt ? new Date(tokens.expiresAt * 1000) : null;
 
-        const existing = await this.prisma.oAuthCredentials.findFirst({
-            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId, integrationRecSeq, ...ACTIVE_CONDITION },
-        });
+        const existing = await this.findRow(userId, provider);
 
         if (existing) {
             await this.prisma.oAuthCredentials.update({
@@ -129,6 +124,8 @@ export class PrismaTokenStore extends TokenStore {
                     userRecSeq: REC_SEQ.DEFAULT_RECORD,
                     integrationId,
                     integrationRecSeq,
+                    userIntegrationId: getConnectionId() ?? null,
+                    userIntegrationRecSeq: REC_SEQ.DEFAULT_RECORD,
                     accessTokenEnc,
                     refreshTokenEnc,
                     expiresAt,
@@ -140,10 +137,7 @@ export class PrismaTokenStore extends TokenStore {
     }
 
     async delete(userId: string, provider: string): Promise<void> {
-        const { integrationId, integrationRecSeq } = await this.getIntegrationId(provider);
-        const existing = await this.prisma.oAuthCredentials.findFirst({
-            where: { userId, userRecSeq: REC_SEQ.DEFAULT_RECORD, integrationId, integrationRecSeq, ...ACTIVE_CONDITION },
-        });
+        const existing = await this.findRow(userId, provider);
 
         if (existing) {
             await this.prisma.oAuthCredentials.delete({
@@ -156,4 +150,13 @@ export class PrismaTokenStore extends TokenStore {
             });
         }
     }
-}
\ No newline at end of file
+
+    async findOwner(provider: string, providerUserId: string): Promise<TokenOwner | null> {
+        const { integrationId, integrationRecSeq } = await this.getIntegrationId(provider);
+        const row = await this.prisma.oAuthCredentials.findFirst({
+            where: { integrationId, integrationRecSeq, providerUserId, ...ACTIVE_CONDITION },
+            select: { userId: true, userIntegrationId: true },
+        });
+        return row ? { userId: row.userId, connectionId: row.userIntegrationId } : null;
+    }
+}
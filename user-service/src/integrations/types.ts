@@ -1,4 +1,6 @@
+import { DiscoveryService } from '@nestjs/core';
 import { Request } from 'express';
+import type { OAuthTokens } from './token-store';
 
 export enum IntegrationProviderName {
     PLAID = 'plaid',
@@ -12,6 +14,69 @@ export enum IntegrationProviderName {
     GOODREADS = 'goodreads',
 }
 
+// Integrations rows whose name differs from the provider enum value
+export const PROVIDER_BY_INTEGRATION_NAME: Record<string, IntegrationProviderName> = {
+    web_scrapping_goodreads: IntegrationProviderName.GOODREADS,
+};
+
+// attributes.external.provider written by providers whose items use another name
+export const EXTERNAL_PROVIDER_NAMES: Partial<Record<IntegrationProviderName, string>> = {
+    [IntegrationProviderName.EMAIL_SCRAPER]: 'gmail',
+};
+
+// What disconnect does with the items a connection imported
+export enum DisconnectDataHandling {
+    KEEP = 'keep',
+    PURGE = 'purge', // soft-delete
+    ARCHIVE = 'archive', // hide from lists until the connection is reconnected
+}
+
+export function providerFromIntegrationName(name: string): IntegrationProviderName {
+    return PROVIDER_BY_INTEGRATION_NAME[name] ?? (name as IntegrationProviderName);
+}
+
+export function integrationNameForProvider(provider: IntegrationProviderName): string {
+    const entry = Object.entries(PROVIDER_BY_INTEGRATION_NAME).find(([, value]) => value === provider);
+    return entry ? entry[0] : provider;
+}
+
+// How the user authorizes a provider
+export enum IntegrationAuthType {
+    OAUTH = 'oauth', // redirect to the provider's consent screen
+    LINK_TOKEN = 'link-token', // open the provider's SDK (e.g. Plaid Link) with the returned linkToken
+    CREDENTIALS = 'credentials', // collect a username, feed URL or file in the app
+    DEVICE_UPLOAD = 'device-upload', // the app reads data on the device and uploads it
+}
+
+// A list a provider writes to and the categories it fills there
+export type ProviderListDefaults = {
+    list: string;
+    categories: string[];
+};
+
+// What a provider supports, so clients and the service can handle providers generically
+export type IntegrationCapabilities = {
+    authType: IntegrationAuthType;
+    // Consent screen for OAuth providers
+    authorizationUrl?: string;
+    // Where the app posts device data for DEVICE_UPLOAD providers
+    uploadEndpoint?: string;
+    // Provider pushes changes to POST /integrations/:provider/webhook
+    webhooks: boolean;
+    // Accepts an export file (e.g. a Goodreads CSV)
+    fileImport: boolean;
+    disconnect: boolean;
+    // Disconnect also revokes our access at the provider instead of only dropping stored tokens
+    revoke: boolean;
+    // Users commonly link several accounts (bank Items, Strava athletes, mailboxes, ...). Connecting
+    // without a connection id then adds a connection instead of re-authorizing the first.
+    multipleConnections: boolean;
+    // Kinds of data a sync imports
+    dataTypes: string[];
+    // Lists and categories items land in; the first entry is the provider's primary list
+    lists: ProviderListDefaults[];
+};
+
 export type ConnectResponse = {
     // Provider name
     provider: string;
@@ -21,6 +86,8 @@ export type ConnectResponse = {
     linkToken?: string;
     // Opaque state to correlate callbacks
     state?: string;
+    // Connection (UserIntegrations row) being authorized; pass it to sync, status and disconnect
+    connectionId?: string;
 };
 
 export type CallbackPayload = {
@@ -30,8 +97,35 @@ export type CallbackPayload = {
     [key: string]: any;
 };
 
+export type WebhookRequest = {
+    headers: Record<string, string | string[] | undefined>;
+    query: Record<string, any>;
+    body: any;
+    // Unparsed body, needed for signature checks over the exact bytes
+    rawBody?: Buffer;
+};
+
+export type WebhookEvent = {
+    eventId: string;
+    provider: IntegrationProviderName;
+    eventType: string;
+    payload: any;
+};
+
+export type WebhookOutcome = {
+    // Internal user the event belongs to, if it could be resolved
+    userId?: string;
+    // False when the event was acknowledged but needs no action
+    handled: boolean;
+    details?: any;
+};
+
+// Class decorator that registers a provider with IntegrationProviderRegistry, e.g. @IntegrationProvider(IntegrationProviderName.STRAVA)
+export const IntegrationProvider = DiscoveryService.createDecorator<IntegrationProviderName>();
+
 export interface IntegrationProvider {
     readonly name: IntegrationProviderName;
+    readonly capabilities: IntegrationCapabilities;
     // Initiate connect for a user. Returns redirectUrl or linkToken.
     createConnection(userId: string): Promise<ConnectResponse>;
     // Handle provider callback (OAuth, link, webhooks, etc.)
@@ -42,4 +136,16 @@ export interface IntegrationProvider {
     status(userId: string): Promise<{ connected: boolean; lastSyncedAt?: Date | null; details?: any }>;
     // Disconnect the integration for a user
     disconnect?(userId: string): Promise<void>;
+    // Accept data uploaded from the user's device (DEVICE_UPLOAD providers)
+    handleDataUpload?(userId: string, uploadToken: string, data: any): Promise<any>;
+    // Exchange the stored refresh token for new tokens and save them. Throws RefreshTokenException when
+    // the provider rejects the grant (or InvalidTokenException without a refresh token) and the user has
+    // to reconnect; other errors are rethrown unchanged and treated as transient.
+    refreshAccessToken?(userId: string, tokens: OAuthTokens): Promise<OAuthTokens>;
+    // Check a webhook's signature/JWT/token and return its event type. Throws WebhookVerificationException.
+    verifyWebhook?(request: WebhookRequest): Promise<string>;
+    // Answer a subscription handshake (e.g. Strava's hub.challenge)
+    handleWebhookChallenge?(query: Record<string, any>): Promise<any>;
+    // Act on a verified event, typically by enqueueing a sync for the affected connection
+    handleWebhook?(event: WebhookEvent, enqueueSync: (userId: string, connectionId?: string) => Promise<unknown>): Promise<WebhookOutcome>;
 }
\ No newline at end of file
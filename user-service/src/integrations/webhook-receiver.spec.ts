@@ -0,0 +1,180 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { Logger } from '@nestjs/common';
+import { PrismaService } from '@traeta/prisma';
+import { WebhookReceiver } from './webhook-receiver';
+import { IntegrationsService } from './integrations.service';
+import { SyncJobQueue } from './sync-job-queue';
+import { IntegrationSettingsStore } from './sync-settings';
+import { IntegrationProviderName } from './types';
+import {
+    WebhookEventNotFoundException,
+    WebhookNotSupportedException,
+    WebhookVerificationException,
+} from './exceptions';
+
+describe('WebhookReceiver', () => {
+    let receiver: WebhookReceiver;
+    let mockPrismaService: any;
+    let mockProvider: any;
+    let mockIntegrationsService: any;
+    let mockSyncJobQueue: any;
+    let mockSettingsStore: any;
+
+    const request = {
+        headers: { 'plaid-verification': 'jwt', authorization: 'Bearer secret' },
+        query: {},
+        body: { webhook_type: 'TRANSACTIONS', webhook_code: 'SYNC_UPDATES_AVAILABLE', item_id: 'item-1' },
+        rawBody: Buffer.from('{}'),
+    };
+
+    beforeEach(async () => {
+        mockPrismaService = {
+            webhookEvents: {
+                create: jest.fn().mockResolvedValue({ webhookEventId: 'event-1' }),
+                update: jest.fn().mockResolvedValue({}),
+                findFirst: jest.fn(),
+            },
+        };
+
+        mockProvider = {
+            name: IntegrationProviderName.PLAID,
+            verifyWebhook: jest.fn().mockResolvedValue('TRANSACTIONS.SYNC_UPDATES_AVAILABLE'),
+            handleWebhook: jest.fn(async (event, enqueueSync) => {
+                await enqueueSync('user-1', 'link-1');
+                return { userId: 'user-1', handled: true };
+            }),
+            handleWebhookChallenge: jest.fn().mockResolvedValue({ 'hub.challenge': 'abc' }),
+        };
+
+        mockIntegrationsService = {
+            getProviderOrThrow: jest.fn().mockReturnValue(mockProvider),
+        };
+
+        mockSyncJobQueue = {
+            enqueue: jest.fn().mockResolvedValue({ jobId: 'job-1' }),
+        };
+
+        mockSettingsStore = {
+            get: jest.fn().mockResolvedValue({ autoSync: true }),
+        };
+
+        const module: TestingModule = await Test.createTestingModule({
+            providers: [
+                WebhookReceiver,
+                { provide: PrismaService, useValue: mockPrismaService },
+                { provide: IntegrationsService, useValue: mockIntegrationsService },
+                { provide: SyncJobQueue, useValue: mockSyncJobQueue },
+                { provide: IntegrationSettingsStore, useValue: mockSettingsStore },
+            ],
+        }).compile();
+
+        receiver = module.get<WebhookReceiver>(WebhookReceiver);
+
+        jest.spyOn(Logger.prototype, 'log').mockImplementation();
+        jest.spyOn(Logger.prototype, 'error').mockImplementation();
+    });
+
+    afterEach(() => {
+        jest.clearAllMocks();
+    });
+
+    const savedUpdate = () => mockPrismaService.webhookEvents.update.mock.calls[0][0].data;
+
+    describe('receive', () => {
+        it('should store a verified event and enqueue a sync for its connection', async () => {
+            const result = await receiver.receive(IntegrationProviderName.PLAID, request);
+
+            expect(result).toEqual({ received: true, eventId: 'event-1', status: 'PROCESSED' });
+            expect(mockPrismaService.webhookEvents.create).toHaveBeenCalledWith({
+                data: expect.objectContaining({
+                    provider: 'plaid',
+                    eventType: 'TRANSACTIONS.SYNC_UPDATES_AVAILABLE',
+                    payload: request.body,
+                    headers: { 'plaid-verification': 'jwt' },
+                }),
+            });
+            expect(mockSyncJobQueue.enqueue).toHaveBeenCalledWith(IntegrationProviderName.PLAID, 'user-1', 'link-1');
+            expect(savedUpdate()).toEqual(expect.objectContaining({ status: 'PROCESSED', userId: 'user-1', lastError: null }));
+        });
+
+        it('should not store events that fail verification', async () => {
+            mockProvider.verifyWebhook.mockRejectedValue(
+                new WebhookVerificationException('plaid', 'Body hash does not match'),
+            );
+
+            await expect(receiver.receive(IntegrationProviderName.PLAID, request)).rejects.toThrow(WebhookVerificationException);
+            expect(mockPrismaService.webhookEvents.create).not.toHaveBeenCalled();
+            expect(mockProvider.handleWebhook).not.toHaveBeenCalled();
+        });
+
+        it('should mark events the provider does not act on as ignored', async () => {
+            mockProvider.handleWebhook.mockResolvedValue({ handled: false });
+
+            const result = await receiver.receive(IntegrationProviderName.PLAID, request);
+
+            expect(result.status).toBe('IGNORED');
+            expect(mockSyncJobQueue.enqueue).not.toHaveBeenCalled();
+        });
+
+        it('should not enqueue a sync when the user turned auto-sync off', async () => {
+            mockSettingsStore.get.mockResolvedValue({ autoSync: false });
+
+            const result = await receiver.receive(IntegrationProviderName.PLAID, request);
+
+            expect(result.status).toBe('PROCESSED');
+            expect(mockSettingsStore.get).toHaveBeenCalledWith('user-1', IntegrationProviderName.PLAID);
+            expect(mockSyncJobQueue.enqueue).not.toHaveBeenCalled();
+        });
+
+        it('should record handler failures without rethrowing', async () => {
+            mockProvider.handleWebhook.mockRejectedValue(new Error('db down'));
+
+            const result = await receiver.receive(IntegrationProviderName.PLAID, request);
+
+            expect(result.status).toBe('FAILED');
+            expect(savedUpdate()).toEqual(expect.objectContaining({ status: 'FAILED', lastError: 'db down' }));
+        });
+
+        it('should reject providers without webhook support', async () => {
+            mockIntegrationsService.getProviderOrThrow.mockReturnValue({ name: IntegrationProviderName.SPOTIFY });
+
+            await expect(receiver.receive(IntegrationProviderName.SPOTIFY, request)).rejects.toThrow(WebhookNotSupportedException);
+        });
+    });
+
+    describe('challenge', () => {
+        it('should delegate to the provider handshake', async () => {
+            await expect(receiver.challenge(IntegrationProviderName.STRAVA, { 'hub.challenge': 'abc' })).resolves.toEqual({
+                'hub.challenge': 'abc',
+            });
+        });
+    });
+
+    describe('replay', () => {
+        it('should run the handler again for a stored event', async () => {
+            mockPrismaService.webhookEvents.findFirst.mockResolvedValue({
+                webhookEventId: 'event-1',
+                provider: 'plaid',
+                eventType: 'TRANSACTIONS.SYNC_UPDATES_AVAILABLE',
+                payload: request.body,
+            });
+
+            const result = await receiver.replay('event-1', 'user-1');
+
+            expect(result).toEqual({ eventId: 'event-1', status: 'PROCESSED' });
+            expect(mockPrismaService.webhookEvents.findFirst).toHaveBeenCalledWith({
+                where: expect.objectContaining({ webhookEventId: 'event-1', userId: 'user-1' }),
+            });
+            expect(mockProvider.handleWebhook).toHaveBeenCalledWith(
+                expect.objectContaining({ eventId: 'event-1', payload: request.body }),
+                expect.any(Function),
+            );
+        });
+
+        it('should throw when the event does not exist for the user', async () => {
+            mockPrismaService.webhookEvents.findFirst.mockResolvedValue(null);
+
+            await expect(receiver.replay('event-1', 'user-2')).rejects.toThrow(WebhookEventNotFoundException);
+        });
+    });
+});
@@ -0,0 +1,140 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { PrismaService } from '@traeta/prisma';
+import { IntegrationsService } from './integrations.service';
+import { SyncJobQueue } from './sync-job-queue';
+import { IntegrationSettingsStore } from './sync-settings';
+import { IntegrationProviderName, WebhookEvent, WebhookOutcome, WebhookRequest } from './types';
+import { WebhookEventNotFoundException, WebhookNotSupportedException } from './exceptions';
+import { ACTIVE_CONDITION, REC_SEQ, WEBHOOK_EVENT_STATUS } from '../../constants';
+
+// Headers worth keeping for debugging; anything else (cookies, auth) is dropped
+const STORED_HEADERS = ['content-type', 'user-agent', 'plaid-verification'];
+
+/**
+ * Entry point for provider webhooks.
+ *
+ * Each request is verified by its provider, stored in WebhookEvents, then handed to the
+ * provider's handleWebhook, which usually enqueues a targeted sync for the affected connection
+ * (unless the user turned auto-sync off for the provider).
+ * Stored events can be replayed, e.g. after fixing a handler bug.
+ */
+@Injectable()
+export class WebhookReceiver {
+    private readonly logger = new Logger(WebhookReceiver.name);
+
+    constructor(
+        private readonly prisma: PrismaService,
+        private readonly integrations: IntegrationsService,
+        private readonly syncJobs: SyncJobQueue,
+        private readonly settings: IntegrationSettingsStore,
+    ) { }
+
+    /**
+     * Verify, store and dispatch one webhook request. Verification failures are thrown
+     * (and not stored); handler failures are recorded on the event and not rethrown, so the
+     * provider does not keep redelivering an event we already have.
+     */
+    async receive(provider: IntegrationProviderName, request: WebhookRequest) {
+        const instance = this.integrations.getProviderOrThrow(provider);
+        if (!instance.verifyWebhook || !instance.handleWebhook) {
+            throw new WebhookNotSupportedException(provider);
+        }
+
+        // Step 1: Verify signature/token; throws WebhookVerificationException
+        const eventType = await instance.verifyWebhook(request);
+
+        // Step 2: Store the verified event before acting on it
+        const row = await this.prisma.webhookEvents.create({
+            data: {
+                provider,
+                eventType,
+                payload: request.body ?? {},
+                headers: this.pickHeaders(request.headers),
+                status: WEBHOOK_EVENT_STATUS.RECEIVED,
+                ...ACTIVE_CONDITION,
+            },
+        });
+
+        // Step 3: Dispatch
+        const status = await this.dispatch({ eventId: row.webhookEventId, provider, eventType, payload: request.body });
+        return { received: true, eventId: row.webhookEventId, status };
+    }
+
+    /**
+     * Answer a provider's subscription handshake (GET on the webhook URL).
+     */
+    async challenge(provider: IntegrationProviderName, query: Record<string, any>) {
+        const instance = this.integrations.getProviderOrThrow(provider);
+        if (!instance.handleWebhookChallenge) {
+            throw new WebhookNotSupportedException(provider);
+        }
+        return instance.handleWebhookChallenge(query);
+    }
+
+    /**
+     * Re-run the handler for a stored event. Only events that belong to the given user can be replayed.
+     */
+    async replay(eventId: string, userId: string) {
+        const row = await this.prisma.webhookEvents.findFirst({
+            where: { webhookEventId: eventId, userId, ...ACTIVE_CONDITION },
+        });
+        if (!row) {
+            throw new WebhookEventNotFoundException(eventId);
+        }
+
+        const status = await this.dispatch({
+            eventId: row.webhookEventId,
+            provider: row.provider as IntegrationProviderName,
+            eventType: row.eventType,
+            payload: row.payload,
+        });
+        return { eventId: row.webhookEventId, status };
+    }
+
+    private async dispatch(event: WebhookEvent): Promise<string> {
+        const instance = this.integrations.getProviderOrThrow(event.provider);
+        const enqueueSync = async (userId: string, connectionId?: string) => {
+            if (!(await this.settings.get(userId, event.provider)).autoSync) {
+                this.logger.log(`Auto-sync is off for ${event.provider}, userId: ${userId}; not syncing for webhook ${event.eventId}`);
+                return null;
+            }
+            return this.syncJobs.enqueue(event.provider, userId, connectionId);
+        };
+
+        let outcome: WebhookOutcome | undefined;
+        let status = WEBHOOK_EVENT_STATUS.FAILED;
+        let lastError: string | null = null;
+        try {
+            outcome = await instance.handleWebhook(event, enqueueSync);
+            status = outcome.handled ? WEBHOOK_EVENT_STATUS.PROCESSED : WEBHOOK_EVENT_STATUS.IGNORED;
+        } catch (error) {
+            lastError = error?.message ?? String(error);
+            this.logger.error(`Webhook ${event.eventId} (${event.provider} ${event.eventType}) failed:`, error);
+        }
+
+        await this.prisma.webhookEvents.update({
+            where: { webhookEventId_recSeq: { webhookEventId: event.eventId, recSeq: REC_SEQ.DEFAULT_RECORD } },
+            data: {
+                status,
+                lastError,
+                attempts: { increment: 1 },
+                processedAt: new Date(),
+                ...(outcome?.userId ? { userId: outcome.userId } : {}),
+            },
+        });
+
+        this.logger.log(`Webhook ${event.eventId} (${event.provider} ${event.eventType}) ${status}`);
+        return status;
+    }
+
+    private pickHeaders(headers: WebhookRequest['headers']): Record<string, string> {
+        const picked: Record<string, string> = {};
+        for (const name of STORED_HEADERS) {
+            const value = headers?.[name];
+            if (value !== undefined) {
+                picked[name] = Array.isArray(value) ? value.join(', ') : value;
+            }
+        }
+        return picked;
+    }
+}
@@ -143,4 +143,13 @@ export class ListItemFilterDto {
   @IsOptional()
   @IsString()
   search?: string;
+
+  @ApiPropertyOptional({
+    example: true,
+    description:
+      'Show one item per duplicate cluster (the same workout, song or purchase from several providers): the primary, with duplicateCount',
+  })
+  @IsOptional()
+  @IsBoolean()
+  collapseClusters?: boolean;
 }
@@ -63,6 +63,54 @@ export class ListItemEntity {
   @IsBoolean()
   starred: boolean;
 
+  @ApiPropertyOptional({
+    example: {
+      title: { source: 'user', updatedAt: '2026-10-18T09:00:00.000Z' },
+      'attributes.distance': {
+        source: 'strava',
+        updatedAt: '2026-10-18T08:00:00.000Z',
+      },
+    },
+    description:
+      'Synced items only: who last set each field, the provider or "user". Re-syncs skip user-owned fields',
+  })
+  @IsOptional()
+  fieldSources?: Record<string, { source: string; updatedAt: string }> | null;
+
+  @ApiPropertyOptional({
+    example: [
+      {
+        field: 'title',
+        provider: 'strava',
+        userValue: 'Sunday long run',
+        providerValue: 'Morning Run',
+        detectedAt: '2026-10-18T10:00:00.000Z',
+      },
+    ],
+    description:
+      'Provider updates not applied because the user had edited the field. Setting the field to providerValue accepts it',
+  })
+  @IsOptional()
+  syncConflicts?: Record<string, any>[] | null;
+
+  @ApiPropertyOptional({
+    example: 'listItemId',
+    description:
+      'Primary item of the duplicate cluster this item belongs to (the same event from another provider). Null for primaries and unclustered items',
+  })
+  @IsOptional()
+  @IsString()
+  primaryItemId?: string | null;
+
+  @ApiPropertyOptional({
+    example: 1,
+    description:
+      'With collapseClusters: number of duplicates collapsed into this item',
+  })
+  @IsOptional()
+  @IsInt()
+  duplicateCount?: number;
+
   @ApiProperty({ example: 'A', description: 'Data status' })
   @IsString()
   dataStatus: string;
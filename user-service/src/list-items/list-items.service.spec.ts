@@ -22,6 +22,7 @@ const mockPrisma = {
     count: jest.fn(),
     findUnique: jest.fn(),
     update: jest.fn(),
+    groupBy: jest.fn(),
   },
   lists: {
     findFirst: jest.fn(),
@@ -139,6 +140,43 @@ describe('ListItemsService', () => {
       });
     });
 
+    it('should collapse duplicate clusters to their primaries with a duplicate count', async () => {
+      const filterDto = { pageNumber: 1, limit: 10, collapseClusters: true };
+      mockUtility.buildFilter.mockReturnValue({});
+      mockPrisma.listItems.findMany.mockResolvedValue([
+        { listItemId: 'id-1' },
+        { listItemId: 'id-2' },
+      ]);
+      mockPrisma.listItems.count.mockResolvedValue(2);
+      mockPrisma.listItems.groupBy.mockResolvedValue([
+        { primaryItemId: 'id-1', _count: { _all: 2 } },
+      ]);
+
+      const res = await service.findAll(filterDto);
+
+      expect(mockPrisma.listItems.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            AND: expect.arrayContaining([
+              {
+                OR: [
+                  { primaryItemId: null },
+                  { primaryItem: { isNot: ACTIVE_CONDITION } },
+                ],
+              },
+            ]) as unknown,
+          },
+        }),
+      );
+      expect(res.data).toEqual({
+        data: [
+          { listItemId: 'id-1', duplicateCount: 2 },
+          { listItemId: 'id-2', duplicateCount: 0 },
+        ],
+        metadata: { pageNumber: 1, limit: 10, totalCount: 2 },
+      });
+    });
+
     it('should handle errors and return INTERNAL_SERVER_ERROR', async () => {
       const filterDto = { pageNumber: 1, limit: 10 };
       mockUtility.buildFilter.mockReturnValue({});
@@ -222,6 +260,36 @@ describe('ListItemsService', () => {
       expect(res.data).toEqual(updated);
     });
 
+    it('should mark fields the user edits on a synced item as user-owned', async () => {
+      mockPrisma.listItems.findUnique.mockResolvedValue({
+        listItemId: 'id-1',
+        title: 'Morning Run',
+        attributes: {
+          distance: 5000,
+          external: { provider: 'strava', id: '42' },
+        },
+        fieldSources: {
+          title: { source: 'strava', updatedAt: '2026-10-01T00:00:00.000Z' },
+        },
+        syncConflicts: null,
+      });
+      mockUtility.updateEntity.mockResolvedValue({ listItemId: 'id-1' });
+
+      await service.update('id-1', { title: 'Sunday long run' }, 'test-user');
+
+      expect(mockUtility.updateEntity).toHaveBeenCalledWith(
+        expect.objectContaining({
+          updateData: expect.objectContaining<Record<string, unknown>>({
+            title: 'Sunday long run',
+            fieldSources: {
+              title: { source: 'user', updatedAt: expect.any(String) },
+            },
+            syncConflicts: [],
+          }) as unknown,
+        }),
+      );
+    });
+
     it('should handle errors and return INTERNAL_SERVER_ERROR', async () => {
       mockPrisma.listItems.findUnique.mockResolvedValue({ listItemId: 'id-1' });
       mockUtility.updateEntity.mockRejectedValue(new Error('upd err'));
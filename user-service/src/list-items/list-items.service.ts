@@ -2,6 +2,7 @@ import { HttpStatus, Injectable } from '@nestjs/common';
 import { PrismaService } from '@traeta/prisma';
 import { TechvLogger } from 'techvedika-logger';
 import { UtilityService } from '../utility/utility.service';
+import { applyUserEdit } from '../integrations/field-provenance';
 import {
   ACTIVE_CONDITION,
   DB_NAME,
@@ -317,6 +318,7 @@ export class ListItemsService {
         'search',
         'startTime',
         'endTime',
+        'collapseClusters',
       ]);
 
       let searchCondition = {};
@@ -344,11 +346,22 @@ export class ListItemsService {
           }
         : {};
 
+      // Duplicates point at their cluster's primary in the same list; collapsing keeps primaries,
+      // unclustered items and duplicates whose primary was since removed
+      const clusterCondition = filterDto.collapseClusters
+        ? {
+            OR: [
+              { primaryItemId: null },
+              { primaryItem: { isNot: ACTIVE_CONDITION } },
+            ],
+          }
+        : {};
+
       const whereCondition = {
-        AND: [filterConditions, searchCondition, startTimeCondition, endTimeCondition, ACTIVE_CONDITION],
+        AND: [filterConditions, searchCondition, startTimeCondition, endTimeCondition, clusterCondition, ACTIVE_CONDITION],
       };
 
-      const [listItems, totalCount] = await Promise.all([
+      const [rows, totalCount] = await Promise.all([
         this.prismaService.listItems.findMany({
           where: whereCondition,
           include: {
@@ -376,6 +389,10 @@ export class ListItemsService {
 
       Object.assign(metadata, { limit, pageNumber, totalCount });
 
+      const listItems = filterDto.collapseClusters
+        ? await this.withDuplicateCounts(rows)
+        : rows;
+
       const hasCategories = (listItems as any[]).some(
         (it) => it?.category?.name && String(it.category.name).trim().length > 0,
       );
@@ -415,6 +432,28 @@ export class ListItemsService {
     }
   }
 
+  // Number of duplicates collapsed into each primary item
+  private async withDuplicateCounts<T extends { listItemId: string }>(
+    items: T[],
+  ): Promise<(T & { duplicateCount: number })[]> {
+    if (items.length === 0) return [];
+    const duplicates = await this.prismaService.listItems.groupBy({
+      by: ['primaryItemId'],
+      where: {
+        primaryItemId: { in: items.map((item) => item.listItemId) },
+        ...ACTIVE_CONDITION,
+      },
+      _count: { _all: true },
+    });
+    const counts = new Map(
+      duplicates.map((row) => [row.primaryItemId, row._count._all]),
+    );
+    return items.map((item) => ({
+      ...item,
+      duplicateCount: counts.get(item.listItemId) ?? 0,
+    }));
+  }
+
   async findUnique(listItemId: string): Promise<Response<any>> {
     const response: Response<any> = { status: HttpStatus.OK, data: '' };
     this.loggerInstance.logger(LogType.INFO, {
@@ -495,10 +534,13 @@ export class ListItemsService {
         };
       }
 
+      // Fields the user edits on a synced item stop being overwritten by re-syncs
+      const provenance = applyUserEdit(existingRecord, updateDto);
+
       const updatedStatus = await this.utilityService.updateEntity({
         dbname: DB_NAME,
         tablename: TABLE_NAMES.LIST_ITEMS,
-        updateData: { ...updateDto, modifiedBy: userId },
+        updateData: { ...updateDto, ...provenance, modifiedBy: userId },
         primaryKeyCriteria: { listItemId },
         requestId: userId,
         username: userId,
@@ -3,15 +3,16 @@ import { AppModule } from './app.module';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { ValidationPipe } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { json, urlencoded } from 'express';
+import { NestExpressApplication } from '@nestjs/platform-express';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // rawBody keeps the exact request bytes for webhook signature checks
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, { rawBody: true });
   const configService = app.get(ConfigService);
 
-  // Increase request body size limits
-  app.use(json({ limit: '5mb' }));
-  app.use(urlencoded({ extended: true, limit: '5mb' }));
+  // Increase request body size limits (through Nest's parsers so rawBody is kept)
+  app.useBodyParser('json', { limit: '5mb' });
+  app.useBodyParser('urlencoded', { extended: true, limit: '5mb' });
 
   // Configure CORS properly
   const corsOrigin = configService.get('CORS_ORIGIN') || '*';
@@ -25,7 +26,8 @@ async function bootstrap() {
   });
 
   app.useGlobalPipes(new ValidationPipe());
-  app.setGlobalPrefix('user');
+  // /metrics stays at the root for Prometheus
+  app.setGlobalPrefix('user', { exclude: ['metrics'] });
 
   const config = new DocumentBuilder()
     .setTitle('User Service API')
@@ -0,0 +1,738 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import axios, { AxiosAdapter } from 'axios';
+import { ConfigService } from '@nestjs/config';
+import { IntegrationSandbox } from '../src/integrations/integration-sandbox';
+
+/**
+ * In-process stand-in for the third-party APIs the integration providers call.
+ *
+ * Provider traffic is redirected here by FakeProviderSandbox: a request for
+ * https://www.strava.com/api/v3/athlete/activities arrives as
+ * GET /www.strava.com/api/v3/athlete/activities, so routes are keyed by host and path.
+ *
+ * The default routes emulate the OAuth authorize/token endpoints (including PKCE) and the data
+ * APIs used by Strava, Spotify, Gmail, Google People and Plaid. Tokens issued by the token
+ * endpoints are the only ones the data APIs accept. Override any route for a single test with
+ * respond(), and undo overrides with reset().
+ */
+
+// Form or JSON body; the fake only reads top-level string fields
+export type FakeRequestBody = Record<string, string | undefined>;
+
+export type FakeRequest = {
+  method: string;
+  host: string;
+  path: string;
+  query: URLSearchParams;
+  headers: http.IncomingHttpHeaders;
+  body: FakeRequestBody;
+  params: Record<string, string>;
+};
+
+export type FakeResponse = {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+};
+
+export type FakeHandler = (req: FakeRequest) => FakeResponse;
+
+type Route = {
+  method: string;
+  pattern: string[];
+  handler: FakeHandler;
+};
+
+type AuthorizationCode = {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge?: string;
+  scope?: string;
+};
+
+// Client credentials the fake token endpoints accept; the e2e suite configures the app with these
+export const FAKE_CLIENTS = {
+  strava: {
+    clientId: 'fake-strava-client',
+    clientSecret: 'fake-strava-secret',
+  },
+  spotify: {
+    clientId: 'fake-spotify-client',
+    clientSecret: 'fake-spotify-secret',
+  },
+  google: {
+    clientId: 'fake-google-client',
+    clientSecret: 'fake-google-secret',
+  },
+  plaid: { clientId: 'fake-plaid-client', clientSecret: 'fake-plaid-secret' },
+};
+
+const HOUR_SECONDS = 3600;
+
+export class FakeProviderServer {
+  /** Every request received, in order */
+  readonly requests: FakeRequest[] = [];
+
+  private server: http.Server | null = null;
+  private baseUrl = '';
+  private overrides: Route[] = [];
+  private readonly routes: Route[] = [];
+  private readonly codes = new Map<string, AuthorizationCode>();
+  private readonly accessTokens = new Set<string>();
+  private readonly refreshTokens = new Set<string>();
+  private readonly plaidPublicTokens = new Set<string>();
+
+  constructor() {
+    this.registerOAuthRoutes();
+    this.registerStravaRoutes();
+    this.registerSpotifyRoutes();
+    this.registerGoogleRoutes();
+    this.registerPlaidRoutes();
+  }
+
+  async start(): Promise<void> {
+    this.server = http.createServer((req, res) => void this.handle(req, res));
+    await new Promise<void>((resolve) =>
+      this.server.listen(0, '127.0.0.1', resolve),
+    );
+    const { port } = this.server.address() as AddressInfo;
+    this.baseUrl = `http://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+    this.server = null;
+  }
+
+  /**
+   * Answer `method host/path` with a fixed response or handler until reset().
+   * Path segments starting with ':' match anything, e.g. 'GET gmail.googleapis.com/gmail/v1/users/me/messages/:id'.
+   */
+  respond(route: string, response: FakeResponse | FakeHandler): void {
+    const [method, target] = route.split(' ');
+    this.overrides.unshift({
+      method,
+      pattern: target.split('/'),
+      handler: typeof response === 'function' ? response : () => response,
+    });
+  }
+
+  /** Drop per-test overrides and the request log; issued tokens stay valid */
+  reset(): void {
+    this.overrides = [];
+    this.requests.length = 0;
+  }
+
+  /** Where a real provider URL is served from on this server */
+  urlFor(providerUrl: string): string {
+    const url = new URL(providerUrl);
+    return `${this.baseUrl}/${url.host}${url.pathname}${url.search}`;
+  }
+
+  /**
+   * Follow an authorize URL the way a browser would after the user consents, returning the
+   * code and state the provider would send to the redirect URI.
+   */
+  async authorize(
+    authorizeUrl: string,
+  ): Promise<{ code: string; state: string }> {
+    const res = await axios.get(this.urlFor(authorizeUrl), {
+      maxRedirects: 0,
+      validateStatus: (status) => status === 302,
+    });
+    const location = new URL(res.headers.location as string);
+    return {
+      code: location.searchParams.get('code'),
+      state: location.searchParams.get('state'),
+    };
+  }
+
+  /** What Plaid Link hands the client after the user picks an institution */
+  createPlaidPublicToken(): string {
+    const token = `public-sandbox-${crypto.randomUUID()}`;
+    this.plaidPublicTokens.add(token);
+    return token;
+  }
+
+  /** An IntegrationSandbox that sends all provider traffic to this server */
+  sandbox(): IntegrationSandbox {
+    return new FakeProviderSandbox(this);
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url ?? '/', this.baseUrl);
+    const [, host, ...rest] = url.pathname.split('/');
+    const request: FakeRequest = {
+      method: req.method ?? 'GET',
+      host,
+      path: `/${rest.join('/')}`,
+      query: url.searchParams,
+      headers: req.headers,
+      body: await this.readBody(req),
+      params: {},
+    };
+    this.requests.push(request);
+
+    let response: FakeResponse;
+    try {
+      response = this.route(request);
+    } catch (error) {
+      response = { status: 500, body: { error: (error as Error).message } };
+    }
+
+    const body =
+      response.body === undefined || typeof response.body === 'string'
+        ? response.body
+        : JSON.stringify(response.body);
+    res.writeHead(response.status ?? 200, {
+      'content-type':
+        typeof response.body === 'string' ? 'text/plain' : 'application/json',
+      ...response.headers,
+    });
+    res.end(body);
+  }
+
+  private route(req: FakeRequest): FakeResponse {
+    const segments = `${req.host}${req.path}`.split('/');
+    for (const route of [...this.overrides, ...this.routes]) {
+      if (route.method !== req.method) continue;
+      if (route.pattern.length !== segments.length) continue;
+      const params: Record<string, string> = {};
+      const matches = route.pattern.every((part, i) => {
+        if (part.startsWith(':')) {
+          params[part.slice(1)] = decodeURIComponent(segments[i]);
+          return true;
+        }
+        return part === segments[i];
+      });
+      if (matches) {
+        req.params = params;
+        return route.handler(req);
+      }
+    }
+    return {
+      status: 404,
+      body: { error: `No fake route for ${req.method} ${req.host}${req.path}` },
+    };
+  }
+
+  private on(route: string, handler: FakeHandler) {
+    const [method, target] = route.split(' ');
+    this.routes.push({ method, pattern: target.split('/'), handler });
+  }
+
+  private async readBody(req: http.IncomingMessage): Promise<FakeRequestBody> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const raw = Buffer.concat(chunks).toString('utf8');
+    if (!raw) return {};
+
+    const type = req.headers['content-type'] ?? '';
+    if (type.includes('application/x-www-form-urlencoded')) {
+      return Object.fromEntries(new URLSearchParams(raw));
+    }
+    try {
+      return JSON.parse(raw) as FakeRequestBody;
+    } catch {
+      return {};
+    }
+  }
+
+  // --- OAuth ------------------------------------------------------------------
+
+  private registerOAuthRoutes() {
+    const authorize: FakeHandler = (req) => {
+      const clientId = req.query.get('client_id');
+      const redirectUri = req.query.get('redirect_uri');
+      if (!clientId || !redirectUri) {
+        return {
+          status: 400,
+          body: {
+            error: 'invalid_request',
+            error_description: 'client_id and redirect_uri are required',
+          },
+        };
+      }
+
+      const code = `code-${crypto.randomUUID()}`;
+      this.codes.set(code, {
+        clientId,
+        redirectUri,
+        codeChallenge: req.query.get('code_challenge') ?? undefined,
+        scope: req.query.get('scope') ?? undefined,
+      });
+      const location = new URL(redirectUri);
+      location.searchParams.set('code', code);
+      location.searchParams.set('state', req.query.get('state') ?? '');
+      return { status: 302, headers: { location: location.toString() } };
+    };
+    this.on('GET www.strava.com/oauth/authorize', authorize);
+    this.on('GET accounts.spotify.com/authorize', authorize);
+    this.on('GET accounts.google.com/o/oauth2/v2/auth', authorize);
+
+    this.on('POST www.strava.com/oauth/token', (req) =>
+      this.token(req, FAKE_CLIENTS.strava, (tokens) => ({
+        token_type: 'Bearer',
+        access_token: tokens.accessToken,
+        refresh_token: tokens.refreshToken,
+        expires_in: 6 * HOUR_SECONDS,
+        expires_at: Math.floor(Date.now() / 1000) + 6 * HOUR_SECONDS,
+        athlete: { id: 4242 },
+      })),
+    );
+    this.on('POST www.strava.com/oauth/deauthorize', (req) =>
+      this.withBearer(req, () => ({ body: {} })),
+    );
+
+    this.on('POST accounts.spotify.com/api/token', (req) =>
+      this.token(req, FAKE_CLIENTS.spotify, (tokens, code) => ({
+        token_type: 'Bearer',
+        access_token: tokens.accessToken,
+        refresh_token: tokens.refreshToken,
+        expires_in: HOUR_SECONDS,
+        scope: code?.scope ?? '',
+      })),
+    );
+
+    this.on('POST oauth2.googleapis.com/token', (req) =>
+      this.token(req, FAKE_CLIENTS.google, (tokens, code) => ({
+        token_type: 'Bearer',
+        access_token: tokens.accessToken,
+        refresh_token: tokens.refreshToken,
+        expires_in: HOUR_SECONDS,
+        scope: code?.scope ?? '',
+      })),
+    );
+    this.on('POST oauth2.googleapis.com/revoke', () => ({ body: {} }));
+  }
+
+  /**
+   * Token endpoint shared by the OAuth providers: checks the client credentials (form body or
+   * Basic auth), then redeems an authorization code (verifying redirect_uri and PKCE) or a
+   * refresh token.
+   */
+  private token(
+    req: FakeRequest,
+    client: { clientId: string; clientSecret: string },
+    build: (
+      tokens: { accessToken: string; refreshToken: string },
+      code?: AuthorizationCode,
+    ) => object,
+  ): FakeResponse {
+    const [basicId, basicSecret] = this.basicCredentials(req);
+    const clientId = req.body.client_id ?? basicId;
+    const clientSecret = req.body.client_secret ?? basicSecret;
+    if (clientId !== client.clientId || clientSecret !== client.clientSecret) {
+      return { status: 401, body: { error: 'invalid_client' } };
+    }
+
+    let code: AuthorizationCode | undefined;
+    if (req.body.grant_type === 'authorization_code') {
+      code = this.codes.get(req.body.code);
+      this.codes.delete(req.body.code);
+      if (!code || code.clientId !== clientId) {
+        return {
+          status: 400,
+          body: {
+            error: 'invalid_grant',
+            error_description: 'Unknown authorization code',
+          },
+        };
+      }
+      if (req.body.redirect_uri && req.body.redirect_uri !== code.redirectUri) {
+        return {
+          status: 400,
+          body: {
+            error: 'invalid_grant',
+            error_description: 'redirect_uri mismatch',
+          },
+        };
+      }
+      if (code.codeChallenge) {
+        const verifier = req.body.code_verifier ?? '';
+        const challenge = crypto
+          .createHash('sha256')
+          .update(verifier)
+          .digest('base64url');
+        if (challenge !== code.codeChallenge) {
+          return {
+            status: 400,
+            body: {
+              error: 'invalid_grant',
+              error_description: 'code_verifier mismatch',
+            },
+          };
+        }
+      }
+    } else if (req.body.grant_type === 'refresh_token') {
+      if (!this.refreshTokens.delete(req.body.refresh_token)) {
+        return {
+          status: 400,
+          body: {
+            error: 'invalid_grant',
+            error_description: 'Unknown refresh token',
+          },
+        };
+      }
+    } else {
+      return { status: 400, body: { error: 'unsupported_grant_type' } };
+    }
+
+    const tokens = {
+      accessToken: `access-${crypto.randomUUID()}`,
+      refreshToken: `refresh-${crypto.randomUUID()}`,
+    };
+    this.accessTokens.add(tokens.accessToken);
+    this.refreshTokens.add(tokens.refreshToken);
+    return { body: build(tokens, code) };
+  }
+
+  private basicCredentials(req: FakeRequest): string[] {
+    const header = req.headers.authorization ?? '';
+    if (!header.startsWith('Basic ')) return [];
+    return Buffer.from(header.slice(6), 'base64').toString('utf8').split(':');
+  }
+
+  private withBearer(
+    req: FakeRequest,
+    handler: () => FakeResponse,
+  ): FakeResponse {
+    const header = req.headers.authorization ?? '';
+    const token = header.startsWith('Bearer ') ? header.slice(7) : '';
+    if (!this.accessTokens.has(token)) {
+      return {
+        status: 401,
+        body: { error: { status: 401, message: 'Invalid access token' } },
+      };
+    }
+    return handler();
+  }
+
+  // --- Strava -----------------------------------------------------------------
+
+  private registerStravaRoutes() {
+    this.on('GET www.strava.com/api/v3/athlete/activities', (req) =>
+      this.withBearer(req, () => ({
+        body:
+          Number(req.query.get('page') ?? 1) > 1
+            ? []
+            : [
+                {
+                  id: 900001,
+                  name: 'Lunch Run',
+                  type: 'Run',
+                  sport_type: 'Run',
+                  start_date: new Date(
+                    Date.now() - 2 * HOUR_SECONDS * 1000,
+                  ).toISOString(),
+                  distance: 5000,
+                  moving_time: 1500,
+                  map: { id: 'a900001', summary_polyline: null },
+                },
+              ],
+      })),
+    );
+  }
+
+  // --- Spotify ----------------------------------------------------------------
+
+  private registerSpotifyRoutes() {
+    const track = {
+      id: 'fake-track-1',
+      name: 'Test Pattern',
+      artists: [{ id: 'fake-artist-1', name: 'The Fixtures' }],
+      album: {
+        id: 'fake-album-1',
+        name: 'Mocks',
+        release_date: '2026-01-01',
+        images: [],
+      },
+      duration_ms: 180000,
+      external_ids: { isrc: 'USFAKE000001' },
+      external_urls: { spotify: 'https://open.spotify.com/track/fake-track-1' },
+      popularity: 50,
+      preview_url: null,
+    };
+
+    this.on('GET api.spotify.com/v1/me', (req) =>
+      this.withBearer(req, () => ({
+        body: {
+          id: 'fake-listener',
+          display_name: 'Fake Listener',
+          email: 'listener@example.com',
+        },
+      })),
+    );
+    this.on('GET api.spotify.com/v1/me/player/recently-played', (req) =>
+      this.withBearer(req, () => ({
+        body: {
+          items: [
+            { track, played_at: new Date().toISOString(), context: null },
+          ],
+          cursors: { after: String(Date.now()) },
+        },
+      })),
+    );
+    this.on('GET api.spotify.com/v1/me/tracks', (req) =>
+      this.withBearer(req, () => ({
+        body: { items: [{ added_at: new Date().toISOString(), track }] },
+      })),
+    );
+    this.on('GET api.spotify.com/v1/me/playlists', (req) =>
+      this.withBearer(req, () => ({ body: { items: [] } })),
+    );
+    this.on('GET api.spotify.com/v1/me/top/tracks', (req) =>
+      this.withBearer(req, () => ({ body: { items: [track] } })),
+    );
+  }
+
+  // --- Google (Gmail, People) -------------------------------------------------
+
+  private registerGoogleRoutes() {
+    const message = {
+      id: 'fake-message-1',
+      threadId: 'fake-message-1',
+      labelIds: ['INBOX'],
+      snippet: 'Your reservation is confirmed',
+      internalDate: String(Date.now()),
+      payload: {
+        headers: [
+          { name: 'From', value: 'Hotels <noreply@hotels.com>' },
+          { name: 'To', value: 'user@example.com' },
+          { name: 'Subject', value: 'Hotel reservation confirmed' },
+          { name: 'Date', value: new Date().toUTCString() },
+        ],
+        body: {
+          size: 30,
+          data: Buffer.from('Your reservation is confirmed.').toString(
+            'base64',
+          ),
+        },
+      },
+    };
+
+    this.on('GET www.googleapis.com/oauth2/v2/userinfo', (req) =>
+      this.withBearer(req, () => ({
+        body: {
+          id: 'fake-google-user',
+          email: 'user@example.com',
+          name: 'Fake User',
+        },
+      })),
+    );
+    this.on('GET gmail.googleapis.com/gmail/v1/users/me/profile', (req) =>
+      this.withBearer(req, () => ({
+        body: { emailAddress: 'user@example.com', historyId: '1000' },
+      })),
+    );
+    this.on('GET gmail.googleapis.com/gmail/v1/users/me/messages', (req) =>
+      this.withBearer(req, () => ({
+        body: { messages: [{ id: message.id, threadId: message.threadId }] },
+      })),
+    );
+    this.on('GET gmail.googleapis.com/gmail/v1/users/me/messages/:id', (req) =>
+      this.withBearer(req, () =>
+        req.params.id === message.id
+          ? { body: message }
+          : {
+              status: 404,
+              body: { error: { code: 404, message: 'Not Found' } },
+            },
+      ),
+    );
+    this.on('GET gmail.googleapis.com/gmail/v1/users/me/history', (req) =>
+      this.withBearer(req, () => ({ body: { historyId: '1000' } })),
+    );
+    this.on('GET people.googleapis.com/v1/people/me/connections', (req) =>
+      this.withBearer(req, () => ({
+        body: {
+          connections: [
+            {
+              resourceName: 'people/c1',
+              names: [
+                {
+                  displayName: 'Ada Lovelace',
+                  givenName: 'Ada',
+                  familyName: 'Lovelace',
+                },
+              ],
+              emailAddresses: [{ value: 'ada@example.com', type: 'home' }],
+            },
+          ],
+          totalPeople: 1,
+        },
+      })),
+    );
+  }
+
+  // --- Plaid ------------------------------------------------------------------
+
+  private registerPlaidRoutes() {
+    const account = {
+      account_id: 'fake-account-1',
+      name: 'Fake Checking',
+      official_name: 'Fake Checking Account',
+      type: 'depository',
+      subtype: 'checking',
+      mask: '0000',
+      balances: {
+        available: 100,
+        current: 110,
+        limit: null,
+        iso_currency_code: 'USD',
+      },
+    };
+    const transaction = {
+      transaction_id: 'fake-transaction-1',
+      account_id: account.account_id,
+      date: new Date().toISOString().slice(0, 10),
+      name: 'Blue Bottle Coffee',
+      merchant_name: 'Blue Bottle Coffee',
+      amount: 4.5,
+      iso_currency_code: 'USD',
+      category: ['Food and Drink', 'Restaurants', 'Coffee Shop'],
+      category_id: '13005043',
+      payment_channel: 'in store',
+      pending: false,
+      location: {},
+    };
+
+    const plaid =
+      (handler: (req: FakeRequest) => FakeResponse): FakeHandler =>
+      (req) => {
+        if (
+          req.headers['plaid-client-id'] !== FAKE_CLIENTS.plaid.clientId ||
+          req.headers['plaid-secret'] !== FAKE_CLIENTS.plaid.clientSecret
+        ) {
+          return {
+            status: 400,
+            body: {
+              error_type: 'INVALID_INPUT',
+              error_code: 'INVALID_API_KEYS',
+              error_message: 'invalid client_id or secret provided',
+            },
+          };
+        }
+        return handler(req);
+      };
+    const item = (handler: (req: FakeRequest) => FakeResponse) =>
+      plaid((req) =>
+        this.accessTokens.has(req.body.access_token)
+          ? handler(req)
+          : {
+              status: 400,
+              body: {
+                error_type: 'INVALID_INPUT',
+                error_code: 'INVALID_ACCESS_TOKEN',
+                error_message: 'provided access token is invalid',
+              },
+            },
+      );
+
+    this.on(
+      'POST sandbox.plaid.com/link/token/create',
+      plaid(() => ({
+        body: {
+          link_token: `link-sandbox-${crypto.randomUUID()}`,
+          expiration: new Date(
+            Date.now() + 4 * HOUR_SECONDS * 1000,
+          ).toISOString(),
+        },
+      })),
+    );
+    this.on(
+      'POST sandbox.plaid.com/item/public_token/exchange',
+      plaid((req) => {
+        if (!this.plaidPublicTokens.delete(req.body.public_token)) {
+          return {
+            status: 400,
+            body: {
+              error_type: 'INVALID_INPUT',
+              error_code: 'INVALID_PUBLIC_TOKEN',
+              error_message: 'provided public token is invalid',
+            },
+          };
+        }
+        const accessToken = `access-sandbox-${crypto.randomUUID()}`;
+        this.accessTokens.add(accessToken);
+        return {
+          body: {
+            access_token: accessToken,
+            item_id: `item-${crypto.randomUUID()}`,
+          },
+        };
+      }),
+    );
+    this.on(
+      'POST sandbox.plaid.com/accounts/get',
+      item(() => ({ body: { accounts: [account] } })),
+    );
+    this.on(
+      'POST sandbox.plaid.com/transactions/sync',
+      item((req) => ({
+        body: {
+          added: req.body.cursor ? [] : [transaction],
+          modified: [],
+          removed: [],
+          next_cursor: 'fake-cursor-1',
+          has_more: false,
+        },
+      })),
+    );
+    this.on(
+      'POST sandbox.plaid.com/transactions/get',
+      item(() => ({
+        body: {
+          accounts: [account],
+          transactions: [transaction],
+          total_transactions: 1,
+        },
+      })),
+    );
+    this.on(
+      'POST sandbox.plaid.com/item/remove',
+      item((req) => {
+        this.accessTokens.delete(req.body.access_token);
+        return { body: {} };
+      }),
+    );
+  }
+}
+
+/**
+ * Sends provider requests to a FakeProviderServer through the real HTTP stack, so request
+ * serialization (query strings, form bodies, auth headers) is exercised end to end.
+ */
+class FakeProviderSandbox extends IntegrationSandbox {
+  constructor(private readonly server: FakeProviderServer) {
+    super(new ConfigService());
+  }
+
+  onModuleInit() {}
+
+  axiosOptions(): { adapter: AxiosAdapter } {
+    const adapter = axios.getAdapter(axios.defaults.adapter);
+    return {
+      adapter: (config) =>
+        adapter({
+          ...config,
+          url: this.server.urlFor(axios.getUri(config)),
+          baseURL: undefined,
+          params: undefined,
+        }),
+    };
+  }
+
+  gaxiosOptions(): ReturnType<IntegrationSandbox['gaxiosOptions']> {
+    return {
+      adapter: (options, defaultAdapter) =>
+        defaultAdapter({
+          ...options,
+          url: new URL(this.server.urlFor(options.url.toString())),
+        }),
+    };
+  }
+}
@@ -0,0 +1,309 @@
+import { INestApplication } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwtService } from '@nestjs/jwt';
+import * as crypto from 'crypto';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { PrismaService } from '@traeta/prisma';
+import { TechvLogger } from 'techvedika-logger';
+import { AppModule } from './../src/app.module';
+import { FirebaseService } from '../src/firebase/firebase.config';
+import { IntegrationSandbox } from '../src/integrations/integration-sandbox';
+import { REC_SEQ, SYNC_JOB_STATUS } from '../constants';
+import { FAKE_CLIENTS, FakeProviderServer } from './fake-provider-server';
+
+// Minimal logger to silence logs during tests (does not affect DB/Firebase)
+class LoggerMock {
+  logger = jest.fn();
+}
+
+class FirebaseServiceMock {
+  public auth = {} as FirebaseService['auth'];
+}
+
+interface ConnectResponse {
+  redirectUrl?: string;
+  linkToken?: string;
+  state?: string;
+  connectionId?: string;
+}
+
+interface SyncJobView {
+  jobId: string;
+  connectionId: string | null;
+  status: string;
+  lastError: string | null;
+}
+
+interface StatusResponse {
+  connected: boolean;
+  lastSyncedAt: string | null;
+}
+
+const SYNC_TIMEOUT_MS = 20000;
+
+/**
+ * Drives whole connect -> callback -> sync -> status cycles through IntegrationsController
+ * against FakeProviderServer. Needs DATABASE_URL like the other e2e suites; nothing leaves the
+ * machine because every provider request is answered by the fake server.
+ */
+describe('Integrations (e2e)', () => {
+  const fake = new FakeProviderServer();
+  const userId = crypto.randomUUID();
+  let app: INestApplication;
+  let server: App;
+  let prisma: PrismaService;
+  let auth: Record<string, string>;
+
+  beforeAll(async () => {
+    await fake.start();
+
+    Object.assign(process.env, {
+      JWT_SECRET: process.env.JWT_SECRET || 'test-jwt-secret',
+      OAUTH_STATE_SECRET: 'test-oauth-state-secret',
+      TOKEN_CRYPTO_KEYS: `test:${crypto.randomBytes(32).toString('hex')}`,
+      TOKEN_CRYPTO_ACTIVE_KEY_ID: 'test',
+      STRAVA_CLIENT_ID: FAKE_CLIENTS.strava.clientId,
+      STRAVA_CLIENT_SECRET: FAKE_CLIENTS.strava.clientSecret,
+      STRAVA_REDIRECT_URI: 'http://localhost/integrations/strava/callback',
+      SPOTIFY_CLIENT_ID: FAKE_CLIENTS.spotify.clientId,
+      SPOTIFY_CLIENT_SECRET: FAKE_CLIENTS.spotify.clientSecret,
+      SPOTIFY_REDIRECT_URI: 'http://localhost/integrations/spotify/callback',
+      GMAIL_CLIENT_ID: FAKE_CLIENTS.google.clientId,
+      GMAIL_CLIENT_SECRET: FAKE_CLIENTS.google.clientSecret,
+      GMAIL_REDIRECT_URI:
+        'http://localhost/integrations/email_scraper/callback',
+      GOOGLE_CLIENT_ID: FAKE_CLIENTS.google.clientId,
+      GOOGLE_CLIENT_SECRET: FAKE_CLIENTS.google.clientSecret,
+      GOOGLE_REDIRECT_URI:
+        'http://localhost/integrations/contact_list/callback',
+      PLAID_CLIENT_ID: FAKE_CLIENTS.plaid.clientId,
+      PLAID_SECRET: FAKE_CLIENTS.plaid.clientSecret,
+      PLAID_ENV: 'sandbox',
+      // Jobs are driven by the test; only the worker runs, and it polls quickly
+      INTEGRATION_SYNC_SCHEDULER_ENABLED: 'false',
+      TOKEN_REFRESH_ENABLED: 'false',
+      INTEGRATION_SYNC_WORKER_POLL_MS: '200',
+    });
+
+    const moduleFixture: TestingModule = await Test.createTestingModule({
+      imports: [AppModule],
+    })
+      .overrideProvider(TechvLogger)
+      .useClass(LoggerMock)
+      .overrideProvider(FirebaseService)
+      .useClass(FirebaseServiceMock)
+      .overrideProvider(IntegrationSandbox)
+      .useValue(fake.sandbox())
+      .compile();
+
+    app = moduleFixture.createNestApplication();
+    await app.init();
+    server = app.getHttpServer() as App;
+
+    prisma = app.get(PrismaService);
+    await prisma.users.create({
+      data: { userId, phoneNumber: `+1555${Date.now() % 10000000}` },
+    });
+
+    const token = app
+      .get(JwtService)
+      .sign({ userId }, { secret: process.env.JWT_SECRET });
+    auth = { Authorization: `Bearer ${token}` };
+  });
+
+  afterEach(() => {
+    fake.reset();
+  });
+
+  afterAll(async () => {
+    try {
+      await prisma?.users.deleteMany({
+        where: { userId, recSeq: REC_SEQ.DEFAULT_RECORD },
+      });
+    } finally {
+      await app?.close();
+      await fake.stop();
+    }
+  });
+
+  const connect = async (provider: string): Promise<ConnectResponse> => {
+    const res = await request(server)
+      .post(`/integrations/${provider}/connect`)
+      .set(auth)
+      .send({ userId });
+    expect(res.status).toBe(201);
+    return res.body as ConnectResponse;
+  };
+
+  const syncAndWait = async (
+    provider: string,
+    connectionId?: string,
+  ): Promise<SyncJobView> => {
+    const res = await request(server)
+      .post(`/integrations/${provider}/sync`)
+      .set(auth)
+      .send({ userId, connectionId });
+    expect(res.status).toBe(202);
+    const { jobId } = res.body as SyncJobView;
+
+    const deadline = Date.now() + SYNC_TIMEOUT_MS;
+    for (;;) {
+      const job = await request(server)
+        .get(`/integrations/jobs/${jobId}`)
+        .query({ userId })
+        .set(auth);
+      const view = job.body as SyncJobView;
+      if (
+        view.status === SYNC_JOB_STATUS.COMPLETED ||
+        view.status === SYNC_JOB_STATUS.DEAD_LETTER ||
+        Date.now() > deadline
+      ) {
+        return view;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 200));
+    }
+  };
+
+  const status = async (provider: string): Promise<StatusResponse> => {
+    const res = await request(server)
+      .get(`/integrations/${provider}/status`)
+      .query({ userId })
+      .set(auth);
+    expect(res.status).toBe(200);
+    return res.body as StatusResponse;
+  };
+
+  describe.each([
+    ['strava', 'www.strava.com/api/v3/athlete/activities'],
+    ['spotify', 'api.spotify.com/v1/me/player/recently-played'],
+    ['email_scraper', 'gmail.googleapis.com/gmail/v1/users/me/messages'],
+    ['contact_list', 'people.googleapis.com/v1/people/me/connections'],
+  ])('%s', (provider, dataApi) => {
+    it('should connect through the OAuth flow, sync and report connected', async () => {
+      const { redirectUrl } = await connect(provider);
+      const { code, state } = await fake.authorize(redirectUrl);
+
+      const callback = await request(server)
+        .post(`/integrations/${provider}/callback`)
+        .send({ code, state });
+      expect(callback.status).toBe(201);
+
+      const job = await syncAndWait(provider);
+      expect(job).toMatchObject({
+        status: SYNC_JOB_STATUS.COMPLETED,
+        lastError: null,
+      });
+      expect(fake.requests.some((r) => `${r.host}${r.path}` === dataApi)).toBe(
+        true,
+      );
+
+      const view = await status(provider);
+      expect(view.connected).toBe(true);
+      expect(typeof view.lastSyncedAt).toBe('string');
+    });
+  });
+
+  describe('plaid', () => {
+    it('should exchange the Link public token, sync transactions and report connected', async () => {
+      const { linkToken, state } = await connect('plaid');
+      expect(linkToken).toMatch(/^link-sandbox-/);
+
+      const callback = await request(server)
+        .post('/integrations/plaid/callback')
+        .send({ public_token: fake.createPlaidPublicToken(), state });
+      expect(callback.status).toBe(201);
+
+      const job = await syncAndWait('plaid');
+      expect(job.status).toBe(SYNC_JOB_STATUS.COMPLETED);
+      const syncs = fake.requests.filter(
+        (r) => r.path === '/transactions/sync',
+      );
+      expect(syncs.length).toBeGreaterThan(0);
+      // The second sync resumes from the cursor stored by the first
+      expect(syncs[syncs.length - 1].body.cursor).toBe('fake-cursor-1');
+
+      await expect(status('plaid')).resolves.toMatchObject({
+        connected: true,
+      });
+    });
+
+    it('should keep a second Item as its own connection', async () => {
+      const first = await connect('plaid');
+      await request(server).post('/integrations/plaid/callback').send({
+        public_token: fake.createPlaidPublicToken(),
+        state: first.state,
+      });
+      const second = await connect('plaid');
+      await request(server).post('/integrations/plaid/callback').send({
+        public_token: fake.createPlaidPublicToken(),
+        state: second.state,
+      });
+      expect(second.connectionId).not.toBe(first.connectionId);
+
+      const job = await syncAndWait('plaid', second.connectionId);
+      expect(job).toMatchObject({
+        status: SYNC_JOB_STATUS.COMPLETED,
+        connectionId: second.connectionId,
+      });
+
+      const res = await request(server)
+        .get('/integrations/plaid/connections')
+        .query({ userId })
+        .set(auth);
+      const connections = (
+        res.body as { connections: { connectionId: string; status: string }[] }
+      ).connections;
+      expect(connections).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({
+            connectionId: first.connectionId,
+            status: 'CONNECTED',
+          }),
+          expect.objectContaining({
+            connectionId: second.connectionId,
+            status: 'CONNECTED',
+          }),
+        ]),
+      );
+    });
+  });
+
+  describe('provider failures', () => {
+    it('should reject the callback when the token endpoint refuses the code', async () => {
+      fake.respond('POST www.strava.com/oauth/token', {
+        status: 401,
+        body: { message: 'Authorization Error', errors: [] },
+      });
+      const { redirectUrl } = await connect('strava');
+      const { code, state } = await fake.authorize(redirectUrl);
+
+      const callback = await request(server)
+        .post('/integrations/strava/callback')
+        .send({ code, state });
+
+      expect(callback.status).toBe(401);
+      expect(callback.body).toMatchObject({ errorCode: 'OAUTH_AUTH_FAILED' });
+    });
+
+    it('should send the PKCE verifier that matches the challenge from connect', async () => {
+      const { redirectUrl } = await connect('spotify');
+      const { code, state } = await fake.authorize(redirectUrl);
+      await request(server)
+        .post('/integrations/spotify/callback')
+        .send({ code, state });
+
+      const tokenRequest = fake.requests.find(
+        (r) =>
+          r.path === '/api/token' && r.body.grant_type === 'authorization_code',
+      );
+      const challenge = new URL(redirectUrl).searchParams.get('code_challenge');
+      expect(
+        crypto
+          .createHash('sha256')
+          .update(tokenRequest.body.code_verifier)
+          .digest('base64url'),
+      ).toBe(challenge);
+    });
+  });
+});